@@ -58,6 +58,7 @@ async function buildForTarget(browserTarget) {
     `${srcDir}/background/background.ts`,
     `${srcDir}/content/content.ts`,
     `${srcDir}/popup/popup.ts`,
+    `${srcDir}/dashboard/dashboard.ts`,
   ];
 
   // Chrome MV3 uses ES modules for service workers, Firefox MV2 uses IIFE
@@ -84,6 +85,9 @@ async function buildForTarget(browserTarget) {
   const staticFiles = [
     { src: `${srcDir}/popup/popup.html`, dest: `${distDir}/popup/popup.html` },
     { src: `${srcDir}/popup/popup.css`, dest: `${distDir}/popup/popup.css` },
+    { src: `${srcDir}/dashboard/dashboard.html`, dest: `${distDir}/dashboard/dashboard.html` },
+    { src: `${srcDir}/dashboard/dashboard.css`, dest: `${distDir}/dashboard/dashboard.css` },
+    { src: `${srcDir}/schema/export.schema.json`, dest: `${distDir}/schema/export.schema.json` },
   ];
 
   staticFiles.forEach(({ src, dest }) => {
@@ -5,6 +5,7 @@
 
 import browser from 'webextension-polyfill';
 import type { DownloadData, MessagePayload } from '../types';
+import { encodeBase64 } from '../utils/zipUtils';
 
 /**
  * Get localized message from browser i18n API
@@ -38,7 +39,17 @@ browser.runtime.onMessage.addListener((message: any, _sender: any) => {
  * Download file using the browser's download API
  */
 async function downloadFile(data: DownloadData): Promise<number> {
-  const { content, fileName, mimeType } = data;
+  const { content, fileName, mimeType, encoding, blob } = data;
+
+  // Remote files are fetched by the browser with the user's session
+  if (data.url) {
+    return browser.downloads.download({
+      url: data.url,
+      filename: fileName,
+      saveAs: false,
+      conflictAction: 'overwrite',
+    });
+  }
 
   let url: string;
   let isObjectUrl = false;
@@ -47,12 +58,23 @@ async function downloadFile(data: DownloadData): Promise<number> {
   // Service workers don't have access to Blob/URL.createObjectURL
   if (typeof Blob !== 'undefined' && typeof URL !== 'undefined' && URL.createObjectURL) {
     // Firefox: Use Blob URL
-    const blob = new Blob([content], { type: mimeType });
-    url = URL.createObjectURL(blob);
+    const file =
+      blob ||
+      new Blob([encoding === 'base64' ? decodeBase64(content) : content], {
+        type: mimeType,
+      });
+    url = URL.createObjectURL(file);
     isObjectUrl = true;
   } else {
     // Chrome MV3 service worker: Use data URL
-    const base64Content = globalThis.btoa(unescape(encodeURIComponent(content)));
+    let base64Content: string;
+    if (blob) {
+      base64Content = encodeBase64(new Uint8Array(await blob.arrayBuffer()));
+    } else if (encoding === 'base64') {
+      base64Content = content;
+    } else {
+      base64Content = globalThis.btoa(unescape(encodeURIComponent(content)));
+    }
     url = `data:${mimeType};base64,${base64Content}`;
   }
 
@@ -79,6 +101,18 @@ async function downloadFile(data: DownloadData): Promise<number> {
   }
 }
 
+/**
+ * Decode base64 content into bytes
+ */
+function decodeBase64(content: string): Uint8Array<ArrayBuffer> {
+  const binary = globalThis.atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
 // Log when extension is installed or updated
 browser.runtime.onInstalled.addListener((details) => {
   if (details.reason === 'install') {
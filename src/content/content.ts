@@ -1,28 +1,146 @@
 /**
  * Order History Exporter for Amazon - Content Script
- * Scrapes order data from Amazon order history pages using browser navigation
+ * Scrapes order data from Amazon order history pages fetched in the background
  */
 
 import browser from 'webextension-polyfill';
-import type { ExportOptions, ExportState, Order, OrderItem, Promotion } from '../types';
+import type {
+  DownloadData,
+  ExportHistory,
+  ExportOptions,
+  ExportState,
+  ExportStatus,
+  InvoiceLinkKind,
+  InvoiceProgress,
+  Money,
+  Order,
+  OrderItem,
+  OrderType,
+  ProductCache,
+  ProductInfo,
+  ProgressData,
+  Promotion,
+  Refund,
+  Shipment,
+  ShipmentItem,
+  Subscription,
+} from '../types';
+import type { ArchiveImage, ExportMetadata } from '../utils';
 import {
-  parseDate,
+  extractOrderDate,
   filterYearsByDateRange,
   buildOrderPageUrl,
+  buildDigitalOrderPageUrl,
   getOrderHistoryBaseUrl,
+  getDigitalOrderHistoryBaseUrl,
   extractAsinFromUrl,
+  buildProductUrl,
+  addMoney,
+  formatMoney,
+  moneyEquals,
+  subtractMoney,
+  sumMoney,
+  zeroMoney,
+  createItemTotals,
+  resolveUnitPrice,
+  allocateItemTotals,
   isAdvertisementOrder,
   convertOrdersToCSV,
+  convertOrdersToJSON,
+  convertOrdersToOFX,
+  convertOrdersToQIF,
+  convertOrdersToXLSX,
+  encodeBase64,
+  convertOrdersToJournal,
+  DEFAULT_JOURNAL_OPTIONS,
   extractOrderId,
+  extractOrderIds,
   extractOrderIdFromUrl,
+  isDigitalOrderId,
   extractPriceFromText,
-  parsePrice,
+  extractOrderStatus,
+  extractPromotionAmount,
+  extractQuantity,
+  extractTrackingId,
+  extractTrackingIdFromUrl,
+  parseCostBreakdown,
+  parsePayments,
+  parseRefundText,
+  mergeRefunds,
+  getNetAmount,
+  getReturnsCenterUrl,
+  getMembershipsUrl,
+  getSubscribeAndSaveUrl,
+  hasSubscribeAndSaveLabel,
+  parseSubscriptionText,
+  parseSubscriptionCharges,
+  linkSubscribeAndSaveOrders,
+  parseShipmentText,
+  findPrices,
+  getSiteProfile,
+  hasPromotionKeyword,
+  classifyPromotion,
+  scorePromotion,
+  isLikelyPromotion,
+  MIN_PROMOTION_CONFIDENCE,
+  parseSeller,
+  isFulfilledByAmazon,
+  parseProductInfo,
+  getProductCacheKey,
+  resolveImageUrl,
+  getThumbnailUrl,
+  getImageExtension,
+  createOrderArchive,
+  escapeRegExp,
+  getMarketplaceFromUrl,
+  getExportHistoryKey,
+  isOrderNewOrChanged,
+  mergeExportHistory,
+  createFetchScheduler,
+  createExportRunId,
+  getExportRunKey,
+  isExportRunStale,
+  pauseExportRun,
+  buildInvoiceFileName,
+  classifyInvoiceUrl,
+  extractPopoverUrl,
+  getInvoiceFileExtension,
+  groupInvoiceUrls,
+  summarizeOrderIds,
+  EXPORT_SCHEMA_VERSION,
 } from '../utils';
+import {
+  appendExportOrders,
+  deleteExportRun,
+  loadExportOrderChunk,
+  loadExportOrderIds,
+  loadExportOrders,
+  loadExportRun,
+  saveExportOrderChunk,
+  saveExportRun,
+  saveLastExport,
+} from './exportStore';
 
 (function (): void {
   'use strict';
 
+  // Holds the ID of the export run owned by this tab, so a page reload resumes it
   const STORAGE_KEY = 'amazonExporter';
+  const marketplace = getMarketplaceFromUrl(window.location.href);
+  // Month names, phrases and number formats used by the parsers on this marketplace
+  const siteProfile = getSiteProfile(marketplace);
+  // Shared by list and details pages so throttling by Amazon slows down both
+  const fetchScheduler = createFetchScheduler();
+  // Product images come from Amazon's image servers, which allow more parallel requests
+  const imageFetchScheduler = createFetchScheduler({ concurrency: 6, minDelayMs: 20 });
+  // Limits the returns center pages fetched per export
+  const MAX_RETURNS_CENTER_PAGES = 20;
+  // Limits the subscription pages fetched for past charges per export
+  const MAX_SUBSCRIPTION_PAGES = 20;
+
+  // Export running in this tab, kept so it can be paused or cancelled
+  let activeRun: { state: ExportState; controller: AbortController; done: Promise<void> } | null =
+    null;
 
   /**
    * Get localized message from browser i18n API
@@ -31,79 +149,167 @@ import {
     return browser.i18n.getMessage(key, substitutions) || key;
   }
 
-  // Check if we're in the middle of an export operation
-  checkExportState();
+  // Check if an export was interrupted by a page reload
+  checkExportState().catch((error) => {
+    console.warn('[Amazon Exporter] Failed to check export state:', error);
+  });
 
   // Listen for messages from popup
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   browser.runtime.onMessage.addListener((message: any, _sender: any) => {
-    const msg = message as { action: string; options?: ExportOptions };
+    const msg = message as {
+      action: string;
+      options?: ExportOptions;
+      downloadPartial?: boolean;
+    };
 
     if (msg.action === 'exportOrders' && msg.options) {
-      startExport(msg.options);
+      // Failures before the run takes over, e.g. of the storage, are reported here
+      startExport(msg.options).catch((error) => {
+        console.error('[Amazon Exporter] Failed to start export:', error);
+        updateProgress(0, getMessage('exportFailedGeneric'), true);
+      });
       return Promise.resolve({ success: true, message: 'Export started' });
     }
     if (msg.action === 'getExportStatus') {
-      const state = getExportState();
-      return Promise.resolve(state ? { success: true, ...state } : { success: false });
+      return loadExportState().then(toStatusResponse);
+    }
+    if (msg.action === 'pauseExport') {
+      return pauseExport().then(toStatusResponse);
+    }
+    if (msg.action === 'resumeExport') {
+      return resumeExport().then(toStatusResponse);
+    }
+    if (msg.action === 'cancelExport') {
+      return cancelExport(msg.downloadPartial === true).then((success) => ({ success }));
     }
 
     return undefined;
   });
 
+  // A popup in another tab pauses or cancels this tab's export through storage
+  browser.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local' || !activeRun) return;
+
+    const change = changes[getExportRunKey(activeRun.state.runId)];
+    if (!change) return;
+
+    const stored = change.newValue as ExportState | undefined;
+    if (!stored || !stored.inProgress || stored.paused) {
+      activeRun.state.inProgress = stored?.inProgress === true;
+      activeRun.state.paused = stored?.paused === true;
+      activeRun.controller.abort();
+    }
+  });
+
   /**
-   * Get export state from sessionStorage
+   * Get the export state of the run in this tab, or the stored run of this marketplace
    */
-  function getExportState(): ExportState | null {
+  async function loadExportState(): Promise<ExportState | null> {
+    return activeRun?.state || (await loadExportRun(marketplace));
+  }
+
+  /**
+   * Remove an export run from storage
+   */
+  async function clearExportState(state: ExportState): Promise<void> {
+    if (sessionStorage.getItem(STORAGE_KEY) === state.runId) {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+    await deleteExportRun(state);
+  }
+
+  /**
+   * Load the orders exported in earlier runs for a marketplace
+   */
+  async function loadExportHistory(marketplace: string): Promise<ExportHistory> {
+    const key = getExportHistoryKey(marketplace);
     try {
-      const data = sessionStorage.getItem(STORAGE_KEY);
-      return data ? (JSON.parse(data) as ExportState) : null;
-    } catch {
-      return null;
+      const data = await browser.storage.local.get(key);
+      return (data[key] as ExportHistory | undefined) || {};
+    } catch (error) {
+      console.warn('[Amazon Exporter] Failed to load export history:', error);
+      return {};
     }
   }
 
   /**
-   * Save export state to sessionStorage
+   * Load the product details read in earlier exports of a marketplace
    */
-  function saveExportState(state: ExportState): void {
-    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  async function loadProductCache(marketplace: string): Promise<ProductCache> {
+    const key = getProductCacheKey(marketplace);
+    try {
+      const data = await browser.storage.local.get(key);
+      return (data[key] as ProductCache | undefined) || {};
+    } catch (error) {
+      console.warn('[Amazon Exporter] Failed to load product cache:', error);
+      return {};
+    }
   }
 
   /**
-   * Clear export state
+   * Remember exported orders for the next incremental export
    */
-  function clearExportState(): void {
-    sessionStorage.removeItem(STORAGE_KEY);
+  async function saveExportHistory(state: ExportState): Promise<void> {
+    let history = await loadExportHistory(state.marketplace);
+    for (let i = 0; i < state.orderChunkCount; i++) {
+      history = mergeExportHistory(history, await loadExportOrderChunk(state.runId, i));
+    }
+    await browser.storage.local.set({ [getExportHistoryKey(state.marketplace)]: history });
   }
 
   /**
-   * Check if we should continue an export after page navigation
+   * Replace the export shown by the dashboard page with the orders of this run, linking
+   * the subscriptions one stored chunk at a time
    */
-  function checkExportState(): void {
-    // Wait for page to be fully loaded
-    if (document.readyState !== 'complete') {
-      window.addEventListener('load', () => {
-        setTimeout(checkExportState, 500);
-      });
-      return;
+  async function saveDashboardExport(state: ExportState): Promise<void> {
+    let subscriptions = state.subscriptions || [];
+    for (let i = 0; i < state.orderChunkCount; i++) {
+      const orders = await loadExportOrderChunk(state.runId, i);
+      subscriptions = linkSubscribeAndSaveOrders(subscriptions, orders);
     }
+    await saveLastExport(state, {
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      ...buildExportMetadata(state),
+      subscriptions,
+    });
+  }
 
-    // Additional delay to let Amazon's JS render
-    setTimeout(() => {
-      const state = getExportState();
-      if (state && state.inProgress) {
-        console.log('[Amazon Exporter]', getMessage('resumingExport'), state);
-        continueExport(state);
-      }
-    }, 1500);
+  /**
+   * Resume the export of this tab after a page reload, unless it was paused.
+   * Runs interrupted by closing the tab or browser are resumed from the popup.
+   */
+  async function checkExportState(): Promise<void> {
+    const ownRunId = sessionStorage.getItem(STORAGE_KEY);
+    if (!ownRunId) return;
+
+    const state = await loadExportRun(marketplace);
+    if (state && state.runId === ownRunId && state.inProgress && !state.paused) {
+      console.log('[Amazon Exporter]', getMessage('resumingExport'), state.runId);
+      runExportInBackground(state);
+    }
   }
 
   /**
    * Start a new export
    */
-  function startExport(options: ExportOptions): void {
-    const { format, startDate, endDate, exportAll } = options;
+  async function startExport(options: ExportOptions): Promise<void> {
+    if (activeRun) return;
+
+    const {
+      format,
+      startDate,
+      endDate,
+      exportAll,
+      incremental,
+      orderTypes,
+      includeSubscriptions,
+      enrichProducts,
+      downloadInvoices,
+      journalOptions,
+      csvProfile,
+      csvHeaderLabels,
+    } = options;
 
     // Get available years
     const years = getAvailableYears();
@@ -121,161 +327,709 @@ import {
       return;
     }
 
+    // A new export replaces an unfinished one
+    const previousState = await loadExportRun(marketplace);
+    if (previousState) {
+      await clearExportState(previousState);
+    }
+
     // Initialize export state
     const state: ExportState = {
+      runId: createExportRunId(),
       inProgress: true,
+      paused: false,
+      updatedAt: '',
       format: format,
       startDate: startDate,
       endDate: endDate,
       exportAll: exportAll,
+      orderTypes: orderTypes,
+      currentOrderTypeIndex: 0,
       yearsToProcess: yearsToProcess,
       currentYearIndex: 0,
       currentStartIndex: 0,
-      collectedOrders: [],
-      seenOrderIds: [],
+      orderCount: 0,
+      orderChunkCount: 0,
       baseUrl: getOrderHistoryBaseUrl(window.location.href),
+      digitalBaseUrl: getDigitalOrderHistoryBaseUrl(window.location.href),
+      incremental: incremental,
+      includeSubscriptions: includeSubscriptions,
+      enrichProducts: enrichProducts,
+      marketplace: marketplace,
+      downloadInvoices: downloadInvoices,
+      journalOptions: journalOptions,
+      csvProfile: csvProfile,
+      csvHeaderLabels: csvHeaderLabels,
     };
 
-    saveExportState(state);
+    await saveExportRun(state);
+    console.log('[Amazon Exporter] Starting export', state.runId);
+
+    await runExport(state);
+  }
+
+  /**
+   * Run an export without waiting for it. runExport handles failures of the run itself;
+   * this reports the ones it cannot, e.g. saving the paused run.
+   */
+  function runExportInBackground(state: ExportState): void {
+    runExport(state).catch((error) => {
+      console.error('[Amazon Exporter] Export failed:', error);
+      updateProgress(calculateProgress(state), getMessage('exportFailedGeneric'), true);
+    });
+  }
+
+  /**
+   * Fetch and scrape order list pages in the background until all years are processed.
+   * The user's tab stays on the page they are viewing.
+   */
+  async function runExport(state: ExportState): Promise<void> {
+    const controller = new AbortController();
+    let markDone = (): void => undefined;
+    const done = new Promise<void>((resolve) => {
+      markDone = resolve;
+    });
+    activeRun = { state, controller, done };
+    sessionStorage.setItem(STORAGE_KEY, state.runId);
+
+    try {
+      const pagesDone = await processOrderPages(state, controller.signal);
+      if (pagesDone && !controller.signal.aborted) {
+        await finishExport(state, controller.signal);
+      }
+    } catch (error) {
+      // Storage errors; the run stays stored and can be resumed from the popup
+      console.error('[Amazon Exporter] Export failed:', error);
+      state.paused = true;
+      updateProgress(calculateProgress(state), getMessage('exportFailedGeneric'), true);
+    } finally {
+      if (activeRun?.controller === controller) {
+        activeRun = null;
+      }
+      try {
+        // Keep details fetched before a pause
+        if (state.paused && state.inProgress) {
+          await saveExportRun(state);
+        }
+      } finally {
+        markDone();
+      }
+    }
+  }
+
+  /**
+   * Scrape all remaining order list pages, the order history first, then the digital orders.
+   * Returns false when the export was paused, cancelled or failed.
+   */
+  async function processOrderPages(state: ExportState, signal: AbortSignal): Promise<boolean> {
+    if (state.currentOrderTypeIndex >= state.orderTypes.length) return true;
+
+    // Kept in memory only; the stored run holds the IDs per chunk and not the previous export
+    const seenOrderIds = await loadExportOrderIds(state);
+    const knownOrders = state.incremental ? await loadExportHistory(state.marketplace) : {};
 
-    const firstYear = yearsToProcess[0];
-    if (!firstYear) return;
+    while (state.currentOrderTypeIndex < state.orderTypes.length) {
+      const orderType = state.orderTypes[state.currentOrderTypeIndex];
+      const currentYear = state.yearsToProcess[state.currentYearIndex];
+      if (!orderType) break;
+      if (!currentYear) {
+        // Continue with the first year of the next order list
+        state.currentOrderTypeIndex++;
+        state.currentYearIndex = 0;
+        state.currentStartIndex = 0;
+        continue;
+      }
 
-    // Navigate to first year's first page
-    const firstUrl = buildOrderPageUrl(state.baseUrl, firstYear, 0);
-    console.log('[Amazon Exporter] Starting export, navigating to:', firstUrl);
+      const pageNum = String(Math.floor(state.currentStartIndex / 10) + 1);
+      updateProgress(
+        calculateProgress(state),
+        getMessage(orderType === 'digital' ? 'processingDigitalYear' : 'processingYear', [
+          currentYear,
+          pageNum,
+        ])
+      );
 
-    // If we're already on the right page, scrape directly
-    if (
-      window.location.href.includes(`timeFilter=year-${firstYear}`) &&
-      !window.location.href.includes('startIndex')
-    ) {
-      scrapeCurrentPageAndContinue(state);
-    } else {
-      window.location.href = firstUrl;
+      const pageUrl =
+        orderType === 'digital'
+          ? buildDigitalOrderPageUrl(state.digitalBaseUrl, currentYear, state.currentStartIndex)
+          : buildOrderPageUrl(state.baseUrl, currentYear, state.currentStartIndex);
+      let doc: Document;
+      try {
+        doc = await fetchDocument(pageUrl, signal);
+      } catch (error) {
+        if (signal.aborted) return false;
+        // Keep the run paused so it can be resumed once Amazon responds again
+        console.error('[Amazon Exporter] Failed to fetch order page:', pageUrl, error);
+        sendProgress(
+          pauseExportRun(state, calculateProgress(state), getMessage('exportFetchFailed'))
+        );
+        return false;
+      }
+      if (signal.aborted) return false;
+
+      const { newOrders, pageOrderCount, reachedKnownOrders } = scrapeOrderPage(
+        state,
+        doc,
+        orderType,
+        seenOrderIds,
+        knownOrders
+      );
+
+      if (reachedKnownOrders) {
+        // Skip the remaining years of this order list
+        console.log('[Amazon Exporter] Reached previously exported', orderType, 'orders');
+        state.currentYearIndex = state.yearsToProcess.length;
+        await appendExportOrders(state, newOrders);
+        continue;
+      }
+
+      if (checkForNextPage(doc) && pageOrderCount > 0) {
+        // Continue with next page of current year
+        state.currentStartIndex += 10;
+      } else {
+        // Move to next year
+        state.currentYearIndex++;
+        state.currentStartIndex = 0;
+      }
+
+      // Orders and progress are saved together, so a resumed run never collects a page twice
+      await appendExportOrders(state, newOrders);
     }
+
+    return true;
   }
 
   /**
-   * Continue an export after page navigation
+   * Fetch a page with the user's session and parse it into a document
    */
-  function continueExport(state: ExportState): void {
-    const currentYear = state.yearsToProcess[state.currentYearIndex];
-    const pageNum = String(Math.floor(state.currentStartIndex / 10) + 1);
-    updateProgress(
-      calculateProgress(state),
-      getMessage('processingYear', [currentYear || '', pageNum])
-    );
+  async function fetchDocument(url: string, signal?: AbortSignal): Promise<Document> {
+    // Throws once the scheduler gave up retrying
+    const response = await fetchScheduler.fetch(url, {
+      credentials: 'include',
+      signal,
+    });
 
-    scrapeCurrentPageAndContinue(state);
+    const html = await response.text();
+    const parser = new DOMParser();
+    return parser.parseFromString(html, 'text/html');
   }
 
   /**
-   * Scrape the current page and decide what to do next
+   * Scrape a fetched order list page and return the orders to add to the export
+   * @param seenOrderIds - IDs of the orders collected so far, updated with the new ones
+   * @param knownOrders - Orders of the previous export, for incremental exports
    */
-  function scrapeCurrentPageAndContinue(state: ExportState): void {
+  function scrapeOrderPage(
+    state: ExportState,
+    doc: Document,
+    orderType: OrderType,
+    seenOrderIds: Set<string>,
+    knownOrders: ExportHistory
+  ): { newOrders: Order[]; pageOrderCount: number; reachedKnownOrders: boolean } {
     const startDateObj = state.startDate ? new Date(state.startDate) : null;
     const endDateObj = state.endDate ? new Date(state.endDate) : null;
 
-    // Scrape orders from current page
+    // Scrape orders from the fetched page
     const pageOrders = scrapeVisibleOrders(
+      doc,
+      orderType,
       startDateObj,
       endDateObj,
       state.exportAll,
-      new Set(state.seenOrderIds)
+      seenOrderIds
     );
 
     console.log('[Amazon Exporter] Found', pageOrders.length, 'orders on this page');
 
-    // Add to collected orders (avoiding duplicates)
+    // Orders are listed newest first, so an unchanged known order means the rest was exported before
+    const reachedKnownOrders =
+      state.incremental && pageOrders.some((order) => !isOrderNewOrChanged(order, knownOrders));
+
+    // Collect new orders (avoiding duplicates)
+    const newOrders: Order[] = [];
     pageOrders.forEach((order) => {
-      if (!state.seenOrderIds.includes(order.orderId)) {
-        state.collectedOrders.push(order);
-        state.seenOrderIds.push(order.orderId);
+      if (!state.orderTypes.includes(order.orderType)) {
+        return;
+      }
+      if (state.incremental && !isOrderNewOrChanged(order, knownOrders)) {
+        return;
+      }
+      if (!seenOrderIds.has(order.orderId)) {
+        newOrders.push(order);
+        seenOrderIds.add(order.orderId);
       }
     });
 
-    // Check if there are more pages for current year
-    const hasNextPage = checkForNextPage();
+    return { newOrders, pageOrderCount: pageOrders.length, reachedKnownOrders };
+  }
 
-    if (hasNextPage && pageOrders.length > 0) {
-      // Navigate to next page of current year
-      state.currentStartIndex += 10;
-      saveExportState(state);
+  /**
+   * Finish the export and download the file
+   */
+  async function finishExport(state: ExportState, signal: AbortSignal): Promise<void> {
+    console.log('[Amazon Exporter] Export complete. Total orders:', state.orderCount);
+
+    // A run paused while downloading invoices continues with the invoices
+    if (!state.fileDownloaded) {
+      // Subscriptions are fetched once; a resumed run keeps the stored ones
+      if (state.includeSubscriptions && !state.subscriptions) {
+        updateProgress(80, getMessage('fetchingSubscriptions'));
+        const subscriptions = await fetchSubscriptions(signal);
+        if (signal.aborted) return;
+        state.subscriptions = subscriptions;
+        await saveExportRun(state);
+      }
 
-      const currentYear = state.yearsToProcess[state.currentYearIndex];
-      if (!currentYear) return;
+      updateProgress(80, getMessage('fetchingPrices', [String(state.orderCount)]));
 
-      const nextUrl = buildOrderPageUrl(state.baseUrl, currentYear, state.currentStartIndex);
-      console.log('[Amazon Exporter] Navigating to next page:', nextUrl);
-      window.location.href = nextUrl;
-      return;
-    }
+      // Fetch item prices for multi-item orders
+      await fetchOrderDetailsForPrices(state, signal);
+      if (signal.aborted) return;
 
-    // Move to next year
-    state.currentYearIndex++;
-    state.currentStartIndex = 0;
+      if (state.enrichProducts) {
+        updateProgress(90, getMessage('fetchingProducts'));
+        await enrichOrderProducts(state, signal);
+        if (signal.aborted) return;
+      }
 
-    if (state.currentYearIndex < state.yearsToProcess.length) {
-      // Navigate to first page of next year
-      saveExportState(state);
+      updateProgress(95, getMessage('generatingFile'));
 
-      const nextYear = state.yearsToProcess[state.currentYearIndex];
-      if (!nextYear) return;
+      // Generate file and download via background script. Only the file needs all orders
+      // at once; the history and the dashboard export read the stored chunks one by one.
+      await downloadExportFile(state, await loadExportOrders(state), signal);
+      if (signal.aborted) return;
 
-      const nextUrl = buildOrderPageUrl(state.baseUrl, nextYear, 0);
-      console.log('[Amazon Exporter] Navigating to next year:', nextUrl);
-      window.location.href = nextUrl;
-      return;
+      // Remember exported orders for the next incremental export
+      try {
+        await saveExportHistory(state);
+      } catch (error) {
+        console.warn('[Amazon Exporter] Failed to save export history:', error);
+      }
+      // Keep the export for the dashboard page, whatever its file format
+      try {
+        await saveDashboardExport(state);
+      } catch (error) {
+        console.warn('[Amazon Exporter] Failed to save export for the dashboard:', error);
+      }
+      state.fileDownloaded = true;
     }
 
-    // All done - finish export
-    finishExport(state);
+    let message = getMessage('exportComplete', [String(state.orderCount)]);
+    if (state.downloadInvoices) {
+      await saveExportRun(state);
+      const progress = await downloadInvoices(state, signal);
+      if (signal.aborted) return;
+
+      message += ` ${getMessage('invoicesDownloaded', [String(progress.downloaded)])}`;
+      if (progress.missingOrderIds.length > 0) {
+        console.log('[Amazon Exporter] No invoice available for:', progress.missingOrderIds);
+        message += ` ${getMessage('invoicesMissing', [
+          String(progress.missingOrderIds.length),
+          summarizeOrderIds(progress.missingOrderIds),
+        ])}`;
+      }
+      if (progress.summaryOnlyOrderIds.length > 0) {
+        console.log('[Amazon Exporter] Only an order summary for:', progress.summaryOnlyOrderIds);
+        message += ` ${getMessage('invoicesSummaryOnly', [
+          String(progress.summaryOnlyOrderIds.length),
+          summarizeOrderIds(progress.summaryOnlyOrderIds),
+        ])}`;
+      }
+    }
+
+    updateProgress(100, message);
+
+    // Clear state
+    state.inProgress = false;
+    await clearExportState(state);
   }
 
   /**
-   * Finish the export and download the file
+   * Download the invoices of all exported orders, one stored chunk at a time, and collect
+   * the orders without invoice
    */
-  async function finishExport(state: ExportState): Promise<void> {
-    console.log('[Amazon Exporter] Export complete. Total orders:', state.collectedOrders.length);
+  async function downloadInvoices(
+    state: ExportState,
+    signal: AbortSignal
+  ): Promise<InvoiceProgress> {
+    if (!state.invoiceProgress) {
+      state.invoiceProgress = {
+        chunkIndex: 0,
+        completed: 0,
+        downloaded: 0,
+        missingOrderIds: [],
+        summaryOnlyOrderIds: [],
+      };
+    }
+    const progress = state.invoiceProgress;
+
+    while (progress.chunkIndex < state.orderChunkCount) {
+      const orders = await loadExportOrderChunk(state.runId, progress.chunkIndex);
+
+      // Counts are kept once the chunk is done, so a chunk resumed after a pause counts once
+      let completed = progress.completed;
+      const results = await Promise.all(
+        orders.map(async (order) => {
+          const result = await downloadOrderInvoices(order, signal);
+          completed++;
+          updateProgress(
+            95 + (completed / state.orderCount) * 4,
+            getMessage('downloadingInvoicesProgress', [String(completed), String(state.orderCount)])
+          );
+          return result;
+        })
+      );
+      if (signal.aborted) return progress;
+
+      orders.forEach((order, index) => {
+        const result = results[index];
+        if (!result || result.downloaded === 0) {
+          progress.missingOrderIds.push(order.orderId);
+        } else if (result.summaryOnly) {
+          progress.summaryOnlyOrderIds.push(order.orderId);
+        } else {
+          progress.downloaded += result.downloaded;
+        }
+      });
+      progress.completed = completed;
+      progress.chunkIndex++;
+      await saveExportRun(state);
+    }
 
-    updateProgress(80, getMessage('fetchingPrices', [String(state.collectedOrders.length)]));
+    return progress;
+  }
 
-    // Fetch item prices for multi-item orders
-    await fetchOrderDetailsForPrices(state.collectedOrders);
+  /**
+   * Download the invoices of an order via the background script.
+   * Returns the number of files downloaded and whether they are only an order summary.
+   */
+  async function downloadOrderInvoices(
+    order: Order,
+    signal: AbortSignal
+  ): Promise<{ downloaded: number; summaryOnly: boolean }> {
+    if (!order.detailsUrl) return { downloaded: 0, summaryOnly: false };
 
-    updateProgress(95, getMessage('generatingFile'));
+    let urls: string[];
+    try {
+      urls = await findInvoiceUrls(order.detailsUrl, signal);
+    } catch (error) {
+      if (!signal.aborted) {
+        console.warn('[Amazon Exporter] Failed to find invoices for', order.orderId, error);
+      }
+      return { downloaded: 0, summaryOnly: false };
+    }
 
-    // Generate file
-    let fileContent: string;
-    let fileName: string;
-    let mimeType: string;
-    const timestamp = new Date().toISOString().split('T')[0];
+    let downloaded = 0;
+    for (const [index, url] of urls.entries()) {
+      if (signal.aborted) break;
+      const extension = getInvoiceFileExtension(url);
+      const response = (await browser.runtime.sendMessage({
+        action: 'downloadFile',
+        data: {
+          content: '',
+          fileName: buildInvoiceFileName(order, index, extension),
+          mimeType: extension === 'html' ? 'text/html' : 'application/pdf',
+          url,
+        },
+      })) as { success: boolean; error?: string } | undefined;
+
+      if (response?.success) {
+        downloaded++;
+      } else {
+        console.warn('[Amazon Exporter] Failed to download invoice', url, response?.error);
+      }
+    }
+    const summaryOnly = urls.every((url) => classifyInvoiceUrl(url) === 'summary');
+    return { downloaded, summaryOnly };
+  }
+
+  /**
+   * Find the invoice documents of an order, following the invoice popover of its details
+   * page. Falls back to the printable order summary where Amazon issues no invoice documents.
+   */
+  async function findInvoiceUrls(detailsUrl: string, signal: AbortSignal): Promise<string[]> {
+    const links = getInvoiceLinks(await fetchDocument(detailsUrl, signal), detailsUrl);
+    if (links.document.length > 0) return links.document;
 
-    if (state.format === 'json') {
-      fileContent = JSON.stringify(state.collectedOrders, null, 2);
-      fileName = `amazon-orders-${timestamp}.json`;
-      mimeType = 'application/json';
-    } else {
-      fileContent = convertToCSV(state.collectedOrders);
-      fileName = `amazon-orders-${timestamp}.csv`;
-      mimeType = 'text/csv';
+    for (const popoverUrl of links.popover) {
+      const popoverLinks = getInvoiceLinks(await fetchDocument(popoverUrl, signal), popoverUrl);
+      if (popoverLinks.document.length > 0) return popoverLinks.document;
     }
 
-    // Download via background script
+    return links.summary.slice(0, 1);
+  }
+
+  /**
+   * Collect the invoice links and popovers of a page
+   */
+  function getInvoiceLinks(doc: Document, pageUrl: string): Record<InvoiceLinkKind, string[]> {
+    const urls = [
+      ...Array.from(doc.querySelectorAll('a[href]'), (link) => link.getAttribute('href') || ''),
+      ...Array.from(doc.querySelectorAll('[data-a-popover]'), (el) =>
+        extractPopoverUrl(el.getAttribute('data-a-popover') || '')
+      ),
+    ];
+    return groupInvoiceUrls(urls, pageUrl);
+  }
+
+  /**
+   * Generate the export file and download it via the background script. Archives first
+   * download the item images.
+   */
+  async function downloadExportFile(
+    state: ExportState,
+    orders: Order[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    const images = state.format === 'zip' ? await fetchItemImages(orders, signal) : [];
+    if (signal?.aborted) return;
+
     await browser.runtime.sendMessage({
       action: 'downloadFile',
-      data: {
-        content: fileContent,
-        fileName: fileName,
-        mimeType: mimeType,
-      },
+      data: buildExportFile(state, orders, images),
     });
+  }
 
-    updateProgress(100, getMessage('exportComplete', [String(state.collectedOrders.length)]));
+  /**
+   * Download a thumbnail of each product image of the orders, once per ASIN. Images that
+   * fail to load are left out of the archive.
+   */
+  async function fetchItemImages(orders: Order[], signal?: AbortSignal): Promise<ArchiveImage[]> {
+    const imageUrls = new Map<string, string>();
+    orders.forEach((order) => {
+      order.items.forEach((item) => {
+        if (item.asin && item.imageUrl && !imageUrls.has(item.asin)) {
+          imageUrls.set(item.asin, getThumbnailUrl(item.imageUrl));
+        }
+      });
+    });
 
-    // Clear state
-    clearExportState();
+    const images: ArchiveImage[] = [];
+    let completed = 0;
+    await Promise.all(
+      Array.from(imageUrls, async ([asin, url]) => {
+        try {
+          const response = await imageFetchScheduler.fetch(url, { credentials: 'omit', signal });
+          const data = new Uint8Array(await response.arrayBuffer());
+          images.push({ asin, extension: getImageExtension(url), data });
+        } catch (error) {
+          if (signal?.aborted) return;
+          console.warn('[Amazon Exporter] Error fetching image', url, error);
+        }
+        completed++;
+        updateProgress(
+          95,
+          getMessage('fetchingImagesProgress', [String(completed), String(imageUrls.size)])
+        );
+      })
+    );
+
+    // Parallel downloads finish in any order
+    return images.sort((a, b) => a.asin.localeCompare(b.asin));
+  }
+
+  /**
+   * Pause the export; the current page is fetched again on resume
+   */
+  async function pauseExport(): Promise<ExportState | null> {
+    const state = await loadExportState();
+    if (!state || !state.inProgress) return null;
+
+    state.paused = true;
+    activeRun?.controller.abort();
+    await saveExportRun(state);
+    console.log('[Amazon Exporter] Export paused');
+    updateProgress(calculateProgress(state), getMessage('exportPaused'));
+    return state;
+  }
+
+  /**
+   * Resume a paused or interrupted export in this tab
+   */
+  async function resumeExport(): Promise<ExportState | null> {
+    if (activeRun) return activeRun.state;
+
+    const state = await loadExportRun(marketplace);
+    if (!state || !state.inProgress) return null;
+
+    // Still running in another tab
+    if (!state.paused && !isExportRunStale(state)) return state;
+
+    state.paused = false;
+    await saveExportRun(state);
+    console.log('[Amazon Exporter] Export resumed', state.runId);
+    runExportInBackground(state);
+    return state;
+  }
+
+  /**
+   * Cancel the export, optionally downloading the orders collected so far
+   */
+  async function cancelExport(downloadPartial: boolean): Promise<boolean> {
+    const run = activeRun;
+    const state = await loadExportState();
+    if (!state) return false;
+
+    // Stop the running export from saving its state again
+    state.inProgress = false;
+    if (run) {
+      run.controller.abort();
+      await run.done;
+    }
+    console.log('[Amazon Exporter] Export cancelled');
+
+    const orders = downloadPartial ? await loadExportOrders(state) : [];
+    await clearExportState(state);
+
+    if (orders.length > 0) {
+      await downloadExportFile(state, orders);
+    }
+    return true;
+  }
+
+  /**
+   * Summarize the export state for the popup
+   */
+  function getExportStatus(state: ExportState): ExportStatus {
+    return {
+      inProgress: state.inProgress,
+      paused: state.paused === true || isExportRunStale(state),
+      currentYear: state.yearsToProcess[state.currentYearIndex] || '',
+      page: Math.floor(state.currentStartIndex / 10) + 1,
+      orderCount: state.orderCount,
+      percent: calculateProgress(state),
+      invoicesCompleted: state.invoiceProgress?.completed,
+    };
+  }
+
+  /**
+   * Build the popup response for an export state
+   */
+  function toStatusResponse(
+    state: ExportState | null
+  ): ({ success: true } & ExportStatus) | { success: false } {
+    return state ? { success: true, ...getExportStatus(state) } : { success: false };
+  }
+
+  /**
+   * Generate the export file content for the selected format
+   * @param images - Item images, for archives
+   */
+  function buildExportFile(
+    state: ExportState,
+    orders: Order[],
+    images: ArchiveImage[] = []
+  ): DownloadData {
+    const timestamp = new Date().toISOString().split('T')[0];
+    const fileName = `amazon-orders-${timestamp}`;
+    // Subscribe & Save orders count as charges of their subscription
+    const subscriptions = linkSubscribeAndSaveOrders(state.subscriptions || [], orders);
+
+    switch (state.format) {
+      case 'csv':
+        return {
+          content: convertToCSV(orders, state),
+          fileName: `${fileName}.csv`,
+          mimeType: 'text/csv',
+        };
+      case 'xlsx':
+        return {
+          content: encodeBase64(convertOrdersToXLSX(orders, getMessage, new Date(), subscriptions)),
+          fileName: `${fileName}.xlsx`,
+          mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          encoding: 'base64',
+        };
+      case 'ofx1':
+      case 'ofx2':
+        return {
+          content: convertOrdersToOFX(orders, state.format === 'ofx1' ? 1 : 2),
+          fileName: `${fileName}.ofx`,
+          mimeType: 'application/x-ofx',
+        };
+      case 'qif':
+        return {
+          content: convertOrdersToQIF(orders),
+          fileName: `${fileName}.qif`,
+          mimeType: 'application/qif',
+        };
+      case 'zip': {
+        const archive = createOrderArchive(
+          orders,
+          {
+            json: buildJSONContent(state, orders, subscriptions),
+            csv: convertToCSV(orders, state),
+          },
+          images
+        );
+        // Firefox passes messages as structured clones, which carry the Blob itself; Chrome
+        // only passes JSON, so the archive is base64-encoded there
+        if (typeof browser.runtime.getBrowserInfo === 'function') {
+          return {
+            content: '',
+            fileName: `${fileName}.zip`,
+            mimeType: 'application/zip',
+            blob: new Blob([archive], { type: 'application/zip' }),
+          };
+        }
+        return {
+          content: encodeBase64(archive),
+          fileName: `${fileName}.zip`,
+          mimeType: 'application/zip',
+          encoding: 'base64',
+        };
+      }
+      case 'beancount':
+      case 'ledger':
+        return {
+          content: convertOrdersToJournal(orders, {
+            ...DEFAULT_JOURNAL_OPTIONS,
+            ...state.journalOptions,
+            dialect: state.format,
+          }),
+          fileName: `${fileName}.${state.format}`,
+          mimeType: 'text/plain',
+        };
+      default:
+        return {
+          content: buildJSONContent(state, orders, subscriptions),
+          fileName: `${fileName}.json`,
+          mimeType: 'application/json',
+        };
+    }
+  }
+
+  /**
+   * Describe the run in the envelope of a JSON export
+   */
+  function buildExportMetadata(state: ExportState): ExportMetadata {
+    return {
+      generator: {
+        name: 'order-history-exporter-for-amazon',
+        version: browser.runtime.getManifest().version,
+      },
+      exportedAt: new Date().toISOString(),
+      marketplace: state.marketplace,
+      range: {
+        startDate: state.startDate,
+        endDate: state.endDate,
+        exportAll: state.exportAll,
+      },
+      formatOptions: {
+        format: state.format,
+        incremental: state.incremental,
+      },
+    };
+  }
+
+  /**
+   * Generate the JSON export with the metadata of the run
+   */
+  function buildJSONContent(
+    state: ExportState,
+    orders: Order[],
+    subscriptions: Subscription[]
+  ): string {
+    return convertOrdersToJSON(orders, buildExportMetadata(state), subscriptions);
   }
 
   /**
@@ -284,7 +1038,12 @@ import {
   function calculateProgress(state: ExportState): number {
     const yearProgress = state.currentYearIndex / state.yearsToProcess.length;
     const pageProgress = Math.min(state.currentStartIndex / 100, 0.9);
-    return Math.floor((yearProgress + pageProgress / state.yearsToProcess.length) * 75) + 5;
+    const listProgress = Math.min(
+      (state.currentOrderTypeIndex + yearProgress + pageProgress / state.yearsToProcess.length) /
+        state.orderTypes.length,
+      1
+    );
+    return Math.floor(listProgress * 75) + 5;
   }
 
   /**
@@ -359,32 +1118,41 @@ import {
   }
 
   /**
-   * Check if there's a next page
+   * Check if the given order list page has a next page
    */
-  function checkForNextPage(): boolean {
+  function checkForNextPage(doc: Document): boolean {
+    if (findNextPageLink(doc)) {
+      console.log('[Amazon Exporter] Next page button found');
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Find the link to the next page of a paginated list
+   */
+  function findNextPageLink(doc: Document): Element | null {
     const nextSelectors = [
       '.a-pagination .a-last:not(.a-disabled) a',
-      'a[aria-label*="Nächste"]',
-      'a[aria-label*="Next"]',
+      ...siteProfile.nextPageLabels.map((label) => `a[aria-label*="${label}"]`),
       '.a-pagination li:last-child:not(.a-disabled) a',
       'a.a-last:not(.a-disabled)',
     ];
 
     for (const selector of nextSelectors) {
-      const nextBtn = document.querySelector(selector);
-      if (nextBtn) {
-        console.log('[Amazon Exporter] Next page button found');
-        return true;
-      }
+      const nextBtn = doc.querySelector(selector);
+      if (nextBtn) return nextBtn;
     }
 
-    return false;
+    return null;
   }
 
   /**
-   * Scrape orders from the currently visible page
+   * Scrape orders from an order list page
    */
   function scrapeVisibleOrders(
+    doc: Document,
+    orderType: OrderType,
     startDateObj: Date | null,
     endDateObj: Date | null,
     exportAll: boolean,
@@ -392,8 +1160,7 @@ import {
   ): Order[] {
     const orders: Order[] = [];
 
-    console.log('[Amazon Exporter] Scraping visible page...');
-    console.log('[Amazon Exporter] URL:', window.location.href);
+    console.log('[Amazon Exporter] Scraping order page...');
 
     // Try multiple selectors for order cards
     const orderSelectors = [
@@ -407,10 +1174,9 @@ import {
       '[class*="order-card"]',
     ];
 
-    let orderElements: NodeListOf<Element> | Element[] =
-      document.querySelectorAll('.__nonexistent__');
+    let orderElements: NodeListOf<Element> | Element[] = doc.querySelectorAll('.__nonexistent__');
     for (const selector of orderSelectors) {
-      orderElements = document.querySelectorAll(selector);
+      orderElements = doc.querySelectorAll(selector);
       if (orderElements.length > 0) {
         console.log(
           `[Amazon Exporter] Found ${orderElements.length} orders with selector: ${selector}`
@@ -421,11 +1187,10 @@ import {
 
     // Fallback: find elements containing order IDs
     if (orderElements.length === 0) {
-      const orderIdPattern = /\d{3}-\d{7}-\d{7}/;
       const potentialOrders = new Set<Element>();
 
-      document.querySelectorAll('*').forEach((el) => {
-        if (el.textContent && orderIdPattern.test(el.textContent)) {
+      doc.querySelectorAll('*').forEach((el) => {
+        if (el.textContent && extractOrderId(el.textContent)) {
           let parent: Element | null = el;
           for (let i = 0; i < 10 && parent?.parentElement; i++) {
             parent = parent.parentElement;
@@ -447,7 +1212,7 @@ import {
 
     orderElements.forEach((orderEl, index) => {
       try {
-        const order = parseOrderElement(orderEl);
+        const order = parseOrderElement(orderEl, orderType);
         if (order && order.orderId) {
           // Skip duplicates
           if (seenOrderIds.has(order.orderId)) {
@@ -464,7 +1229,7 @@ import {
 
           orders.push(order);
           console.log(
-            `[Amazon Exporter] Parsed order: ${order.orderId}, ${order.orderDate}, ${order.totalAmount} ${order.currency}`
+            `[Amazon Exporter] Parsed order: ${order.orderId}, ${order.orderDate}, ${formatMoney(order.totalAmount)}`
           );
         }
       } catch (error) {
@@ -476,19 +1241,26 @@ import {
   }
 
   /**
-   * Parse a single order element
+   * Parse a single order element of the order history or digital orders list
    */
-  function parseOrderElement(orderEl: Element): Order | null {
+  function parseOrderElement(orderEl: Element, orderType: OrderType): Order | null {
     const order: Order = {
       orderId: '',
       orderDate: '',
-      totalAmount: 0,
-      currency: 'EUR',
+      orderType: orderType,
+      totalAmount: zeroMoney(siteProfile.currency),
+      netAmount: zeroMoney(siteProfile.currency),
       items: [],
       orderStatus: '',
       detailsUrl: '',
       promotions: [],
-      totalSavings: 0,
+      totalSavings: zeroMoney(siteProfile.currency),
+      costBreakdown: null,
+      payments: null,
+      shipments: [],
+      refunds: [],
+      subscribeAndSave: false,
+      detailsStatus: 'pending',
     };
 
     const orderText = orderEl.textContent || '';
@@ -520,46 +1292,25 @@ import {
       }
     }
 
-    // Extract Order Date - German format: "15. Januar 2025"
-    const datePatterns = [
-      /(?:Bestellt am|Bestellung aufgegeben am)\s+(\d{1,2}\.\s*[A-Za-zäöü]+\s+\d{4})/i,
-      /(\d{1,2}\.\s*(?:Januar|Februar|März|April|Mai|Juni|Juli|August|September|Oktober|November|Dezember)\s+\d{4})/i,
-      /(?:Order placed|Ordered on)\s+([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
-      /((?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},?\s+\d{4})/i,
-    ];
-
-    for (const pattern of datePatterns) {
-      const match = orderText.match(pattern);
-      if (match?.[1]) {
-        const parsedDate = parseDate(match[1]);
-        if (parsedDate && parsedDate.startsWith('20')) {
-          order.orderDate = parsedDate;
-          break;
-        }
-      }
+    // The order history may list digital orders as well
+    if (isDigitalOrderId(order.orderId)) {
+      order.orderType = 'digital';
     }
 
+    // Extract Order Date, e.g. "15. Januar 2025" or "January 15, 2025"
+    order.orderDate = extractOrderDate(orderText, siteProfile) || '';
+
     // Extract Total Amount
-    const priceResult = extractPriceFromText(orderText);
+    const priceResult = extractPriceFromText(orderText, siteProfile);
     if (priceResult) {
-      order.totalAmount = priceResult.amount;
-      order.currency = priceResult.currency;
+      order.totalAmount = priceResult;
+      order.netAmount = priceResult;
+      order.totalSavings = zeroMoney(priceResult.currency);
     }
 
     // Extract Order Status
-    const statusPatterns = [
-      /(?:Zugestellt|Geliefert)\s*(?:am)?\s*[\d.\s\w]*/i,
-      /(?:Delivered|Arriving|Shipped)\s*[\w\s,\d]*/i,
-      /(?:Storniert|Cancelled|Returned|Refunded)/i,
-    ];
-
-    for (const pattern of statusPatterns) {
-      const match = orderText.match(pattern);
-      if (match?.[0]) {
-        order.orderStatus = match[0].trim().substring(0, 50);
-        break;
-      }
-    }
+    order.orderStatus = extractOrderStatus(orderText, siteProfile);
+    order.subscribeAndSave = hasSubscribeAndSaveLabel(orderText, siteProfile);
 
     // Extract Items
     order.items = parseOrderItems(orderEl);
@@ -571,6 +1322,9 @@ import {
       return null;
     }
 
+    // Item prices are loaded with the details; until then the total is spread across items
+    order.items = allocateItemTotals(order);
+
     return order;
   }
 
@@ -596,9 +1350,12 @@ import {
         title: '',
         asin: asin,
         quantity: 1,
-        price: 0,
-        discount: 0,
-        itemUrl: `https://www.amazon.de/dp/${asin}`,
+        ...createItemTotals(zeroMoney(siteProfile.currency), 1),
+        itemUrl: buildProductUrl(window.location.origin, asin),
+        imageUrl: findItemImageUrl(orderEl, asin),
+        seller: '',
+        fulfilledByAmazon: null,
+        product: null,
       };
 
       // Get title
@@ -660,11 +1417,9 @@ import {
       if (!foundQuantity) {
         parentEl = link.parentElement;
         for (let i = 0; i < 8 && parentEl; i++) {
-          const qtyMatch = (parentEl.textContent || '').match(
-            /(?:Qty|Quantity|Menge|Anzahl)[:\s]*(\d+)/i
-          );
-          if (qtyMatch?.[1]) {
-            item.quantity = parseInt(qtyMatch[1], 10);
+          const quantity = extractQuantity(parentEl.textContent || '', siteProfile);
+          if (quantity) {
+            item.quantity = quantity;
             foundQuantity = true;
             break;
           }
@@ -683,48 +1438,164 @@ import {
   /**
    * Fetch order details for item prices and discounts
    */
-  async function fetchOrderDetailsForPrices(orders: Order[]): Promise<void> {
+  async function fetchOrderDetailsForPrices(
+    state: ExportState,
+    signal: AbortSignal
+  ): Promise<void> {
     // We need to fetch details for all orders to get accurate pricing and discounts
     // Even single-item orders can have discounts
-    const ordersNeedingDetails = orders.filter((order) => order.detailsUrl);
+    console.log('[Amazon Exporter] Fetching details for', state.orderCount, 'orders');
+
+    let completed = 0;
+    let failedCount = 0;
+
+    // Refunds of the returns center are added to the orders they belong to
+    const returnsByOrderId = await fetchReturnsCenter(signal);
+    if (signal.aborted) return;
+
+    // Orders are enriched one stored chunk at a time to keep memory use flat
+    for (let chunkIndex = 0; chunkIndex < state.orderChunkCount; chunkIndex++) {
+      const orders = await loadExportOrderChunk(state.runId, chunkIndex);
+
+      await Promise.all(
+        orders.map(async (order) => {
+          if (!order.detailsUrl) {
+            order.detailsStatus = 'skipped';
+          } else if (order.detailsStatus !== 'enriched') {
+            // Orders enriched before a pause are not fetched again
+            try {
+              const doc = await fetchDocument(order.detailsUrl, signal);
+
+              parseItemPricesFromDetails(order, doc);
+              parseCostBreakdownFromDetails(order, doc);
+              parsePaymentsFromDetails(order, doc);
+              parsePromotionsFromDetails(order, doc);
+              parseShipmentsFromDetails(order, doc);
+              parseRefundsFromDetails(order, doc);
+              parseSellersFromDetails(order, doc);
+              // The order list does not always name Subscribe & Save
+              order.subscribeAndSave =
+                order.subscribeAndSave ||
+                getShipmentContainers(doc).some((container) =>
+                  hasSubscribeAndSaveLabel(container.textContent || '', siteProfile)
+                );
+              order.detailsStatus = 'enriched';
+            } catch (error) {
+              // Paused or cancelled, leave the order pending
+              if (signal.aborted) return;
+              console.warn('[Amazon Exporter] Error fetching details for', order.orderId, error);
+              order.detailsStatus = 'failed';
+              failedCount++;
+            }
+          }
 
-    console.log('[Amazon Exporter] Fetching details for', ordersNeedingDetails.length, 'orders');
+          addReturnsCenterRefunds(order, returnsByOrderId.get(order.orderId) || []);
+          order.netAmount = getNetAmount(order);
+          order.items = allocateItemTotals(order);
 
-    for (let i = 0; i < ordersNeedingDetails.length; i++) {
-      const order = ordersNeedingDetails[i];
-      if (!order) continue;
+          completed++;
+          updateProgress(
+            80 + (completed / state.orderCount) * 10,
+            getMessage('fetchingPricesProgress', [String(completed), String(state.orderCount)])
+          );
+        })
+      );
 
-      try {
-        updateProgress(
-          80 + (i / ordersNeedingDetails.length) * 10,
-          getMessage('fetchingPricesProgress', [String(i + 1), String(ordersNeedingDetails.length)])
-        );
+      await saveExportOrderChunk(state.runId, chunkIndex, orders);
+      if (signal.aborted) return;
+      await saveExportRun(state);
+    }
 
-        const response = await fetch(order.detailsUrl, {
-          credentials: 'include',
-        });
+    if (failedCount > 0) {
+      console.warn('[Amazon Exporter] Could not load details for', failedCount, 'orders');
+    }
+  }
 
-        if (!response.ok) continue;
+  /**
+   * Read the product page of each item for brand, category and product codes. Products are
+   * cached per ASIN, so items bought again, also in later exports, are not fetched again.
+   */
+  async function enrichOrderProducts(state: ExportState, signal: AbortSignal): Promise<void> {
+    const cache = await loadProductCache(state.marketplace);
+    let fetchedCount = 0;
+
+    for (let chunkIndex = 0; chunkIndex < state.orderChunkCount; chunkIndex++) {
+      const orders = await loadExportOrderChunk(state.runId, chunkIndex);
+      const asins = new Set(
+        orders.flatMap((order) =>
+          order.items
+            .filter((item) => item.asin && !item.product && !cache[item.asin])
+            .map((item) => item.asin)
+        )
+      );
 
-        const html = await response.text();
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(html, 'text/html');
+      await Promise.all(
+        Array.from(asins, async (asin) => {
+          try {
+            const doc = await fetchDocument(buildProductUrl(window.location.origin, asin), signal);
+            cache[asin] = parseProductPage(doc);
+          } catch (error) {
+            // Paused or cancelled, the product is fetched when the run resumes
+            if (signal.aborted) return;
+            console.warn('[Amazon Exporter] Error fetching product', asin, error);
+          }
+          fetchedCount++;
+          updateProgress(
+            90 + ((chunkIndex + 1) / state.orderChunkCount) * 5,
+            getMessage('fetchingProductsProgress', [String(fetchedCount)])
+          );
+        })
+      );
+      if (signal.aborted) return;
 
-        parseItemPricesFromDetails(order, doc);
-        parsePromotionsFromDetails(order, doc);
+      orders.forEach((order) => {
+        order.items.forEach((item) => {
+          item.product = item.product || cache[item.asin] || null;
+        });
+      });
+      await saveExportOrderChunk(state.runId, chunkIndex, orders);
 
-        await new Promise((resolve) => setTimeout(resolve, 200));
+      try {
+        await browser.storage.local.set({ [getProductCacheKey(state.marketplace)]: cache });
       } catch (error) {
-        console.warn('[Amazon Exporter] Error fetching details:', error);
+        console.warn('[Amazon Exporter] Failed to save product cache:', error);
       }
     }
   }
 
+  /**
+   * Parse brand, category breadcrumb and product codes from a product page
+   */
+  function parseProductPage(doc: Document): ProductInfo {
+    const getText = (element: Element | null | undefined): string =>
+      (element?.textContent || '').replace(/\s+/g, ' ').trim();
+
+    // Detail tables have the label and the value in separate cells
+    const tableLines = Array.from(
+      doc.querySelectorAll('[id^="productDetails"] tr, #productOverview_feature_div tr'),
+      (row) => {
+        const cells = row.querySelectorAll('th, td');
+        return cells.length > 1 ? `${getText(cells[0])}: ${getText(cells[1])}` : getText(row);
+      }
+    );
+    const bulletLines = Array.from(
+      doc.querySelectorAll('#detailBullets_feature_div li, #rpi-attribute-values li'),
+      getText
+    );
+
+    return parseProductInfo(
+      getText(doc.querySelector('#bylineInfo')),
+      Array.from(doc.querySelectorAll('#wayfinding-breadcrumbs_feature_div li a'), getText),
+      [...tableLines, ...bulletLines].filter((line) => line),
+      siteProfile
+    );
+  }
+
   /**
    * Parse item prices from order details page
    */
   function parseItemPricesFromDetails(order: Order, doc: Document): void {
-    const asinPriceMap = new Map<string, number>();
+    const asinPriceMap = new Map<string, Money>();
 
     // Look for product containers with prices
     // Amazon order details page typically has items in table rows or specific containers
@@ -744,85 +1615,173 @@ import {
       const asin = asinMatch[1].toUpperCase();
       const text = container.textContent || '';
 
-      // Try multiple price patterns - look for the item price specifically
-      const pricePatterns = [
-        /(?:EUR|€)\s*([0-9]+[.,][0-9]{2})/gi,
-        /([0-9]+[.,][0-9]{2})\s*(?:EUR|€)/g,
-      ];
-
-      for (const pattern of pricePatterns) {
-        const matches = text.matchAll(pattern);
-        for (const match of matches) {
-          if (match[1]) {
-            const price = parsePrice(match[1]);
-            if (price > 0) {
-              // Store the first valid price found for this ASIN
-              if (!asinPriceMap.has(asin)) {
-                asinPriceMap.set(asin, price);
-              }
-              break;
-            }
-          }
-        }
-        if (asinPriceMap.has(asin)) break;
+      // Store the first valid price found for this ASIN
+      const quantity = order.items.find((item) => item.asin === asin)?.quantity ?? 1;
+      const price = resolveUnitPrice(findPrices(text, siteProfile), quantity);
+      if (price !== undefined && !asinPriceMap.has(asin)) {
+        asinPriceMap.set(asin, price);
       }
     });
 
-    // Also look for the order summary section for prices per item
-    const orderSummary = doc.querySelector(
-      '#orderSummary, .order-summary, [class*="order-summary"]'
-    );
-    if (orderSummary) {
-      const summaryRows = orderSummary.querySelectorAll('.a-row, tr');
-      summaryRows.forEach((row) => {
-        const rowText = row.textContent || '';
-        // Look for item-specific discounts
-        const discountMatch = rowText.match(
-          /(Rabatt|Nachlass|Ersparnis|Discount|Coupon)[:\s]*-?\s*(?:EUR|€)?\s*([0-9]+[.,][0-9]{2})/i
-        );
-        if (discountMatch?.[2]) {
-          const discountAmount = parsePrice(discountMatch[2]);
-          if (discountAmount > 0) {
-            console.log(`[Amazon Exporter] Found discount in summary: ${discountAmount}`);
-          }
-        }
-      });
-    }
-
     // Update items with found prices
     order.items.forEach((item) => {
       const price = asinPriceMap.get(item.asin);
       if (price !== undefined) {
-        item.price = price;
+        Object.assign(item, createItemTotals(price, item.quantity));
       }
     });
 
     // If some items still have no price, try to find them in a more aggressive search
-    const itemsWithoutPrice = order.items.filter((item) => item.price === 0);
+    const itemsWithoutPrice = order.items.filter((item) => item.unitPrice.amount === 0);
     if (itemsWithoutPrice.length > 0) {
       // Search the entire page for ASIN-price associations
       const pageText = doc.body.textContent || '';
 
       itemsWithoutPrice.forEach((item) => {
-        // Look for price near the ASIN in the document
-        const asinRegex = new RegExp(item.asin + '[^€]*(?:EUR|€)\\s*([0-9]+[.,][0-9]{2})', 'i');
-        const match = pageText.match(asinRegex);
-        if (match?.[1]) {
-          const price = parsePrice(match[1]);
-          if (price > 0) {
-            item.price = price;
-          }
+        // Look for the first price after the ASIN in the document
+        const asinIndex = pageText.search(new RegExp(escapeRegExp(item.asin), 'i'));
+        if (asinIndex < 0) return;
+        const price = findPrices(pageText.substring(asinIndex), siteProfile)[0];
+        if (price !== undefined) {
+          Object.assign(item, createItemTotals(price, item.quantity));
         }
       });
     }
   }
 
+  /**
+   * Find the product image of an item. The image is often in a link of its own next to the
+   * title link, so all links to the product are searched.
+   */
+  function findItemImageUrl(orderEl: Element, asin: string): string {
+    const links = orderEl.querySelectorAll('a[href*="/dp/"], a[href*="/gp/product/"]');
+    for (const link of links) {
+      if (extractAsinFromUrl(link.getAttribute('href') || '') !== asin) continue;
+      const img = link.querySelector('img') || link.parentElement?.querySelector('img');
+      if (!img) continue;
+      // Lazy-loaded images keep the real source in a data attribute
+      for (const attribute of ['data-a-hires', 'src', 'data-src']) {
+        const url = resolveImageUrl(img.getAttribute(attribute) || '', window.location.href);
+        if (url) return url;
+      }
+    }
+    return '';
+  }
+
+  /**
+   * Parse seller and fulfilment of each item from its row on the order details page
+   */
+  function parseSellersFromDetails(order: Order, doc: Document): void {
+    order.items.forEach((item) => {
+      const link = Array.from(
+        doc.querySelectorAll('a[href*="/dp/"], a[href*="/gp/product/"]')
+      ).find(
+        (productLink) => extractAsinFromUrl(productLink.getAttribute('href') || '') === item.asin
+      );
+      const row = link?.closest('[class*="shipment-item"], .a-fixed-left-grid-inner');
+      if (!row) return;
+
+      // Some layouts show the seller below the item row, inside the same package box
+      let lines = getRowLines(row);
+      if (!parseSeller(lines, siteProfile)) {
+        const container = getShipmentContainers(doc).find((box) => box.contains(row));
+        if (container && getContainerItems(order, container).length === 1) {
+          lines = getRowLines(container);
+        }
+      }
+
+      item.seller = parseSeller(lines, siteProfile);
+      item.fulfilledByAmazon = isFulfilledByAmazon(lines, item.seller, siteProfile);
+    });
+  }
+
+  /**
+   * Keep only elements that are not nested in another of the elements
+   */
+  function getOutermostElements(elements: NodeListOf<Element>): Element[] {
+    const list = Array.from(elements);
+    return list.filter(
+      (element) => !list.some((other) => other !== element && other.contains(element))
+    );
+  }
+
+  /**
+   * Get the text of the innermost rows of a container, so that a line is not read again as
+   * part of its parent row. A container without rows is read as one line.
+   */
+  function getRowLines(container: Element): string[] {
+    const rows = Array.from(container.querySelectorAll('.a-row, tr, li')).filter(
+      (row) => !row.querySelector('.a-row, tr, li')
+    );
+    return (rows.length > 0 ? rows : [container])
+      .map((row) => (row.textContent || '').replace(/\s+/g, ' ').trim())
+      .filter((line) => line);
+  }
+
+  /**
+   * Parse subtotal, shipping, tax and grand total from the order summary of the order
+   * details page
+   */
+  function parseCostBreakdownFromDetails(order: Order, doc: Document): void {
+    const orderSummary = doc.querySelector(
+      '#orderSummary, .order-summary, [class*="order-summary"], #od-subtotals'
+    );
+    if (!orderSummary) return;
+
+    const lines = getRowLines(orderSummary);
+    order.costBreakdown = parseCostBreakdown(lines, order.totalAmount.currency, siteProfile);
+    if (order.costBreakdown && order.costBreakdown.tax.amount > 0) {
+      console.log(
+        `[Amazon Exporter] Order ${order.orderId} tax: ${formatMoney(order.costBreakdown.tax)}`
+      );
+    }
+  }
+
+  /**
+   * Parse payment instruments (card brand and last digits only), gift card and reward point
+   * usage and the charges of the order from order details page
+   */
+  function parsePaymentsFromDetails(order: Order, doc: Document): void {
+    const sections = getOutermostElements(
+      doc.querySelectorAll(
+        '[data-component="paymentMethod"], [class*="payment-method"], .pmts-payments-instrument-detail-box, #orderSummary, .order-summary, [class*="order-summary"], #od-subtotals, [data-component="transactions"], [class*="transaction"]'
+      )
+    );
+    order.payments = parsePayments(sections.flatMap(getRowLines), order.totalAmount, siteProfile);
+  }
+
   /**
    * Parse promotions and discounts from order details page
    */
   function parsePromotionsFromDetails(order: Order, doc: Document): void {
     const promotions: Promotion[] = [];
-    let totalSavings = 0;
+    const currency = order.totalAmount.currency;
+    let totalSavings = zeroMoney(currency);
+
+    const summarySelector =
+      '#orderSummary, .order-summary, [class*="order-summary"], .a-box.order-summary';
+
+    // Tell the kind of a promotion text and how likely it is a promotion at all
+    const classify = (
+      text: string,
+      amount: Money,
+      inSummary: boolean
+    ): Pick<Promotion, 'kind' | 'confidence'> => {
+      const line = text.replace(/\s+/g, ' ').trim();
+      const kind = classifyPromotion(line, siteProfile);
+      return {
+        kind,
+        confidence: scorePromotion(line, amount, kind, inSummary, order.totalAmount, siteProfile),
+      };
+    };
+
+    // Promotions shown in another currency are kept but not added to the order savings
+    const addPromotion = (promotion: Promotion): void => {
+      promotions.push(promotion);
+      if (promotion.amount.currency === currency) {
+        totalSavings = addMoney(totalSavings, promotion.amount);
+      }
+    };
 
     // Look for various discount/promotion patterns in the order details
     const promotionSelectors = [
@@ -844,38 +1803,24 @@ import {
         checkedTexts.add(text);
 
         // Look for savings/discount amounts
-        const savingsPatterns = [
-          /(?:Rabatt|Nachlass|Ersparnis|Savings?|Discount|Gutschein|Coupon)[:\s]*-?\s*(?:EUR|€)?\s*([0-9]+[.,][0-9]{2})/i,
-          /-\s*(?:EUR|€)\s*([0-9]+[.,][0-9]{2})/,
-          /(?:EUR|€)\s*-\s*([0-9]+[.,][0-9]{2})/,
-        ];
-
-        for (const pattern of savingsPatterns) {
-          const match = text.match(pattern);
-          if (match?.[1]) {
-            const amount = parsePrice(match[1]);
-            if (amount > 0) {
-              const description = text.replace(/\s+/g, ' ').trim().substring(0, 100);
-              // Avoid duplicate promotions
-              if (
-                !promotions.some(
-                  (p) => Math.abs(p.amount - amount) < 0.01 && p.description === description
-                )
-              ) {
-                promotions.push({ description, amount });
-                totalSavings += amount;
-              }
-              break;
-            }
+        const amount = extractPromotionAmount(text, siteProfile);
+        if (amount) {
+          const description = text.replace(/\s+/g, ' ').trim().substring(0, 100);
+          const classified = classify(text, amount, el.closest(summarySelector) !== null);
+          // Avoid duplicate promotions and price fragments that are no promotion
+          if (
+            isLikelyPromotion(classified) &&
+            !promotions.some((p) => moneyEquals(p.amount, amount) && p.description === description)
+          ) {
+            // Coupons shown next to an item apply to that item only
+            addPromotion({ description, amount, asin: getItemAsinOf(order, el), ...classified });
           }
         }
       });
     });
 
     // Also check the order summary section for totals
-    const summarySection = doc.querySelector(
-      '#orderSummary, .order-summary, [class*="order-summary"], .a-box.order-summary'
-    );
+    const summarySection = doc.querySelector(summarySelector);
     if (summarySection) {
       const rows = summarySection.querySelectorAll('.a-row, tr, div');
       rows.forEach((row) => {
@@ -884,16 +1829,16 @@ import {
         checkedTexts.add(text);
 
         // Look for promotion lines
-        if (/Rabatt|Nachlass|Ersparnis|Savings?|Discount|Gutschein|Coupon|Angebot/i.test(text)) {
-          const amountMatch = text.match(/-?\s*(?:EUR|€)?\s*([0-9]+[.,][0-9]{2})\s*(?:EUR|€)?/);
-          if (amountMatch?.[1]) {
-            const amount = parsePrice(amountMatch[1]);
-            if (amount > 0) {
-              const description = text.replace(/\s+/g, ' ').trim().substring(0, 100);
-              if (!promotions.some((p) => Math.abs(p.amount - amount) < 0.01)) {
-                promotions.push({ description, amount });
-                totalSavings += amount;
-              }
+        if (hasPromotionKeyword(text, siteProfile)) {
+          const amount = extractPromotionAmount(text, siteProfile);
+          if (amount) {
+            const description = text.replace(/\s+/g, ' ').trim().substring(0, 100);
+            const classified = classify(text, amount, true);
+            if (
+              isLikelyPromotion(classified) &&
+              !promotions.some((p) => moneyEquals(p.amount, amount))
+            ) {
+              addPromotion({ description, amount, asin: '', ...classified });
             }
           }
         }
@@ -901,47 +1846,345 @@ import {
     }
 
     // Calculate if there's an unexplained discount (items total > order total)
-    const itemsTotal = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    if (itemsTotal > order.totalAmount && order.totalAmount > 0) {
-      const unexplainedDiscount = Math.round((itemsTotal - order.totalAmount) * 100) / 100;
-      // Only add if we haven't already accounted for it
-      if (unexplainedDiscount > totalSavings + 0.01) {
-        const additionalDiscount = Math.round((unexplainedDiscount - totalSavings) * 100) / 100;
-        if (additionalDiscount > 0.01) {
-          promotions.push({
-            description: getMessage('additionalDiscount'),
-            amount: additionalDiscount,
-          });
-          totalSavings = unexplainedDiscount;
-        }
+    const itemsTotal = sumMoney(
+      order.items
+        .filter((item) => item.lineTotal.currency === currency)
+        .map((item) => item.lineTotal),
+      currency
+    );
+    if (itemsTotal.amount > order.totalAmount.amount && order.totalAmount.amount > 0) {
+      const unexplainedDiscount = subtractMoney(itemsTotal, order.totalAmount);
+      // Only add the part we haven't already accounted for
+      const additionalDiscount = subtractMoney(unexplainedDiscount, totalSavings);
+      if (additionalDiscount.amount > 0) {
+        addPromotion({
+          description: getMessage('additionalDiscount'),
+          amount: additionalDiscount,
+          asin: '',
+          kind: 'other',
+          // Derived from the totals, so it may as well be an item price that was not found
+          confidence: MIN_PROMOTION_CONFIDENCE,
+        });
       }
     }
 
     order.promotions = promotions;
-    order.totalSavings = Math.round(totalSavings * 100) / 100;
+    order.totalSavings = totalSavings;
 
     if (promotions.length > 0) {
       console.log(
-        `[Amazon Exporter] Order ${order.orderId} has ${promotions.length} promotions, total savings: €${totalSavings}`
+        `[Amazon Exporter] Order ${order.orderId} has ${promotions.length} promotions, total savings: ${formatMoney(totalSavings)}`
       );
     }
   }
 
+  /**
+   * Parse shipments with their items, delivery state, carrier and tracking ID from
+   * order details page
+   */
+  function parseShipmentsFromDetails(order: Order, doc: Document): void {
+    const shipments: Shipment[] = [];
+    const trackingLinkSelector = 'a[href*="ship-track"], a[href*="progress-tracker"]';
+
+    const getTrackingId = (container: ParentNode, text: string): string => {
+      for (const link of container.querySelectorAll(trackingLinkSelector)) {
+        const trackingId = extractTrackingIdFromUrl(link.getAttribute('href') || '');
+        if (trackingId) return trackingId;
+      }
+      return extractTrackingId(text, siteProfile);
+    };
+
+    getShipmentContainers(doc).forEach((container) => {
+      const items = getContainerItems(order, container);
+      if (items.length === 0) return;
+
+      const text = (container.textContent || '').replace(/\s+/g, ' ');
+      shipments.push({
+        items,
+        ...parseShipmentText(text, order.orderDate, siteProfile),
+        trackingId: getTrackingId(container, text),
+      });
+    });
+
+    // Without recognizable shipment boxes, the whole order is treated as one shipment
+    if (shipments.length === 0 && order.items.length > 0) {
+      shipments.push({
+        items: order.items.map((item) => ({
+          asin: item.asin,
+          title: item.title,
+          quantity: item.quantity,
+        })),
+        ...parseShipmentText(order.orderStatus, order.orderDate, siteProfile),
+        trackingId: getTrackingId(doc, ''),
+      });
+    }
+
+    order.shipments = shipments;
+  }
+
+  /**
+   * Get the package boxes of an order details page
+   */
+  function getShipmentContainers(doc: Document): Element[] {
+    // Each package is shown in its own box; nested matches belong to the outer shipment
+    return getOutermostElements(
+      doc.querySelectorAll(
+        '[data-component="shipments"] > .a-box, .shipment, [class*="od-shipment"]:not([class*="od-shipment-item"])'
+      )
+    );
+  }
+
+  /**
+   * Get the order items linked in a container, e.g. a package box
+   */
+  function getContainerItems(order: Order, container: Element): ShipmentItem[] {
+    const items: ShipmentItem[] = [];
+    container.querySelectorAll('a[href*="/dp/"], a[href*="/gp/product/"]').forEach((link) => {
+      const asin = extractAsinFromUrl(link.getAttribute('href') || '');
+      const item = order.items.find((orderItem) => orderItem.asin === asin);
+      if (item && !items.some((containerItem) => containerItem.asin === item.asin)) {
+        items.push({ asin: item.asin, title: item.title, quantity: item.quantity });
+      }
+    });
+    return items;
+  }
+
+  /**
+   * Get the ASIN of the order item whose row contains an element, e.g. a coupon shown next
+   * to the item. Returns an empty string outside a row of a single item.
+   */
+  function getItemAsinOf(order: Order, element: Element): string {
+    const row = element.closest('[class*="shipment-item"], .a-fixed-left-grid-inner, tr');
+    if (!row) return '';
+
+    const asins = new Set(
+      Array.from(
+        row.querySelectorAll('a[href*="/dp/"], a[href*="/gp/product/"]'),
+        (link) => extractAsinFromUrl(link.getAttribute('href') || '') || ''
+      ).filter((asin) => order.items.some((item) => item.asin === asin))
+    );
+    return asins.size === 1 ? [...asins][0] || '' : '';
+  }
+
+  /**
+   * Parse refunds from the package boxes and the payment and transaction sections of the
+   * order details page
+   */
+  function parseRefundsFromDetails(order: Order, doc: Document): void {
+    const { orderDate, totalAmount } = order;
+    const refunds: Refund[] = [];
+
+    // Refunds shown in a package box belong to its items
+    getShipmentContainers(doc).forEach((container) => {
+      const text = (container.textContent || '').replace(/\s+/g, ' ');
+      const refund = parseRefundText(text, orderDate, totalAmount.currency, siteProfile);
+      if (refund) refunds.push({ items: getContainerItems(order, container), ...refund });
+    });
+
+    const sections = getOutermostElements(
+      doc.querySelectorAll(
+        '#orderSummary, .order-summary, [class*="order-summary"], #od-subtotals, [data-component="transactions"], [class*="transaction"]'
+      )
+    );
+    const lineRefunds = sections.flatMap(getRowLines).flatMap((line) => {
+      const refund = parseRefundText(line, orderDate, totalAmount.currency, siteProfile);
+      return refund ? [{ items: [], ...refund }] : [];
+    });
+
+    order.refunds = mergeRefunds(refunds, lineRefunds);
+  }
+
+  /**
+   * Fetch the returns center pages and collect the text and items of each return by
+   * order ID. Returns an empty map if the returns center cannot be loaded.
+   */
+  async function fetchReturnsCenter(
+    signal: AbortSignal
+  ): Promise<Map<string, { text: string; asins: string[] }[]>> {
+    const returnsByOrderId = new Map<string, { text: string; asins: string[] }[]>();
+    let url = getReturnsCenterUrl(window.location.href);
+
+    for (let page = 0; url && page < MAX_RETURNS_CENTER_PAGES; page++) {
+      let doc: Document;
+      try {
+        doc = await fetchDocument(url, signal);
+      } catch (error) {
+        if (!signal.aborted) {
+          console.warn('[Amazon Exporter] Failed to fetch returns center:', url, error);
+        }
+        break;
+      }
+
+      // A return is the outermost box naming a single order
+      const containers = Array.from(
+        doc.querySelectorAll('.a-box, [class*="return-card"], [class*="returns-item"]')
+      ).filter((container) => extractOrderIds(container.textContent || '').length === 1);
+      containers
+        .filter(
+          (container) =>
+            !containers.some((other) => other !== container && other.contains(container))
+        )
+        .forEach((container) => {
+          const text = (container.textContent || '').replace(/\s+/g, ' ');
+          const orderId = extractOrderIds(text)[0] || '';
+          const asins = Array.from(
+            container.querySelectorAll('a[href*="/dp/"], a[href*="/gp/product/"]'),
+            (link) => extractAsinFromUrl(link.getAttribute('href') || '') || ''
+          ).filter((asin) => asin);
+          returnsByOrderId.set(orderId, [
+            ...(returnsByOrderId.get(orderId) || []),
+            { text, asins },
+          ]);
+        });
+
+      const nextHref = findNextPageLink(doc)?.getAttribute('href');
+      url = nextHref ? new URL(nextHref, url).href : '';
+    }
+
+    return returnsByOrderId;
+  }
+
+  /**
+   * Fetch the memberships and subscriptions page and the Subscribe & Save overview. Each
+   * membership's page is fetched for its past charges. A page that cannot be loaded is
+   * skipped, so the export does not fail without subscriptions.
+   */
+  async function fetchSubscriptions(signal: AbortSignal): Promise<Subscription[]> {
+    const subscriptions: Subscription[] = [];
+    const today = new Date().toISOString().split('T')[0] || '';
+    const getText = (element: Element): string =>
+      (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+    const fetchPage = async (url: string): Promise<Document | null> => {
+      try {
+        return await fetchDocument(url, signal);
+      } catch (error) {
+        if (!signal.aborted) {
+          console.warn('[Amazon Exporter] Failed to fetch subscriptions:', url, error);
+        }
+        return null;
+      }
+    };
+
+    const membershipsUrl = getMembershipsUrl(window.location.href);
+    const membershipsDoc = membershipsUrl ? await fetchPage(membershipsUrl) : null;
+    if (signal.aborted) return subscriptions;
+
+    // Each membership is shown in its own card with a link to manage it
+    const cards = membershipsDoc
+      ? getOutermostElements(
+          membershipsDoc.querySelectorAll(
+            '[class*="subscription-card"], [class*="membership-card"], [data-subscription-id], .a-box'
+          )
+        )
+      : [];
+    for (const card of cards) {
+      const heading = card.querySelector('h2, h3, h4, .a-text-bold, [class*="title"]');
+      const name = heading ? getText(heading) : '';
+      if (!name) continue;
+
+      const manageHref = card.querySelector('a[href]')?.getAttribute('href') || '';
+      const url = manageHref ? new URL(manageHref, membershipsUrl).href : '';
+      subscriptions.push({
+        name,
+        kind: 'membership',
+        asin: '',
+        ...parseSubscriptionText(getText(card), today, siteProfile),
+        charges: [],
+        url,
+      });
+    }
+
+    // Past charges are listed on the page of each membership
+    for (const subscription of subscriptions.slice(0, MAX_SUBSCRIPTION_PAGES)) {
+      if (!subscription.url) continue;
+      const doc = await fetchPage(subscription.url);
+      if (signal.aborted) return subscriptions;
+      if (doc?.body) {
+        subscription.charges = parseSubscriptionCharges(getRowLines(doc.body), siteProfile);
+      }
+    }
+
+    const subscribeAndSaveUrl = getSubscribeAndSaveUrl(window.location.href);
+    const subscribeAndSaveDoc = subscribeAndSaveUrl ? await fetchPage(subscribeAndSaveUrl) : null;
+    if (signal.aborted) return subscriptions;
+
+    // A Subscribe & Save subscription is the outermost box linking a single product
+    const productCards = subscribeAndSaveDoc
+      ? getOutermostElements(
+          subscribeAndSaveDoc.querySelectorAll(
+            '[class*="subscription-card"], [class*="subscription-item"], .a-box'
+          )
+        )
+      : [];
+    productCards.forEach((card) => {
+      const link = card.querySelector('a[href*="/dp/"], a[href*="/gp/product/"]');
+      const asin = extractAsinFromUrl(link?.getAttribute('href') || '');
+      if (!link || !asin || subscriptions.some((other) => other.asin === asin)) return;
+
+      subscriptions.push({
+        name: getText(link) || link.getAttribute('title') || asin,
+        kind: 'subscribe_and_save',
+        asin,
+        ...parseSubscriptionText(getText(card), today, siteProfile),
+        charges: [],
+        url: buildProductUrl(window.location.origin, asin),
+      });
+    });
+
+    console.log('[Amazon Exporter] Found subscriptions:', subscriptions.length);
+    return subscriptions;
+  }
+
+  /**
+   * Add the refunds listed in the returns center to an order
+   */
+  function addReturnsCenterRefunds(
+    order: Order,
+    returns: { text: string; asins: string[] }[]
+  ): void {
+    const refunds: Refund[] = [];
+    returns.forEach(({ text, asins }) => {
+      const refund = parseRefundText(
+        text,
+        order.orderDate,
+        order.totalAmount.currency,
+        siteProfile
+      );
+      if (!refund) return;
+      const items = order.items
+        .filter((item) => asins.includes(item.asin))
+        .map((item) => ({ asin: item.asin, title: item.title, quantity: item.quantity }));
+      refunds.push({ items, ...refund });
+    });
+    if (refunds.length > 0) {
+      order.refunds = mergeRefunds(order.refunds, refunds);
+    }
+  }
+
   /**
    * Convert orders to CSV format (wrapper using utility function)
    */
-  function convertToCSV(orders: Order[]): string {
-    return convertOrdersToCSV(orders, getMessage);
+  function convertToCSV(orders: Order[], state: ExportState): string {
+    const getHeader = (key: string): string => state.csvHeaderLabels?.[key] || getMessage(key);
+    return convertOrdersToCSV(orders, getHeader, state.csvProfile);
   }
 
   /**
    * Update progress in popup
    */
-  function updateProgress(percent: number, message: string): void {
+  function updateProgress(percent: number, message: string, error?: boolean): void {
+    sendProgress({ percent, message, error });
+  }
+
+  /**
+   * Send a progress update to the popup
+   */
+  function sendProgress(data: ProgressData): void {
     browser.runtime
       .sendMessage({
         action: 'updateProgress',
-        data: { percent, message },
+        data,
       })
       .catch(() => {
         // Popup might be closed
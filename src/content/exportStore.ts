@@ -0,0 +1,161 @@
+/**
+ * Order History Exporter for Amazon - Export Store
+ * Persists export runs in extension storage, with collected orders in chunks
+ */
+
+import browser from 'webextension-polyfill';
+import type { ExportEnvelope, ExportState, LastExport, Order } from '../types';
+import {
+  LAST_EXPORT_KEY,
+  getCurrentExportRunKey,
+  getExportOrderChunkKeys,
+  getExportOrderIdsKey,
+  getExportOrdersKey,
+  getExportRunKey,
+  getExportRunKeys,
+} from '../utils';
+
+/**
+ * Load the current export run of a marketplace
+ */
+export async function loadExportRun(marketplace: string): Promise<ExportState | null> {
+  const pointerKey = getCurrentExportRunKey(marketplace);
+  const pointer = await browser.storage.local.get(pointerKey);
+  const runId = pointer[pointerKey] as string | undefined;
+  if (!runId) return null;
+
+  const runKey = getExportRunKey(runId);
+  const data = await browser.storage.local.get(runKey);
+  return (data[runKey] as ExportState | undefined) || null;
+}
+
+/**
+ * Save the state of an export run and make it the current run of its marketplace
+ */
+export async function saveExportRun(state: ExportState): Promise<void> {
+  state.updatedAt = new Date().toISOString();
+  await browser.storage.local.set({
+    [getExportRunKey(state.runId)]: state,
+    [getCurrentExportRunKey(state.marketplace)]: state.runId,
+  });
+}
+
+/**
+ * Store the orders of one page as a new chunk with their IDs, together with the updated state
+ */
+export async function appendExportOrders(state: ExportState, orders: Order[]): Promise<void> {
+  if (orders.length > 0) {
+    const chunkIndex = state.orderChunkCount;
+    state.orderChunkCount++;
+    state.orderCount += orders.length;
+    state.updatedAt = new Date().toISOString();
+    await browser.storage.local.set({
+      [getExportOrdersKey(state.runId, chunkIndex)]: orders,
+      [getExportOrderIdsKey(state.runId, chunkIndex)]: orders.map((order) => order.orderId),
+      [getExportRunKey(state.runId)]: state,
+    });
+    return;
+  }
+  await saveExportRun(state);
+}
+
+/**
+ * Load one chunk of collected orders
+ */
+export async function loadExportOrderChunk(runId: string, chunkIndex: number): Promise<Order[]> {
+  const key = getExportOrdersKey(runId, chunkIndex);
+  const data = await browser.storage.local.get(key);
+  return (data[key] as Order[] | undefined) || [];
+}
+
+/**
+ * Load the IDs of all collected orders of an export run, without loading the orders
+ */
+export async function loadExportOrderIds(state: ExportState): Promise<Set<string>> {
+  const keys = Array.from({ length: state.orderChunkCount }, (_, chunkIndex) =>
+    getExportOrderIdsKey(state.runId, chunkIndex)
+  );
+  if (keys.length === 0) return new Set();
+  const data = await browser.storage.local.get(keys);
+  return new Set(keys.flatMap((key) => (data[key] as string[] | undefined) || []));
+}
+
+/**
+ * Replace one chunk of collected orders, e.g. after loading order details
+ */
+export async function saveExportOrderChunk(
+  runId: string,
+  chunkIndex: number,
+  orders: Order[]
+): Promise<void> {
+  await browser.storage.local.set({ [getExportOrdersKey(runId, chunkIndex)]: orders });
+}
+
+/**
+ * Load all collected orders of an export run
+ */
+export async function loadExportOrders(state: ExportState): Promise<Order[]> {
+  const orders: Order[] = [];
+  for (let i = 0; i < state.orderChunkCount; i++) {
+    orders.push(...(await loadExportOrderChunk(state.runId, i)));
+  }
+  return orders;
+}
+
+/**
+ * Remove an export run with all its orders. The orders of the run shown by the dashboard
+ * are kept.
+ */
+export async function deleteExportRun(state: ExportState): Promise<void> {
+  const pointerKey = getCurrentExportRunKey(state.marketplace);
+  const data = await browser.storage.local.get([pointerKey, LAST_EXPORT_KEY]);
+  let keys = getExportRunKeys(state);
+  if (data[pointerKey] === state.runId) {
+    keys.push(pointerKey);
+  }
+  if ((data[LAST_EXPORT_KEY] as LastExport | undefined)?.runId === state.runId) {
+    const orderKeys = new Set(getExportOrderChunkKeys(state.runId, state.orderChunkCount));
+    keys = keys.filter((key) => !orderKeys.has(key));
+  }
+  await browser.storage.local.remove(keys);
+}
+
+/**
+ * Make a finished run the export shown by the dashboard, keeping its order chunks in place,
+ * and remove the orders of the export shown before
+ */
+export async function saveLastExport(
+  state: ExportState,
+  envelope: Omit<ExportEnvelope, 'orders'>
+): Promise<void> {
+  const data = await browser.storage.local.get(LAST_EXPORT_KEY);
+  const previous = data[LAST_EXPORT_KEY] as LastExport | undefined;
+  const lastExport: LastExport = {
+    ...envelope,
+    runId: state.runId,
+    orderChunkCount: state.orderChunkCount,
+  };
+  await browser.storage.local.set({ [LAST_EXPORT_KEY]: lastExport });
+  if (previous?.runId && previous.runId !== state.runId) {
+    await browser.storage.local.remove(
+      getExportOrderChunkKeys(previous.runId, previous.orderChunkCount)
+    );
+  }
+}
+
+/**
+ * Load the export shown by the dashboard with its orders, or null when there is none
+ */
+export async function loadLastExport(): Promise<ExportEnvelope | null> {
+  const data = await browser.storage.local.get(LAST_EXPORT_KEY);
+  const lastExport = data[LAST_EXPORT_KEY] as LastExport | undefined;
+  if (!lastExport?.runId) return null;
+
+  const { runId, orderChunkCount, ...envelope } = lastExport;
+  const keys = getExportOrderChunkKeys(runId, orderChunkCount);
+  const chunks = keys.length > 0 ? await browser.storage.local.get(keys) : {};
+  return {
+    ...envelope,
+    orders: keys.flatMap((key) => (chunks[key] as Order[] | undefined) || []),
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * Order History Exporter for Amazon - Dashboard Script
+ * Shows spending charts of the last export or an imported JSON export
+ */
+
+import browser from 'webextension-polyfill';
+import type { ExportEnvelope } from '../types';
+import type { ChartBar, SpendingSummary } from '../utils';
+import {
+  buildBarChart,
+  buildColumnChart,
+  formatMoney,
+  getOrderCurrencies,
+  parseExportFile,
+  summarizeSpending,
+} from '../utils';
+import { loadLastExport } from '../content/exportStore';
+
+/**
+ * Chart shown on the dashboard; the name is used for its downloads
+ */
+interface DashboardChart {
+  name: string;
+  title: string;
+  /** SVG markup, null when there is nothing to chart */
+  svg: string | null;
+}
+
+/**
+ * Get localized message from browser i18n API
+ */
+function getMessage(key: string, substitutions?: string | string[]): string {
+  return browser.i18n.getMessage(key, substitutions) || key;
+}
+
+/**
+ * Apply i18n translations to all elements with data-i18n attribute
+ */
+function applyI18n(): void {
+  document.querySelectorAll('[data-i18n]').forEach((element) => {
+    const key = element.getAttribute('data-i18n');
+    if (key) {
+      const message = getMessage(key);
+      if (message) {
+        element.textContent = message;
+      }
+    }
+  });
+}
+
+/**
+ * Build the charts of a summary
+ */
+function buildCharts(summary: SpendingSummary): DashboardChart[] {
+  const chart = (
+    name: string,
+    titleKey: string,
+    bars: ChartBar[],
+    build: (title: string, bars: ChartBar[]) => string
+  ): DashboardChart => {
+    const title = getMessage(titleKey);
+    return { name, title, svg: bars.length > 0 ? build(title, bars) : null };
+  };
+
+  return [
+    chart(
+      'spend-per-month',
+      'dashboardSpendPerMonth',
+      summary.spendByMonth.map((period) => ({
+        label: period.period,
+        value: period.spend.amount,
+        valueLabel: formatMoney(period.spend),
+      })),
+      buildColumnChart
+    ),
+    chart(
+      'spend-per-year',
+      'dashboardSpendPerYear',
+      summary.spendByYear.map((period) => ({
+        label: period.period,
+        value: period.spend.amount,
+        valueLabel: formatMoney(period.spend),
+      })),
+      buildColumnChart
+    ),
+    chart(
+      'top-items',
+      'dashboardTopItems',
+      summary.topItems.map((item) => ({
+        label: item.title || item.asin,
+        value: item.spend.amount,
+        valueLabel: formatMoney(item.spend),
+      })),
+      buildBarChart
+    ),
+    chart(
+      'top-sellers',
+      'dashboardTopSellers',
+      summary.topSellers.map((seller) => ({
+        label: seller.seller,
+        value: seller.spend.amount,
+        valueLabel: formatMoney(seller.spend),
+      })),
+      buildBarChart
+    ),
+    chart(
+      'orders-by-status',
+      'dashboardOrdersByStatus',
+      summary.statusCounts.map((status) => ({
+        label: status.status || getMessage('dashboardUnknownStatus'),
+        value: status.orderCount,
+        valueLabel: String(status.orderCount),
+      })),
+      buildBarChart
+    ),
+    chart(
+      'savings-by-kind',
+      'dashboardSavingsByKind',
+      summary.savingsByKind.map((kind) => ({
+        label: kind.kind,
+        value: kind.savings.amount,
+        valueLabel: formatMoney(kind.savings),
+      })),
+      buildBarChart
+    ),
+  ];
+}
+
+/**
+ * Save a blob as a file through a temporary link
+ */
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Render an SVG chart onto a canvas at twice its size and save it as PNG
+ */
+async function downloadPng(svg: string, filename: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = document.createElement('img');
+    await new Promise<void>((resolve, reject) => {
+      image.onload = (): void => resolve();
+      image.onerror = (): void => reject(new Error('Failed to render chart'));
+      image.src = url;
+    });
+
+    const scale = 2;
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth * scale;
+    canvas.height = image.naturalHeight * scale;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas not available');
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+
+    const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!png) throw new Error('Failed to render chart');
+    downloadBlob(png, filename);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+document.addEventListener('DOMContentLoaded', async () => {
+  // Apply translations
+  applyI18n();
+  const sourceText = document.getElementById('sourceText') as HTMLElement;
+  const startDateInput = document.getElementById('startDate') as HTMLInputElement;
+  const endDateInput = document.getElementById('endDate') as HTMLInputElement;
+  const currencySelect = document.getElementById('currency') as HTMLSelectElement;
+  const importFileInput = document.getElementById('importFile') as HTMLInputElement;
+  const statusMessage = document.getElementById('status-message') as HTMLElement;
+  const dashboardContent = document.getElementById('dashboard-content') as HTMLElement;
+  const orderCountEl = document.getElementById('orderCount') as HTMLElement;
+  const totalSpendEl = document.getElementById('totalSpend') as HTMLElement;
+  const averageOrderValueEl = document.getElementById('averageOrderValue') as HTMLElement;
+  const totalSavingsEl = document.getElementById('totalSavings') as HTMLElement;
+  const chartsEl = document.getElementById('charts') as HTMLElement;
+
+  let envelope: ExportEnvelope | null = null;
+
+  startDateInput.addEventListener('change', render);
+  endDateInput.addEventListener('change', render);
+  currencySelect.addEventListener('change', render);
+
+  importFileInput.addEventListener('change', async () => {
+    const file = importFileInput.files?.[0];
+    if (!file) return;
+    try {
+      showExport(parseExportFile(await file.text()), file.name);
+    } catch (error) {
+      console.warn('[Amazon Exporter] Failed to import export:', error);
+      showStatus(getMessage('dashboardImportFailed', [file.name]), 'error');
+    }
+  });
+
+  const lastExport = await loadLastExport().catch((error) => {
+    console.warn('[Amazon Exporter] Failed to load last export:', error);
+    return null;
+  });
+  if (lastExport) {
+    showExport(lastExport, getMessage('dashboardLastExport'));
+  } else {
+    showStatus(getMessage('dashboardNoExport'), 'info');
+  }
+
+  /**
+   * Show an export, offering its currencies with the most used one selected
+   */
+  function showExport(data: ExportEnvelope, source: string): void {
+    envelope = data;
+    sourceText.textContent = getMessage('dashboardSource', [
+      source,
+      data.marketplace || '',
+      data.exportedAt ? new Date(data.exportedAt).toLocaleString() : '',
+    ]);
+
+    currencySelect.replaceChildren(
+      ...getOrderCurrencies(data.orders).map((currency) => {
+        const option = document.createElement('option');
+        option.value = currency;
+        option.textContent = currency;
+        return option;
+      })
+    );
+
+    if (data.orders.length === 0) {
+      dashboardContent.classList.add('hidden');
+      showStatus(getMessage('dashboardNoOrders'), 'info');
+      return;
+    }
+    statusMessage.classList.add('hidden');
+    dashboardContent.classList.remove('hidden');
+    render();
+  }
+
+  /**
+   * Compute the figures for the current filters and redraw cards and charts
+   */
+  function render(): void {
+    if (!envelope) return;
+    const summary = summarizeSpending(envelope.orders, {
+      startDate: startDateInput.value || null,
+      endDate: endDateInput.value || null,
+      currency: currencySelect.value,
+    });
+
+    orderCountEl.textContent = String(summary.orderCount);
+    totalSpendEl.textContent = formatMoney(summary.totalSpend);
+    averageOrderValueEl.textContent = formatMoney(summary.averageOrderValue);
+    totalSavingsEl.textContent = formatMoney(summary.totalSavings);
+
+    chartsEl.replaceChildren(...buildCharts(summary).map(renderChart));
+  }
+
+  /**
+   * Create the card of a chart with its SVG and PNG download buttons
+   */
+  function renderChart(chart: DashboardChart): HTMLElement {
+    const card = document.createElement('div');
+    card.className = 'chart';
+
+    if (!chart.svg) {
+      const title = document.createElement('h2');
+      title.className = 'chart-title';
+      title.textContent = chart.title;
+      const empty = document.createElement('p');
+      empty.className = 'chart-empty';
+      empty.textContent = getMessage('dashboardNoData');
+      card.append(title, empty);
+      return card;
+    }
+
+    const svg = chart.svg;
+    // The chart markup is built with escaped labels by buildColumnChart and buildBarChart
+    card.innerHTML = svg;
+
+    const actions = document.createElement('div');
+    actions.className = 'chart-actions';
+    const svgBtn = document.createElement('button');
+    svgBtn.type = 'button';
+    svgBtn.className = 'btn-small';
+    svgBtn.textContent = getMessage('dashboardDownloadSvg');
+    svgBtn.addEventListener('click', () =>
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${chart.name}.svg`)
+    );
+    const pngBtn = document.createElement('button');
+    pngBtn.type = 'button';
+    pngBtn.className = 'btn-small';
+    pngBtn.textContent = getMessage('dashboardDownloadPng');
+    pngBtn.addEventListener('click', () => {
+      downloadPng(svg, `${chart.name}.png`).catch((error) => {
+        console.warn('[Amazon Exporter] Failed to save chart:', error);
+        showStatus(getMessage('dashboardChartFailed'), 'error');
+      });
+    });
+    actions.append(svgBtn, pngBtn);
+    card.append(actions);
+    return card;
+  }
+
+  function showStatus(message: string, type: 'error' | 'info'): void {
+    statusMessage.textContent = message;
+    statusMessage.className = `status-message ${type}`;
+    statusMessage.classList.remove('hidden');
+  }
+});
@@ -0,0 +1,208 @@
+/**
+ * Order History Exporter for Amazon - CSV Profile Editor
+ * Lets the user pick, create and edit CSV profiles in the popup
+ */
+
+import browser from 'webextension-polyfill';
+import type { CsvColumn, CsvProfile } from '../types';
+import { BUILTIN_CSV_PROFILES, CSV_COLUMNS, moveCsvColumn, normalizeCsvProfile } from '../utils';
+
+const PROFILES_KEY = 'csvProfiles';
+const SELECTED_PROFILE_KEY = 'selectedCsvProfileId';
+
+/**
+ * Load saved CSV profiles, falling back to the built-in ones
+ */
+async function loadProfiles(): Promise<{ profiles: CsvProfile[]; selectedId: string }> {
+  const data = await browser.storage.local.get([PROFILES_KEY, SELECTED_PROFILE_KEY]);
+  const stored = data[PROFILES_KEY] as Partial<CsvProfile>[] | undefined;
+  const profiles = stored?.length ? stored.map(normalizeCsvProfile) : [...BUILTIN_CSV_PROFILES];
+  const selectedId = (data[SELECTED_PROFILE_KEY] as string | undefined) || profiles[0]?.id || '';
+  return { profiles, selectedId };
+}
+
+/**
+ * Load CSV header labels of a locale, or null to use the browser language
+ */
+export async function loadCsvHeaderLabels(
+  language: string
+): Promise<Record<string, string> | null> {
+  if (language === 'auto') return null;
+
+  try {
+    const response = await fetch(browser.runtime.getURL(`_locales/${language}/messages.json`));
+    const messages = (await response.json()) as Record<string, { message: string }>;
+    const labels: Record<string, string> = {};
+    Object.entries(messages).forEach(([key, value]) => {
+      if (key.startsWith('csvHeader')) {
+        labels[key] = value.message;
+      }
+    });
+    return labels;
+  } catch (error) {
+    console.warn('Failed to load CSV header labels:', error);
+    return null;
+  }
+}
+
+/**
+ * Set up the CSV profile editor and return a getter for the selected profile
+ */
+export async function setupCsvProfileEditor(
+  getMessage: (key: string) => string
+): Promise<() => CsvProfile> {
+  const profileSelect = document.getElementById('csvProfile') as HTMLSelectElement;
+  const newBtn = document.getElementById('csvProfileNew') as HTMLButtonElement;
+  const deleteBtn = document.getElementById('csvProfileDelete') as HTMLButtonElement;
+  const nameInput = document.getElementById('csvProfileName') as HTMLInputElement;
+  const delimiterSelect = document.getElementById('csvDelimiter') as HTMLSelectElement;
+  const decimalSelect = document.getElementById('csvDecimalSeparator') as HTMLSelectElement;
+  const languageSelect = document.getElementById('csvHeaderLanguage') as HTMLSelectElement;
+  const rowModeSelect = document.getElementById('csvRowMode') as HTMLSelectElement;
+  const bomInput = document.getElementById('csvIncludeBom') as HTMLInputElement;
+  const crlfInput = document.getElementById('csvCrlf') as HTMLInputElement;
+  const columnsList = document.getElementById('csvColumns') as HTMLElement;
+
+  let { profiles, selectedId } = await loadProfiles();
+
+  const getSelected = (): CsvProfile =>
+    profiles.find((profile) => profile.id === selectedId) || (profiles[0] as CsvProfile);
+
+  async function save(): Promise<void> {
+    await browser.storage.local.set({
+      [PROFILES_KEY]: profiles,
+      [SELECTED_PROFILE_KEY]: selectedId,
+    });
+  }
+
+  function updateSelected(changes: Partial<CsvProfile>): void {
+    const selected = getSelected();
+    profiles = profiles.map((profile) =>
+      profile.id === selected.id ? { ...profile, ...changes } : profile
+    );
+    save();
+  }
+
+  function renderProfileOptions(): void {
+    profileSelect.innerHTML = '';
+    profiles.forEach((profile) => {
+      const option = document.createElement('option');
+      option.value = profile.id;
+      option.textContent = profile.name;
+      option.selected = profile.id === getSelected().id;
+      profileSelect.appendChild(option);
+    });
+    deleteBtn.disabled = profiles.length <= 1;
+  }
+
+  function renderColumns(): void {
+    const profile = getSelected();
+    const allColumns = [
+      ...profile.columns,
+      ...(Object.keys(CSV_COLUMNS) as CsvColumn[]).filter((c) => !profile.columns.includes(c)),
+    ];
+
+    columnsList.innerHTML = '';
+    allColumns.forEach((column) => {
+      const enabled = profile.columns.includes(column);
+      const row = document.createElement('div');
+      row.className = 'column-row';
+
+      const label = document.createElement('label');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = enabled;
+      checkbox.addEventListener('change', () => {
+        const columns = checkbox.checked
+          ? [...getSelected().columns, column]
+          : getSelected().columns.filter((c) => c !== column);
+        updateSelected({ columns });
+        renderColumns();
+      });
+      label.append(checkbox, ` ${getMessage(CSV_COLUMNS[column].header)}`);
+      row.appendChild(label);
+
+      if (enabled) {
+        ([-1, 1] as const).forEach((direction) => {
+          const button = document.createElement('button');
+          button.type = 'button';
+          button.className = 'btn-icon';
+          button.textContent = direction < 0 ? '↑' : '↓';
+          button.addEventListener('click', () => {
+            updateSelected({ columns: moveCsvColumn(getSelected().columns, column, direction) });
+            renderColumns();
+          });
+          row.appendChild(button);
+        });
+      }
+
+      columnsList.appendChild(row);
+    });
+  }
+
+  function renderProfile(): void {
+    const profile = getSelected();
+    nameInput.value = profile.name;
+    delimiterSelect.value = profile.delimiter;
+    decimalSelect.value = profile.decimalSeparator;
+    languageSelect.value = profile.headerLanguage;
+    rowModeSelect.value = profile.rowMode;
+    bomInput.checked = profile.includeBom;
+    crlfInput.checked = profile.lineEnding === 'crlf';
+    renderProfileOptions();
+    renderColumns();
+  }
+
+  profileSelect.addEventListener('change', () => {
+    selectedId = profileSelect.value;
+    save();
+    renderProfile();
+  });
+
+  newBtn.addEventListener('click', () => {
+    const profile: CsvProfile = {
+      ...getSelected(),
+      id: `profile-${Date.now()}`,
+      name: getMessage('csvProfileNewName'),
+    };
+    profiles = [...profiles, profile];
+    selectedId = profile.id;
+    save();
+    renderProfile();
+    nameInput.focus();
+  });
+
+  deleteBtn.addEventListener('click', () => {
+    if (profiles.length <= 1) return;
+    profiles = profiles.filter((profile) => profile.id !== getSelected().id);
+    selectedId = profiles[0]?.id || '';
+    save();
+    renderProfile();
+  });
+
+  nameInput.addEventListener('change', () => {
+    updateSelected({ name: nameInput.value.trim() || getSelected().name });
+    renderProfileOptions();
+  });
+  delimiterSelect.addEventListener('change', () => {
+    updateSelected({ delimiter: delimiterSelect.value as CsvProfile['delimiter'] });
+  });
+  decimalSelect.addEventListener('change', () => {
+    updateSelected({ decimalSeparator: decimalSelect.value as CsvProfile['decimalSeparator'] });
+  });
+  languageSelect.addEventListener('change', () => {
+    updateSelected({ headerLanguage: languageSelect.value });
+  });
+  rowModeSelect.addEventListener('change', () => {
+    updateSelected({ rowMode: rowModeSelect.value as CsvProfile['rowMode'] });
+  });
+  bomInput.addEventListener('change', () => {
+    updateSelected({ includeBom: bomInput.checked });
+  });
+  crlfInput.addEventListener('change', () => {
+    updateSelected({ lineEnding: crlfInput.checked ? 'crlf' : 'lf' });
+  });
+
+  renderProfile();
+  return getSelected;
+}
@@ -4,8 +4,23 @@
  */
 
 import browser from 'webextension-polyfill';
-import type { ExportOptions, ProgressData } from '../types';
-import { isAmazonOrderHistoryPage } from '../utils';
+import type {
+  ExportFormat,
+  ExportOptions,
+  ExportStatus,
+  JournalOptions,
+  OrderType,
+  ProgressData,
+} from '../types';
+import {
+  isAmazonOrderHistoryPage,
+  DEFAULT_JOURNAL_OPTIONS,
+  parseAccountRules,
+  formatAccountRules,
+} from '../utils';
+import { loadCsvHeaderLabels, setupCsvProfileEditor } from './csvProfileEditor';
+
+const JOURNAL_OPTIONS_KEY = 'journalOptions';
 
 /**
  * Get localized message from browser i18n API
@@ -14,6 +29,14 @@ function getMessage(key: string, substitutions?: string | string[]): string {
   return browser.i18n.getMessage(key, substitutions) || key;
 }
 
+/**
+ * Load the journal export settings saved by the last journal export
+ */
+async function loadJournalOptions(): Promise<JournalOptions> {
+  const data = await browser.storage.local.get(JOURNAL_OPTIONS_KEY);
+  return { ...DEFAULT_JOURNAL_OPTIONS, ...(data[JOURNAL_OPTIONS_KEY] as Partial<JournalOptions>) };
+}
+
 /**
  * Apply i18n translations to all elements with data-i18n attribute
  */
@@ -44,7 +67,31 @@ document.addEventListener('DOMContentLoaded', async () => {
   const dateRangeInputs = document.getElementById('date-range-inputs') as HTMLElement;
   const startDateInput = document.getElementById('startDate') as HTMLInputElement;
   const endDateInput = document.getElementById('endDate') as HTMLInputElement;
+  const includePhysicalInput = document.getElementById('includePhysical') as HTMLInputElement;
+  const includeDigitalInput = document.getElementById('includeDigital') as HTMLInputElement;
+  const includeSubscriptionsInput = document.getElementById(
+    'includeSubscriptions'
+  ) as HTMLInputElement;
+  const enrichProductsInput = document.getElementById('enrichProducts') as HTMLInputElement;
+  const incrementalInput = document.getElementById('incrementalExport') as HTMLInputElement;
+  const downloadInvoicesInput = document.getElementById('downloadInvoices') as HTMLInputElement;
+  const csvSettings = document.getElementById('csv-settings') as HTMLElement;
+  const journalSettings = document.getElementById('journal-settings') as HTMLElement;
+  const paymentAccountInput = document.getElementById('paymentAccount') as HTMLInputElement;
+  const expenseAccountInput = document.getElementById('expenseAccount') as HTMLInputElement;
+  const discountAccountInput = document.getElementById('discountAccount') as HTMLInputElement;
+  const accountRulesInput = document.getElementById('accountRules') as HTMLTextAreaElement;
   const settingsSection = document.getElementById('settings-section') as HTMLElement;
+  const exportControls = document.getElementById('export-controls') as HTMLElement;
+  const pauseBtn = document.getElementById('pauseBtn') as HTMLButtonElement;
+  const resumeBtn = document.getElementById('resumeBtn') as HTMLButtonElement;
+  const cancelBtn = document.getElementById('cancelBtn') as HTMLButtonElement;
+  const cancelConfirm = document.getElementById('cancel-confirm') as HTMLElement;
+  const cancelConfirmText = document.getElementById('cancelConfirmText') as HTMLElement;
+  const cancelDownloadBtn = document.getElementById('cancelDownloadBtn') as HTMLButtonElement;
+  const cancelDiscardBtn = document.getElementById('cancelDiscardBtn') as HTMLButtonElement;
+  const cancelBackBtn = document.getElementById('cancelBackBtn') as HTMLButtonElement;
+  const dashboardBtn = document.getElementById('dashboardBtn') as HTMLButtonElement;
 
   // Set default date values
   const today = new Date();
@@ -52,6 +99,16 @@ document.addEventListener('DOMContentLoaded', async () => {
   endDateInput.value = today.toISOString().split('T')[0] || '';
   startDateInput.value = oneYearAgo.toISOString().split('T')[0] || '';
 
+  // Restore CSV profiles
+  const getCsvProfile = await setupCsvProfileEditor(getMessage);
+
+  // Restore journal export settings
+  const journalOptions = await loadJournalOptions();
+  paymentAccountInput.value = journalOptions.paymentAccount;
+  expenseAccountInput.value = journalOptions.defaultExpenseAccount;
+  discountAccountInput.value = journalOptions.discountAccount;
+  accountRulesInput.value = formatAccountRules(journalOptions.accountRules);
+
   // Check if we're on an Amazon order history page
   const tabs = await browser.tabs.query({ active: true, currentWindow: true });
   const currentTab = tabs[0];
@@ -63,6 +120,14 @@ document.addEventListener('DOMContentLoaded', async () => {
     notAmazonEl.classList.remove('hidden');
   }
 
+  // Show the export running in this tab instead of the settings form
+  if (isAmazonOrderPage) {
+    const status = await sendExportControl('getExportStatus');
+    if (status?.success && status.inProgress) {
+      showRunningExport(status);
+    }
+  }
+
   // Handle export range radio buttons
   document.querySelectorAll('input[name="exportRange"]').forEach((radio) => {
     radio.addEventListener('change', (e) => {
@@ -75,6 +140,17 @@ document.addEventListener('DOMContentLoaded', async () => {
     });
   });
 
+  // Show format-specific settings for the selected format
+  document.querySelectorAll('input[name="exportFormat"]').forEach((radio) => {
+    radio.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      const isJournal = target.value === 'beancount' || target.value === 'ledger';
+      // Archives include a CSV file written with the CSV settings
+      csvSettings.classList.toggle('hidden', target.value !== 'csv' && target.value !== 'zip');
+      journalSettings.classList.toggle('hidden', !isJournal);
+    });
+  });
+
   // Handle export button click
   exportBtn.addEventListener('click', async () => {
     const exportRangeEl = document.querySelector(
@@ -84,7 +160,7 @@ document.addEventListener('DOMContentLoaded', async () => {
       'input[name="exportFormat"]:checked'
     ) as HTMLInputElement;
     const exportRange = exportRangeEl?.value || 'all';
-    const exportFormat = (exportFormatEl?.value || 'json') as 'json' | 'csv';
+    const exportFormat = (exportFormatEl?.value || 'json') as ExportFormat;
 
     let startDate: string | null = null;
     let endDate: string | null = null;
@@ -104,10 +180,19 @@ document.addEventListener('DOMContentLoaded', async () => {
       }
     }
 
+    const orderTypes: OrderType[] = [];
+    if (includePhysicalInput.checked) orderTypes.push('physical');
+    if (includeDigitalInput.checked) orderTypes.push('digital');
+    if (orderTypes.length === 0 && !includeSubscriptionsInput.checked) {
+      showStatus(getMessage('errorSelectOrderTypes'), 'error');
+      return;
+    }
+
     // Start export - hide settings and show progress
     settingsSection.classList.add('hidden');
     exportBtn.classList.add('hidden');
     showProgress(0, getMessage('exportStartedMessage'));
+    showExportControls(false);
     showStatus(getMessage('exportStartedStatus'), 'success');
 
     try {
@@ -124,8 +209,34 @@ document.addEventListener('DOMContentLoaded', async () => {
         startDate: startDate,
         endDate: endDate,
         exportAll: exportRange === 'all',
+        incremental: incrementalInput.checked,
+        orderTypes: orderTypes,
+        includeSubscriptions: includeSubscriptionsInput.checked,
+        enrichProducts: enrichProductsInput.checked,
+        downloadInvoices: downloadInvoicesInput.checked,
       };
 
+      if (exportFormat === 'csv' || exportFormat === 'zip') {
+        options.csvProfile = getCsvProfile();
+        options.csvHeaderLabels =
+          (await loadCsvHeaderLabels(options.csvProfile.headerLanguage)) || undefined;
+      }
+
+      if (exportFormat === 'beancount' || exportFormat === 'ledger') {
+        options.journalOptions = {
+          ...journalOptions,
+          dialect: exportFormat,
+          paymentAccount:
+            paymentAccountInput.value.trim() || DEFAULT_JOURNAL_OPTIONS.paymentAccount,
+          defaultExpenseAccount:
+            expenseAccountInput.value.trim() || DEFAULT_JOURNAL_OPTIONS.defaultExpenseAccount,
+          discountAccount:
+            discountAccountInput.value.trim() || DEFAULT_JOURNAL_OPTIONS.discountAccount,
+          accountRules: parseAccountRules(accountRulesInput.value),
+        };
+        await browser.storage.local.set({ [JOURNAL_OPTIONS_KEY]: options.journalOptions });
+      }
+
       // Send message to content script
       const response = (await browser.tabs.sendMessage(currentTab.id, {
         action: 'exportOrders',
@@ -153,17 +264,140 @@ document.addEventListener('DOMContentLoaded', async () => {
   browser.runtime.onMessage.addListener((message: unknown) => {
     const msg = message as { action: string; data?: ProgressData };
     if (msg.action === 'updateProgress' && msg.data) {
+      // If the export stopped with an error, show it and restore UI
+      if (msg.data.error) {
+        settingsSection.classList.remove('hidden');
+        exportBtn.classList.remove('hidden');
+        hideProgress();
+        hideExportControls();
+        showStatus(msg.data.message, 'error');
+        return;
+      }
+
       showProgress(msg.data.percent, msg.data.message);
 
+      // A paused run keeps its controls so it can be resumed
+      if (msg.data.paused) {
+        showExportControls(true);
+        return;
+      }
+
       // If complete, show success message and restore UI
       if (msg.data.percent >= 100) {
         settingsSection.classList.remove('hidden');
         exportBtn.classList.remove('hidden');
+        hideExportControls();
         showStatus(msg.data.message, 'success');
       }
     }
   });
 
+  pauseBtn.addEventListener('click', async () => {
+    const status = await sendExportControl('pauseExport');
+    if (status?.success) {
+      showRunningExport(status);
+    }
+  });
+
+  resumeBtn.addEventListener('click', async () => {
+    const status = await sendExportControl('resumeExport');
+    if (status?.success) {
+      showRunningExport(status);
+    }
+  });
+
+  cancelBtn.addEventListener('click', async () => {
+    const status = await sendExportControl('getExportStatus');
+    cancelConfirmText.textContent = getMessage('cancelConfirm', [String(status?.orderCount ?? 0)]);
+    cancelDownloadBtn.disabled = !status?.orderCount;
+    exportControls.classList.add('hidden');
+    cancelConfirm.classList.remove('hidden');
+  });
+
+  cancelBackBtn.addEventListener('click', () => {
+    cancelConfirm.classList.add('hidden');
+    exportControls.classList.remove('hidden');
+  });
+
+  cancelDownloadBtn.addEventListener('click', () => cancelExport(true));
+  cancelDiscardBtn.addEventListener('click', () => cancelExport(false));
+
+  // Open the dashboard of the last export in a new tab
+  dashboardBtn.addEventListener('click', async () => {
+    await browser.tabs.create({ url: browser.runtime.getURL('dashboard/dashboard.html') });
+    window.close();
+  });
+
+  /**
+   * Send a pause, resume, cancel or status request to the content script
+   */
+  async function sendExportControl(
+    action: string,
+    extra: Record<string, unknown> = {}
+  ): Promise<({ success: boolean } & Partial<ExportStatus>) | null> {
+    if (!currentTab?.id) return null;
+    try {
+      return (await browser.tabs.sendMessage(currentTab.id, { action, ...extra })) as {
+        success: boolean;
+      } & Partial<ExportStatus>;
+    } catch {
+      // Content script not loaded in this tab
+      return null;
+    }
+  }
+
+  /**
+   * Cancel the running export and restore the settings form
+   */
+  async function cancelExport(downloadPartial: boolean): Promise<void> {
+    await sendExportControl('cancelExport', { downloadPartial });
+    settingsSection.classList.remove('hidden');
+    exportBtn.classList.remove('hidden');
+    hideProgress();
+    hideExportControls();
+    showStatus(getMessage('exportCancelled'), 'info');
+  }
+
+  /**
+   * Show the progress and controls of a running or paused export
+   */
+  function showRunningExport(status: Partial<ExportStatus>): void {
+    settingsSection.classList.add('hidden');
+    exportBtn.classList.add('hidden');
+    let message: string;
+    if (status.paused) {
+      message = getMessage('exportPaused');
+    } else if (status.invoicesCompleted !== undefined) {
+      message = getMessage('downloadingInvoicesProgress', [
+        String(status.invoicesCompleted),
+        String(status.orderCount ?? 0),
+      ]);
+    } else if (!status.currentYear) {
+      // All pages were scraped, order details are being fetched
+      message = getMessage('fetchingPrices', [String(status.orderCount ?? 0)]);
+    } else {
+      message = getMessage('exportStatusSummary', [
+        status.currentYear,
+        String(status.page ?? 1),
+        String(status.orderCount ?? 0),
+      ]);
+    }
+    showProgress(status.percent ?? 0, message);
+    showExportControls(status.paused === true);
+  }
+
+  function showExportControls(paused: boolean): void {
+    cancelConfirm.classList.add('hidden');
+    exportControls.classList.remove('hidden');
+    pauseBtn.classList.toggle('hidden', paused);
+    resumeBtn.classList.toggle('hidden', !paused);
+  }
+
+  function hideExportControls(): void {
+    exportControls.classList.add('hidden');
+    cancelConfirm.classList.add('hidden');
+  }
+
   function setLoading(loading: boolean): void {
     exportBtn.disabled = loading;
     btnText.classList.toggle('hidden', loading);
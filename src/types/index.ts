@@ -2,57 +2,563 @@
  * Shared types for Order History Exporter for Amazon
  */
 
+/**
+ * Exact amount of money in integer minor units of its currency (e.g. cents),
+ * so sums never pick up floating point errors
+ */
+export interface Money {
+  /** Amount in minor units, e.g. 1299 for 12.99 EUR or 1299 for 1299 JPY */
+  amount: number;
+  /** ISO 4217 currency code */
+  currency: string;
+}
+
 export interface OrderItem {
   title: string;
   asin: string;
   quantity: number;
-  price: number;
-  discount: number;
+  /** Price of one unit */
+  unitPrice: Money;
+  /** Unit price times quantity */
+  lineTotal: Money;
+  /** Item coupons plus the item's share of order-wide promotions, as a positive amount */
+  allocatedDiscount: Money;
+  /**
+   * Line total minus the allocated discount plus the item's share of shipping, tax and other
+   * charges; the net line totals of an order add up to its total
+   */
+  netLineTotal: Money;
   itemUrl: string;
+  /** Product image shown in the order list, empty when none was found */
+  imageUrl: string;
+  /** Seller named on the details page ("Sold by"), empty when not shown */
+  seller: string;
+  /** Whether Amazon ships the item, null when the details page does not tell */
+  fulfilledByAmazon: boolean | null;
+  /** Details from the product page, null unless products were enriched */
+  product: ProductInfo | null;
 }
 
+/**
+ * Details of a product read from its product page
+ */
+export interface ProductInfo {
+  brand: string;
+  /** Category breadcrumb from the top level down, e.g. ["Electronics", "Cables"] */
+  category: string[];
+  /** ISBN-13, or ISBN-10 for books without one */
+  isbn: string;
+  /** EAN, GTIN or JAN barcode number */
+  ean: string;
+}
+
+/**
+ * Product details of one marketplace, keyed by ASIN
+ */
+export type ProductCache = Record<string, ProductInfo>;
+
 export interface Order {
   orderId: string;
   orderDate: string;
-  totalAmount: number;
-  currency: string;
+  orderType: OrderType;
+  totalAmount: Money;
+  /** Total minus all refunds in the order currency */
+  netAmount: Money;
   items: OrderItem[];
   orderStatus: string;
   detailsUrl: string;
   promotions: Promotion[];
-  totalSavings: number;
+  totalSavings: Money;
+  /** Charges from the order summary of the details page, null until details are loaded */
+  costBreakdown: CostBreakdown | null;
+  /** How the order was paid, null until details are loaded */
+  payments: OrderPayments | null;
+  shipments: Shipment[];
+  /** Refunds from the order details and returns center pages */
+  refunds: Refund[];
+  /** Placed as a Subscribe & Save delivery */
+  subscribeAndSave: boolean;
+  detailsStatus: DetailsStatus;
 }
 
+/**
+ * Where an order is listed
+ * - physical: order history, for shipped goods
+ * - digital: digital orders, e.g. Kindle books, apps, Prime Video and music
+ */
+export type OrderType = 'physical' | 'digital';
+
+/**
+ * Whether item prices and promotions were loaded from the order details page
+ */
+export type DetailsStatus = 'pending' | 'enriched' | 'failed' | 'skipped';
+
+/**
+ * Delivery state of a shipment
+ */
+export type ShipmentStatus =
+  | 'shipped'
+  | 'in_transit'
+  | 'delivered'
+  | 'cancelled'
+  | 'returned'
+  | 'unknown';
+
+/**
+ * Item of an order that is part of a shipment
+ */
+export interface ShipmentItem {
+  asin: string;
+  title: string;
+  quantity: number;
+}
+
+/**
+ * One package of an order, as shown on the order details page
+ */
+export interface Shipment {
+  items: ShipmentItem[];
+  status: ShipmentStatus;
+  /** Status as shown by Amazon, e.g. "Delivered 3 February" */
+  statusText: string;
+  /** ISO date, empty when not shown */
+  shippedDate: string;
+  /** ISO date, empty when not delivered yet or not shown */
+  deliveredDate: string;
+  carrier: string;
+  trackingId: string;
+}
+
+/**
+ * Refund of returned or cancelled items of an order
+ */
+export interface Refund {
+  /** Refunded items, empty when Amazon does not tell */
+  items: ShipmentItem[];
+  amount: Money;
+  /** ISO date, empty when not shown */
+  date: string;
+  /** Card or payment method refunded to, e.g. "Visa ****1234", empty when not shown */
+  method: string;
+}
+
+/**
+ * Kind of a recurring charge
+ * - membership: paid membership or digital subscription, e.g. Prime, Audible or Kindle Unlimited
+ * - subscribe_and_save: product delivered regularly through Subscribe & Save
+ */
+export type SubscriptionKind = 'membership' | 'subscribe_and_save';
+
+export type CadenceUnit = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Interval between two charges or deliveries, e.g. every 2 months
+ */
+export interface SubscriptionCadence {
+  count: number;
+  unit: CadenceUnit;
+}
+
+/**
+ * Past charge of a subscription
+ */
+export interface SubscriptionCharge {
+  /** ISO date */
+  date: string;
+  amount: Money;
+  /** Order of a Subscribe & Save delivery, empty for memberships */
+  orderId: string;
+}
+
+/**
+ * Membership or Subscribe & Save subscription, as shown on the memberships and
+ * subscriptions pages and the Subscribe & Save dashboard
+ */
+export interface Subscription {
+  name: string;
+  kind: SubscriptionKind;
+  /** Product of a Subscribe & Save subscription, empty for memberships */
+  asin: string;
+  /** Null when not shown */
+  cadence: SubscriptionCadence | null;
+  /** Price per charge or delivery, null when not shown */
+  price: Money | null;
+  /** ISO date, empty when not shown */
+  nextChargeDate: string;
+  charges: SubscriptionCharge[];
+  /** Page managing the subscription */
+  url: string;
+}
+
+/**
+ * Charges of an order as listed in the order summary of its details page.
+ * Charges not shown in the summary are zero.
+ */
+export interface CostBreakdown {
+  /** Item subtotal */
+  subtotal: Money;
+  shipping: Money;
+  /** Promotions applied in the summary, as a positive amount */
+  promotions: Money;
+  totalBeforeTax: Money;
+  /** Estimated tax or VAT, summed over all tax lines */
+  tax: Money;
+  /** Tax rate in percent, null when not shown or when lines have different rates */
+  taxRate: number | null;
+  giftWrap: Money;
+  importFees: Money;
+  grandTotal: Money;
+}
+
+/**
+ * Amount fields of a cost breakdown
+ */
+export type CostBreakdownField = Exclude<keyof CostBreakdown, 'taxRate'>;
+
+/**
+ * Kind of payment instrument
+ */
+export type PaymentInstrumentType = 'card' | 'gift_card' | 'reward_points' | 'other';
+
+/**
+ * Payment instrument used for an order. Cards are only identified by brand and last digits.
+ */
+export interface PaymentInstrument {
+  type: PaymentInstrumentType;
+  /** Card brand or payment method, e.g. "Visa", "PayPal" or "Gift card" */
+  name: string;
+  /** Last four digits of the card, empty when not shown */
+  lastDigits: string;
+  /** Amount paid with this instrument, null when not known */
+  amount: Money | null;
+}
+
+/**
+ * Charge of a payment instrument, as listed in the transactions of an order
+ */
+export interface PaymentTransaction {
+  /** ISO date */
+  date: string;
+  name: string;
+  lastDigits: string;
+  amount: Money;
+}
+
+export interface OrderPayments {
+  instruments: PaymentInstrument[];
+  transactions: PaymentTransaction[];
+}
+
+/**
+ * Kind of a promotion, told by its text
+ * - coupon: clipped coupon, voucher or promotional code
+ * - subscribe_and_save: Subscribe & Save discount
+ * - reward_points: reward points redeemed
+ * - gift_card: gift card balance applied
+ * - prime: discount for Prime members
+ * - bundle: quantity or bundle discount
+ * - shipping: shipping or delivery discount
+ * - lightning_deal: Lightning Deal or other time-limited deal
+ * - other: any other discount
+ */
+export type PromotionKind =
+  | 'coupon'
+  | 'subscribe_and_save'
+  | 'reward_points'
+  | 'gift_card'
+  | 'prime'
+  | 'bundle'
+  | 'shipping'
+  | 'lightning_deal'
+  | 'other';
+
 export interface Promotion {
   description: string;
-  amount: number;
+  amount: Money;
+  /** Item a coupon applies to, empty for order-wide promotions */
+  asin: string;
+  kind: PromotionKind;
+  /** How likely the text is a promotion rather than another price, from 0 to 1 */
+  confidence: number;
 }
 
+export type ExportFormat =
+  | 'json'
+  | 'csv'
+  | 'xlsx'
+  | 'ofx1'
+  | 'ofx2'
+  | 'qif'
+  | 'beancount'
+  | 'ledger'
+  | 'zip';
+
 export interface ExportOptions {
-  format: 'json' | 'csv';
+  format: ExportFormat;
   startDate: string | null;
   endDate: string | null;
   exportAll: boolean;
+  incremental: boolean;
+  /** Order lists to export */
+  orderTypes: OrderType[];
+  /** Also export memberships and Subscribe & Save subscriptions */
+  includeSubscriptions: boolean;
+  /** Also read the product page of each item for brand, category and product codes */
+  enrichProducts: boolean;
+  /** Also download the invoice of each exported order */
+  downloadInvoices: boolean;
+  journalOptions?: JournalOptions;
+  csvProfile?: CsvProfile;
+  csvHeaderLabels?: Record<string, string>;
+}
+
+/**
+ * Kind of an invoice link on an order details page
+ * - document: invoice file, usually a PDF
+ * - popover: list of the invoice documents of an order
+ * - summary: printable order summary, offered where Amazon issues no invoice documents
+ */
+export type InvoiceLinkKind = 'document' | 'popover' | 'summary';
+
+/**
+ * Progress of the invoice downloads of an export run
+ */
+export interface InvoiceProgress {
+  /** Stored order chunk to continue with */
+  chunkIndex: number;
+  completed: number;
+  /** Number of invoice files downloaded, not counting order summaries */
+  downloaded: number;
+  /** Orders without an available invoice */
+  missingOrderIds: string[];
+  /** Orders saved with only a printable order summary, as Amazon issued no invoice */
+  summaryOnlyOrderIds: string[];
 }
 
+/**
+ * Progress and settings of an export run. Collected orders and their IDs are stored
+ * separately in chunks, and the previous export is read from the export history, so the
+ * state stays small.
+ */
 export interface ExportState {
+  runId: string;
   inProgress: boolean;
-  format: 'json' | 'csv';
+  paused: boolean;
+  /** ISO timestamp of the last save, used to detect interrupted runs */
+  updatedAt: string;
+  format: ExportFormat;
   startDate: string | null;
   endDate: string | null;
   exportAll: boolean;
+  /** Order lists to crawl, each for all years */
+  orderTypes: OrderType[];
+  currentOrderTypeIndex: number;
+  includeSubscriptions: boolean;
+  /** Set once the subscription pages were read */
+  subscriptions?: Subscription[];
+  enrichProducts: boolean;
   yearsToProcess: string[];
   currentYearIndex: number;
   currentStartIndex: number;
-  collectedOrders: Order[];
-  seenOrderIds: string[];
+  orderCount: number;
+  orderChunkCount: number;
   baseUrl: string;
+  digitalBaseUrl: string;
+  incremental: boolean;
+  marketplace: string;
+  downloadInvoices: boolean;
+  /** Set once the export file was downloaded, so a run resumed during invoices skips it */
+  fileDownloaded?: boolean;
+  invoiceProgress?: InvoiceProgress;
+  journalOptions?: JournalOptions;
+  csvProfile?: CsvProfile;
+  csvHeaderLabels?: Record<string, string>;
+}
+
+/**
+ * Locale-specific texts and number formats of one Amazon marketplace
+ */
+export interface SiteProfile {
+  domain: string;
+  locale: string;
+  currency: string;
+  /** Currency symbols and codes shown on the site */
+  currencySymbols: string[];
+  /** Detected from each number when not set */
+  decimalSeparator?: '.' | ',';
+  /** Month names in lowercase without diacritics, mapped to month numbers */
+  months: Record<string, number>;
+  orderDateLabels: string[];
+  totalLabels: string[];
+  statusPhrases: string[];
+  promotionKeywords: string[];
+  quantityLabels: string[];
+  nextPageLabels: string[];
+  /** Phrases identifying the delivery state of a shipment */
+  shipmentStatusPhrases: Record<Exclude<ShipmentStatus, 'unknown'>, string[]>;
+  /** Phrases identifying the kind of a promotion */
+  promotionKindPhrases: Record<Exclude<PromotionKind, 'other'>, string[]>;
+  /** Labels shown before tracking IDs */
+  trackingLabels: string[];
+  /** Labels of the order summary lines */
+  costLabels: Record<CostBreakdownField, string[]>;
+  /** Labels of gift card and reward point lines in the payment summary */
+  giftCardLabels: string[];
+  rewardPointsLabels: string[];
+  /** Words identifying refunds, e.g. "Refund issued" or "Erstattung" */
+  refundLabels: string[];
+  /** Names of the Subscribe & Save program, e.g. "Spar-Abo" */
+  subscribeAndSaveLabels: string[];
+  /** Labels shown before the next charge or delivery date of a subscription */
+  nextChargeLabels: string[];
+  /** Words for the cadence units of subscriptions, e.g. "months" or "monthly" */
+  cadenceLabels: Record<CadenceUnit, string[]>;
+  /** Labels shown before the seller of an item, e.g. "Sold by" */
+  soldByLabels: string[];
+  /** Phrases telling that Amazon ships an item, e.g. "Fulfilled by Amazon" */
+  fulfilledByAmazonPhrases: string[];
+  /** Labels shown before the brand on product pages */
+  brandLabels: string[];
+  /** Brand store links of product pages, with {brand} for the brand name */
+  brandStorePhrases: string[];
+}
+
+/**
+ * Last exported state of an order, used to detect new or changed orders
+ */
+export interface ExportedOrderSnapshot {
+  orderStatus: string;
+  totalAmount: Money;
+}
+
+/**
+ * Previously exported orders of one marketplace, keyed by order ID
+ */
+export type ExportHistory = Record<string, ExportedOrderSnapshot>;
+
+/**
+ * Maps item titles matching a pattern to an account
+ */
+export interface AccountRule {
+  pattern: string;
+  account: string;
+}
+
+export interface JournalOptions {
+  dialect: 'beancount' | 'ledger';
+  payee: string;
+  defaultExpenseAccount: string;
+  paymentAccount: string;
+  discountAccount: string;
+  adjustmentAccount: string;
+  accountRules: AccountRule[];
+}
+
+export type CsvColumn =
+  | 'orderId'
+  | 'orderDate'
+  | 'totalAmount'
+  | 'netAmount'
+  | 'refundedAmount'
+  | 'currency'
+  | 'totalSavings'
+  | 'subtotal'
+  | 'shipping'
+  | 'promotionsApplied'
+  | 'totalBeforeTax'
+  | 'tax'
+  | 'taxRate'
+  | 'giftWrap'
+  | 'importFees'
+  | 'grandTotal'
+  | 'paymentMethods'
+  | 'status'
+  | 'orderType'
+  | 'itemTitle'
+  | 'itemAsin'
+  | 'itemQuantity'
+  | 'itemPrice'
+  | 'itemLineTotal'
+  | 'itemDiscount'
+  | 'itemNetTotal'
+  | 'itemSeller'
+  | 'itemFulfilledByAmazon'
+  | 'itemBrand'
+  | 'itemCategory'
+  | 'itemIsbn'
+  | 'itemEan'
+  | 'promotions'
+  | 'itemUrl'
+  | 'itemImageUrl'
+  | 'detailsUrl';
+
+/**
+ * Saved CSV settings, selectable in the popup
+ */
+export interface CsvProfile {
+  id: string;
+  name: string;
+  delimiter: ',' | ';' | '\t';
+  decimalSeparator: '.' | ',';
+  includeBom: boolean;
+  lineEnding: 'lf' | 'crlf';
+  /** 'auto' for the browser language, or a locale such as 'de' */
+  headerLanguage: string;
+  columns: CsvColumn[];
+  /** One row per item, or one row per order with item fields combined */
+  rowMode: 'item' | 'order';
+}
+
+/**
+ * Versioned wrapper around exported orders in JSON exports
+ */
+export interface ExportEnvelope {
+  /** Semantic version of the export format */
+  schemaVersion: string;
+  generator: {
+    name: string;
+    version: string;
+  };
+  /** ISO 8601 timestamp of the export */
+  exportedAt: string;
+  /** Marketplace domain, e.g. "amazon.de" */
+  marketplace: string;
+  range: {
+    startDate: string | null;
+    endDate: string | null;
+    exportAll: boolean;
+  };
+  formatOptions: {
+    format: ExportFormat;
+    incremental: boolean;
+  };
+  orders: Order[];
+  /** Memberships and Subscribe & Save subscriptions, empty unless requested */
+  subscriptions: Subscription[];
+}
+
+/**
+ * Export shown by the dashboard page. Its orders are not copied: they stay in the order
+ * chunks of the finished run, under the same keys as while it was running.
+ */
+export interface LastExport extends Omit<ExportEnvelope, 'orders'> {
+  runId: string;
+  orderChunkCount: number;
 }
 
 export interface DownloadData {
   content: string;
   fileName: string;
   mimeType: string;
+  /** Binary files are passed base64-encoded, as messages only carry JSON */
+  encoding?: 'text' | 'base64';
+  /** Binary file passed as is where messages can carry it, replacing the content */
+  blob?: Blob;
+  /**
+   * Remote file, e.g. an invoice, downloaded with the user's session instead of the content.
+   * It is saved without asking and replaces an earlier copy.
+   */
+  url?: string;
 }
 
 export interface MessagePayload {
@@ -61,7 +567,24 @@ export interface MessagePayload {
   options?: ExportOptions;
 }
 
+/**
+ * Summary of a running export, shown when the popup is reopened
+ */
+export interface ExportStatus {
+  inProgress: boolean;
+  paused: boolean;
+  currentYear: string;
+  page: number;
+  orderCount: number;
+  percent: number;
+  /** Orders whose invoices were looked up, set while invoices are downloaded */
+  invoicesCompleted?: number;
+}
+
 export interface ProgressData {
   percent: number;
   message: string;
+  error?: boolean;
+  /** The run was paused and can be resumed */
+  paused?: boolean;
 }
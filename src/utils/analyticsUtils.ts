@@ -0,0 +1,411 @@
+/**
+ * Spending analytics utilities: figures of the dashboard page, computed from exported orders
+ */
+
+import type { ExportEnvelope, Money, Order, OrderItem, Promotion, PromotionKind } from '../types';
+import { addMoney, moneyFromDecimal, multiplyMoney, zeroMoney } from './moneyUtils';
+
+/**
+ * Storage key holding the envelope of the last export, read by the dashboard
+ */
+export const LAST_EXPORT_KEY = 'lastExport';
+
+/**
+ * Orders the dashboard looks at
+ */
+export interface AnalyticsFilter {
+  /** First order date (YYYY-MM-DD), null for no limit */
+  startDate: string | null;
+  /** Last order date (YYYY-MM-DD), null for no limit */
+  endDate: string | null;
+  currency: string;
+}
+
+/**
+ * Spend of a month ("2024-03") or year ("2024")
+ */
+export interface SpendPeriod {
+  period: string;
+  spend: Money;
+  orderCount: number;
+}
+
+/**
+ * Spend on a product over all orders
+ */
+export interface ItemSpend {
+  asin: string;
+  title: string;
+  quantity: number;
+  spend: Money;
+}
+
+/**
+ * Spend on the items of a seller over all orders
+ */
+export interface SellerSpend {
+  seller: string;
+  itemCount: number;
+  spend: Money;
+}
+
+export interface StatusCount {
+  status: string;
+  orderCount: number;
+}
+
+export interface KindSavings {
+  kind: PromotionKind;
+  savings: Money;
+}
+
+/**
+ * Figures of the orders of one currency
+ */
+export interface SpendingSummary {
+  currency: string;
+  orderCount: number;
+  /** Net amount of all orders, after refunds */
+  totalSpend: Money;
+  averageOrderValue: Money;
+  /** Sum of all promotions */
+  totalSavings: Money;
+  spendByMonth: SpendPeriod[];
+  spendByYear: SpendPeriod[];
+  topItems: ItemSpend[];
+  topSellers: SellerSpend[];
+  statusCounts: StatusCount[];
+  savingsByKind: KindSavings[];
+}
+
+/**
+ * Get the currencies of the orders, the most used first
+ */
+export function getOrderCurrencies(orders: Order[]): string[] {
+  const counts = new Map<string, number>();
+  orders.forEach((order) => {
+    const currency = order.totalAmount.currency;
+    counts.set(currency, (counts.get(currency) || 0) + 1);
+  });
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([currency]) => currency);
+}
+
+/**
+ * Keep the orders of the filter's currency placed within its date range. Orders whose total
+ * and net amount differ in currency, as in hand-edited imports, are left out so their
+ * amounts can be summed. Orders without a date are only kept when the range is open.
+ */
+export function filterOrders(orders: Order[], filter: AnalyticsFilter): Order[] {
+  return orders.filter((order) => {
+    if (order.totalAmount.currency !== filter.currency) return false;
+    if (order.netAmount.currency !== filter.currency) return false;
+    if (!filter.startDate && !filter.endDate) return true;
+    if (!order.orderDate) return false;
+    if (filter.startDate && order.orderDate < filter.startDate) return false;
+    if (filter.endDate && order.orderDate > filter.endDate) return false;
+    return true;
+  });
+}
+
+/**
+ * List the periods from the first to the last one, e.g. "2024-11", "2024-12", "2025-01"
+ */
+function listPeriods(first: string, last: string, unit: 'month' | 'year'): string[] {
+  const periods: string[] = [];
+  let year = Number(first.substring(0, 4));
+  let month = unit === 'month' ? Number(first.substring(5, 7)) : 1;
+  for (;;) {
+    const period = unit === 'month' ? `${year}-${String(month).padStart(2, '0')}` : String(year);
+    periods.push(period);
+    if (period >= last) return periods;
+    if (unit === 'year' || month === 12) {
+      year++;
+      month = 1;
+    } else {
+      month++;
+    }
+  }
+}
+
+/**
+ * Sum the net amounts of the orders per month or year, oldest first. Periods without orders
+ * between the first and the last order are listed with no spend; orders without a date are
+ * left out.
+ */
+export function getSpendByPeriod(
+  orders: Order[],
+  currency: string,
+  unit: 'month' | 'year'
+): SpendPeriod[] {
+  const length = unit === 'month' ? 7 : 4;
+  const spends = new Map<string, SpendPeriod>();
+  orders.forEach((order) => {
+    if (order.netAmount.currency !== currency || !/^\d{4}-\d{2}/.test(order.orderDate)) return;
+    const period = order.orderDate.substring(0, length);
+    const spend = spends.get(period) || { period, spend: zeroMoney(currency), orderCount: 0 };
+    spend.spend = addMoney(spend.spend, order.netAmount);
+    spend.orderCount++;
+    spends.set(period, spend);
+  });
+
+  const periods = [...spends.keys()].sort();
+  const first = periods[0];
+  const last = periods[periods.length - 1];
+  if (!first || !last) return [];
+  return listPeriods(first, last, unit).map(
+    (period) => spends.get(period) || { period, spend: zeroMoney(currency), orderCount: 0 }
+  );
+}
+
+/**
+ * Add the net total of an item to a spend, skipping items of other currencies
+ */
+function addItemSpend(spend: Money, item: OrderItem): Money {
+  return item.netLineTotal.currency === spend.currency ? addMoney(spend, item.netLineTotal) : spend;
+}
+
+/**
+ * Get the products with the highest spend, by ASIN or else by title
+ * @param limit - Number of products to return
+ */
+export function getTopItems(orders: Order[], currency: string, limit: number = 10): ItemSpend[] {
+  const items = new Map<string, ItemSpend>();
+  orders.forEach((order) => {
+    order.items.forEach((item) => {
+      const key = item.asin || item.title;
+      if (!key) return;
+      const spend = items.get(key) || {
+        asin: item.asin,
+        title: item.title,
+        quantity: 0,
+        spend: zeroMoney(currency),
+      };
+      spend.title = spend.title || item.title;
+      spend.quantity += item.quantity;
+      spend.spend = addItemSpend(spend.spend, item);
+      items.set(key, spend);
+    });
+  });
+
+  return [...items.values()]
+    .sort((a, b) => b.spend.amount - a.spend.amount || b.quantity - a.quantity)
+    .slice(0, limit);
+}
+
+/**
+ * Get the sellers with the highest spend; items without a known seller are left out
+ * @param limit - Number of sellers to return
+ */
+export function getTopSellers(
+  orders: Order[],
+  currency: string,
+  limit: number = 10
+): SellerSpend[] {
+  const sellers = new Map<string, SellerSpend>();
+  orders.forEach((order) => {
+    order.items.forEach((item) => {
+      if (!item.seller) return;
+      const spend = sellers.get(item.seller) || {
+        seller: item.seller,
+        itemCount: 0,
+        spend: zeroMoney(currency),
+      };
+      spend.itemCount += item.quantity;
+      spend.spend = addItemSpend(spend.spend, item);
+      sellers.set(item.seller, spend);
+    });
+  });
+
+  return [...sellers.values()]
+    .sort((a, b) => b.spend.amount - a.spend.amount || b.itemCount - a.itemCount)
+    .slice(0, limit);
+}
+
+/**
+ * Count the orders per status text, the most frequent first
+ */
+export function getStatusCounts(orders: Order[]): StatusCount[] {
+  const counts = new Map<string, number>();
+  orders.forEach((order) => {
+    counts.set(order.orderStatus, (counts.get(order.orderStatus) || 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([status, orderCount]) => ({ status, orderCount }))
+    .sort((a, b) => b.orderCount - a.orderCount || a.status.localeCompare(b.status));
+}
+
+/**
+ * Sum the promotions of the orders per kind, the highest savings first
+ */
+export function getSavingsByKind(orders: Order[], currency: string): KindSavings[] {
+  const savings = new Map<PromotionKind, Money>();
+  orders.forEach((order) => {
+    order.promotions.forEach((promotion) => {
+      if (promotion.amount.currency !== currency) return;
+      const sum = savings.get(promotion.kind) || zeroMoney(currency);
+      savings.set(promotion.kind, addMoney(sum, promotion.amount));
+    });
+  });
+  return [...savings.entries()]
+    .map(([kind, sum]) => ({ kind, savings: sum }))
+    .sort((a, b) => b.savings.amount - a.savings.amount);
+}
+
+/**
+ * Compute all figures of the dashboard for the orders matching the filter
+ * @param limit - Number of top items and sellers
+ */
+export function summarizeSpending(
+  orders: Order[],
+  filter: AnalyticsFilter,
+  limit: number = 10
+): SpendingSummary {
+  const { currency } = filter;
+  const filtered = filterOrders(orders, filter);
+  const totalSpend = filtered.reduce(
+    (sum, order) => addMoney(sum, order.netAmount),
+    zeroMoney(currency)
+  );
+  const savingsByKind = getSavingsByKind(filtered, currency);
+
+  return {
+    currency,
+    orderCount: filtered.length,
+    totalSpend,
+    averageOrderValue: {
+      amount: filtered.length > 0 ? Math.round(totalSpend.amount / filtered.length) : 0,
+      currency,
+    },
+    totalSavings: savingsByKind.reduce(
+      (sum, kind) => addMoney(sum, kind.savings),
+      zeroMoney(currency)
+    ),
+    spendByMonth: getSpendByPeriod(filtered, currency, 'month'),
+    spendByYear: getSpendByPeriod(filtered, currency, 'year'),
+    topItems: getTopItems(filtered, currency, limit),
+    topSellers: getTopSellers(filtered, currency, limit),
+    statusCounts: getStatusCounts(filtered),
+    savingsByKind,
+  };
+}
+
+/**
+ * Item of an imported file; the first exports had a decimal unit price instead of line totals
+ */
+type ImportedItem = Omit<Partial<OrderItem>, 'lineTotal' | 'netLineTotal'> & {
+  lineTotal?: unknown;
+  netLineTotal?: unknown;
+  price?: unknown;
+};
+
+/**
+ * Order of an imported file of any schema version. The first exports had decimal amounts
+ * with the currency of the order in a field of its own.
+ */
+type ImportedOrder = Omit<Partial<Order>, 'totalAmount' | 'netAmount' | 'items' | 'promotions'> & {
+  totalAmount?: unknown;
+  netAmount?: unknown;
+  currency?: unknown;
+  items?: ImportedItem[];
+  promotions?: (Omit<Partial<Promotion>, 'amount'> & { amount?: unknown })[];
+};
+
+/**
+ * Check if a value is an amount of money
+ */
+function isMoney(value: unknown): value is Money {
+  const money = value as Partial<Money> | null;
+  return (
+    typeof money === 'object' &&
+    money !== null &&
+    typeof money.amount === 'number' &&
+    typeof money.currency === 'string'
+  );
+}
+
+/**
+ * Read an imported amount, either money or a decimal number of the first exports
+ */
+function toMoney(value: unknown, currency: string): Money | null {
+  if (isMoney(value)) return value;
+  return typeof value === 'number' ? moneyFromDecimal(value, currency) : null;
+}
+
+/**
+ * Complete an item of an older export with the fields the analytics read
+ */
+function normalizeItem(item: ImportedItem, currency: string): OrderItem {
+  const quantity = item.quantity || 1;
+  const unitPrice = toMoney(item.price, currency);
+  const lineTotal =
+    toMoney(item.lineTotal, currency) ||
+    (unitPrice ? multiplyMoney(unitPrice, quantity) : zeroMoney(currency));
+  return {
+    ...item,
+    title: item.title || '',
+    asin: item.asin || '',
+    quantity,
+    lineTotal,
+    netLineTotal: toMoney(item.netLineTotal, currency) || lineTotal,
+    seller: item.seller || '',
+  } as OrderItem;
+}
+
+/**
+ * Complete an order of an older export with the fields the analytics read, null without a
+ * total
+ */
+function normalizeOrder(order: ImportedOrder): Order | null {
+  const currency = isMoney(order.totalAmount)
+    ? order.totalAmount.currency
+    : typeof order.currency === 'string'
+      ? order.currency
+      : '';
+  const totalAmount = currency ? toMoney(order.totalAmount, currency) : null;
+  if (!totalAmount) return null;
+
+  return {
+    ...order,
+    orderId: order.orderId || '',
+    orderDate: order.orderDate || '',
+    orderStatus: order.orderStatus || '',
+    totalAmount,
+    netAmount: toMoney(order.netAmount, currency) || totalAmount,
+    items: (order.items || []).map((item) => normalizeItem(item, currency)),
+    promotions: (order.promotions || []).flatMap((promotion) => {
+      const amount = toMoney(promotion.amount, currency);
+      return amount ? [{ ...promotion, amount, kind: promotion.kind || 'other' }] : [];
+    }),
+  } as Order;
+}
+
+/**
+ * Parse an imported JSON export: an export envelope, or the bare array of orders of the
+ * first exports. Orders of older schema versions are completed with the fields the
+ * analytics read; orders without a total are dropped.
+ * @throws Error when the file is not a JSON export of this extension
+ */
+export function parseExportFile(text: string): ExportEnvelope {
+  const parsed = JSON.parse(text) as unknown;
+  const data = (Array.isArray(parsed) ? { orders: parsed } : parsed) as
+    | (Partial<Omit<ExportEnvelope, 'orders'>> & { orders?: unknown })
+    | null;
+  if (typeof data !== 'object' || data === null || !Array.isArray(data.orders)) {
+    throw new Error('Not an order export');
+  }
+
+  const orders = (data.orders as ImportedOrder[]).flatMap((order) => {
+    const normalized = normalizeOrder(order);
+    return normalized ? [normalized] : [];
+  });
+
+  return {
+    ...data,
+    marketplace: data.marketplace || '',
+    exportedAt: data.exportedAt || '',
+    orders,
+    subscriptions: data.subscriptions || [],
+  } as ExportEnvelope;
+}
@@ -0,0 +1,189 @@
+/**
+ * Offline archive utilities: a ZIP with the export data, product thumbnails and a static
+ * page to browse the orders without Amazon
+ */
+
+import type { Order } from '../types';
+import { formatMoney } from './moneyUtils';
+import { createZip } from './zipUtils';
+import type { ZipEntry } from './zipUtils';
+
+/**
+ * Downloaded product image of an archive
+ */
+export interface ArchiveImage {
+  asin: string;
+  /** File extension, e.g. "jpg" */
+  extension: string;
+  data: Uint8Array;
+}
+
+/**
+ * Export data added to an archive next to the images
+ */
+export interface ArchiveFiles {
+  json: string;
+  csv: string;
+}
+
+/**
+ * Get the file extension of an image from its URL, "jpg" when it has none
+ */
+export function getImageExtension(url: string): string {
+  const match = url.match(/\.(jpe?g|png|gif|webp)(?:$|[?#])/i);
+  const extension = (match?.[1] || 'jpg').toLowerCase();
+  return extension === 'jpeg' ? 'jpg' : extension;
+}
+
+/**
+ * Get the path of a product image inside the archive
+ */
+export function getArchiveImagePath(image: Pick<ArchiveImage, 'asin' | 'extension'>): string {
+  return `images/${image.asin}.${image.extension}`;
+}
+
+/**
+ * Escape text for HTML or SVG content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Format the items of an order as table rows, with the archived image where there is one
+ */
+function formatItemRows(order: Order, imagePaths: Map<string, string>): string {
+  return order.items
+    .map((item) => {
+      const imagePath = imagePaths.get(item.asin);
+      const image = imagePath
+        ? `<img src="${escapeHtml(imagePath)}" alt="" loading="lazy">`
+        : '<span class="no-image"></span>';
+      const title = item.itemUrl
+        ? `<a href="${escapeHtml(item.itemUrl)}">${escapeHtml(item.title || item.asin)}</a>`
+        : escapeHtml(item.title || item.asin);
+      return [
+        '<tr>',
+        `<td class="image">${image}</td>`,
+        `<td>${title}<div class="meta">${escapeHtml([item.asin, item.seller].filter((part) => part).join(' · '))}</div></td>`,
+        `<td class="number">${item.quantity}</td>`,
+        `<td class="number">${escapeHtml(formatMoney(item.lineTotal))}</td>`,
+        '</tr>',
+      ].join('');
+    })
+    .join('\n');
+}
+
+/**
+ * Format an order as a section of the archive page. The searchable text holds order ID,
+ * date, status and item titles in lowercase.
+ */
+function formatOrderSection(order: Order, imagePaths: Map<string, string>): string {
+  const search = [order.orderId, order.orderDate, order.orderStatus]
+    .concat(order.items.flatMap((item) => [item.title, item.asin]))
+    .join(' ')
+    .toLowerCase();
+  const orderLink = order.detailsUrl
+    ? `<a href="${escapeHtml(order.detailsUrl)}">${escapeHtml(order.orderId)}</a>`
+    : escapeHtml(order.orderId);
+  const refunded =
+    order.netAmount.amount !== order.totalAmount.amount
+      ? ` <span class="meta">(${escapeHtml(formatMoney(order.netAmount))} net)</span>`
+      : '';
+
+  return [
+    `<section class="order" data-search="${escapeHtml(search)}">`,
+    '<header>',
+    `<h2>${escapeHtml(order.orderDate)} · ${orderLink}</h2>`,
+    `<div class="total">${escapeHtml(formatMoney(order.totalAmount))}${refunded}</div>`,
+    `<div class="meta">${escapeHtml(order.orderStatus)}</div>`,
+    '</header>',
+    '<table>',
+    formatItemRows(order, imagePaths),
+    '</table>',
+    '</section>',
+  ].join('\n');
+}
+
+/**
+ * Build the static page of an archive listing all orders, newest first, with their items
+ * and images and a search field. It works from the unpacked archive without network access.
+ * @param imagePaths - Archive paths of the downloaded images, by ASIN
+ * @param title - Page title
+ */
+export function buildArchiveIndex(
+  orders: Order[],
+  imagePaths: Map<string, string>,
+  title: string = 'Amazon Orders'
+): string {
+  const sections = [...orders]
+    .sort((a, b) => b.orderDate.localeCompare(a.orderDate))
+    .map((order) => formatOrderSection(order, imagePaths));
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 16px; color: #111; }
+h1 { font-size: 1.5em; }
+h2 { font-size: 1em; margin: 0; }
+input[type="search"] { width: 100%; padding: 8px; font-size: 1em; box-sizing: border-box; }
+.order { border: 1px solid #ddd; border-radius: 8px; margin: 16px 0; padding: 12px; }
+.order header { display: flex; flex-wrap: wrap; gap: 4px 16px; align-items: baseline; }
+.total { font-weight: bold; }
+.meta { color: #666; font-size: 0.85em; }
+table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+td { border-top: 1px solid #eee; padding: 6px; vertical-align: top; }
+td.image { width: 80px; }
+td.image img, .no-image { display: block; width: 72px; height: 72px; object-fit: contain; background: #f5f5f5; }
+td.number { text-align: right; white-space: nowrap; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${orders.length} orders</p>
+<input type="search" id="search" placeholder="Search" autofocus>
+<main>
+${sections.join('\n')}
+</main>
+<script>
+document.getElementById('search').addEventListener('input', function (event) {
+  var query = event.target.value.trim().toLowerCase();
+  document.querySelectorAll('.order').forEach(function (section) {
+    section.hidden = query !== '' && section.getAttribute('data-search').indexOf(query) < 0;
+  });
+});
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Create the ZIP archive of an export: the static page as index.html, the export data as
+ * orders.json and orders.csv, and the product images in the images folder
+ * @param modified - Modification time stored for every file
+ */
+export function createOrderArchive(
+  orders: Order[],
+  files: ArchiveFiles,
+  images: ArchiveImage[],
+  modified: Date = new Date()
+): Uint8Array<ArrayBuffer> {
+  const imagePaths = new Map(images.map((image) => [image.asin, getArchiveImagePath(image)]));
+  const entries: ZipEntry[] = [
+    { name: 'index.html', data: buildArchiveIndex(orders, imagePaths) },
+    { name: 'orders.json', data: files.json },
+    { name: 'orders.csv', data: files.csv },
+    ...images.map((image) => ({ name: getArchiveImagePath(image), data: image.data })),
+  ];
+  return createZip(entries, modified);
+}
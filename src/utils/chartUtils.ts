@@ -0,0 +1,111 @@
+/**
+ * Chart utilities: self-contained SVG bar charts for the dashboard page and its downloads
+ */
+
+import { escapeHtml } from './archiveUtils';
+
+/**
+ * Bar of a chart
+ */
+export interface ChartBar {
+  label: string;
+  value: number;
+  /** Value as shown next to or above the bar, e.g. "€12.50" */
+  valueLabel: string;
+}
+
+const CHART_WIDTH = 720;
+const TITLE_HEIGHT = 36;
+const BAR_COLOR = '#ff9900';
+const TEXT_STYLE = 'font-family="sans-serif" font-size="12" fill="#333"';
+
+/**
+ * Shorten a label to a number of characters with an ellipsis
+ */
+function truncateLabel(label: string, length: number): string {
+  return label.length > length ? `${label.substring(0, length - 1).trimEnd()}…` : label;
+}
+
+/**
+ * Wrap chart content in an SVG document with a white background and a title, so it can be
+ * saved as a file of its own
+ */
+function wrapChart(title: string, height: number, content: string[]): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CHART_WIDTH}" height="${height}" viewBox="0 0 ${CHART_WIDTH} ${height}">`,
+    `<rect width="${CHART_WIDTH}" height="${height}" fill="#fff"/>`,
+    `<text x="16" y="24" font-family="sans-serif" font-size="16" font-weight="bold" fill="#232f3e">${escapeHtml(title)}</text>`,
+    ...content,
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Build a column chart of values over time, e.g. spend per month. Labels are thinned out
+ * when the columns get too narrow for them; every column shows its value on hover.
+ */
+export function buildColumnChart(title: string, bars: ChartBar[]): string {
+  const height = 320;
+  const left = 16;
+  const top = TITLE_HEIGHT + 20;
+  const plotWidth = CHART_WIDTH - left * 2;
+  const plotHeight = height - top - 40;
+  const max = Math.max(0, ...bars.map((bar) => bar.value));
+  const columnWidth = bars.length > 0 ? plotWidth / bars.length : 0;
+  const labelStep = Math.max(1, Math.ceil(56 / Math.max(columnWidth, 1)));
+  const peak = bars.find((bar) => bar.value === max);
+
+  const content = bars.flatMap((bar, index) => {
+    const barHeight = max > 0 ? (Math.max(0, bar.value) / max) * plotHeight : 0;
+    const x = left + index * columnWidth;
+    const elements = [
+      `<rect x="${(x + columnWidth * 0.1).toFixed(1)}" y="${(top + plotHeight - barHeight).toFixed(1)}" width="${(columnWidth * 0.8).toFixed(1)}" height="${barHeight.toFixed(1)}" fill="${BAR_COLOR}"><title>${escapeHtml(`${bar.label}: ${bar.valueLabel}`)}</title></rect>`,
+    ];
+    if (index % labelStep === 0) {
+      elements.push(
+        `<text x="${(x + columnWidth / 2).toFixed(1)}" y="${top + plotHeight + 18}" text-anchor="middle" ${TEXT_STYLE}>${escapeHtml(bar.label)}</text>`
+      );
+    }
+    return elements;
+  });
+
+  if (peak && max > 0) {
+    content.unshift(
+      `<line x1="${left}" y1="${top}" x2="${left + plotWidth}" y2="${top}" stroke="#ddd"/>`,
+      `<text x="${left}" y="${top - 6}" ${TEXT_STYLE}>${escapeHtml(peak.valueLabel)}</text>`
+    );
+  }
+  content.push(
+    `<line x1="${left}" y1="${top + plotHeight}" x2="${left + plotWidth}" y2="${top + plotHeight}" stroke="#999"/>`
+  );
+
+  return wrapChart(title, height, content);
+}
+
+/**
+ * Build a bar chart of ranked values, e.g. top items, with a label left of each bar and
+ * its value right of it
+ */
+export function buildBarChart(title: string, bars: ChartBar[]): string {
+  const rowHeight = 24;
+  const labelWidth = 240;
+  const valueWidth = 100;
+  const left = 16;
+  const top = TITLE_HEIGHT + 8;
+  const plotWidth = CHART_WIDTH - left * 2 - labelWidth - valueWidth;
+  const height = top + bars.length * rowHeight + 16;
+  const max = Math.max(0, ...bars.map((bar) => bar.value));
+
+  const content = bars.flatMap((bar, index) => {
+    const barWidth = max > 0 ? (Math.max(0, bar.value) / max) * plotWidth : 0;
+    const y = top + index * rowHeight;
+    const x = left + labelWidth;
+    return [
+      `<text x="${x - 8}" y="${y + 16}" text-anchor="end" ${TEXT_STYLE}><title>${escapeHtml(bar.label)}</title>${escapeHtml(truncateLabel(bar.label, 36))}</text>`,
+      `<rect x="${x}" y="${y + 4}" width="${barWidth.toFixed(1)}" height="${rowHeight - 8}" fill="${BAR_COLOR}"/>`,
+      `<text x="${(x + barWidth + 6).toFixed(1)}" y="${y + 16}" ${TEXT_STYLE}>${escapeHtml(bar.valueLabel)}</text>`,
+    ];
+  });
+
+  return wrapChart(title, height, content);
+}
@@ -0,0 +1,127 @@
+/**
+ * Order summary (subtotal, shipping, tax, grand total) parsing utilities
+ */
+
+import type { CostBreakdown, CostBreakdownField, SiteProfile } from '../types';
+import { addMoney, formatMoneyAmount, zeroMoney } from './moneyUtils';
+import { findPrices } from './priceUtils';
+import { GENERIC_SITE_PROFILE, normalizeText } from './siteProfileUtils';
+
+/**
+ * Amount fields of a cost breakdown in the order of the order summary
+ */
+export const COST_BREAKDOWN_FIELDS: CostBreakdownField[] = [
+  'subtotal',
+  'shipping',
+  'promotions',
+  'totalBeforeTax',
+  'tax',
+  'giftWrap',
+  'importFees',
+  'grandTotal',
+];
+
+/**
+ * Fields that may appear in several summary lines and are summed
+ */
+const SUMMED_FIELDS: CostBreakdownField[] = ['promotions', 'tax'];
+
+/**
+ * Create a cost breakdown with all charges zero
+ */
+export function createEmptyCostBreakdown(currency: string): CostBreakdown {
+  return {
+    subtotal: zeroMoney(currency),
+    shipping: zeroMoney(currency),
+    promotions: zeroMoney(currency),
+    totalBeforeTax: zeroMoney(currency),
+    tax: zeroMoney(currency),
+    taxRate: null,
+    giftWrap: zeroMoney(currency),
+    importFees: zeroMoney(currency),
+    grandTotal: zeroMoney(currency),
+  };
+}
+
+/**
+ * Find the field of an order summary line by its label. The line has to start with the
+ * label, and the longest matching label wins, so "Total before tax" is not read as "Total".
+ */
+export function matchCostLabel(
+  line: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): CostBreakdownField | null {
+  const normalized = normalizeText(line).trim();
+  let field: CostBreakdownField | null = null;
+  let labelLength = 0;
+
+  for (const candidate of COST_BREAKDOWN_FIELDS) {
+    for (const label of profile.costLabels[candidate]) {
+      const normalizedLabel = normalizeText(label);
+      if (normalizedLabel.length > labelLength && normalized.startsWith(normalizedLabel)) {
+        field = candidate;
+        labelLength = normalizedLabel.length;
+      }
+    }
+  }
+
+  return field;
+}
+
+/**
+ * Extract a tax rate in percent, e.g. 19 from "MwSt. (19%)"
+ */
+export function extractTaxRate(text: string): number | null {
+  const match = text.match(/(\d{1,2}(?:[.,]\d{1,2})?)\s*%/);
+  return match?.[1] ? parseFloat(match[1].replace(',', '.')) : null;
+}
+
+/**
+ * Parse the lines of an order summary into a cost breakdown
+ * Lines in another currency than the order are ignored. Returns null if no line was
+ * recognized.
+ * @param lines - Text of each summary line, e.g. "Zwischensumme: 45,00 €"
+ * @param currency - Currency of the order
+ */
+export function parseCostBreakdown(
+  lines: string[],
+  currency: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): CostBreakdown | null {
+  const breakdown = createEmptyCostBreakdown(currency);
+  const seenFields = new Set<CostBreakdownField>();
+  const taxRates = new Set<number>();
+
+  lines.forEach((line) => {
+    const field = matchCostLabel(line, profile);
+    if (!field || (seenFields.has(field) && !SUMMED_FIELDS.includes(field))) return;
+
+    // Amounts are positive, also for promotions shown as "-5,00 €"
+    const amount = findPrices(line, profile)[0];
+    if (!amount || amount.currency !== currency) return;
+
+    breakdown[field] = seenFields.has(field) ? addMoney(breakdown[field], amount) : amount;
+    seenFields.add(field);
+
+    if (field === 'tax') {
+      const rate = extractTaxRate(line);
+      if (rate !== null) taxRates.add(rate);
+    }
+  });
+
+  if (seenFields.size === 0) return null;
+
+  // A single rate only applies when all tax lines share it
+  breakdown.taxRate = taxRates.size === 1 ? ([...taxRates][0] ?? null) : null;
+  return breakdown;
+}
+
+/**
+ * Describe the tax of a cost breakdown, e.g. "Tax 7.66 EUR (19%)", or an empty string
+ * without tax
+ */
+export function formatTaxSummary(breakdown: CostBreakdown | null): string {
+  if (!breakdown || breakdown.tax.amount === 0) return '';
+  const rate = breakdown.taxRate !== null ? ` (${breakdown.taxRate}%)` : '';
+  return `Tax ${formatMoneyAmount(breakdown.tax)} ${breakdown.tax.currency}${rate}`;
+}
@@ -2,103 +2,338 @@
  * CSV conversion utilities
  */
 
-import type { Order } from '../types';
+import type {
+  CostBreakdownField,
+  CsvColumn,
+  CsvProfile,
+  Money,
+  Order,
+  OrderItem,
+  Promotion,
+} from '../types';
+import { formatMoney, formatMoneyAmount, sumMoney } from './moneyUtils';
+import { formatPaymentMethod } from './paymentUtils';
+import { formatCategory, formatFulfilledByAmazon } from './productUtils';
+import { getRefundedAmount } from './refundUtils';
+
+/**
+ * Data of one CSV row: a single item in item mode, all items in order mode
+ */
+interface CsvRow {
+  order: Order;
+  items: OrderItem[];
+  isFirstRowOfOrder: boolean;
+}
+
+interface CsvColumnDefinition {
+  header: string;
+  value: (row: CsvRow) => string | number | Money | undefined;
+}
+
+/**
+ * Sum a numeric field over the items of a row, or leave it empty without items
+ */
+function sumItems(row: CsvRow, field: (item: OrderItem) => number): number | undefined {
+  if (row.items.length === 0) return undefined;
+  return row.items.reduce((sum, item) => sum + field(item), 0);
+}
+
+/**
+ * Sum an amount over the items of a row in the order's currency, like allocateItemTotals;
+ * items in other currencies are left out. Empty without items in the order's currency.
+ */
+function sumItemMoney(row: CsvRow, field: (item: OrderItem) => Money): Money | undefined {
+  const { currency } = row.order.totalAmount;
+  const amounts = row.items.map(field).filter((amount) => amount.currency === currency);
+  if (amounts.length === 0) return undefined;
+  return sumMoney(amounts, currency);
+}
+
+/**
+ * Join a text field over the items of a row
+ */
+function joinItems(row: CsvRow, field: (item: OrderItem) => string): string {
+  return row.items.map(field).join('; ');
+}
+
+/**
+ * Read a charge of the order summary, written on the first row of each order only
+ */
+function costValue(row: CsvRow, field: CostBreakdownField): Money | undefined {
+  return row.isFirstRowOfOrder ? row.order.costBreakdown?.[field] : undefined;
+}
+
+/**
+ * Available CSV columns with their header i18n key and value
+ */
+export const CSV_COLUMNS: Record<CsvColumn, CsvColumnDefinition> = {
+  orderId: { header: 'csvHeaderOrderId', value: (row) => row.order.orderId },
+  orderDate: { header: 'csvHeaderOrderDate', value: (row) => row.order.orderDate },
+  totalAmount: { header: 'csvHeaderTotalAmount', value: (row) => row.order.totalAmount },
+  netAmount: { header: 'csvHeaderNetAmount', value: (row) => row.order.netAmount },
+  refundedAmount: {
+    header: 'csvHeaderRefundedAmount',
+    value: (row) => getRefundedAmount(row.order),
+  },
+  currency: { header: 'csvHeaderCurrency', value: (row) => row.order.totalAmount.currency },
+  totalSavings: {
+    header: 'csvHeaderTotalSavings',
+    value: (row) => (row.isFirstRowOfOrder ? row.order.totalSavings : undefined),
+  },
+  subtotal: { header: 'csvHeaderSubtotal', value: (row) => costValue(row, 'subtotal') },
+  shipping: { header: 'csvHeaderShipping', value: (row) => costValue(row, 'shipping') },
+  promotionsApplied: {
+    header: 'csvHeaderPromotionsApplied',
+    value: (row) => costValue(row, 'promotions'),
+  },
+  totalBeforeTax: {
+    header: 'csvHeaderTotalBeforeTax',
+    value: (row) => costValue(row, 'totalBeforeTax'),
+  },
+  tax: { header: 'csvHeaderTax', value: (row) => costValue(row, 'tax') },
+  taxRate: {
+    header: 'csvHeaderTaxRate',
+    value: (row) =>
+      row.isFirstRowOfOrder ? (row.order.costBreakdown?.taxRate ?? undefined) : undefined,
+  },
+  giftWrap: { header: 'csvHeaderGiftWrap', value: (row) => costValue(row, 'giftWrap') },
+  importFees: { header: 'csvHeaderImportFees', value: (row) => costValue(row, 'importFees') },
+  grandTotal: { header: 'csvHeaderGrandTotal', value: (row) => costValue(row, 'grandTotal') },
+  paymentMethods: {
+    header: 'csvHeaderPaymentMethods',
+    value: (row) =>
+      row.isFirstRowOfOrder
+        ? row.order.payments?.instruments.map(formatPaymentMethod).join('; ')
+        : undefined,
+  },
+  status: { header: 'csvHeaderStatus', value: (row) => row.order.orderStatus },
+  orderType: { header: 'csvHeaderOrderType', value: (row) => row.order.orderType },
+  itemTitle: { header: 'csvHeaderItemTitle', value: (row) => joinItems(row, (i) => i.title) },
+  itemAsin: { header: 'csvHeaderItemAsin', value: (row) => joinItems(row, (i) => i.asin) },
+  itemQuantity: {
+    header: 'csvHeaderItemQuantity',
+    value: (row) => sumItems(row, (i) => i.quantity),
+  },
+  itemPrice: {
+    header: 'csvHeaderItemPrice',
+    // In order mode the price is the sum of all line totals
+    value: (row) =>
+      row.items.length === 1 ? row.items[0]?.unitPrice : sumItemMoney(row, (i) => i.lineTotal),
+  },
+  itemLineTotal: {
+    header: 'csvHeaderItemLineTotal',
+    value: (row) => sumItemMoney(row, (i) => i.lineTotal),
+  },
+  itemDiscount: {
+    header: 'csvHeaderItemDiscount',
+    value: (row) => sumItemMoney(row, (i) => i.allocatedDiscount),
+  },
+  itemNetTotal: {
+    header: 'csvHeaderItemNetTotal',
+    value: (row) => sumItemMoney(row, (i) => i.netLineTotal),
+  },
+  itemSeller: { header: 'csvHeaderItemSeller', value: (row) => joinItems(row, (i) => i.seller) },
+  itemFulfilledByAmazon: {
+    header: 'csvHeaderItemFulfilledByAmazon',
+    value: (row) => joinItems(row, (i) => formatFulfilledByAmazon(i.fulfilledByAmazon)),
+  },
+  itemBrand: {
+    header: 'csvHeaderItemBrand',
+    value: (row) => joinItems(row, (i) => i.product?.brand ?? ''),
+  },
+  itemCategory: {
+    header: 'csvHeaderItemCategory',
+    value: (row) => joinItems(row, (i) => formatCategory(i.product?.category ?? [])),
+  },
+  itemIsbn: {
+    header: 'csvHeaderItemIsbn',
+    value: (row) => joinItems(row, (i) => i.product?.isbn ?? ''),
+  },
+  itemEan: {
+    header: 'csvHeaderItemEan',
+    value: (row) => joinItems(row, (i) => i.product?.ean ?? ''),
+  },
+  promotions: {
+    header: 'csvHeaderPromotions',
+    value: (row) =>
+      row.isFirstRowOfOrder ? formatPromotionsForCSV(row.order.promotions) : undefined,
+  },
+  itemUrl: { header: 'csvHeaderItemUrl', value: (row) => joinItems(row, (i) => i.itemUrl) },
+  itemImageUrl: {
+    header: 'csvHeaderItemImageUrl',
+    value: (row) => joinItems(row, (i) => i.imageUrl),
+  },
+  detailsUrl: { header: 'csvHeaderDetailsUrl', value: (row) => row.order.detailsUrl },
+};
+
+/**
+ * Columns of the original export, kept first and in their order for existing imports
+ */
+const ORIGINAL_CSV_COLUMNS: CsvColumn[] = [
+  'orderId',
+  'orderDate',
+  'totalAmount',
+  'currency',
+  'totalSavings',
+  'status',
+  'itemTitle',
+  'itemAsin',
+  'itemQuantity',
+  'itemPrice',
+  'itemDiscount',
+  'promotions',
+  'itemUrl',
+  'detailsUrl',
+];
+
+/**
+ * Columns of the built-in profiles: the original columns, followed by all later ones
+ */
+const DEFAULT_CSV_COLUMNS: CsvColumn[] = [
+  ...ORIGINAL_CSV_COLUMNS,
+  ...(Object.keys(CSV_COLUMNS) as CsvColumn[]).filter(
+    (column) => !ORIGINAL_CSV_COLUMNS.includes(column)
+  ),
+];
+
+/**
+ * Default profile, matching the original comma-separated export
+ */
+export const DEFAULT_CSV_PROFILE: CsvProfile = {
+  id: 'default',
+  name: 'Standard',
+  delimiter: ',',
+  decimalSeparator: '.',
+  includeBom: false,
+  lineEnding: 'lf',
+  headerLanguage: 'auto',
+  columns: DEFAULT_CSV_COLUMNS,
+  rowMode: 'item',
+};
+
+/**
+ * Built-in profiles offered when no profiles were saved yet
+ */
+export const BUILTIN_CSV_PROFILES: CsvProfile[] = [
+  DEFAULT_CSV_PROFILE,
+  {
+    ...DEFAULT_CSV_PROFILE,
+    id: 'excel-eu',
+    name: 'Excel (Europe)',
+    delimiter: ';',
+    decimalSeparator: ',',
+    includeBom: true,
+    lineEnding: 'crlf',
+  },
+];
+
+/**
+ * Complete a stored profile with defaults and drop unknown columns
+ */
+export function normalizeCsvProfile(profile: Partial<CsvProfile>): CsvProfile {
+  const normalized: CsvProfile = { ...DEFAULT_CSV_PROFILE, ...profile };
+  normalized.columns = (profile.columns || DEFAULT_CSV_PROFILE.columns).filter(
+    (column, index, columns) => column in CSV_COLUMNS && columns.indexOf(column) === index
+  );
+  return normalized;
+}
+
+/**
+ * Move a column of a profile one position up (-1) or down (1)
+ */
+export function moveCsvColumn(
+  columns: CsvColumn[],
+  column: CsvColumn,
+  direction: -1 | 1
+): CsvColumn[] {
+  const index = columns.indexOf(column);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= columns.length) return columns;
+
+  const moved = [...columns];
+  moved[index] = moved[target] as CsvColumn;
+  moved[target] = column;
+  return moved;
+}
 
 /**
  * Escape a value for CSV format
  */
-export function escapeCSVValue(value: string | number | undefined): string {
+export function escapeCSVValue(
+  value: string | number | undefined,
+  delimiter: string = ','
+): string {
   if (value === undefined || value === null) return '';
   const str = String(value);
-  // If contains comma, quote, or newline, wrap in quotes and escape internal quotes
-  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+  // If contains delimiter, quote, or newline, wrap in quotes and escape internal quotes
+  if (str.includes(delimiter) || str.includes('"') || str.includes('\n') || str.includes('\r')) {
     return `"${str.replace(/"/g, '""')}"`;
   }
   return str;
 }
 
+/**
+ * Format a number with the given decimal separator
+ */
+export function formatCSVNumber(value: number, decimalSeparator: string = '.'): string {
+  return decimalSeparator === '.' ? String(value) : String(value).replace('.', decimalSeparator);
+}
+
 /**
  * Format promotions as a string for CSV
  */
-export function formatPromotionsForCSV(
-  promotions: { description: string; amount: number }[]
-): string {
-  return promotions.map((p) => `${p.description}: €${p.amount}`).join('; ');
+export function formatPromotionsForCSV(promotions: Promotion[]): string {
+  return promotions.map((p) => `${p.description}: ${formatMoney(p.amount)}`).join('; ');
+}
+
+/**
+ * Split an order into the rows written for the profile's row mode
+ */
+function getOrderRows(order: Order, profile: CsvProfile): CsvRow[] {
+  if (profile.rowMode === 'order' || order.items.length === 0) {
+    return [{ order, items: order.items, isFirstRowOfOrder: true }];
+  }
+  return order.items.map((item, index) => ({
+    order,
+    items: [item],
+    isFirstRowOfOrder: index === 0,
+  }));
 }
 
 /**
  * Convert orders to CSV format
  * @param orders - Array of orders to convert
  * @param getHeader - Function to get localized header name
+ * @param profile - Delimiter, number format, columns and row mode to use
  */
 export function convertOrdersToCSV(
   orders: Order[],
-  getHeader: (key: string) => string = (key) => key
+  getHeader: (key: string) => string = (key) => key,
+  profile: CsvProfile = DEFAULT_CSV_PROFILE
 ): string {
-  const headers = [
-    getHeader('csvHeaderOrderId'),
-    getHeader('csvHeaderOrderDate'),
-    getHeader('csvHeaderTotalAmount'),
-    getHeader('csvHeaderCurrency'),
-    getHeader('csvHeaderTotalSavings'),
-    getHeader('csvHeaderStatus'),
-    getHeader('csvHeaderItemTitle'),
-    getHeader('csvHeaderItemAsin'),
-    getHeader('csvHeaderItemQuantity'),
-    getHeader('csvHeaderItemPrice'),
-    getHeader('csvHeaderItemDiscount'),
-    getHeader('csvHeaderPromotions'),
-    getHeader('csvHeaderItemUrl'),
-    getHeader('csvHeaderDetailsUrl'),
-  ];
+  const { delimiter, decimalSeparator } = profile;
+  const columns = profile.columns.map((column) => CSV_COLUMNS[column]);
 
-  const rows: string[] = [headers.join(',')];
+  const formatValue = (value: string | number | Money | undefined): string => {
+    if (typeof value === 'number') {
+      return escapeCSVValue(formatCSVNumber(value, decimalSeparator), delimiter);
+    }
+    if (typeof value === 'object') {
+      return escapeCSVValue(formatMoneyAmount(value, decimalSeparator), delimiter);
+    }
+    return escapeCSVValue(value, delimiter);
+  };
+
+  const rows: string[] = [
+    columns.map((column) => escapeCSVValue(getHeader(column.header), delimiter)).join(delimiter),
+  ];
 
   orders.forEach((order) => {
-    const promotionsStr = formatPromotionsForCSV(order.promotions);
-
-    if (order.items.length === 0) {
-      rows.push(
-        [
-          escapeCSVValue(order.orderId),
-          escapeCSVValue(order.orderDate),
-          order.totalAmount,
-          escapeCSVValue(order.currency),
-          order.totalSavings,
-          escapeCSVValue(order.orderStatus),
-          '',
-          '',
-          '',
-          '',
-          '',
-          escapeCSVValue(promotionsStr),
-          '',
-          escapeCSVValue(order.detailsUrl),
-        ].join(',')
-      );
-    } else {
-      order.items.forEach((item, index) => {
-        rows.push(
-          [
-            escapeCSVValue(order.orderId),
-            escapeCSVValue(order.orderDate),
-            order.totalAmount,
-            escapeCSVValue(order.currency),
-            index === 0 ? order.totalSavings : '',
-            escapeCSVValue(order.orderStatus),
-            escapeCSVValue(item.title),
-            escapeCSVValue(item.asin),
-            item.quantity,
-            item.price,
-            item.discount,
-            index === 0 ? escapeCSVValue(promotionsStr) : '',
-            escapeCSVValue(item.itemUrl),
-            escapeCSVValue(order.detailsUrl),
-          ].join(',')
-        );
-      });
-    }
+    getOrderRows(order, profile).forEach((row) => {
+      rows.push(columns.map((column) => formatValue(column.value(row))).join(delimiter));
+    });
   });
 
-  return rows.join('\n');
+  const csv = rows.join(profile.lineEnding === 'crlf' ? '\r\n' : '\n');
+  return profile.includeBom ? `\uFEFF${csv}` : csv;
 }
@@ -2,101 +2,152 @@
  * Date parsing and formatting utilities
  */
 
-const germanMonths: Record<string, number> = {
-  januar: 1,
-  februar: 2,
-  märz: 3,
-  april: 4,
-  mai: 5,
-  juni: 6,
-  juli: 7,
-  august: 8,
-  september: 9,
-  oktober: 10,
-  november: 11,
-  dezember: 12,
-};
-
-const englishMonths: Record<string, number> = {
-  january: 1,
-  february: 2,
-  march: 3,
-  april: 4,
-  may: 5,
-  june: 6,
-  july: 7,
-  august: 8,
-  september: 9,
-  october: 10,
-  november: 11,
-  december: 12,
-};
-
-const frenchMonths: Record<string, number> = {
-  "janvier": 1, 
-  "février": 2, 
-  "mars": 3, 
-  "avril": 4,
-  "mai": 5, 
-  "juin": 6, 
-  "juillet": 7,
-  "aout": 8,     
-  "septembre": 9, 
-  "octobre": 10, 
-  "novembre": 11, 
-  "decembre": 12
-};
-
-const allMonths: Record<string, number> = { ...germanMonths, ...englishMonths, ...frenchMonths };
+import type { SiteProfile } from '../types';
+import { GENERIC_SITE_PROFILE, buildAlternation, normalizeText } from './siteProfileUtils';
 
 /**
- * Parse date string to ISO format (YYYY-MM-DD)
- * Supports German format "15. Januar 2024" and English format "January 15, 2024"
+ * Format year, month and day as ISO date, or null if they are not a valid order date
  */
-export function parseDate(dateText: string): string | null {
-  if (!dateText) return null;
+function toIsoDate(year: number, month: number | undefined, day: number): string | null {
+  if (year < 2000 || year > 2100 || !month || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
 
-  const cleanText = dateText.trim().toLowerCase();
+/**
+ * Look up a normalized month name or abbreviation (e.g. "dec") in the site profile
+ */
+function lookupMonth(name: string | undefined, profile: SiteProfile): number | undefined {
+  if (!name) return undefined;
+  if (profile.months[name]) return profile.months[name];
+  if (name.length < 3) return undefined;
+  const month = Object.keys(profile.months).find((monthName) => monthName.startsWith(name));
+  return month ? profile.months[month] : undefined;
+}
+
+/**
+ * Date pattern with a function turning a match into an ISO date, or null if invalid
+ */
+type DatePattern = [RegExp, (match: RegExpMatchArray) => string | null];
 
-  // German: "15. Januar 2024"
-  const germanMatch = cleanText.match(/(\d{1,2})\.?\s*([a-zäöü]+)\s*(\d{4})/i);
-  if (germanMatch) {
-    const day = parseInt(germanMatch[1] || '0', 10);
-    const monthName = (germanMatch[2] || '').toLowerCase();
-    const year = parseInt(germanMatch[3] || '0', 10);
+/**
+ * Parse a number from a regex group
+ */
+function toNumber(value: string | undefined): number {
+  return parseInt(value || '0', 10);
+}
 
-    if (year >= 2000 && year <= 2100 && allMonths[monthName]) {
-      const month = allMonths[monthName];
-      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+/**
+ * Find the earliest date in a normalized text, using the first valid match of each pattern
+ */
+function findEarliestDate(text: string, patterns: DatePattern[]): string | null {
+  const candidates: { index: number; date: string }[] = [];
+  for (const [pattern, toDate] of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const date = toDate(match);
+      if (date) {
+        candidates.push({ index: match.index ?? 0, date });
+        break;
+      }
     }
   }
 
-  // English: "January 15, 2024"
-  const englishMatch = cleanText.match(/([a-z]+)\s+(\d{1,2}),?\s*(\d{4})/i);
-  if (englishMatch) {
-    const monthName = (englishMatch[1] || '').toLowerCase();
-    const day = parseInt(englishMatch[2] || '0', 10);
-    const year = parseInt(englishMatch[3] || '0', 10);
+  candidates.sort((a, b) => a.index - b.index);
+  return candidates[0]?.date || null;
+}
 
-    if (year >= 2000 && year <= 2100 && allMonths[monthName]) {
-      const month = allMonths[monthName];
-      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-    }
-  }
+/**
+ * Parse date string to ISO format (YYYY-MM-DD)
+ * Supports written dates in the languages of the site profile, e.g. "15. Januar 2024",
+ * "January 15, 2024", "15 de enero de 2024", and numeric dates like "2024年1月15日".
+ * The earliest date in the text wins.
+ */
+export function parseDate(
+  dateText: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): string | null {
+  if (!dateText) return null;
 
-  const frenchMatch = cleanText.match(/(\d{1,2})\s+([a-zéû]+)\s+(\d{4})/i);
-  if (frenchMatch) {
-      const day = parseInt(frenchMatch[1], 10);
-      const monthName = frenchMatch[2].toLowerCase();
-      const year = parseInt(frenchMatch[3], 10);
-  
-      if (year >= 2000 && year <= 2100 && frenchMonths[monthName]) {
-          const month = frenchMonths[monthName];
-          return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-      }
+  return findEarliestDate(normalizeText(dateText), [
+    // Japanese: "2024年1月15日", numeric: "2024/01/15" or "2024-01-15"
+    [
+      /(\d{4})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日/g,
+      (m): string | null => toIsoDate(toNumber(m[1]), toNumber(m[2]), toNumber(m[3])),
+    ],
+    [
+      /\b(\d{4})[/-](\d{1,2})[/-](\d{1,2})\b/g,
+      (m): string | null => toIsoDate(toNumber(m[1]), toNumber(m[2]), toNumber(m[3])),
+    ],
+    // Day first: "15. Januar 2024", "15 janvier 2024", "15 de enero de 2024"
+    [
+      /(\d{1,2})(?:er)?\.?\s*(?:de\s+)?([a-z]+)\.?,?\s+(?:de\s+)?(\d{4})/g,
+      (m): string | null => toIsoDate(toNumber(m[3]), lookupMonth(m[2], profile), toNumber(m[1])),
+    ],
+    // Month first: "January 15, 2024"
+    [
+      /([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})/g,
+      (m): string | null => toIsoDate(toNumber(m[3]), lookupMonth(m[1], profile), toNumber(m[2])),
+    ],
+  ]);
+}
+
+/**
+ * Parse a date that may be shown without year, like "Delivered 3 February" on order
+ * details pages. The year is taken from the reference date (e.g. the order date), and
+ * dates that would fall before it belong to the following year.
+ */
+export function parseDateRelativeTo(
+  dateText: string,
+  referenceDate: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): string | null {
+  const fullDate = parseDate(dateText, profile);
+  if (fullDate || !dateText || !referenceDate) return fullDate;
+
+  const year = toNumber(referenceDate.substring(0, 4));
+  const toDate = (month: number | undefined, day: number): string | null => {
+    const date = toIsoDate(year, month, day);
+    return date && date < referenceDate ? toIsoDate(year + 1, month, day) : date;
+  };
+
+  return findEarliestDate(normalizeText(dateText), [
+    // Japanese: "1月15日"
+    [
+      /(\d{1,2})\s*月\s*(\d{1,2})\s*日/g,
+      (m): string | null => toDate(toNumber(m[1]), toNumber(m[2])),
+    ],
+    // Day first: "15. Januar", "15 de enero"
+    [
+      /(\d{1,2})(?:er)?\.?\s*(?:de\s+)?([a-z]+)/g,
+      (m): string | null => toDate(lookupMonth(m[2], profile), toNumber(m[1])),
+    ],
+    // Month first: "January 15"
+    [
+      /([a-z]+)\.?\s+(\d{1,2})\b/g,
+      (m): string | null => toDate(lookupMonth(m[1], profile), toNumber(m[2])),
+    ],
+  ]);
+}
+
+/**
+ * Extract the order date from the text of an order, preferring the date after an
+ * "order placed" label of the site profile
+ */
+export function extractOrderDate(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): string | null {
+  if (!text) return null;
+
+  const labelPattern = new RegExp(`(?:${buildAlternation(profile.orderDateLabels)})`, 'gi');
+  for (const match of text.matchAll(labelPattern)) {
+    const start = (match.index ?? 0) + match[0].length;
+    const date = parseDate(text.substring(start, start + 40), profile);
+    if (date) return date;
   }
 
-  return null;
+  return parseDate(text, profile);
 }
 
 /**
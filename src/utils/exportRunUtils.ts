@@ -0,0 +1,83 @@
+/**
+ * Export run storage utilities
+ */
+
+import type { ExportState, ProgressData } from '../types';
+
+/**
+ * Time without a save after which a run that is not paused counts as interrupted
+ */
+export const STALE_EXPORT_RUN_MS = 60 * 1000;
+
+/**
+ * Create a unique ID for a new export run
+ */
+export function createExportRunId(now: Date = new Date()): string {
+  return `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Build the storage key pointing to the current export run of a marketplace
+ */
+export function getCurrentExportRunKey(marketplace: string): string {
+  return `currentExportRun:${marketplace}`;
+}
+
+/**
+ * Build the storage key holding the state of an export run
+ */
+export function getExportRunKey(runId: string): string {
+  return `exportRun:${runId}`;
+}
+
+/**
+ * Build the storage key holding one chunk of collected orders of an export run
+ */
+export function getExportOrdersKey(runId: string, chunkIndex: number): string {
+  return `exportRun:${runId}:orders:${chunkIndex}`;
+}
+
+/**
+ * Build the storage key holding the IDs of the orders in one chunk of an export run
+ */
+export function getExportOrderIdsKey(runId: string, chunkIndex: number): string {
+  return `exportRun:${runId}:orderIds:${chunkIndex}`;
+}
+
+/**
+ * List the storage keys of the order chunks of an export run
+ */
+export function getExportOrderChunkKeys(runId: string, chunkCount: number): string[] {
+  return Array.from({ length: chunkCount }, (_, chunkIndex) =>
+    getExportOrdersKey(runId, chunkIndex)
+  );
+}
+
+/**
+ * List all storage keys used by an export run
+ */
+export function getExportRunKeys(state: ExportState): string[] {
+  const keys = [getExportRunKey(state.runId)];
+  for (let i = 0; i < state.orderChunkCount; i++) {
+    keys.push(getExportOrdersKey(state.runId, i), getExportOrderIdsKey(state.runId, i));
+  }
+  return keys;
+}
+
+/**
+ * Check if a run stopped without being paused, e.g. because the tab or browser was closed
+ */
+export function isExportRunStale(state: ExportState, now: Date = new Date()): boolean {
+  if (!state.inProgress || state.paused) return false;
+  const updatedAt = Date.parse(state.updatedAt);
+  return isNaN(updatedAt) || now.getTime() - updatedAt > STALE_EXPORT_RUN_MS;
+}
+
+/**
+ * Pause a run that cannot continue for now, e.g. because Amazon stopped responding.
+ * The progress update is not an error, so the popup keeps offering to resume the run.
+ */
+export function pauseExportRun(state: ExportState, percent: number, message: string): ProgressData {
+  state.paused = true;
+  return { percent, message, paused: true };
+}
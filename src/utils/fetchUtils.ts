@@ -0,0 +1,159 @@
+/**
+ * Fetch scheduler with bounded concurrency, adaptive throttling and retries
+ */
+
+export interface FetchSchedulerOptions {
+  /** Maximum number of requests in flight at the same time */
+  concurrency: number;
+  /** Smallest delay between the start of two requests */
+  minDelayMs: number;
+  /** Largest delay between the start of two requests when throttled */
+  maxDelayMs: number;
+  /** Number of retries after the first attempt */
+  maxRetries: number;
+  /** Backoff before the first retry, doubled for each further retry */
+  baseBackoffMs: number;
+}
+
+export interface FetchSchedulerDependencies {
+  fetch: (url: string, init?: RequestInit) => Promise<Response>;
+  sleep: (ms: number) => Promise<void>;
+}
+
+export interface FetchScheduler {
+  fetch: (url: string, init?: RequestInit) => Promise<Response>;
+  getDelay: () => number;
+}
+
+const DEFAULT_FETCH_SCHEDULER_OPTIONS: FetchSchedulerOptions = {
+  concurrency: 3,
+  minDelayMs: 100,
+  maxDelayMs: 5000,
+  maxRetries: 3,
+  baseBackoffMs: 1000,
+};
+
+/**
+ * Check if a response status is worth retrying (rate limiting or server errors)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header value (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: Date = new Date()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value.trim());
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (isNaN(date)) return null;
+  return Math.max(0, date - now.getTime());
+}
+
+/**
+ * Calculate the exponential backoff before a retry (attempt starts at 0)
+ */
+export function getBackoffDelay(attempt: number, baseBackoffMs: number): number {
+  return baseBackoffMs * Math.pow(2, attempt);
+}
+
+/**
+ * Create a scheduler that limits concurrent requests, spaces out request starts,
+ * slows down when the server throttles and retries failed requests with backoff
+ */
+export function createFetchScheduler(
+  options: Partial<FetchSchedulerOptions> = {},
+  dependencies: Partial<FetchSchedulerDependencies> = {}
+): FetchScheduler {
+  const config = { ...DEFAULT_FETCH_SCHEDULER_OPTIONS, ...options };
+  const fetchFn: FetchSchedulerDependencies['fetch'] =
+    dependencies.fetch || ((url, init): Promise<Response> => fetch(url, init));
+  const sleep: FetchSchedulerDependencies['sleep'] =
+    dependencies.sleep ||
+    ((ms): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms)));
+
+  let delay = config.minDelayMs;
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  let startGate: Promise<void> = Promise.resolve();
+
+  async function acquireSlot(): Promise<void> {
+    if (active < config.concurrency) {
+      active++;
+      return;
+    }
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+
+  function releaseSlot(): void {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  }
+
+  // Request starts are chained so that consecutive starts are at least `delay` apart
+  function waitForTurn(): Promise<void> {
+    const turn = startGate;
+    startGate = turn.then(() => sleep(delay));
+    return turn;
+  }
+
+  function slowDown(): void {
+    delay = Math.min(config.maxDelayMs, Math.max(delay * 2, config.minDelayMs * 2));
+  }
+
+  function speedUp(): void {
+    delay = Math.max(config.minDelayMs, Math.floor(delay * 0.9));
+  }
+
+  async function scheduledFetch(url: string, init?: RequestInit): Promise<Response> {
+    await acquireSlot();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        // Aborted requests are neither started nor retried
+        if (init?.signal?.aborted) throw new Error('Request aborted');
+        await waitForTurn();
+
+        let response: Response;
+        try {
+          response = await fetchFn(url, init);
+        } catch (error) {
+          // Network error
+          if (init?.signal?.aborted || attempt >= config.maxRetries) throw error;
+          slowDown();
+          await sleep(getBackoffDelay(attempt, config.baseBackoffMs));
+          continue;
+        }
+
+        if (response.ok) {
+          speedUp();
+          return response;
+        }
+
+        if (!isRetryableStatus(response.status) || attempt >= config.maxRetries) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        slowDown();
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        await sleep(Math.max(retryAfter ?? 0, getBackoffDelay(attempt, config.baseBackoffMs)));
+      }
+    } finally {
+      releaseSlot();
+    }
+  }
+
+  return {
+    fetch: scheduledFetch,
+    getDelay: () => delay,
+  };
+}
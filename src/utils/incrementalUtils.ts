@@ -0,0 +1,49 @@
+/**
+ * Incremental export utilities
+ */
+
+import type { ExportedOrderSnapshot, ExportHistory, Order } from '../types';
+
+/**
+ * Build the storage key holding the export history of a marketplace
+ */
+export function getExportHistoryKey(marketplace: string): string {
+  return `exportHistory:${marketplace}`;
+}
+
+/**
+ * Create the snapshot that is remembered for an exported order
+ */
+export function createOrderSnapshot(order: Order): ExportedOrderSnapshot {
+  return {
+    orderStatus: order.orderStatus,
+    totalAmount: { ...order.totalAmount },
+  };
+}
+
+/**
+ * Check if an order was not exported before, or changed since the last export
+ */
+export function isOrderNewOrChanged(order: Order, history: ExportHistory): boolean {
+  const snapshot = history[order.orderId];
+  if (!snapshot) return true;
+
+  return (
+    snapshot.orderStatus !== order.orderStatus ||
+    snapshot.totalAmount?.amount !== order.totalAmount.amount ||
+    snapshot.totalAmount.currency !== order.totalAmount.currency
+  );
+}
+
+/**
+ * Merge exported orders into an export history, returning a new history
+ */
+export function mergeExportHistory(history: ExportHistory, orders: Order[]): ExportHistory {
+  const merged: ExportHistory = { ...history };
+  orders.forEach((order) => {
+    if (order.orderId) {
+      merged[order.orderId] = createOrderSnapshot(order);
+    }
+  });
+  return merged;
+}
@@ -7,3 +7,26 @@ export * from './priceUtils';
 export * from './orderUtils';
 export * from './csvUtils';
 export * from './urlUtils';
+export * from './incrementalUtils';
+export * from './ofxUtils';
+export * from './qifUtils';
+export * from './journalUtils';
+export * from './zipUtils';
+export * from './xlsxUtils';
+export * from './jsonUtils';
+export * from './fetchUtils';
+export * from './exportRunUtils';
+export * from './siteProfileUtils';
+export * from './moneyUtils';
+export * from './shipmentUtils';
+export * from './costBreakdownUtils';
+export * from './paymentUtils';
+export * from './invoiceUtils';
+export * from './refundUtils';
+export * from './subscriptionUtils';
+export * from './itemTotalsUtils';
+export * from './promotionUtils';
+export * from './productUtils';
+export * from './archiveUtils';
+export * from './analyticsUtils';
+export * from './chartUtils';
@@ -0,0 +1,102 @@
+/**
+ * Invoice link detection and file naming utilities
+ */
+
+import type { InvoiceLinkKind, Order } from '../types';
+
+/**
+ * Classify a link of an order details page or invoice popover by its path
+ */
+export function classifyInvoiceUrl(url: string): InvoiceLinkKind | null {
+  let pathname: string;
+  try {
+    pathname = new URL(url, 'https://www.amazon.com').pathname;
+  } catch {
+    return null;
+  }
+
+  if (pathname.includes('/documents/download/') || /\.pdf$/i.test(pathname)) return 'document';
+  if (pathname.includes('/ajax/invoice/') || pathname.endsWith('/invoice/popover')) {
+    return 'popover';
+  }
+  if (pathname.endsWith('/summary/print.html') || pathname === '/your-orders/invoice') {
+    return 'summary';
+  }
+  return null;
+}
+
+/**
+ * Read the content URL from a data-a-popover attribute, e.g. '{"url":"/gp/shared-cs/..."}'
+ */
+export function extractPopoverUrl(value: string): string {
+  try {
+    const options = JSON.parse(value) as { url?: unknown };
+    return typeof options.url === 'string' ? options.url : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Group the invoice links among the given URLs by kind, resolved against the page URL and
+ * without duplicates
+ */
+export function groupInvoiceUrls(
+  urls: string[],
+  baseUrl: string
+): Record<InvoiceLinkKind, string[]> {
+  const groups: Record<InvoiceLinkKind, string[]> = { document: [], popover: [], summary: [] };
+
+  urls.forEach((url) => {
+    const kind = url ? classifyInvoiceUrl(url) : null;
+    if (!kind) return;
+    try {
+      const absolute = new URL(url, baseUrl).href;
+      if (!groups[kind].includes(absolute)) groups[kind].push(absolute);
+    } catch {
+      // Invalid base URL
+    }
+  });
+
+  return groups;
+}
+
+/**
+ * Get the file extension an invoice is saved with: "html" for printable order summaries,
+ * otherwise the extension of the document, "pdf" by default
+ */
+export function getInvoiceFileExtension(url: string): string {
+  if (classifyInvoiceUrl(url) === 'summary') return 'html';
+  try {
+    const pathname = new URL(url, 'https://www.amazon.com').pathname;
+    return pathname.match(/\.([a-z0-9]{2,4})$/i)?.[1]?.toLowerCase() || 'pdf';
+  } catch {
+    return 'pdf';
+  }
+}
+
+/**
+ * Build the download path of an invoice, e.g. "invoices/2024/2024-03-15_302-1234567-1234567.pdf"
+ * Further invoices of the same order get a counter, e.g. "..._2.pdf".
+ * @param index - Zero-based index of the invoice within the order
+ */
+export function buildInvoiceFileName(
+  order: Pick<Order, 'orderId' | 'orderDate'>,
+  index: number = 0,
+  extension: string = 'pdf'
+): string {
+  const orderId = order.orderId.replace(/[^A-Za-z0-9-]/g, '_');
+  const suffix = index > 0 ? `_${index + 1}` : '';
+  if (!order.orderDate) {
+    return `invoices/${orderId}${suffix}.${extension}`;
+  }
+  return `invoices/${order.orderDate.substring(0, 4)}/${order.orderDate}_${orderId}${suffix}.${extension}`;
+}
+
+/**
+ * List order IDs for a message, shortened to the first few
+ */
+export function summarizeOrderIds(orderIds: string[], max: number = 10): string {
+  const listed = orderIds.slice(0, max).join(', ');
+  return orderIds.length > max ? `${listed}, …` : listed;
+}
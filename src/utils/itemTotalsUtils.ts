@@ -0,0 +1,122 @@
+/**
+ * Item price utilities: unit prices, line totals and the allocation of promotions and
+ * charges of an order to its items
+ */
+
+import type { Money, Order, OrderItem } from '../types';
+import { addMoney, allocateMoney, multiplyMoney, subtractMoney, zeroMoney } from './moneyUtils';
+
+/**
+ * Create the price fields of an item from its unit price, before promotions are allocated
+ */
+export function createItemTotals(
+  unitPrice: Money,
+  quantity: number
+): Pick<OrderItem, 'unitPrice' | 'lineTotal' | 'allocatedDiscount' | 'netLineTotal'> {
+  const lineTotal = multiplyMoney(unitPrice, quantity);
+  return {
+    unitPrice,
+    lineTotal,
+    allocatedDiscount: zeroMoney(unitPrice.currency),
+    netLineTotal: lineTotal,
+  };
+}
+
+/**
+ * Pick the unit price among the prices shown next to an item. Details pages usually show
+ * the unit price, but some show the line total as well ("$10.00 ... $20.00" for 2 units);
+ * a price that is another one times the quantity is taken as the line total.
+ */
+export function resolveUnitPrice(prices: Money[], quantity: number): Money | undefined {
+  if (quantity > 1) {
+    const unitPrice = prices.find((price) =>
+      prices.some(
+        (other) =>
+          other.currency === price.currency &&
+          price.amount > 0 &&
+          other.amount === price.amount * quantity
+      )
+    );
+    if (unitPrice) return unitPrice;
+  }
+  return prices[0];
+}
+
+/**
+ * Allocate the promotions and charges of an order to its items. Item coupons go to their
+ * item, order-wide promotions are spread in proportion to the line totals, and the rest of
+ * the order total (shipping, tax, or a difference the page does not explain) in proportion
+ * to the discounted line totals, so the net line totals add up exactly to the order total.
+ * Items and promotions in another currency than the order are left out.
+ */
+export function allocateItemTotals(
+  order: Pick<Order, 'items' | 'promotions' | 'totalAmount'>
+): OrderItem[] {
+  const { currency } = order.totalAmount;
+  const items = order.items.map((item) => ({
+    ...item,
+    lineTotal: multiplyMoney(item.unitPrice, item.quantity),
+  }));
+  const allocatable = items.filter((item) => item.lineTotal.currency === currency);
+  if (allocatable.length === 0) {
+    return items.map((item) => ({
+      ...item,
+      allocatedDiscount: zeroMoney(item.lineTotal.currency),
+      netLineTotal: item.lineTotal,
+    }));
+  }
+
+  const discounts = allocatable.map(() => zeroMoney(currency));
+  let orderWideDiscount = zeroMoney(currency);
+  order.promotions
+    .filter((promotion) => promotion.amount.currency === currency)
+    .forEach((promotion) => {
+      const index = promotion.asin
+        ? allocatable.findIndex((item) => item.asin === promotion.asin)
+        : -1;
+      const discount = discounts[index];
+      if (discount) {
+        discounts[index] = addMoney(discount, promotion.amount);
+      } else {
+        orderWideDiscount = addMoney(orderWideDiscount, promotion.amount);
+      }
+    });
+
+  allocateMoney(
+    orderWideDiscount,
+    allocatable.map((item) => item.lineTotal.amount)
+  ).forEach((share, index) => {
+    discounts[index] = addMoney(discounts[index] ?? zeroMoney(currency), share);
+  });
+
+  const discounted = allocatable.map((item, index) =>
+    subtractMoney(item.lineTotal, discounts[index] ?? zeroMoney(currency))
+  );
+  const charges = subtractMoney(
+    order.totalAmount,
+    discounted.reduce((sum, amount) => addMoney(sum, amount), zeroMoney(currency))
+  );
+  const chargeShares = allocateMoney(
+    charges,
+    discounted.map((amount) => amount.amount)
+  );
+
+  return items.map((item) => {
+    const index = allocatable.indexOf(item);
+    if (index < 0) {
+      return {
+        ...item,
+        allocatedDiscount: zeroMoney(item.lineTotal.currency),
+        netLineTotal: item.lineTotal,
+      };
+    }
+    return {
+      ...item,
+      allocatedDiscount: discounts[index] ?? zeroMoney(currency),
+      netLineTotal: addMoney(
+        discounted[index] ?? zeroMoney(currency),
+        chargeShares[index] ?? zeroMoney(currency)
+      ),
+    };
+  });
+}
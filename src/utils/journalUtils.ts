@@ -0,0 +1,335 @@
+/**
+ * Plain-text accounting (Beancount, Ledger, hledger) conversion utilities
+ */
+
+import type { AccountRule, JournalOptions, Money, Order, OrderItem, Refund } from '../types';
+import { COST_BREAKDOWN_FIELDS } from './costBreakdownUtils';
+import { formatMoneyAmount, negateMoney, subtractMoney, sumMoney } from './moneyUtils';
+import { formatCategory } from './productUtils';
+import { buildRefundMemo } from './refundUtils';
+
+export const DEFAULT_JOURNAL_OPTIONS: JournalOptions = {
+  dialect: 'beancount',
+  payee: 'Amazon',
+  defaultExpenseAccount: 'Expenses:Shopping:Amazon',
+  paymentAccount: 'Liabilities:CreditCard:Amazon',
+  discountAccount: 'Income:Discounts:Amazon',
+  adjustmentAccount: 'Expenses:Shopping:Amazon:Adjustments',
+  accountRules: [],
+};
+
+const BEANCOUNT_ROOT_ACCOUNTS = ['Assets', 'Liabilities', 'Equity', 'Income', 'Expenses'];
+
+interface Posting {
+  account: string;
+  amount: Money;
+  comment: string;
+  /** Posting metadata, e.g. ["brand", "Anker"] */
+  metadata?: [string, string][];
+}
+
+/**
+ * Dated journal entry: an order or one of its refunds
+ */
+interface JournalEntry {
+  date: string;
+  order: Order;
+  refund: Refund | null;
+}
+
+/**
+ * Parse account mapping rules, one "pattern = Account:Name" per line
+ * Empty lines and lines starting with # are ignored
+ */
+export function parseAccountRules(text: string): AccountRule[] {
+  const rules: AccountRule[] = [];
+  text.split('\n').forEach((line) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const separator = trimmed.lastIndexOf('=');
+    if (separator <= 0) return;
+
+    const pattern = trimmed.substring(0, separator).trim();
+    const account = trimmed.substring(separator + 1).trim();
+    if (pattern && account) {
+      rules.push({ pattern, account });
+    }
+  });
+  return rules;
+}
+
+/**
+ * Format account mapping rules as text, the inverse of parseAccountRules
+ */
+export function formatAccountRules(rules: AccountRule[]): string {
+  return rules.map((rule) => `${rule.pattern} = ${rule.account}`).join('\n');
+}
+
+/**
+ * Check if an item title matches a rule pattern
+ * Patterns are case-insensitive regular expressions; invalid ones match as plain text
+ */
+function matchesRule(title: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(title);
+  } catch {
+    return title.toLowerCase().includes(pattern.toLowerCase());
+  }
+}
+
+/**
+ * Resolve the expense account for an item title using the first matching rule. Rules also
+ * match the category breadcrumb of enriched items, e.g. "Books > Fiction".
+ */
+export function resolveItemAccount(
+  title: string,
+  options: JournalOptions,
+  category: string = ''
+): string {
+  const rule = options.accountRules.find(
+    (r) => matchesRule(title, r.pattern) || (category !== '' && matchesRule(category, r.pattern))
+  );
+  return rule ? rule.account : options.defaultExpenseAccount;
+}
+
+/**
+ * Posting metadata of an item from its seller and product details
+ */
+function getItemMetadata(item: OrderItem): [string, string][] {
+  const metadata: [string, string][] = [
+    ['seller', item.seller],
+    ['brand', item.product?.brand ?? ''],
+    ['category', formatCategory(item.product?.category ?? [])],
+    ['isbn', item.product?.isbn ?? ''],
+    ['ean', item.product?.ean ?? ''],
+  ];
+  return metadata.filter(([, value]) => value);
+}
+
+/**
+ * Make an account name valid for the selected dialect
+ * Beancount requires capitalized components of letters, digits and dashes below a known root
+ */
+export function formatAccountName(account: string, options: JournalOptions): string {
+  if (options.dialect === 'ledger') {
+    // Two spaces or tabs would end the account name in Ledger
+    return account.replace(/\s{2,}|\t/g, ' ').trim();
+  }
+
+  const components = account
+    .split(':')
+    .map((component) => component.trim().replace(/[^A-Za-z0-9-]+/g, '-'))
+    .map((component) => component.replace(/^-+|-+$/g, ''))
+    .filter((component) => component)
+    .map((component) => component.charAt(0).toUpperCase() + component.slice(1));
+
+  if (!components[0] || !BEANCOUNT_ROOT_ACCOUNTS.includes(components[0])) {
+    components.unshift('Expenses');
+  }
+  return components.join(':');
+}
+
+/**
+ * Escape a value for a quoted Beancount string
+ */
+function escapeBeancountString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s+/g, ' ');
+}
+
+/**
+ * Build the postings of an order; the payment posting balances the transaction. Items and
+ * promotions in another currency than the order total cannot balance against the payment,
+ * so they are left to the adjustment posting.
+ */
+function buildPostings(order: Order, options: JournalOptions): Posting[] {
+  const { currency } = order.totalAmount;
+  const items = order.items.filter((item) => item.lineTotal.currency === currency);
+  const postings: Posting[] = items.map((item) => ({
+    account: resolveItemAccount(item.title, options, formatCategory(item.product?.category ?? [])),
+    amount: item.lineTotal,
+    comment: item.quantity > 1 ? `${item.quantity}x ${item.title}` : item.title,
+    metadata: getItemMetadata(item),
+  }));
+
+  order.promotions
+    .filter((promotion) => promotion.amount.currency === currency)
+    .forEach((promotion) => {
+      postings.push({
+        account: options.discountAccount,
+        amount: negateMoney(promotion.amount),
+        comment: promotion.description,
+      });
+    });
+
+  // Whatever the parsed items and promotions do not explain (e.g. missing prices)
+  const unexplained = subtractMoney(
+    order.totalAmount,
+    sumMoney(
+      postings.map((posting) => posting.amount),
+      currency
+    )
+  );
+  if (unexplained.amount !== 0) {
+    postings.push({ account: options.adjustmentAccount, amount: unexplained, comment: '' });
+  }
+
+  postings.push({
+    account: options.paymentAccount,
+    amount: negateMoney(order.totalAmount),
+    comment: '',
+  });
+
+  return postings;
+}
+
+/**
+ * Build the postings of a refund: the payment account is credited and the expense account
+ * of the first refunded item is reduced
+ */
+function buildRefundPostings(order: Order, refund: Refund, options: JournalOptions): Posting[] {
+  const firstItem = refund.items[0];
+  const product = order.items.find((item) => item.asin === firstItem?.asin)?.product;
+  return [
+    {
+      account: firstItem
+        ? resolveItemAccount(firstItem.title, options, formatCategory(product?.category ?? []))
+        : options.defaultExpenseAccount,
+      amount: negateMoney(refund.amount),
+      comment: buildRefundMemo(refund),
+    },
+    { account: options.paymentAccount, amount: refund.amount, comment: '' },
+  ];
+}
+
+/**
+ * Build the postings of a journal entry
+ */
+function buildEntryPostings(entry: JournalEntry, options: JournalOptions): Posting[] {
+  return entry.refund
+    ? buildRefundPostings(entry.order, entry.refund, options)
+    : buildPostings(entry.order, options);
+}
+
+/**
+ * Transaction metadata from the order summary, e.g. ["tax", "7.66 EUR"], for the charges
+ * shown there
+ */
+function getCostMetadata(order: Order): [string, string][] {
+  const breakdown = order.costBreakdown;
+  if (!breakdown) return [];
+
+  const metadata: [string, string][] = COST_BREAKDOWN_FIELDS.filter(
+    (field) => breakdown[field].amount !== 0
+  ).map((field) => [
+    field.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`),
+    `${formatMoneyAmount(breakdown[field])} ${breakdown[field].currency}`,
+  ]);
+  if (breakdown.taxRate !== null) {
+    metadata.push(['tax_rate', String(breakdown.taxRate)]);
+  }
+  return metadata;
+}
+
+/**
+ * Format an order or refund as a Beancount transaction
+ */
+function formatBeancountTransaction(entry: JournalEntry, options: JournalOptions): string {
+  const { order } = entry;
+  const narration = `${entry.refund ? 'Refund' : 'Order'} ${order.orderId}`;
+  const lines = [
+    `${entry.date} * "${escapeBeancountString(options.payee)}" "${escapeBeancountString(narration)}"`,
+    `  order_id: "${order.orderId}"`,
+  ];
+  if (order.detailsUrl) {
+    lines.push(`  url: "${escapeBeancountString(order.detailsUrl)}"`);
+  }
+  if (!entry.refund) {
+    getCostMetadata(order).forEach(([key, value]) => lines.push(`  ${key}: ${value}`));
+  }
+
+  buildEntryPostings(entry, options).forEach((posting) => {
+    lines.push(
+      `  ${formatAccountName(posting.account, options)}  ${formatMoneyAmount(posting.amount)} ${posting.amount.currency}`
+    );
+    if (posting.comment) {
+      lines.push(`    description: "${escapeBeancountString(posting.comment)}"`);
+    }
+    (posting.metadata ?? []).forEach(([key, value]) => {
+      lines.push(`    ${key}: "${escapeBeancountString(value)}"`);
+    });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Format an order or refund as a Ledger/hledger transaction
+ */
+function formatLedgerTransaction(entry: JournalEntry, options: JournalOptions): string {
+  const { order } = entry;
+  const payee = entry.refund ? `${options.payee} refund` : options.payee;
+  const lines = [`${entry.date} * (${order.orderId}) ${payee}`];
+  lines.push(`    ; order_id: ${order.orderId}`);
+  if (order.detailsUrl) {
+    lines.push(`    ; url: ${order.detailsUrl}`);
+  }
+  if (!entry.refund) {
+    getCostMetadata(order).forEach(([key, value]) => lines.push(`    ; ${key}: ${value}`));
+  }
+
+  buildEntryPostings(entry, options).forEach((posting) => {
+    const comment = posting.comment ? `  ; ${posting.comment.replace(/\s+/g, ' ')}` : '';
+    lines.push(
+      `    ${formatAccountName(posting.account, options)}  ${formatMoneyAmount(posting.amount)} ${posting.amount.currency}${comment}`
+    );
+    (posting.metadata ?? []).forEach(([key, value]) => {
+      lines.push(`      ; ${key}: ${value.replace(/\s+/g, ' ')}`);
+    });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert orders to a plain-text accounting journal
+ * Each order becomes a transaction with one posting per item, one discount posting
+ * per promotion and a balancing payment posting, and each refund a transaction crediting
+ * the payment account. Orders without a date are skipped.
+ * @param orders - Array of orders to convert
+ * @param options - Dialect and account mapping
+ */
+export function convertOrdersToJournal(
+  orders: Order[],
+  options: JournalOptions = DEFAULT_JOURNAL_OPTIONS
+): string {
+  // Refunds without date are booked on the order date
+  const entries: JournalEntry[] = orders
+    .filter((order) => order.orderDate)
+    .flatMap((order) => [
+      { date: order.orderDate, order, refund: null },
+      ...order.refunds.map((refund) => ({ date: refund.date || order.orderDate, order, refund })),
+    ])
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const transactions = entries.map((entry) =>
+    options.dialect === 'ledger'
+      ? formatLedgerTransaction(entry, options)
+      : formatBeancountTransaction(entry, options)
+  );
+
+  if (options.dialect === 'beancount' && entries.length > 0) {
+    // Beancount requires every account to be opened before it is used
+    const accounts = new Set<string>();
+    entries.forEach((entry) => {
+      buildEntryPostings(entry, options).forEach((posting) => {
+        accounts.add(formatAccountName(posting.account, options));
+      });
+    });
+    const openDate = entries[0]?.date || '';
+    const openDirectives = [...accounts].sort().map((account) => `${openDate} open ${account}`);
+    transactions.unshift(openDirectives.join('\n'));
+  }
+
+  return transactions.join('\n\n') + '\n';
+}
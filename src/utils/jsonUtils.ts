@@ -0,0 +1,42 @@
+/**
+ * JSON export utilities
+ */
+
+import type { ExportEnvelope, Order, Subscription } from '../types';
+
+/**
+ * Version of the JSON export format; bump it when the exported shape changes
+ */
+export const EXPORT_SCHEMA_VERSION = '3.3.0';
+
+/**
+ * Export metadata, everything in the envelope except the orders and subscriptions
+ */
+export type ExportMetadata = Omit<ExportEnvelope, 'schemaVersion' | 'orders' | 'subscriptions'>;
+
+/**
+ * Wrap orders and subscriptions in a versioned export envelope
+ */
+export function buildExportEnvelope(
+  orders: Order[],
+  metadata: ExportMetadata,
+  subscriptions: Subscription[] = []
+): ExportEnvelope {
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    ...metadata,
+    orders,
+    subscriptions,
+  };
+}
+
+/**
+ * Convert orders to JSON format, wrapped in a versioned export envelope
+ */
+export function convertOrdersToJSON(
+  orders: Order[],
+  metadata: ExportMetadata,
+  subscriptions: Subscription[] = []
+): string {
+  return JSON.stringify(buildExportEnvelope(orders, metadata, subscriptions), null, 2);
+}
@@ -0,0 +1,166 @@
+/**
+ * Money utilities: exact amounts in integer minor units of a currency
+ */
+
+import type { Money } from '../types';
+
+/**
+ * Supported currencies with their display symbol and number of decimal places
+ */
+const CURRENCIES: Record<string, { symbol: string; decimals: number }> = {
+  EUR: { symbol: '€', decimals: 2 },
+  GBP: { symbol: '£', decimals: 2 },
+  USD: { symbol: '$', decimals: 2 },
+  CAD: { symbol: 'CA$', decimals: 2 },
+  AUD: { symbol: 'A$', decimals: 2 },
+  MXN: { symbol: 'MX$', decimals: 2 },
+  BRL: { symbol: 'R$', decimals: 2 },
+  JPY: { symbol: '¥', decimals: 0 },
+  INR: { symbol: '₹', decimals: 2 },
+  CHF: { symbol: 'CHF ', decimals: 2 },
+  KWD: { symbol: 'KWD ', decimals: 3 },
+  BHD: { symbol: 'BHD ', decimals: 3 },
+  OMR: { symbol: 'OMR ', decimals: 3 },
+};
+
+/**
+ * Get the number of decimal places of a currency (e.g. 0 for JPY, 3 for KWD)
+ */
+export function getCurrencyDecimals(currency: string): number {
+  return CURRENCIES[currency]?.decimals ?? 2;
+}
+
+/**
+ * Create a zero amount in a currency
+ */
+export function zeroMoney(currency: string): Money {
+  return { amount: 0, currency };
+}
+
+/**
+ * Convert a decimal amount (e.g. "12.99" or 12.99) to integer minor units of a currency
+ * The decimal point is shifted in the string, so no floating point error creeps in.
+ */
+export function toMinorUnits(value: string | number, currency: string): number {
+  const shifted = Number(`${value}e${getCurrencyDecimals(currency)}`);
+  return Math.round(shifted) || 0;
+}
+
+/**
+ * Create money from a decimal amount, e.g. moneyFromDecimal('12.99', 'EUR')
+ */
+export function moneyFromDecimal(value: string | number, currency: string): Money {
+  return { amount: toMinorUnits(value, currency), currency };
+}
+
+/**
+ * Convert money to a decimal number, e.g. for spreadsheet cells
+ */
+export function toDecimal(money: Money): number {
+  return money.amount / 10 ** getCurrencyDecimals(money.currency);
+}
+
+/**
+ * Throw if two amounts cannot be combined because their currencies differ
+ */
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+}
+
+/**
+ * Add two amounts of the same currency
+ */
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+/**
+ * Subtract an amount from another of the same currency
+ */
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+}
+
+/**
+ * Check if two amounts are equal, including their currency
+ */
+export function moneyEquals(a: Money, b: Money): boolean {
+  return a.amount === b.amount && a.currency === b.currency;
+}
+
+/**
+ * Multiply an amount by a whole number, e.g. an item price by its quantity
+ */
+export function multiplyMoney(money: Money, factor: number): Money {
+  return { amount: money.amount * Math.round(factor), currency: money.currency };
+}
+
+/**
+ * Negate an amount, e.g. to book a purchase as a debit
+ */
+export function negateMoney(money: Money): Money {
+  return { amount: -money.amount || 0, currency: money.currency };
+}
+
+/**
+ * Sum amounts of one currency; an empty list sums to zero
+ */
+export function sumMoney(values: Money[], currency: string): Money {
+  return values.reduce(addMoney, zeroMoney(currency));
+}
+
+/**
+ * Split an amount into parts in proportion to the weights without losing a minor unit.
+ * Leftover units go to the parts with the largest remainders; without positive weights
+ * the amount is split evenly.
+ */
+export function allocateMoney(total: Money, weights: number[]): Money[] {
+  if (weights.length === 0) return [];
+
+  const positive = weights.map((weight) => Math.max(0, weight));
+  const sum = positive.reduce((a, b) => a + b, 0);
+  const shares = sum > 0 ? positive : positive.map(() => 1);
+  const shareSum = sum > 0 ? sum : shares.length;
+
+  // Negative totals, e.g. a discount, are split like positive ones
+  const sign = total.amount < 0 ? -1 : 1;
+  const amount = Math.abs(total.amount);
+  const exact = shares.map((share) => (amount * share) / shareSum);
+  const parts = exact.map(Math.floor);
+  let leftover = amount - parts.reduce((a, b) => a + b, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[index] = (parts[index] ?? 0) + 1;
+    leftover--;
+  }
+
+  return parts.map((part) => ({ amount: sign * part || 0, currency: total.currency }));
+}
+
+/**
+ * Format the amount of money with the decimal places of its currency,
+ * e.g. "12.50", "1234" for JPY or "1.250" for KWD
+ */
+export function formatMoneyAmount(money: Money, decimalSeparator: string = '.'): string {
+  const decimals = getCurrencyDecimals(money.currency);
+  const sign = money.amount < 0 ? '-' : '';
+  const digits = String(Math.abs(money.amount)).padStart(decimals + 1, '0');
+  if (decimals === 0) return `${sign}${digits}`;
+  return `${sign}${digits.slice(0, -decimals)}${decimalSeparator}${digits.slice(-decimals)}`;
+}
+
+/**
+ * Format money with its currency symbol, e.g. "€5.00" or "¥1234"
+ */
+export function formatMoney(money: Money): string {
+  const symbol = CURRENCIES[money.currency]?.symbol ?? `${money.currency} `;
+  return `${symbol}${formatMoneyAmount(money)}`;
+}
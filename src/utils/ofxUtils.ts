@@ -0,0 +1,210 @@
+/**
+ * OFX conversion utilities
+ */
+
+import type { Order } from '../types';
+import { buildOrderMemo } from './orderUtils';
+import { formatMoneyAmount, negateMoney, sumMoney } from './moneyUtils';
+import { buildRefundMemo, getNetAmount } from './refundUtils';
+
+/**
+ * OFX element: a leaf with a value or an aggregate with child elements
+ */
+type OfxNode = [string, string | OfxNode[]];
+
+/**
+ * Escape a value for OFX (both SGML and XML variants)
+ */
+export function escapeOFXValue(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Format an ISO date (YYYY-MM-DD) as OFX date (YYYYMMDD)
+ */
+export function formatOFXDate(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+/**
+ * Format a timestamp as OFX date-time (YYYYMMDDHHMMSS)
+ */
+function formatOFXDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').replace(/\..*$/, '');
+}
+
+/**
+ * Render OFX elements; SGML (OFX 1.x) leaves have no closing tags
+ */
+function renderOFXNodes(nodes: OfxNode[], xml: boolean): string[] {
+  const lines: string[] = [];
+  nodes.forEach(([tag, value]) => {
+    if (typeof value === 'string') {
+      const escaped = escapeOFXValue(value);
+      lines.push(xml ? `<${tag}>${escaped}</${tag}>` : `<${tag}>${escaped}`);
+    } else {
+      lines.push(`<${tag}>`, ...renderOFXNodes(value, xml), `</${tag}>`);
+    }
+  });
+  return lines;
+}
+
+/**
+ * Build the credit transactions of the refunds of an order
+ */
+function buildRefundTransactions(order: Order): OfxNode[] {
+  return order.refunds.map((refund, index) => [
+    'STMTTRN',
+    [
+      ['TRNTYPE', 'CREDIT'],
+      ['DTPOSTED', formatOFXDate(refund.date || order.orderDate)],
+      ['TRNAMT', formatMoneyAmount(refund.amount)],
+      ['FITID', `${order.orderId}-R${index + 1}`],
+      ['NAME', 'Amazon'],
+      ['MEMO', buildRefundMemo(refund)],
+    ],
+  ]);
+}
+
+/**
+ * Build a credit card statement for orders sharing one currency
+ */
+function buildStatement(orders: Order[], currency: string, index: number, now: Date): OfxNode {
+  const dates = orders
+    .flatMap((order) => [order.orderDate, ...order.refunds.map((refund) => refund.date)])
+    .filter((date) => date)
+    .sort();
+  const firstDate = dates[0] || now.toISOString().split('T')[0] || '';
+  const lastDate = dates[dates.length - 1] || firstDate;
+  const balance = negateMoney(
+    sumMoney(
+      orders.map((order) => getNetAmount(order)),
+      currency
+    )
+  );
+
+  const transactions: OfxNode[] = orders.flatMap((order) => {
+    const transaction: OfxNode[] = [
+      ['TRNTYPE', 'DEBIT'],
+      ['DTPOSTED', formatOFXDate(order.orderDate)],
+      ['TRNAMT', formatMoneyAmount(negateMoney(order.totalAmount))],
+      ['FITID', order.orderId],
+      ['NAME', 'Amazon'],
+    ];
+    const memo = buildOrderMemo(order);
+    if (memo) {
+      transaction.push(['MEMO', memo]);
+    }
+    return [['STMTTRN', transaction], ...buildRefundTransactions(order)];
+  });
+
+  return [
+    'CCSTMTTRNRS',
+    [
+      ['TRNUID', String(index + 1)],
+      [
+        'STATUS',
+        [
+          ['CODE', '0'],
+          ['SEVERITY', 'INFO'],
+        ],
+      ],
+      [
+        'CCSTMTRS',
+        [
+          ['CURDEF', currency],
+          ['CCACCTFROM', [['ACCTID', `AMAZON-${currency}`]]],
+          [
+            'BANKTRANLIST',
+            [
+              ['DTSTART', formatOFXDate(firstDate)],
+              ['DTEND', formatOFXDate(lastDate)],
+              ...transactions,
+            ],
+          ],
+          [
+            'LEDGERBAL',
+            [
+              ['BALAMT', formatMoneyAmount(balance)],
+              ['DTASOF', formatOFXDate(lastDate)],
+            ],
+          ],
+        ],
+      ],
+    ],
+  ];
+}
+
+/**
+ * Convert orders to OFX format, one credit card statement per currency, with a credit for
+ * each refund
+ * Orders without a date are skipped, as OFX requires a posting date
+ * @param orders - Array of orders to convert
+ * @param version - 1 for OFX 1.x (SGML), 2 for OFX 2.x (XML)
+ * @param now - Timestamp used as server date
+ */
+export function convertOrdersToOFX(
+  orders: Order[],
+  version: 1 | 2,
+  now: Date = new Date()
+): string {
+  const xml = version === 2;
+  const ordersByCurrency = new Map<string, Order[]>();
+  orders
+    .filter((order) => order.orderDate)
+    .forEach((order) => {
+      const currencyOrders = ordersByCurrency.get(order.totalAmount.currency) || [];
+      currencyOrders.push(order);
+      ordersByCurrency.set(order.totalAmount.currency, currencyOrders);
+    });
+
+  const statements = [...ordersByCurrency.entries()].map(([currency, currencyOrders], index) =>
+    buildStatement(currencyOrders, currency, index, now)
+  );
+
+  const ofx: OfxNode = [
+    'OFX',
+    [
+      [
+        'SIGNONMSGSRSV1',
+        [
+          [
+            'SONRS',
+            [
+              [
+                'STATUS',
+                [
+                  ['CODE', '0'],
+                  ['SEVERITY', 'INFO'],
+                ],
+              ],
+              ['DTSERVER', formatOFXDateTime(now)],
+              ['LANGUAGE', 'ENG'],
+            ],
+          ],
+        ],
+      ],
+      ['CREDITCARDMSGSRSV1', statements],
+    ],
+  ];
+
+  const header = xml
+    ? [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+        '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+      ]
+    : [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        'VERSION:102',
+        'SECURITY:NONE',
+        'ENCODING:UNICODE',
+        'CHARSET:NONE',
+        'COMPRESSION:NONE',
+        'OLDFILEUID:NONE',
+        'NEWFILEUID:NONE',
+        '',
+      ];
+
+  return [...header, ...renderOFXNodes([ofx], xml)].join('\n');
+}
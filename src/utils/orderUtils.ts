@@ -2,7 +2,10 @@
  * Order validation and filtering utilities
  */
 
-import type { Order } from '../types';
+import type { Order, SiteProfile } from '../types';
+import { formatTaxSummary } from './costBreakdownUtils';
+import { formatCategory, getCommonCategory } from './productUtils';
+import { GENERIC_SITE_PROFILE, buildAlternation } from './siteProfileUtils';
 
 /**
  * Check if an order is actually an advertisement/recommendation block
@@ -31,7 +34,7 @@ export function isAdvertisementOrder(order: Order): boolean {
 
     // If no date, no status, no details URL, and all items have price 0 - likely an ad
     if (!order.orderStatus && !order.detailsUrl) {
-      const allPricesZero = order.items.every((item) => item.price === 0);
+      const allPricesZero = order.items.every((item) => item.unitPrice.amount === 0);
       if (allPricesZero && order.items.length > 5) {
         return true;
       }
@@ -41,18 +44,95 @@ export function isAdvertisementOrder(order: Order): boolean {
   return false;
 }
 
+/**
+ * Summarize the item titles of an order, e.g. for transaction memos
+ */
+export function summarizeOrderItems(order: Order, maxLength: number = 255): string {
+  const summary = order.items
+    .map((item) => item.title)
+    .filter((title) => title)
+    .join('; ');
+  return summary.length > maxLength ? `${summary.substring(0, maxLength - 3)}...` : summary;
+}
+
+/**
+ * Build the memo of an order transaction: the item titles, followed by the tax and the
+ * category shared by the enriched items when known
+ */
+export function buildOrderMemo(order: Order, maxLength: number = 255): string {
+  const suffix = [
+    formatTaxSummary(order.costBreakdown),
+    formatCategory(getCommonCategory(order.items)),
+  ]
+    .filter((part) => part)
+    .join(' | ');
+  if (!suffix) return summarizeOrderItems(order, maxLength);
+
+  const items = summarizeOrderItems(order, maxLength - suffix.length - 3);
+  return items ? `${items} | ${suffix}` : suffix;
+}
+
+/**
+ * Order IDs, e.g. "302-1234567-1234567", or "D01-1234567-1234567" for digital orders
+ */
+const ORDER_ID_PATTERN = '(?:D\\d{2}|\\d{3})-\\d{7}-\\d{7}';
+
 /**
  * Extract order ID from text
  */
 export function extractOrderId(text: string): string | null {
-  const orderIdMatch = text.match(/\d{3}-\d{7}-\d{7}/);
+  const orderIdMatch = text.match(new RegExp(ORDER_ID_PATTERN));
   return orderIdMatch?.[0] || null;
 }
 
+/**
+ * Extract all distinct order IDs from text
+ */
+export function extractOrderIds(text: string): string[] {
+  return [...new Set(text.match(new RegExp(ORDER_ID_PATTERN, 'g')) || [])];
+}
+
 /**
  * Extract order ID from URL
  */
 export function extractOrderIdFromUrl(url: string): string | null {
-  const urlMatch = url.match(/orderI[Dd]=(\d{3}-\d{7}-\d{7})/i);
+  const urlMatch = url.match(new RegExp(`orderI[Dd]=(${ORDER_ID_PATTERN})`, 'i'));
   return urlMatch?.[1] || null;
 }
+
+/**
+ * Tell whether an order ID belongs to a digital order
+ */
+export function isDigitalOrderId(orderId: string): boolean {
+  return /^D\d{2}-/.test(orderId);
+}
+
+/**
+ * Extract the order status (e.g. "Zugestellt am 15. Januar") using the status phrases
+ * of the site profile, in their order of priority
+ */
+export function extractOrderStatus(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): string {
+  for (const phrase of profile.statusPhrases) {
+    const pattern = new RegExp(`(?:${buildAlternation([phrase])})[\\p{L}\\p{N}.,\\s]*`, 'iu');
+    const match = text.match(pattern);
+    if (match?.[0]) {
+      return match[0].trim().substring(0, 50).trim();
+    }
+  }
+  return '';
+}
+
+/**
+ * Extract an item quantity from text like "Qty: 2" or "Menge: 2"
+ */
+export function extractQuantity(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): number | null {
+  const pattern = new RegExp(`(?:${buildAlternation(profile.quantityLabels)})[:：\\s]*(\\d+)`, 'i');
+  const quantity = parseInt(text.match(pattern)?.[1] || '', 10);
+  return isNaN(quantity) || quantity <= 0 ? null : quantity;
+}
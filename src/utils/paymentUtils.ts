@@ -0,0 +1,231 @@
+/**
+ * Payment method and charge parsing utilities for order details pages
+ */
+
+import type {
+  Money,
+  OrderPayments,
+  PaymentInstrument,
+  PaymentTransaction,
+  SiteProfile,
+} from '../types';
+import { parseDate } from './dateUtils';
+import { addMoney, sumMoney, zeroMoney } from './moneyUtils';
+import { findPrices } from './priceUtils';
+import { GENERIC_SITE_PROFILE, buildAlternation, normalizeText } from './siteProfileUtils';
+
+/**
+ * Card brands with the names they are shown as on Amazon pages
+ */
+const CARD_BRANDS: [string, string[]][] = [
+  ['American Express', ['American Express', 'AmEx', 'Amex']],
+  ['Mastercard', ['Mastercard', 'MasterCard']],
+  ['Visa', ['Visa']],
+  ['Discover', ['Discover']],
+  ['Diners Club', ['Diners Club']],
+  ['JCB', ['JCB']],
+  ['Maestro', ['Maestro']],
+  ['UnionPay', ['UnionPay']],
+  ['RuPay', ['RuPay']],
+  ['Elo', ['Elo']],
+  ['Hipercard', ['Hipercard']],
+];
+
+/**
+ * Payment methods other than cards, with the names they are shown as
+ */
+const OTHER_PAYMENT_METHODS: [string, string[]][] = [
+  ['PayPal', ['PayPal']],
+  ['Direct debit', ['Lastschrift', 'Bankeinzug', 'SEPA', 'Direct Debit', 'Prélèvement']],
+  ['Pay on delivery', ['Pay on Delivery', 'Cash on Delivery', 'Contrareembolso', '代金引換']],
+  ['UPI', ['UPI']],
+  ['Boleto', ['Boleto']],
+  ['Pix', ['Pix']],
+];
+
+/**
+ * Build a pattern matching the given names as whole words, capturing the name
+ */
+function buildNamePattern(methods: [string, string[]][], flags: string): RegExp {
+  const names = buildAlternation(methods.flatMap(([, aliases]) => aliases));
+  return new RegExp(`(?<![A-Za-z0-9])(${names})(?![A-Za-z0-9])`, flags);
+}
+
+/**
+ * Look up the canonical name of a payment method from a matched alias
+ */
+function getMethodName(methods: [string, string[]][], alias: string): string {
+  return methods.find(([, aliases]) => aliases.includes(alias))?.[0] || alias;
+}
+
+/**
+ * Find the cards in a text, e.g. "Visa ending in 1234" or "Mastercard ****5678"
+ * Only the brand and the last four digits are kept; brands without digits are skipped,
+ * as they are usually no payment (e.g. "Discover more").
+ */
+export function findCards(text: string): { name: string; lastDigits: string }[] {
+  const cards: { name: string; lastDigits: string }[] = [];
+  const brandPattern = buildNamePattern(CARD_BRANDS, 'g');
+
+  for (const match of text.matchAll(brandPattern)) {
+    const alias = match[1] || '';
+    const end = (match.index ?? 0) + match[0].length;
+    // The last digits follow the brand after a few words or masking characters
+    const lastDigits = text.substring(end, end + 40).match(/^[^\d\n]{0,30}?(\d{4})(?!\d)/)?.[1];
+    if (lastDigits) {
+      cards.push({ name: getMethodName(CARD_BRANDS, alias), lastDigits });
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * Find payment methods other than cards in a text, e.g. "PayPal"
+ */
+export function findOtherPaymentMethods(text: string): string[] {
+  const pattern = buildNamePattern(OTHER_PAYMENT_METHODS, 'g');
+  return [...text.matchAll(pattern)].map((match) =>
+    getMethodName(OTHER_PAYMENT_METHODS, match[1] || '')
+  );
+}
+
+/**
+ * Check if a line starts with one of the labels
+ */
+function startsWithLabel(line: string, labels: string[]): boolean {
+  const normalized = normalizeText(line).trim();
+  return labels.some((label) => normalized.startsWith(normalizeText(label)));
+}
+
+/**
+ * Parse a charge line listing date, card and amount, e.g.
+ * "November 3, 2024 - Visa ending in 1234: $45.67"
+ */
+export function parsePaymentTransaction(
+  line: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): PaymentTransaction | null {
+  const card = findCards(line)[0];
+  const date = parseDate(line, profile);
+  // The card digits are no price, so take the last amount of the line
+  const amount = findPrices(line, profile).pop();
+  if (!card || !date || !amount) return null;
+  return { date, name: card.name, lastDigits: card.lastDigits, amount };
+}
+
+/**
+ * Check if two instruments or transactions refer to the same card or payment method
+ */
+function isSameMethod(
+  a: { name: string; lastDigits: string },
+  b: { name: string; lastDigits: string }
+): boolean {
+  return a.name === b.name && a.lastDigits === b.lastDigits;
+}
+
+/**
+ * Parse payment instruments and charges from the payment section, order summary and
+ * transaction list of an order details page. Refund lines are left to the refund parser.
+ * Card amounts are summed from the charges. Without charges, a single card or payment
+ * method is assumed to have paid the total, unless gift cards or reward points were used
+ * as well; its amount is left unknown then.
+ * @param lines - Text of each line, e.g. "Visa ending in 1234" or "Gift Card Amount: -$5.00"
+ * @param total - Grand total of the order
+ */
+export function parsePayments(
+  lines: string[],
+  total: Money,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): OrderPayments | null {
+  const instruments: PaymentInstrument[] = [];
+  const transactions: PaymentTransaction[] = [];
+  let giftCardAmount = zeroMoney(total.currency);
+  let rewardPointsAmount = zeroMoney(total.currency);
+
+  const refundPattern = new RegExp(`(?:${buildAlternation(profile.refundLabels)})`, 'iu');
+  const addInstrument = (instrument: PaymentInstrument): void => {
+    if (!instruments.some((other) => isSameMethod(other, instrument))) {
+      instruments.push(instrument);
+    }
+  };
+
+  lines.forEach((line) => {
+    if (refundPattern.test(line)) return;
+    const amount = findPrices(line, profile)[0];
+    if (startsWithLabel(line, profile.giftCardLabels)) {
+      if (amount?.currency === total.currency) giftCardAmount = addMoney(giftCardAmount, amount);
+      return;
+    }
+    if (startsWithLabel(line, profile.rewardPointsLabels)) {
+      if (amount?.currency === total.currency) {
+        rewardPointsAmount = addMoney(rewardPointsAmount, amount);
+      }
+      return;
+    }
+
+    const transaction = parsePaymentTransaction(line, profile);
+    if (
+      transaction &&
+      !transactions.some(
+        (other) =>
+          isSameMethod(other, transaction) &&
+          other.date === transaction.date &&
+          other.amount.amount === transaction.amount.amount
+      )
+    ) {
+      transactions.push(transaction);
+    }
+
+    findCards(line).forEach((card) => addInstrument({ type: 'card', ...card, amount: null }));
+    findOtherPaymentMethods(line).forEach((name) =>
+      addInstrument({ type: 'other', name, lastDigits: '', amount: null })
+    );
+  });
+
+  instruments.forEach((instrument) => {
+    const charges = transactions.filter((transaction) => isSameMethod(transaction, instrument));
+    if (charges.length > 0) {
+      instrument.amount = sumMoney(
+        charges.map((charge) => charge.amount),
+        charges[0]?.amount.currency || total.currency
+      );
+    }
+  });
+
+  const onlyInstrument = instruments.length === 1 ? instruments[0] : undefined;
+  if (
+    onlyInstrument &&
+    transactions.length === 0 &&
+    giftCardAmount.amount === 0 &&
+    rewardPointsAmount.amount === 0
+  ) {
+    onlyInstrument.amount = total;
+  }
+
+  if (giftCardAmount.amount > 0) {
+    instruments.push({
+      type: 'gift_card',
+      name: 'Gift card',
+      lastDigits: '',
+      amount: giftCardAmount,
+    });
+  }
+  if (rewardPointsAmount.amount > 0) {
+    instruments.push({
+      type: 'reward_points',
+      name: 'Reward points',
+      lastDigits: '',
+      amount: rewardPointsAmount,
+    });
+  }
+
+  return instruments.length > 0 || transactions.length > 0 ? { instruments, transactions } : null;
+}
+
+/**
+ * Describe a payment instrument, e.g. "Visa ****1234" or "Gift card"
+ */
+export function formatPaymentMethod(method: { name: string; lastDigits: string }): string {
+  return method.lastDigits ? `${method.name} ****${method.lastDigits}` : method.name;
+}
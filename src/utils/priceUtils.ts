@@ -2,18 +2,28 @@
  * Price parsing utilities
  */
 
+import type { Money, SiteProfile } from '../types';
+import { toMinorUnits } from './moneyUtils';
+import { GENERIC_SITE_PROFILE, buildAlternation, normalizeText } from './siteProfileUtils';
+
 /**
- * Parse a price string to a number, handling European and US formats
- * European: "1.234,56" or "1234,56"
- * US: "1,234.56" or "1234.56"
+ * Number pattern for prices, allowing space thousands separators ("1 234,56")
  */
-export function parsePrice(priceStr: string): number {
-  if (!priceStr) return 0;
+const AMOUNT_PATTERN = '[0-9](?:[0-9.,]|[ \\u00a0\\u202f](?=[0-9]{3}\\b))*';
 
-  let cleaned = priceStr.trim();
+/**
+ * Normalize a price string to a plain decimal string like "1234.56", handling European
+ * and US formats. When the decimal separator of the marketplace is known, it is used
+ * instead of guessing.
+ */
+function normalizeDecimal(priceStr: string, decimalSeparator?: '.' | ','): string {
+  let cleaned = priceStr.trim().replace(/\s/g, '');
 
-  // Handle European format (1.234,56 -> 1234.56)
-  if (cleaned.includes(',') && cleaned.includes('.')) {
+  if (decimalSeparator) {
+    const thousandsSeparator = decimalSeparator === ',' ? /\./g : /,/g;
+    cleaned = cleaned.replace(thousandsSeparator, '').replace(decimalSeparator, '.');
+  } else if (cleaned.includes(',') && cleaned.includes('.')) {
+    // Handle European format (1.234,56 -> 1234.56)
     // If comma comes after period, it's European format
     const lastComma = cleaned.lastIndexOf(',');
     const lastPeriod = cleaned.lastIndexOf('.');
@@ -37,48 +47,156 @@ export function parsePrice(priceStr: string): number {
     }
   }
 
-  const amount = parseFloat(cleaned);
+  return cleaned.match(/^-?[0-9]+(?:\.[0-9]+)?/)?.[0] || '';
+}
+
+/**
+ * Parse a price string to a number, handling European and US formats
+ * European: "1.234,56" or "1234,56"
+ * US: "1,234.56" or "1234.56"
+ */
+export function parsePrice(priceStr: string, decimalSeparator?: '.' | ','): number {
+  if (!priceStr) return 0;
+
+  const amount = parseFloat(normalizeDecimal(priceStr, decimalSeparator));
   return isNaN(amount) ? 0 : amount;
 }
 
+/**
+ * Parse a price string to exact money in minor units of the currency
+ */
+export function parseMoney(
+  priceStr: string,
+  currency: string,
+  decimalSeparator?: '.' | ','
+): Money {
+  const decimal = priceStr ? normalizeDecimal(priceStr, decimalSeparator) : '';
+  return { amount: decimal ? toMinorUnits(decimal, currency) : 0, currency };
+}
+
+/**
+ * Currency markers in order of detection priority; the bare "$" is handled separately
+ * because its meaning depends on the marketplace
+ */
+const CURRENCY_MARKERS: [string, string[]][] = [
+  ['CAD', ['CDN$', 'CA$', 'C$', 'CAD']],
+  ['AUD', ['AU$', 'A$', 'AUD']],
+  ['MXN', ['MX$', 'MXN']],
+  ['BRL', ['R$', 'BRL']],
+  ['EUR', ['€', 'EUR']],
+  ['GBP', ['£', 'GBP']],
+  ['USD', ['US$', 'USD']],
+  ['JPY', ['￥', '¥', '円', 'JPY']],
+  ['INR', ['₹', 'INR']],
+  ['CHF', ['CHF']],
+];
+
 /**
  * Detect currency from text content
+ * A bare "$" is read as the dollar currency of the marketplace (e.g. CAD on amazon.ca);
+ * without any currency marker the marketplace currency is used.
  */
-export function detectCurrency(text: string): string {
-  if (text.includes('€') || text.includes('EUR')) {
-    return 'EUR';
-  } else if (text.includes('£') || text.includes('GBP')) {
-    return 'GBP';
-  } else if (text.includes('$') || text.includes('USD')) {
-    return 'USD';
+export function detectCurrency(text: string, profile: SiteProfile = GENERIC_SITE_PROFILE): string {
+  for (const [currency, markers] of CURRENCY_MARKERS) {
+    if (markers.some((marker) => text.includes(marker))) {
+      return currency;
+    }
+  }
+
+  if (text.includes('$')) {
+    return profile.domain && profile.currencySymbols.includes('$') ? profile.currency : 'USD';
   }
-  return 'EUR'; // Default
+  return profile.currency; // Default
 }
 
 /**
  * Extract price from text using common patterns
  */
-export function extractPriceFromText(text: string): { amount: number; currency: string } | null {
+export function extractPriceFromText(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): Money | null {
+  const symbols = buildAlternation(profile.currencySymbols);
+  const labels = buildAlternation(profile.totalLabels);
   const pricePatterns = [
-    /(?:Summe|Gesamtsumme|Gesamt|Total)[:\s]*(?:EUR|€)?\s*([0-9.,]+)\s*(?:EUR|€)?/i,
-    /(?:EUR|€)\s*([0-9.,]+)/i,
-    /([0-9]+[.,][0-9]{2})\s*(?:EUR|€)/,
-    /\$\s*([0-9.,]+)/,
-    /£\s*([0-9.,]+)/,
+    new RegExp(
+      `(?:${labels})[:：\\s]*(?:${symbols})?\\s*(${AMOUNT_PATTERN})\\s*(?:${symbols})?`,
+      'i'
+    ),
+    new RegExp(`(?:${symbols})\\s*(${AMOUNT_PATTERN})`, 'i'),
+    new RegExp(`(${AMOUNT_PATTERN})\\s*(?:${symbols})`, 'i'),
   ];
 
   for (const pattern of pricePatterns) {
     const match = text.match(pattern);
     if (match?.[1]) {
-      const amount = parsePrice(match[1]);
-      if (amount > 0) {
-        return {
-          amount,
-          currency: detectCurrency(text),
-        };
+      const price = parseMoney(match[1], detectCurrency(text, profile), profile.decimalSeparator);
+      if (price.amount > 0) {
+        return price;
       }
     }
   }
 
   return null;
 }
+
+/**
+ * Find all amounts written with a currency symbol of the site profile, in order of appearance
+ */
+export function findPrices(text: string, profile: SiteProfile = GENERIC_SITE_PROFILE): Money[] {
+  const symbols = buildAlternation(profile.currencySymbols);
+  const pattern = new RegExp(
+    `(?:${symbols})\\s*-?\\s*(${AMOUNT_PATTERN})|(${AMOUNT_PATTERN})\\s*(?:${symbols})`,
+    'gi'
+  );
+
+  const prices: Money[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const currency = detectCurrency(match[0], profile);
+    const price = parseMoney(match[1] || match[2] || '', currency, profile.decimalSeparator);
+    if (price.amount > 0) prices.push(price);
+  }
+  return prices;
+}
+
+/**
+ * Check if a text mentions a promotion, discount or coupon
+ */
+export function hasPromotionKeyword(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): boolean {
+  const normalized = normalizeText(text);
+  return profile.promotionKeywords.some((keyword) => normalized.includes(normalizeText(keyword)));
+}
+
+/**
+ * Extract the saved amount from a promotion line, e.g. "Rabatt: -5,00 €" or "-$5.00"
+ */
+export function extractPromotionAmount(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): Money | null {
+  const symbols = buildAlternation(profile.currencySymbols);
+  const keywords = buildAlternation(profile.promotionKeywords);
+  const pricePatterns = [
+    new RegExp(
+      `(?:${keywords})[^0-9]{0,40}?(?:${symbols})?\\s*-?\\s*(?:${symbols})?\\s*(${AMOUNT_PATTERN})`,
+      'i'
+    ),
+    new RegExp(`-\\s*(?:${symbols})\\s*(${AMOUNT_PATTERN})`, 'i'),
+    new RegExp(`(?:${symbols})\\s*-\\s*(${AMOUNT_PATTERN})`, 'i'),
+    new RegExp(`-\\s*(${AMOUNT_PATTERN})\\s*(?:${symbols})`, 'i'),
+  ];
+
+  for (const pattern of pricePatterns) {
+    const match = text.match(pattern);
+    if (match?.[1]) {
+      const currency = detectCurrency(text, profile);
+      const amount = parseMoney(match[1], currency, profile.decimalSeparator);
+      if (amount.amount > 0) return amount;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,175 @@
+/**
+ * Product parsing utilities: sellers on order details pages and brand, category and
+ * product codes on product pages
+ */
+
+import type { OrderItem, ProductInfo, SiteProfile } from '../types';
+import { GENERIC_SITE_PROFILE, buildAlternation, escapeRegExp } from './siteProfileUtils';
+
+/**
+ * Build the storage key holding the cached product details of a marketplace
+ */
+export function getProductCacheKey(marketplace: string): string {
+  return `productCache:${marketplace}`;
+}
+
+/**
+ * Remove the direction marks and extra whitespace product pages put around labels
+ */
+function cleanLine(line: string): string {
+  return line
+    .replace(/[\u200e\u200f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the value following one of the labels at the start of a line, e.g. "Sold by: Anker".
+ * A label alone on its line is followed by the value on the next line. Earlier labels take
+ * precedence over later ones.
+ */
+function findLabelledValue(lines: string[], labels: string[]): string {
+  const cleaned = lines.map(cleanLine);
+  for (const label of labels) {
+    const pattern = new RegExp(`^${escapeRegExp(label)}(?:\\s*[:：]\\s*|\\s+|$)(.*)$`, 'iu');
+    for (let index = 0; index < cleaned.length; index++) {
+      const match = (cleaned[index] || '').match(pattern);
+      if (!match) continue;
+      const value = (match[1] || '').trim() || (cleaned[index + 1] || '').trim();
+      if (value) return value;
+    }
+  }
+  return '';
+}
+
+/**
+ * Parse the seller of an item from the lines of its row on the details page, e.g. "Sold
+ * by: Anker Direct". Returns an empty string when no seller is named.
+ */
+export function parseSeller(lines: string[], profile: SiteProfile = GENERIC_SITE_PROFILE): string {
+  const value = findLabelledValue(lines, profile.soldByLabels);
+  // The seller may share its line with the fulfilment, e.g. "Anker and Fulfilled by Amazon"
+  const fulfilment = value.match(
+    new RegExp(`(?:${buildAlternation(profile.fulfilledByAmazonPhrases)})`, 'iu')
+  );
+  return (fulfilment ? value.substring(0, fulfilment.index) : value)
+    .replace(/(?:\s+(?:and|und|et|e|y))?[\s,;|]*$/u, '')
+    .trim();
+}
+
+/**
+ * Tell whether Amazon ships an item: true when the row says so or Amazon sells the item,
+ * false when another seller is named without it, null when the row names neither.
+ */
+export function isFulfilledByAmazon(
+  lines: string[],
+  seller: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): boolean | null {
+  const text = lines
+    .map(cleanLine)
+    .join(' ')
+    .replace(/\s*[:：]\s*/g, ' ');
+  const phrases = new RegExp(`(?:${buildAlternation(profile.fulfilledByAmazonPhrases)})`, 'iu');
+  if (phrases.test(text) || /^amazon\b/i.test(seller)) return true;
+  return seller ? false : null;
+}
+
+/**
+ * Parse the brand from the byline of a product page ("Visit the Anker Store", "Brand:
+ * Anker") or else from its detail lines ("Brand: Anker")
+ */
+export function parseBrand(
+  byline: string,
+  detailLines: string[],
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): string {
+  const text = cleanLine(byline);
+  for (const phrase of profile.brandStorePhrases) {
+    const [before = '', after = ''] = phrase.split('{brand}');
+    const match = text.match(
+      new RegExp(`^${escapeRegExp(before)}(.+?)${escapeRegExp(after)}$`, 'iu')
+    );
+    if (match?.[1]) return match[1].trim();
+  }
+  return findLabelledValue([text, ...detailLines], profile.brandLabels);
+}
+
+/**
+ * Parse the product codes from the detail lines of a product page. ISBN-13 is preferred
+ * over ISBN-10; EAN, GTIN and JAN are taken as the barcode number, the first if several
+ * are listed.
+ */
+export function parseProductCodes(detailLines: string[]): Pick<ProductInfo, 'isbn' | 'ean'> {
+  const text = detailLines.map(cleanLine).join('\n');
+  const findCode = (pattern: RegExp, lengths: number[]): string => {
+    for (const match of text.matchAll(pattern)) {
+      const code = (match[1] || '').replace(/[\s-]/g, '').toUpperCase();
+      if (lengths.includes(code.length)) return code;
+    }
+    return '';
+  };
+
+  return {
+    isbn:
+      findCode(/\bISBN-?13\b\s*[:：]?\s*([\d][\d\s-]{11,16}\d)/gi, [13]) ||
+      findCode(/\bISBN(?:-?10)?\b\s*[:：]?\s*([\d][\d\s-]{8,16}[\dX])/gi, [10, 13]),
+    ean: findCode(/\b(?:EAN|GTIN|JAN)(?:-?\d+)?\b\s*[:：]?\s*(\d{8,14})/gi, [8, 12, 13, 14]),
+  };
+}
+
+/**
+ * Parse the details of a product from the texts of its product page
+ * @param byline - Brand or store link shown below the title
+ * @param breadcrumbs - Links of the category breadcrumb, top level first
+ * @param detailLines - Lines of the product details, e.g. "Brand: Anker" or "ISBN-13: ..."
+ */
+export function parseProductInfo(
+  byline: string,
+  breadcrumbs: string[],
+  detailLines: string[],
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): ProductInfo {
+  return {
+    brand: parseBrand(byline, detailLines, profile),
+    category: breadcrumbs.map(cleanLine).filter((crumb) => crumb && !/^[›>]$/.test(crumb)),
+    ...parseProductCodes(detailLines),
+  };
+}
+
+/**
+ * Describe whether Amazon ships an item: "yes", "no", or empty when unknown
+ */
+export function formatFulfilledByAmazon(fulfilledByAmazon: boolean | null): string {
+  if (fulfilledByAmazon === null) return '';
+  return fulfilledByAmazon ? 'yes' : 'no';
+}
+
+/**
+ * Join a category breadcrumb, e.g. "Electronics > Cables"
+ */
+export function formatCategory(category: string[], separator: string = ' > '): string {
+  return category.join(separator);
+}
+
+/**
+ * Get the category all enriched items of an order share, the longest common breadcrumb.
+ * Empty when no item was enriched or the items have no common top level.
+ */
+export function getCommonCategory(items: Pick<OrderItem, 'product'>[]): string[] {
+  const categories = items.flatMap((item) =>
+    item.product && item.product.category.length > 0 ? [item.product.category] : []
+  );
+  const [first, ...others] = categories;
+  if (!first) return [];
+
+  let length = first.length;
+  others.forEach((category) => {
+    let shared = 0;
+    while (shared < Math.min(length, category.length) && category[shared] === first[shared]) {
+      shared++;
+    }
+    length = shared;
+  });
+  return first.slice(0, length);
+}
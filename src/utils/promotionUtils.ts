@@ -0,0 +1,102 @@
+/**
+ * Promotion classification utilities for order details pages
+ */
+
+import type { Money, Promotion, PromotionKind, SiteProfile } from '../types';
+import { findPrices, hasPromotionKeyword } from './priceUtils';
+import { GENERIC_SITE_PROFILE, buildAlternation, normalizeText } from './siteProfileUtils';
+
+/**
+ * Promotion kinds matched by classifyPromotion
+ */
+const PROMOTION_KINDS: Exclude<PromotionKind, 'other'>[] = [
+  'gift_card',
+  'reward_points',
+  'subscribe_and_save',
+  'lightning_deal',
+  'prime',
+  'shipping',
+  'bundle',
+  'coupon',
+];
+
+/**
+ * Promotions scoring below this are taken to be other prices and dropped
+ */
+export const MIN_PROMOTION_CONFIDENCE = 0.5;
+
+/**
+ * Tell the kind of a promotion from its text. The earliest kind phrase in the text wins,
+ * the longer phrase if two start at the same position (e.g. "Geschenkgutschein" before
+ * "Gutschein").
+ */
+export function classifyPromotion(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): PromotionKind {
+  const normalized = normalizeText(text);
+  let kind: PromotionKind = 'other';
+  let kindIndex = Infinity;
+  let kindLength = 0;
+
+  for (const candidate of PROMOTION_KINDS) {
+    for (const phrase of profile.promotionKindPhrases[candidate]) {
+      const index = normalized.indexOf(normalizeText(phrase));
+      if (index < 0) continue;
+      if (index < kindIndex || (index === kindIndex && phrase.length > kindLength)) {
+        kind = candidate;
+        kindIndex = index;
+        kindLength = phrase.length;
+      }
+    }
+  }
+
+  return kind;
+}
+
+/**
+ * Score how likely a text found on the details page is a promotion rather than another
+ * price, from 0 to 1. Promotion phrases, amounts shown as negative and lines of the order
+ * summary count for it; long texts, texts listing several prices and amounts as high as the
+ * order total count against it.
+ * @param inSummary - Whether the text is a line of the order summary
+ * @param orderTotal - Total of the order
+ */
+export function scorePromotion(
+  text: string,
+  amount: Money,
+  kind: PromotionKind,
+  inSummary: boolean,
+  orderTotal: Money,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): number {
+  let score = 0.3;
+  if (kind !== 'other' || hasPromotionKeyword(text, profile)) score += 0.3;
+
+  const symbols = buildAlternation(profile.currencySymbols);
+  if (new RegExp(`-\\s*(?:${symbols})?\\s*\\d|(?:${symbols})\\s*-\\s*\\d`, 'i').test(text)) {
+    score += 0.2;
+  }
+  if (inSummary) score += 0.2;
+
+  if (text.length > 120) score -= 0.3;
+  if (findPrices(text, profile).length > 2) score -= 0.2;
+  // Gift cards may pay a whole order, other savings rarely do
+  if (
+    kind !== 'gift_card' &&
+    amount.currency === orderTotal.currency &&
+    orderTotal.amount > 0 &&
+    amount.amount >= orderTotal.amount
+  ) {
+    score -= 0.3;
+  }
+
+  return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+}
+
+/**
+ * Check if a promotion scored high enough to be kept
+ */
+export function isLikelyPromotion(promotion: Pick<Promotion, 'confidence'>): boolean {
+  return promotion.confidence >= MIN_PROMOTION_CONFIDENCE;
+}
@@ -0,0 +1,69 @@
+/**
+ * QIF conversion utilities
+ */
+
+import type { Order } from '../types';
+import { buildOrderMemo } from './orderUtils';
+import { formatMoneyAmount, negateMoney } from './moneyUtils';
+import { formatCategory, getCommonCategory } from './productUtils';
+import { buildRefundMemo } from './refundUtils';
+
+/**
+ * Format an ISO date (YYYY-MM-DD) as QIF date (MM/DD/YYYY)
+ */
+export function formatQIFDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Remove line breaks, which would end a QIF field
+ */
+function sanitizeQIFValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Convert orders to QIF format as credit card transactions, followed by a credit for each
+ * refund. Orders without a date are skipped, as QIF requires a transaction date. The category
+ * shared by the enriched items of an order is set as the transaction category.
+ * @param orders - Array of orders to convert
+ */
+export function convertOrdersToQIF(orders: Order[]): string {
+  const lines: string[] = ['!Type:CCard'];
+
+  orders
+    .filter((order) => order.orderDate)
+    .forEach((order) => {
+      // QIF separates subcategories with colons
+      const category = formatCategory(getCommonCategory(order.items), ':');
+
+      lines.push(`D${formatQIFDate(order.orderDate)}`);
+      lines.push(`T${formatMoneyAmount(negateMoney(order.totalAmount))}`);
+      lines.push(`N${order.orderId}`);
+      lines.push('PAmazon');
+      if (category) {
+        lines.push(`L${sanitizeQIFValue(category)}`);
+      }
+
+      const memo = buildOrderMemo(order);
+      if (memo) {
+        lines.push(`M${sanitizeQIFValue(memo)}`);
+      }
+      lines.push('^');
+
+      order.refunds.forEach((refund) => {
+        lines.push(`D${formatQIFDate(refund.date || order.orderDate)}`);
+        lines.push(`T${formatMoneyAmount(refund.amount)}`);
+        lines.push(`N${order.orderId}`);
+        lines.push('PAmazon');
+        if (category) {
+          lines.push(`L${sanitizeQIFValue(category)}`);
+        }
+        lines.push(`M${sanitizeQIFValue(buildRefundMemo(refund))}`);
+        lines.push('^');
+      });
+    });
+
+  return lines.join('\n');
+}
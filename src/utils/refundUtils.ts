@@ -0,0 +1,112 @@
+/**
+ * Refund parsing utilities for order details and returns center pages
+ */
+
+import type { Money, Order, Refund, SiteProfile } from '../types';
+import { parseDateRelativeTo } from './dateUtils';
+import { subtractMoney, sumMoney } from './moneyUtils';
+import { findCards, findOtherPaymentMethods, formatPaymentMethod } from './paymentUtils';
+import { findPrices } from './priceUtils';
+import { GENERIC_SITE_PROFILE, buildAlternation } from './siteProfileUtils';
+
+/**
+ * Find the payment method a refund went to, e.g. "Visa ****1234" or "Gift card"
+ */
+function findRefundMethod(text: string, profile: SiteProfile): string {
+  const card = findCards(text)[0];
+  if (card) return formatPaymentMethod(card);
+  if (new RegExp(`(?:${buildAlternation(profile.giftCardLabels)})`, 'iu').test(text)) {
+    return 'Gift card';
+  }
+  return findOtherPaymentMethods(text)[0] || '';
+}
+
+/**
+ * Parse amount, date and method of a refund, e.g. "Refund issued on March 20, 2024: $12.99
+ * to Visa ending in 1234". The amount follows the refund label, or shortly precedes it
+ * ("12,99 € erstattet"). Dates without year are resolved using the reference date.
+ * Returns null without refund label or amount in the currency of the order.
+ * @param referenceDate - Order date
+ * @param currency - Currency of the order
+ */
+export function parseRefundText(
+  text: string,
+  referenceDate: string,
+  currency: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): Omit<Refund, 'items'> | null {
+  const match = text.match(new RegExp(`(?:${buildAlternation(profile.refundLabels)})`, 'iu'));
+  if (!match) return null;
+
+  const index = match.index ?? 0;
+  const after = text.substring(index, index + 100);
+  const amount =
+    findPrices(after, profile)[0] ??
+    findPrices(text.substring(Math.max(0, index - 30), index), profile).pop();
+  if (!amount || amount.currency !== currency) return null;
+
+  return {
+    amount,
+    date: parseDateRelativeTo(after, referenceDate, profile) || '',
+    method: findRefundMethod(text, profile),
+  };
+}
+
+/**
+ * Add refunds found elsewhere, e.g. in the returns center, to the refunds of an order.
+ * Refunds of the same amount are taken as the same refund unless their dates differ; the
+ * known refund is completed with date, method and items of the other.
+ */
+export function mergeRefunds(refunds: Refund[], additions: Refund[]): Refund[] {
+  const merged = refunds.map((refund) => ({ ...refund, items: [...refund.items] }));
+
+  additions.forEach((addition) => {
+    const existing = merged.find(
+      (refund) =>
+        refund.amount.amount === addition.amount.amount &&
+        refund.amount.currency === addition.amount.currency &&
+        (!refund.date || !addition.date || refund.date === addition.date)
+    );
+    if (!existing) {
+      merged.push({ ...addition, items: [...addition.items] });
+      return;
+    }
+    existing.date = existing.date || addition.date;
+    existing.method = existing.method || addition.method;
+    if (existing.items.length === 0) existing.items = [...addition.items];
+  });
+
+  return merged;
+}
+
+/**
+ * Sum the refunds of an order in its currency
+ */
+export function getRefundedAmount(order: Pick<Order, 'totalAmount' | 'refunds'>): Money {
+  const { currency } = order.totalAmount;
+  return sumMoney(
+    order.refunds
+      .filter((refund) => refund.amount.currency === currency)
+      .map((refund) => refund.amount),
+    currency
+  );
+}
+
+/**
+ * Calculate the net amount of an order: its total minus all refunds
+ */
+export function getNetAmount(order: Pick<Order, 'totalAmount' | 'refunds'>): Money {
+  return subtractMoney(order.totalAmount, getRefundedAmount(order));
+}
+
+/**
+ * Build the memo of a refund transaction, e.g. "Refund: USB Cable"
+ */
+export function buildRefundMemo(refund: Refund, maxLength: number = 255): string {
+  const titles = refund.items
+    .map((item) => item.title)
+    .filter((title) => title)
+    .join('; ');
+  const memo = titles ? `Refund: ${titles}` : 'Refund';
+  return memo.length > maxLength ? `${memo.substring(0, maxLength - 3)}...` : memo;
+}
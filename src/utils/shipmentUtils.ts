@@ -0,0 +1,173 @@
+/**
+ * Shipment parsing utilities for order details pages
+ */
+
+import type { Shipment, ShipmentStatus, SiteProfile } from '../types';
+import { parseDateRelativeTo } from './dateUtils';
+import { extractOrderStatus } from './orderUtils';
+import { GENERIC_SITE_PROFILE, buildAlternation, normalizeText } from './siteProfileUtils';
+
+/**
+ * Carriers as named on Amazon pages, matched case-sensitively as whole words
+ */
+const CARRIERS = [
+  'Amazon Logistics',
+  'Amazon Shipping',
+  'Australia Post',
+  'Blue Dart',
+  'BRT',
+  'Canada Post',
+  'Chronopost',
+  'Colissimo',
+  'Correios',
+  'Correos Express',
+  'Correos',
+  'Delhivery',
+  'Deutsche Post',
+  'DHL',
+  'DPD',
+  'Estafeta',
+  'Evri',
+  'FedEx',
+  'GLS',
+  'Hermes',
+  'India Post',
+  'Japan Post',
+  'La Poste',
+  'OnTrac',
+  'Poste Italiane',
+  'Purolator',
+  'Royal Mail',
+  'SEUR',
+  'UPS',
+  'USPS',
+  'Yamato',
+  'Yodel',
+  'ヤマト運輸',
+  '佐川急便',
+  '日本郵便',
+];
+
+/**
+ * Shipment states matched by detectShipmentStatus
+ */
+const SHIPMENT_STATUSES: Exclude<ShipmentStatus, 'unknown'>[] = [
+  'cancelled',
+  'returned',
+  'delivered',
+  'in_transit',
+  'shipped',
+];
+
+/**
+ * Find the first known carrier mentioned in a text
+ */
+export function findCarrier(text: string): string {
+  if (!text) return '';
+  const pattern = new RegExp(
+    `(?<![A-Za-z0-9])(?:${buildAlternation(CARRIERS)})(?![A-Za-z0-9])`,
+    'u'
+  );
+  return text.match(pattern)?.[0] || '';
+}
+
+/**
+ * Extract a tracking ID shown after a tracking label, e.g. "Tracking ID: 1Z999AA10123456784"
+ */
+export function extractTrackingId(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): string {
+  if (!text) return '';
+  // Tracking IDs contain at least one digit, so that words like "anzeigen" are skipped
+  const pattern = new RegExp(
+    `(?:${buildAlternation(profile.trackingLabels)})[:：#\\s]*(?=[A-Za-z-]*\\d)([A-Za-z0-9][A-Za-z0-9-]{5,})`,
+    'i'
+  );
+  return text.match(pattern)?.[1] || '';
+}
+
+/**
+ * Extract a tracking ID from the query of a tracking link
+ */
+export function extractTrackingIdFromUrl(url: string): string {
+  try {
+    const params = new URL(url, 'https://www.amazon.com').searchParams;
+    return params.get('trackingId') || params.get('trackingNumber') || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Detect the delivery state of a shipment. The earliest status phrase in the text wins,
+ * since the status headline comes before any further details.
+ */
+export function detectShipmentStatus(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): ShipmentStatus {
+  const normalized = normalizeText(text);
+  let status: ShipmentStatus = 'unknown';
+  let statusIndex = Infinity;
+
+  for (const candidate of SHIPMENT_STATUSES) {
+    for (const phrase of profile.shipmentStatusPhrases[candidate]) {
+      const index = normalized.indexOf(normalizeText(phrase));
+      if (index >= 0 && index < statusIndex) {
+        status = candidate;
+        statusIndex = index;
+      }
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Find the date belonging to one of the phrases, e.g. "Delivered 3 February". The date
+ * usually follows the phrase, but precedes it in Japanese ("2月3日に配達しました").
+ */
+function findPhraseDate(
+  text: string,
+  phrases: string[],
+  orderDate: string,
+  profile: SiteProfile
+): string {
+  if (phrases.length === 0) return '';
+
+  const pattern = new RegExp(`(?:${buildAlternation(phrases)})`, 'giu');
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    const end = index + match[0].length;
+    const before = text.substring(Math.max(0, index - 20), index);
+    const date =
+      parseDateRelativeTo(text.substring(end, end + 40), orderDate, profile) ||
+      (/日\s*に?\s*$/.test(before) ? parseDateRelativeTo(before, orderDate, profile) : null);
+    if (date) return date;
+  }
+  return '';
+}
+
+/**
+ * Parse status, dates, carrier and tracking ID of a shipment from the text of its
+ * container on the order details page. Dates without year are resolved using the order date.
+ */
+export function parseShipmentText(
+  text: string,
+  orderDate: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): Omit<Shipment, 'items'> {
+  const status = detectShipmentStatus(text, profile);
+  const phrases = profile.shipmentStatusPhrases;
+
+  return {
+    status,
+    statusText: extractOrderStatus(text, profile),
+    shippedDate: findPhraseDate(text, phrases.shipped, orderDate, profile),
+    deliveredDate:
+      status === 'delivered' ? findPhraseDate(text, phrases.delivered, orderDate, profile) : '',
+    carrier: findCarrier(text),
+    trackingId: extractTrackingId(text, profile),
+  };
+}
@@ -0,0 +1,760 @@
+/**
+ * Marketplace site profiles: month names, phrases and number formats per Amazon domain
+ */
+
+import type { SiteProfile } from '../types';
+
+/**
+ * Normalize text for matching: lowercase without diacritics ("März" -> "marz")
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a month lookup from month names ordered January to December
+ */
+function createMonthMap(names: string[]): Record<string, number> {
+  const months: Record<string, number> = {};
+  names.forEach((name, index) => {
+    months[normalizeText(name)] = index + 1;
+  });
+  return months;
+}
+
+const GERMAN_MONTHS = createMonthMap([
+  'Januar',
+  'Februar',
+  'März',
+  'April',
+  'Mai',
+  'Juni',
+  'Juli',
+  'August',
+  'September',
+  'Oktober',
+  'November',
+  'Dezember',
+]);
+
+const ENGLISH_MONTHS = createMonthMap([
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+]);
+
+const FRENCH_MONTHS = createMonthMap([
+  'janvier',
+  'février',
+  'mars',
+  'avril',
+  'mai',
+  'juin',
+  'juillet',
+  'août',
+  'septembre',
+  'octobre',
+  'novembre',
+  'décembre',
+]);
+
+const ITALIAN_MONTHS = createMonthMap([
+  'gennaio',
+  'febbraio',
+  'marzo',
+  'aprile',
+  'maggio',
+  'giugno',
+  'luglio',
+  'agosto',
+  'settembre',
+  'ottobre',
+  'novembre',
+  'dicembre',
+]);
+
+const SPANISH_MONTHS = createMonthMap([
+  'enero',
+  'febrero',
+  'marzo',
+  'abril',
+  'mayo',
+  'junio',
+  'julio',
+  'agosto',
+  'septiembre',
+  'octubre',
+  'noviembre',
+  'diciembre',
+]);
+
+const PORTUGUESE_MONTHS = createMonthMap([
+  'janeiro',
+  'fevereiro',
+  'março',
+  'abril',
+  'maio',
+  'junho',
+  'julho',
+  'agosto',
+  'setembro',
+  'outubro',
+  'novembro',
+  'dezembro',
+]);
+
+const GERMAN_TEXTS = {
+  months: GERMAN_MONTHS,
+  orderDateLabels: ['Bestellung aufgegeben am', 'Bestellung aufgegeben', 'Bestellt am'],
+  totalLabels: ['Gesamtsumme', 'Summe', 'Gesamt'],
+  statusPhrases: [
+    'Zugestellt',
+    'Geliefert',
+    'Zustellung',
+    'Versandt',
+    'Storniert',
+    'Zurückgegeben',
+    'Erstattet',
+  ],
+  promotionKeywords: ['Rabatt', 'Nachlass', 'Ersparnis', 'Gutschein', 'Coupon', 'Angebot'],
+  quantityLabels: ['Menge', 'Anzahl'],
+  nextPageLabels: ['Nächste', 'Weiter'],
+  shipmentStatusPhrases: {
+    delivered: ['Zugestellt', 'Geliefert'],
+    shipped: ['Versandt', 'Verschickt'],
+    in_transit: ['In Zustellung', 'Unterwegs', 'Zustellung'],
+    cancelled: ['Storniert'],
+    returned: ['Zurückgegeben', 'Erstattet', 'Rücksendung'],
+  },
+  promotionKindPhrases: {
+    coupon: ['Gutschein', 'Coupon', 'Aktionscode', 'Promo-Code'],
+    subscribe_and_save: ['Spar-Abo', 'Spar Abo'],
+    reward_points: ['Payback-Punkte', 'Punkte'],
+    gift_card: ['Geschenkgutschein', 'Geschenkkarte'],
+    prime: ['Prime-Rabatt', 'Prime-Ersparnis', 'Prime exklusiv', 'Prime-Mitglieder'],
+    bundle: ['Mengenrabatt', 'Bundle', 'Spare beim Kauf', 'Mehr kaufen'],
+    shipping: ['Versandrabatt', 'Kostenloser Versand', 'Gratisversand', 'Kostenlose Lieferung'],
+    lightning_deal: ['Blitzangebot', 'Angebot des Tages', 'Zeitlich begrenztes Angebot'],
+  },
+  trackingLabels: ['Sendungsverfolgungsnummer', 'Sendungsnummer', 'Trackingnummer', 'Tracking-ID'],
+  costLabels: {
+    subtotal: ['Zwischensumme', 'Summe der Artikel'],
+    shipping: ['Verpackung & Versand', 'Versandkosten', 'Versand'],
+    promotions: ['Gutschein eingelöst', 'Aktionsrabatt', 'Rabatt', 'Nachlass', 'Gutschein'],
+    totalBeforeTax: ['Summe ohne MwSt.', 'Gesamtbetrag ohne MwSt.'],
+    tax: ['Anzurechnende MwSt.', 'MwSt.', 'Umsatzsteuer'],
+    giftWrap: ['Geschenkverpackung'],
+    importFees: ['Einfuhrabgaben', 'Importgebühren'],
+    grandTotal: ['Gesamtsumme', 'Gesamtbetrag', 'Summe'],
+  },
+  giftCardLabels: ['Geschenkgutschein(e)', 'Geschenkgutschein', 'Geschenkkarte'],
+  rewardPointsLabels: ['Payback-Punkte', 'Punkte'],
+  refundLabels: ['Erstattung', 'Erstattet', 'Rückzahlung'],
+  subscribeAndSaveLabels: ['Spar-Abo', 'Spar Abo'],
+  nextChargeLabels: [
+    'Nächste Zahlung',
+    'Nächste Abbuchung',
+    'Verlängert sich am',
+    'Verlängerung am',
+    'Nächste Lieferung',
+  ],
+  cadenceLabels: {
+    day: ['Tag', 'Tage', 'Tagen', 'täglich'],
+    week: ['Woche', 'Wochen', 'wöchentlich'],
+    month: ['Monat', 'Monate', 'Monaten', 'monatlich'],
+    year: ['Jahr', 'Jahre', 'Jahren', 'jährlich'],
+  },
+  soldByLabels: ['Verkauf durch', 'Verkauft von'],
+  fulfilledByAmazonPhrases: ['Versand durch Amazon', 'Versand und Verkauf durch Amazon'],
+  brandLabels: ['Marke', 'Hersteller'],
+  brandStorePhrases: ['Besuche den {brand}-Store', 'Besuchen Sie den {brand}-Store'],
+};
+
+const ENGLISH_TEXTS = {
+  months: ENGLISH_MONTHS,
+  orderDateLabels: ['Order placed', 'Ordered on'],
+  totalLabels: ['Order total', 'Grand total', 'Total'],
+  statusPhrases: [
+    'Delivered',
+    'Arriving',
+    'Shipped',
+    'Dispatched',
+    'Cancelled',
+    'Canceled',
+    'Returned',
+    'Refunded',
+  ],
+  promotionKeywords: ['Savings', 'Saving', 'Discount', 'Coupon', 'Promotion'],
+  quantityLabels: ['Quantity', 'Qty'],
+  nextPageLabels: ['Next'],
+  shipmentStatusPhrases: {
+    delivered: ['Delivered'],
+    shipped: ['Shipped', 'Dispatched'],
+    in_transit: ['Arriving', 'Out for delivery', 'On the way', 'In transit'],
+    cancelled: ['Cancelled', 'Canceled'],
+    returned: ['Returned', 'Refunded', 'Return complete'],
+  },
+  promotionKindPhrases: {
+    coupon: ['Coupon', 'Promo code', 'Promotional code', 'Voucher'],
+    subscribe_and_save: ['Subscribe & Save', 'Subscribe and Save'],
+    reward_points: ['Reward Points', 'Rewards Points', 'Amazon Points', 'Points'],
+    gift_card: ['Gift Card', 'Gift Voucher'],
+    prime: ['Prime Savings', 'Prime Discount', 'Prime exclusive', 'Prime member'],
+    bundle: ['Bundle', 'Buy more', 'Multi-buy', 'Quantity discount', 'Save when you buy'],
+    shipping: ['Free Shipping', 'Free Delivery', 'Shipping discount', 'Delivery discount'],
+    lightning_deal: ['Lightning Deal', 'Deal of the Day', 'Limited time deal'],
+  },
+  trackingLabels: ['Tracking ID', 'Tracking number'],
+  costLabels: {
+    subtotal: ['Item(s) Subtotal', 'Items Subtotal', 'Subtotal'],
+    shipping: ['Shipping & Handling', 'Postage & Packing', 'Shipping', 'Delivery'],
+    promotions: [
+      'Promotion Applied',
+      'Your Coupon Savings',
+      'Free Shipping',
+      'Free Delivery',
+      'Discount',
+      'Coupon',
+    ],
+    totalBeforeTax: ['Total before tax', 'Total before VAT', 'Total before GST'],
+    tax: [
+      'Estimated tax to be collected',
+      'Estimated tax',
+      'VAT',
+      'GST',
+      'HST',
+      'PST',
+      'QST',
+      'Tax',
+    ],
+    giftWrap: ['Gift Wrap', 'Gift wrapping'],
+    importFees: ['Import Fees Deposit', 'Import Fees', 'Import Charges'],
+    grandTotal: ['Grand Total', 'Order Total', 'Total'],
+  },
+  giftCardLabels: ['Gift Card Amount', 'Gift Card Balance', 'Gift Card', 'Gift Voucher'],
+  rewardPointsLabels: ['Reward Points', 'Rewards Points', 'Amazon Points', 'Points'],
+  refundLabels: ['Refund'],
+  subscribeAndSaveLabels: ['Subscribe & Save', 'Subscribe and Save'],
+  nextChargeLabels: [
+    'Next payment',
+    'Next charge',
+    'Next billing date',
+    'Renews on',
+    'Renewal date',
+    'Next delivery',
+  ],
+  cadenceLabels: {
+    day: ['day', 'days', 'daily'],
+    week: ['week', 'weeks', 'weekly'],
+    month: ['month', 'months', 'monthly'],
+    year: ['year', 'years', 'yearly', 'annual', 'annually'],
+  },
+  soldByLabels: ['Sold by'],
+  fulfilledByAmazonPhrases: [
+    'Fulfilled by Amazon',
+    'Ships from Amazon',
+    'Shipped by Amazon',
+    'Dispatched from Amazon',
+    'Dispatched by Amazon',
+  ],
+  brandLabels: ['Brand', 'Manufacturer'],
+  brandStorePhrases: ['Visit the {brand} Store'],
+};
+
+const FRENCH_TEXTS = {
+  months: FRENCH_MONTHS,
+  orderDateLabels: ['Commande effectuée le', 'Commandé le'],
+  totalLabels: ['Total de la commande', 'Montant total', 'Total'],
+  statusPhrases: ['Livré', 'Livraison', 'Expédié', 'Annulé', 'Retourné', 'Remboursé'],
+  promotionKeywords: ['Remise', 'Réduction', 'Économies', 'Bon de réduction', 'Coupon'],
+  quantityLabels: ['Quantité', 'Qté'],
+  nextPageLabels: ['Suivant'],
+  shipmentStatusPhrases: {
+    delivered: ['Livré'],
+    shipped: ['Expédié'],
+    in_transit: ['En cours de livraison', 'Livraison prévue', 'En transit', 'Arrivée'],
+    cancelled: ['Annulé'],
+    returned: ['Retourné', 'Remboursé'],
+  },
+  promotionKindPhrases: {
+    coupon: ['Coupon', 'Bon de réduction', 'Code promo'],
+    subscribe_and_save: ['Prévoyez et Économisez', 'Abonnez-vous et économisez'],
+    reward_points: ['Points de fidélité', 'Points'],
+    gift_card: ['Chèque-cadeau', 'Chèques-cadeaux', 'Carte cadeau'],
+    prime: ['Réduction Prime', 'Économies Prime', 'Exclusivité Prime'],
+    bundle: ['Offre groupée', 'Remise sur quantité', 'Achetez-en plus'],
+    shipping: ['Livraison gratuite', 'Livraison offerte', 'Réduction sur la livraison'],
+    lightning_deal: ['Vente Flash', 'Offre du jour', 'Offre à durée limitée'],
+  },
+  trackingLabels: ['Numéro de suivi', 'N° de suivi'],
+  costLabels: {
+    subtotal: ['Sous-total'],
+    shipping: ['Frais de livraison', "Frais d'expédition", 'Livraison', 'Expédition'],
+    promotions: ['Bon de réduction', 'Remise', 'Réduction', 'Promotion', 'Coupon', 'Économies'],
+    totalBeforeTax: ['Total avant TVA', 'Total HT', 'Montant HT'],
+    tax: ['TVA estimée', 'TVA'],
+    giftWrap: ['Emballage cadeau', 'Papier cadeau'],
+    importFees: ["Frais d'importation", "Droits d'importation"],
+    grandTotal: ['Montant total', 'Total TTC', 'Total de la commande', 'Total'],
+  },
+  giftCardLabels: ['Chèque-cadeau', 'Chèques-cadeaux', 'Carte cadeau'],
+  rewardPointsLabels: ['Points de fidélité', 'Points'],
+  refundLabels: ['Remboursement', 'Remboursé'],
+  subscribeAndSaveLabels: ['Prévoyez et Économisez', 'Abonnez-vous et économisez'],
+  nextChargeLabels: [
+    'Prochain paiement',
+    'Prochain prélèvement',
+    'Renouvellement le',
+    'Prochaine livraison',
+  ],
+  cadenceLabels: {
+    day: ['jour', 'jours', 'quotidien'],
+    week: ['semaine', 'semaines', 'hebdomadaire'],
+    month: ['mois', 'mensuel', 'mensuelle'],
+    year: ['par an', 'ans', 'année', 'années', 'annuel', 'annuelle'],
+  },
+  soldByLabels: ['Vendu par'],
+  fulfilledByAmazonPhrases: ['Expédié par Amazon', 'Expédié et vendu par Amazon'],
+  brandLabels: ['Marque', 'Fabricant'],
+  brandStorePhrases: ['Visiter la boutique {brand}', 'Visitez la boutique {brand}'],
+};
+
+const ITALIAN_TEXTS = {
+  months: ITALIAN_MONTHS,
+  orderDateLabels: ['Ordine effettuato il', 'Ordine effettuato'],
+  totalLabels: ['Totale ordine', 'Totale'],
+  statusPhrases: ['Consegnato', 'Spedito', 'In arrivo', 'Annullato', 'Restituito', 'Rimborsato'],
+  promotionKeywords: ['Sconto', 'Risparmio', 'Buono', 'Coupon', 'Promozione'],
+  quantityLabels: ['Quantità', 'Qtà'],
+  nextPageLabels: ['Successivo', 'Avanti'],
+  shipmentStatusPhrases: {
+    delivered: ['Consegnato'],
+    shipped: ['Spedito'],
+    in_transit: ['In arrivo', 'In consegna', 'In transito'],
+    cancelled: ['Annullato'],
+    returned: ['Restituito', 'Rimborsato'],
+  },
+  promotionKindPhrases: {
+    coupon: ['Coupon', 'Buono sconto', 'Codice promozionale'],
+    subscribe_and_save: ['Iscriviti e risparmia'],
+    reward_points: ['Punti'],
+    gift_card: ['Buono regalo', 'Buoni regalo'],
+    prime: ['Sconto Prime', 'Risparmio Prime', 'Esclusiva Prime'],
+    bundle: ['Sconto quantità', 'Offerta combinata', 'Acquista di più'],
+    shipping: ['Spedizione gratuita', 'Sconto spedizione'],
+    lightning_deal: ['Offerta lampo', 'Offerta del giorno', 'Offerta a tempo'],
+  },
+  trackingLabels: ['Numero di tracking', 'ID di tracciamento', 'Numero di spedizione'],
+  costLabels: {
+    subtotal: ['Subtotale', 'Totale articoli'],
+    shipping: ['Costi di spedizione', 'Spese di spedizione', 'Spedizione'],
+    promotions: ['Sconto', 'Buono', 'Coupon', 'Promozione', 'Risparmio'],
+    totalBeforeTax: ['Totale senza IVA', 'Totale IVA esclusa', 'Imponibile'],
+    tax: ['IVA'],
+    giftWrap: ['Confezione regalo', 'Incarto regalo'],
+    importFees: ['Diritti di importazione', 'Dazi di importazione'],
+    grandTotal: ['Totale complessivo', 'Totale ordine', 'Totale'],
+  },
+  giftCardLabels: ['Buono regalo', 'Buoni regalo'],
+  rewardPointsLabels: ['Punti'],
+  refundLabels: ['Rimborso', 'Rimborsato'],
+  subscribeAndSaveLabels: ['Iscriviti e risparmia'],
+  nextChargeLabels: ['Prossimo pagamento', 'Prossimo addebito', 'Rinnovo il', 'Prossima consegna'],
+  cadenceLabels: {
+    day: ['giorno', 'giorni', 'giornaliero'],
+    week: ['settimana', 'settimane', 'settimanale'],
+    month: ['mese', 'mesi', 'mensile'],
+    year: ['anno', 'anni', 'annuale'],
+  },
+  soldByLabels: ['Venduto da'],
+  fulfilledByAmazonPhrases: ['Spedito da Amazon', 'Venduto e spedito da Amazon'],
+  brandLabels: ['Marca', 'Produttore'],
+  brandStorePhrases: ['Visita lo Store di {brand}'],
+};
+
+const SPANISH_TEXTS = {
+  months: SPANISH_MONTHS,
+  orderDateLabels: ['Pedido realizado el', 'Pedido realizado'],
+  totalLabels: ['Total del pedido', 'Importe total', 'Total'],
+  statusPhrases: ['Entregado', 'Enviado', 'Llega', 'Cancelado', 'Devuelto', 'Reembolsado'],
+  promotionKeywords: ['Descuento', 'Ahorro', 'Cupón', 'Promoción', 'Vale'],
+  quantityLabels: ['Cantidad'],
+  nextPageLabels: ['Siguiente'],
+  shipmentStatusPhrases: {
+    delivered: ['Entregado'],
+    shipped: ['Enviado'],
+    in_transit: ['Llega', 'En reparto', 'En tránsito'],
+    cancelled: ['Cancelado'],
+    returned: ['Devuelto', 'Reembolsado'],
+  },
+  promotionKindPhrases: {
+    coupon: ['Cupón', 'Código promocional'],
+    subscribe_and_save: ['Suscríbete y ahorra'],
+    reward_points: ['Puntos'],
+    gift_card: ['Cheque regalo', 'Tarjeta regalo'],
+    prime: ['Descuento Prime', 'Ahorro Prime', 'Exclusivo Prime'],
+    bundle: ['Descuento por cantidad', 'Oferta combinada', 'Compra más'],
+    shipping: ['Envío gratis', 'Envío gratuito', 'Descuento en el envío'],
+    lightning_deal: ['Oferta flash', 'Oferta del día', 'Oferta por tiempo limitado'],
+  },
+  trackingLabels: ['Número de seguimiento', 'ID de seguimiento'],
+  costLabels: {
+    subtotal: ['Subtotal', 'Importe de los productos'],
+    shipping: ['Gastos de envío', 'Envío'],
+    promotions: ['Descuento', 'Cupón', 'Promoción', 'Ahorro', 'Vale'],
+    totalBeforeTax: ['Total sin IVA', 'Total antes de impuestos'],
+    tax: ['Impuesto estimado', 'Impuestos', 'IVA'],
+    giftWrap: ['Envoltorio para regalo', 'Envoltorio de regalo'],
+    importFees: [
+      'Depósito de tasas de importación',
+      'Tasas de importación',
+      'Cargos de importación',
+    ],
+    grandTotal: ['Importe total', 'Total del pedido', 'Total'],
+  },
+  giftCardLabels: ['Cheque regalo', 'Tarjeta regalo'],
+  rewardPointsLabels: ['Puntos'],
+  refundLabels: ['Reembolso', 'Reembolsado'],
+  subscribeAndSaveLabels: ['Suscríbete y ahorra'],
+  nextChargeLabels: ['Próximo pago', 'Próximo cargo', 'Se renueva el', 'Próxima entrega'],
+  cadenceLabels: {
+    day: ['día', 'días', 'diario'],
+    week: ['semana', 'semanas', 'semanal'],
+    month: ['mes', 'meses', 'mensual'],
+    year: ['año', 'años', 'anual'],
+  },
+  soldByLabels: ['Vendido por'],
+  fulfilledByAmazonPhrases: ['Enviado por Amazon', 'Gestionado por Amazon'],
+  brandLabels: ['Marca', 'Fabricante'],
+  brandStorePhrases: ['Visita la tienda de {brand}'],
+};
+
+const PORTUGUESE_TEXTS = {
+  months: PORTUGUESE_MONTHS,
+  orderDateLabels: ['Pedido feito em', 'Pedido realizado em'],
+  totalLabels: ['Total do pedido', 'Total'],
+  statusPhrases: ['Entregue', 'Enviado', 'Chegará', 'Cancelado', 'Devolvido', 'Reembolsado'],
+  promotionKeywords: ['Desconto', 'Economia', 'Cupom', 'Promoção'],
+  quantityLabels: ['Quantidade', 'Qtd'],
+  nextPageLabels: ['Próximo', 'Próxima'],
+  shipmentStatusPhrases: {
+    delivered: ['Entregue'],
+    shipped: ['Enviado'],
+    in_transit: ['Chegará', 'Saiu para entrega', 'Em trânsito'],
+    cancelled: ['Cancelado'],
+    returned: ['Devolvido', 'Reembolsado'],
+  },
+  promotionKindPhrases: {
+    coupon: ['Cupom', 'Código promocional'],
+    subscribe_and_save: ['Programe e Poupe'],
+    reward_points: ['Pontos'],
+    gift_card: ['Vale-presente', 'Cartão-presente'],
+    prime: ['Desconto Prime', 'Exclusivo Prime'],
+    bundle: ['Desconto por quantidade', 'Compre mais'],
+    shipping: ['Frete grátis', 'Desconto no frete'],
+    lightning_deal: ['Oferta relâmpago', 'Oferta do dia'],
+  },
+  trackingLabels: ['Código de rastreio', 'Código de rastreamento'],
+  costLabels: {
+    subtotal: ['Subtotal dos itens', 'Subtotal'],
+    shipping: ['Frete', 'Envio'],
+    promotions: ['Desconto', 'Cupom', 'Promoção', 'Economia'],
+    totalBeforeTax: ['Total antes dos impostos', 'Total sem impostos'],
+    tax: ['Imposto estimado', 'Impostos'],
+    giftWrap: ['Embrulho para presente'],
+    importFees: ['Depósito de taxas de importação', 'Taxas de importação'],
+    grandTotal: ['Total do pedido', 'Total geral', 'Total'],
+  },
+  giftCardLabels: ['Vale-presente', 'Cartão-presente'],
+  rewardPointsLabels: ['Pontos'],
+  refundLabels: ['Reembolso', 'Reembolsado', 'Estorno'],
+  subscribeAndSaveLabels: ['Programe e Poupe'],
+  nextChargeLabels: ['Próximo pagamento', 'Próxima cobrança', 'Renova em', 'Próxima entrega'],
+  cadenceLabels: {
+    day: ['dia', 'dias', 'diário'],
+    week: ['semana', 'semanas', 'semanal'],
+    month: ['mês', 'meses', 'mensal'],
+    year: ['ano', 'anos', 'anual'],
+  },
+  soldByLabels: ['Vendido por'],
+  fulfilledByAmazonPhrases: ['Enviado pela Amazon', 'Enviado e vendido pela Amazon'],
+  brandLabels: ['Marca', 'Fabricante'],
+  brandStorePhrases: ['Visite a loja {brand}', 'Visite a loja da {brand}'],
+};
+
+const JAPANESE_TEXTS = {
+  // Dates are numeric ("2024年1月15日")
+  months: {},
+  orderDateLabels: ['注文日'],
+  totalLabels: ['注文合計', '合計'],
+  statusPhrases: [
+    '配達しました',
+    '配達済み',
+    '発送済み',
+    'お届け予定',
+    'キャンセル',
+    '返品',
+    '返金',
+  ],
+  promotionKeywords: ['割引', 'クーポン', 'プロモーション'],
+  quantityLabels: ['数量'],
+  nextPageLabels: ['次へ'],
+  shipmentStatusPhrases: {
+    delivered: ['配達しました', '配達済み'],
+    shipped: ['発送済み', '発送しました'],
+    in_transit: ['お届け予定', '配達中', '輸送中'],
+    cancelled: ['キャンセル'],
+    returned: ['返品', '返金'],
+  },
+  promotionKindPhrases: {
+    coupon: ['クーポン', 'プロモーションコード'],
+    subscribe_and_save: ['定期おトク便'],
+    reward_points: ['Amazonポイント', 'ポイント'],
+    gift_card: ['Amazonギフトカード', 'ギフトカード', 'ギフト券'],
+    prime: ['プライム会員', 'プライム限定', 'プライム割引'],
+    bundle: ['まとめ買い', 'セット割'],
+    shipping: ['配送料無料', '送料無料', '配送料割引'],
+    lightning_deal: ['タイムセール'],
+  },
+  trackingLabels: ['お問い合わせ伝票番号', '追跡番号'],
+  costLabels: {
+    subtotal: ['商品の小計', '小計'],
+    shipping: ['配送料・手数料', '配送料'],
+    promotions: ['割引', 'クーポン', 'プロモーション'],
+    totalBeforeTax: ['税抜合計'],
+    tax: ['うち消費税', '消費税'],
+    giftWrap: ['ギフト包装', 'ギフトラッピング'],
+    importFees: ['輸入手数料', '関税'],
+    grandTotal: ['ご請求額', '請求額', '注文合計', '合計'],
+  },
+  giftCardLabels: ['Amazonギフトカード', 'ギフトカード', 'ギフト券'],
+  rewardPointsLabels: ['Amazonポイント', 'ポイント'],
+  refundLabels: ['返金'],
+  subscribeAndSaveLabels: ['定期おトク便'],
+  nextChargeLabels: ['次回のお支払い', '次回請求日', '次回更新日', '次回のお届け'],
+  cadenceLabels: {
+    day: ['日ごと', '毎日'],
+    week: ['週間', '週ごと', '毎週'],
+    month: ['か月', 'ヶ月', 'カ月', '毎月', '月額'],
+    year: ['年ごと', '毎年', '年額', '年会費'],
+  },
+  soldByLabels: ['販売元', '販売'],
+  fulfilledByAmazonPhrases: ['Amazon.co.jpが発送', 'Amazonが発送', '出荷元 Amazon'],
+  brandLabels: ['ブランド', 'メーカー'],
+  brandStorePhrases: ['{brand}のストアを表示'],
+};
+
+/**
+ * Site profiles of all supported marketplaces, keyed by domain
+ */
+export const SITE_PROFILES: Record<string, SiteProfile> = {
+  'amazon.com': {
+    domain: 'amazon.com',
+    locale: 'en-US',
+    currency: 'USD',
+    currencySymbols: ['US$', 'USD', '$'],
+    decimalSeparator: '.',
+    ...ENGLISH_TEXTS,
+  },
+  'amazon.co.uk': {
+    domain: 'amazon.co.uk',
+    locale: 'en-GB',
+    currency: 'GBP',
+    currencySymbols: ['£', 'GBP'],
+    decimalSeparator: '.',
+    ...ENGLISH_TEXTS,
+  },
+  'amazon.de': {
+    domain: 'amazon.de',
+    locale: 'de-DE',
+    currency: 'EUR',
+    currencySymbols: ['€', 'EUR'],
+    decimalSeparator: ',',
+    ...GERMAN_TEXTS,
+  },
+  'amazon.fr': {
+    domain: 'amazon.fr',
+    locale: 'fr-FR',
+    currency: 'EUR',
+    currencySymbols: ['€', 'EUR'],
+    decimalSeparator: ',',
+    ...FRENCH_TEXTS,
+  },
+  'amazon.it': {
+    domain: 'amazon.it',
+    locale: 'it-IT',
+    currency: 'EUR',
+    currencySymbols: ['€', 'EUR'],
+    decimalSeparator: ',',
+    ...ITALIAN_TEXTS,
+  },
+  'amazon.es': {
+    domain: 'amazon.es',
+    locale: 'es-ES',
+    currency: 'EUR',
+    currencySymbols: ['€', 'EUR'],
+    decimalSeparator: ',',
+    ...SPANISH_TEXTS,
+  },
+  'amazon.ca': {
+    domain: 'amazon.ca',
+    locale: 'en-CA',
+    currency: 'CAD',
+    currencySymbols: ['CDN$', 'C$', 'CAD', '$'],
+    decimalSeparator: '.',
+    ...ENGLISH_TEXTS,
+  },
+  'amazon.co.jp': {
+    domain: 'amazon.co.jp',
+    locale: 'ja-JP',
+    currency: 'JPY',
+    currencySymbols: ['￥', '¥', '円', 'JPY'],
+    decimalSeparator: '.',
+    ...JAPANESE_TEXTS,
+  },
+  'amazon.in': {
+    domain: 'amazon.in',
+    locale: 'en-IN',
+    currency: 'INR',
+    currencySymbols: ['₹', 'Rs.', 'INR'],
+    decimalSeparator: '.',
+    ...ENGLISH_TEXTS,
+  },
+  'amazon.com.au': {
+    domain: 'amazon.com.au',
+    locale: 'en-AU',
+    currency: 'AUD',
+    currencySymbols: ['A$', 'AU$', 'AUD', '$'],
+    decimalSeparator: '.',
+    ...ENGLISH_TEXTS,
+  },
+  'amazon.com.br': {
+    domain: 'amazon.com.br',
+    locale: 'pt-BR',
+    currency: 'BRL',
+    currencySymbols: ['R$', 'BRL'],
+    decimalSeparator: ',',
+    ...PORTUGUESE_TEXTS,
+  },
+  'amazon.com.mx': {
+    domain: 'amazon.com.mx',
+    locale: 'es-MX',
+    currency: 'MXN',
+    currencySymbols: ['MX$', 'MXN', '$'],
+    decimalSeparator: '.',
+    ...SPANISH_TEXTS,
+  },
+  // Offered in French and Dutch; only the French pages are read
+  'amazon.com.be': {
+    domain: 'amazon.com.be',
+    locale: 'fr-BE',
+    currency: 'EUR',
+    currencySymbols: ['€', 'EUR'],
+    decimalSeparator: ',',
+    ...FRENCH_TEXTS,
+  },
+};
+
+/**
+ * Combine the values of a list field over all profiles, without duplicates
+ */
+function mergeProfileLists(select: (profile: SiteProfile) => string[]): string[] {
+  return [...new Set(Object.values(SITE_PROFILES).flatMap(select))];
+}
+
+/**
+ * Fallback profile for unknown domains: accepts the texts of all marketplaces
+ * and detects the decimal separator from each number
+ */
+export const GENERIC_SITE_PROFILE: SiteProfile = {
+  domain: '',
+  locale: '',
+  currency: 'EUR',
+  currencySymbols: mergeProfileLists((p) => p.currencySymbols),
+  months: Object.assign({}, ...Object.values(SITE_PROFILES).map((profile) => profile.months)),
+  orderDateLabels: mergeProfileLists((p) => p.orderDateLabels),
+  totalLabels: mergeProfileLists((p) => p.totalLabels),
+  statusPhrases: mergeProfileLists((p) => p.statusPhrases),
+  promotionKeywords: mergeProfileLists((p) => p.promotionKeywords),
+  quantityLabels: mergeProfileLists((p) => p.quantityLabels),
+  nextPageLabels: mergeProfileLists((p) => p.nextPageLabels),
+  shipmentStatusPhrases: {
+    delivered: mergeProfileLists((p) => p.shipmentStatusPhrases.delivered),
+    shipped: mergeProfileLists((p) => p.shipmentStatusPhrases.shipped),
+    in_transit: mergeProfileLists((p) => p.shipmentStatusPhrases.in_transit),
+    cancelled: mergeProfileLists((p) => p.shipmentStatusPhrases.cancelled),
+    returned: mergeProfileLists((p) => p.shipmentStatusPhrases.returned),
+  },
+  promotionKindPhrases: {
+    coupon: mergeProfileLists((p) => p.promotionKindPhrases.coupon),
+    subscribe_and_save: mergeProfileLists((p) => p.promotionKindPhrases.subscribe_and_save),
+    reward_points: mergeProfileLists((p) => p.promotionKindPhrases.reward_points),
+    gift_card: mergeProfileLists((p) => p.promotionKindPhrases.gift_card),
+    prime: mergeProfileLists((p) => p.promotionKindPhrases.prime),
+    bundle: mergeProfileLists((p) => p.promotionKindPhrases.bundle),
+    shipping: mergeProfileLists((p) => p.promotionKindPhrases.shipping),
+    lightning_deal: mergeProfileLists((p) => p.promotionKindPhrases.lightning_deal),
+  },
+  trackingLabels: mergeProfileLists((p) => p.trackingLabels),
+  costLabels: {
+    subtotal: mergeProfileLists((p) => p.costLabels.subtotal),
+    shipping: mergeProfileLists((p) => p.costLabels.shipping),
+    promotions: mergeProfileLists((p) => p.costLabels.promotions),
+    totalBeforeTax: mergeProfileLists((p) => p.costLabels.totalBeforeTax),
+    tax: mergeProfileLists((p) => p.costLabels.tax),
+    giftWrap: mergeProfileLists((p) => p.costLabels.giftWrap),
+    importFees: mergeProfileLists((p) => p.costLabels.importFees),
+    grandTotal: mergeProfileLists((p) => p.costLabels.grandTotal),
+  },
+  giftCardLabels: mergeProfileLists((p) => p.giftCardLabels),
+  rewardPointsLabels: mergeProfileLists((p) => p.rewardPointsLabels),
+  refundLabels: mergeProfileLists((p) => p.refundLabels),
+  subscribeAndSaveLabels: mergeProfileLists((p) => p.subscribeAndSaveLabels),
+  nextChargeLabels: mergeProfileLists((p) => p.nextChargeLabels),
+  cadenceLabels: {
+    day: mergeProfileLists((p) => p.cadenceLabels.day),
+    week: mergeProfileLists((p) => p.cadenceLabels.week),
+    month: mergeProfileLists((p) => p.cadenceLabels.month),
+    year: mergeProfileLists((p) => p.cadenceLabels.year),
+  },
+  soldByLabels: mergeProfileLists((p) => p.soldByLabels),
+  fulfilledByAmazonPhrases: mergeProfileLists((p) => p.fulfilledByAmazonPhrases),
+  brandLabels: mergeProfileLists((p) => p.brandLabels),
+  brandStorePhrases: mergeProfileLists((p) => p.brandStorePhrases),
+};
+
+/**
+ * Get the site profile of a marketplace domain (e.g. "amazon.de")
+ */
+export function getSiteProfile(domain: string): SiteProfile {
+  return SITE_PROFILES[domain] || GENERIC_SITE_PROFILE;
+}
+
+/**
+ * Build a regex alternation matching any of the given phrases, longest first
+ */
+export function buildAlternation(phrases: string[]): string {
+  return [...phrases]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+}
@@ -0,0 +1,138 @@
+/**
+ * Subscription parsing utilities for the memberships and Subscribe & Save pages
+ */
+
+import type {
+  CadenceUnit,
+  Order,
+  SiteProfile,
+  Subscription,
+  SubscriptionCadence,
+  SubscriptionCharge,
+} from '../types';
+import { parseDate, parseDateRelativeTo } from './dateUtils';
+import { findPrices } from './priceUtils';
+import { GENERIC_SITE_PROFILE, buildAlternation } from './siteProfileUtils';
+
+const CADENCE_UNITS: CadenceUnit[] = ['day', 'week', 'month', 'year'];
+
+/**
+ * Parse the interval of a subscription, e.g. "Every 2 months", "alle 4 Wochen" or
+ * "$14.99/month". The first unit in the text wins.
+ */
+export function parseCadence(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): SubscriptionCadence | null {
+  let first: { index: number; cadence: SubscriptionCadence } | null = null;
+
+  for (const unit of CADENCE_UNITS) {
+    // Units are whole words in Latin scripts, but not in Japanese
+    const pattern = new RegExp(
+      `(?:(\\d+)\\s*-?\\s*)?(?<!\\p{Script=Latin})(?:${buildAlternation(profile.cadenceLabels[unit])})(?!\\p{Script=Latin})`,
+      'iu'
+    );
+    const match = text.match(pattern);
+    if (match && (!first || (match.index ?? 0) < first.index)) {
+      const count = match[1] ? parseInt(match[1], 10) : 1;
+      first = { index: match.index ?? 0, cadence: { count: count > 0 ? count : 1, unit } };
+    }
+  }
+
+  return first?.cadence ?? null;
+}
+
+/**
+ * Describe a cadence, e.g. "1 month" or "2 weeks"
+ */
+export function formatCadence(cadence: SubscriptionCadence | null): string {
+  if (!cadence) return '';
+  return `${cadence.count} ${cadence.unit}${cadence.count > 1 ? 's' : ''}`;
+}
+
+/**
+ * Parse cadence, price and next charge date of a subscription card, e.g. "Prime
+ * $14.99/month Next payment: June 3". Dates without year are taken to follow today.
+ * @param today - Current date as ISO date
+ */
+export function parseSubscriptionText(
+  text: string,
+  today: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): Pick<Subscription, 'cadence' | 'price' | 'nextChargeDate'> {
+  const label = text.match(new RegExp(`(?:${buildAlternation(profile.nextChargeLabels)})`, 'iu'));
+  const nextChargeText = label ? text.substring(label.index ?? 0, (label.index ?? 0) + 80) : '';
+
+  return {
+    cadence: parseCadence(text, profile),
+    price: findPrices(text, profile)[0] ?? null,
+    nextChargeDate: parseDateRelativeTo(nextChargeText, today, profile) || '',
+  };
+}
+
+/**
+ * Parse the past charges of a subscription, one per line with a full date and an amount,
+ * e.g. "March 3, 2024 - Visa ending in 1234: $14.99". Repeated lines are listed once.
+ */
+export function parseSubscriptionCharges(
+  lines: string[],
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): SubscriptionCharge[] {
+  const charges: SubscriptionCharge[] = [];
+
+  lines.forEach((line) => {
+    const date = parseDate(line, profile);
+    // Card digits are no price, so take the last amount of the line
+    const amount = findPrices(line, profile).pop();
+    if (!date || !amount) return;
+    if (
+      !charges.some(
+        (charge) =>
+          charge.date === date &&
+          charge.amount.amount === amount.amount &&
+          charge.amount.currency === amount.currency
+      )
+    ) {
+      charges.push({ date, amount, orderId: '' });
+    }
+  });
+
+  return charges;
+}
+
+/**
+ * Check if a text names the Subscribe & Save program
+ */
+export function hasSubscribeAndSaveLabel(
+  text: string,
+  profile: SiteProfile = GENERIC_SITE_PROFILE
+): boolean {
+  return new RegExp(`(?:${buildAlternation(profile.subscribeAndSaveLabels)})`, 'iu').test(text);
+}
+
+/**
+ * Add the Subscribe & Save orders of each product to its subscription as charges, the
+ * net line total of the product in each order. Charges are sorted by date.
+ */
+export function linkSubscribeAndSaveOrders(
+  subscriptions: Subscription[],
+  orders: Order[]
+): Subscription[] {
+  return subscriptions.map((subscription) => {
+    if (subscription.kind !== 'subscribe_and_save' || !subscription.asin) return subscription;
+
+    const charges = [...subscription.charges];
+    orders.forEach((order) => {
+      const item = order.items.find((orderItem) => orderItem.asin === subscription.asin);
+      if (!order.subscribeAndSave || !item) return;
+      if (charges.some((charge) => charge.orderId === order.orderId)) return;
+      charges.push({
+        date: order.orderDate,
+        amount: item.netLineTotal,
+        orderId: order.orderId,
+      });
+    });
+
+    return { ...subscription, charges: charges.sort((a, b) => a.date.localeCompare(b.date)) };
+  });
+}
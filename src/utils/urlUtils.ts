@@ -14,6 +14,24 @@ export function buildOrderPageUrl(baseUrl: string, year: string, startIndex: num
   return `${baseUrl}?${params.toString()}`;
 }
 
+/**
+ * Build URL for a specific year and page of the digital orders list
+ */
+export function buildDigitalOrderPageUrl(
+  baseUrl: string,
+  year: string,
+  startIndex: number = 0
+): string {
+  const params = new URLSearchParams();
+  params.set('digitalOrders', '1');
+  params.set('unifiedOrders', '0');
+  params.set('orderFilter', `year-${year}`);
+  if (startIndex > 0) {
+    params.set('startIndex', startIndex.toString());
+  }
+  return `${baseUrl}?${params.toString()}`;
+}
+
 /**
  * List of supported Amazon domains
  */
@@ -30,12 +48,30 @@ export const AMAZON_DOMAINS = [
   'amazon.com.au',
   'amazon.com.br',
   'amazon.com.mx',
+  'amazon.com.be',
 ];
 
 /**
- * Order history page paths
+ * Get the marketplace domain (e.g. "amazon.de") of an Amazon URL
+ */
+export function getMarketplaceFromUrl(url: string): string {
+  try {
+    const hostname = new URL(url).hostname;
+    const domains = [...AMAZON_DOMAINS].sort((a, b) => b.length - a.length);
+    return domains.find((domain) => hostname === domain || hostname.endsWith(`.${domain}`)) || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Order history page paths, including digital orders
  */
-export const ORDER_PATHS = ['/gp/your-account/order-history', '/your-orders'];
+export const ORDER_PATHS = [
+  '/gp/your-account/order-history',
+  '/your-orders',
+  '/gp/digital/your-account',
+];
 
 /**
  * Check if a URL is an Amazon order history page
@@ -61,6 +97,59 @@ export function getOrderHistoryBaseUrl(url: string): string {
   }
 }
 
+/**
+ * Extract base digital orders URL from current page URL
+ */
+export function getDigitalOrderHistoryBaseUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    return `${urlObj.origin}/gp/your-account/order-history`;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Get the returns center URL of the marketplace of a page
+ */
+export function getReturnsCenterUrl(url: string): string {
+  try {
+    return `${new URL(url).origin}/spr/returns/history`;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Get the memberships and subscriptions URL of the marketplace of a page
+ */
+export function getMembershipsUrl(url: string): string {
+  try {
+    return `${new URL(url).origin}/mc/yourmembershipsandsubscriptions`;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Get the Subscribe & Save dashboard URL of the marketplace of a page
+ */
+export function getSubscribeAndSaveUrl(url: string): string {
+  try {
+    return `${new URL(url).origin}/auto-deliveries/subscriptionList`;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Build the product page URL of an ASIN on the marketplace an order came from
+ * @param origin - Origin of the marketplace, e.g. "https://www.amazon.co.uk"
+ */
+export function buildProductUrl(origin: string, asin: string): string {
+  return `${origin}/dp/${asin}`;
+}
+
 /**
  * Extract ASIN from a product URL
  */
@@ -68,3 +157,29 @@ export function extractAsinFromUrl(url: string): string | null {
   const asinMatch = url.match(/\/(?:dp|gp\/product)\/([A-Z0-9]{10})(?:\/|$|\?)?/i);
   return asinMatch?.[1]?.toUpperCase() || null;
 }
+
+/**
+ * Resolve the URL of a product image against the page it is shown on. Lazy-loading
+ * placeholders (data: URIs) and empty sources give an empty string.
+ */
+export function resolveImageUrl(src: string, pageUrl: string): string {
+  const source = src.trim();
+  if (!source || source.startsWith('data:')) return '';
+  try {
+    const url = new URL(source, pageUrl);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Get the URL of a small rendition of an Amazon product image. Image URLs carry size
+ * modifiers before the extension (e.g. "._AC_SX300_.jpg"), replaced by one for the size.
+ * @param size - Longest side in pixels
+ */
+export function getThumbnailUrl(imageUrl: string, size: number = 160): string {
+  const match = imageUrl.match(/^(.*\/images\/I\/[^/.]+)(?:\.[^/]*)?\.(jpe?g|png|gif|webp)$/i);
+  if (!match) return imageUrl;
+  return `${match[1]}._SL${size}_.${match[2]}`;
+}
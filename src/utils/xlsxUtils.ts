@@ -0,0 +1,584 @@
+/**
+ * XLSX workbook conversion utilities
+ */
+
+import type {
+  CostBreakdownField,
+  Money,
+  Order,
+  OrderPayments,
+  ShipmentItem,
+  Subscription,
+} from '../types';
+import { COST_BREAKDOWN_FIELDS } from './costBreakdownUtils';
+import { getCurrencyDecimals, toDecimal } from './moneyUtils';
+import { formatPaymentMethod } from './paymentUtils';
+import { formatCategory, formatFulfilledByAmazon } from './productUtils';
+import { getRefundedAmount } from './refundUtils';
+import { formatCadence } from './subscriptionUtils';
+import { createZip } from './zipUtils';
+
+/**
+ * Cell content: text, plain number, ISO date or amount in a currency
+ */
+type XlsxCell = string | number | null | { date: string } | { amount: number; currency: string };
+
+interface XlsxSheet {
+  name: string;
+  headers: string[];
+  widths: number[];
+  rows: XlsxCell[][];
+}
+
+/**
+ * Header keys of the order summary columns, shared with the CSV export
+ */
+const COST_HEADERS: Record<CostBreakdownField, string> = {
+  subtotal: 'csvHeaderSubtotal',
+  shipping: 'csvHeaderShipping',
+  promotions: 'csvHeaderPromotionsApplied',
+  totalBeforeTax: 'csvHeaderTotalBeforeTax',
+  tax: 'csvHeaderTax',
+  giftWrap: 'csvHeaderGiftWrap',
+  importFees: 'csvHeaderImportFees',
+  grandTotal: 'csvHeaderGrandTotal',
+};
+
+/**
+ * List items with their quantities, e.g. "2 x USB Cable; Desk Lamp"
+ */
+function formatItemList(items: ShipmentItem[]): string {
+  return items
+    .map((item) => (item.quantity > 1 ? `${item.quantity} x ${item.title}` : item.title))
+    .join('; ');
+}
+
+/**
+ * List the charges of an order, followed by the instruments without charges, such as
+ * gift cards, as payment rows of type, method, date and amount
+ */
+function getPaymentRows(
+  payments: OrderPayments | null
+): { type: string; method: string; date: string; amount: Money | null }[] {
+  if (!payments) return [];
+  const charged = new Set(payments.transactions.map(formatPaymentMethod));
+  return [
+    ...payments.transactions.map((transaction) => ({
+      type: 'card',
+      method: formatPaymentMethod(transaction),
+      date: transaction.date,
+      amount: transaction.amount,
+    })),
+    ...payments.instruments
+      .filter((instrument) => !charged.has(formatPaymentMethod(instrument)))
+      .map((instrument) => ({
+        type: instrument.type,
+        method: formatPaymentMethod(instrument),
+        date: '',
+        amount: instrument.amount,
+      })),
+  ];
+}
+
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const FIRST_CURRENCY_STYLE = 3;
+const FIRST_CUSTOM_NUMBER_FORMAT = 164;
+
+/**
+ * Escape a value for XML text and attribute content
+ */
+export function escapeXML(value: string): string {
+  return (
+    value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      // Control characters are not allowed in XML
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+  );
+}
+
+/**
+ * Get the spreadsheet column name for a zero-based index (0 -> A, 26 -> AA)
+ */
+export function getColumnName(index: number): string {
+  let name = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+/**
+ * Convert an ISO date (YYYY-MM-DD) to an Excel date serial number
+ */
+export function toExcelDate(isoDate: string): number | null {
+  const match = isoDate.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const utc = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Math.round((utc - Date.UTC(1899, 11, 30)) / 86400000);
+}
+
+/**
+ * Render a single cell
+ */
+function renderCell(cell: XlsxCell, ref: string, currencyStyles: Map<string, number>): string {
+  if (cell === null || cell === '') return '';
+  if (typeof cell === 'number') {
+    return `<c r="${ref}"><v>${cell}</v></c>`;
+  }
+  if (typeof cell === 'string') {
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(cell)}</t></is></c>`;
+  }
+  if ('date' in cell) {
+    const serial = toExcelDate(cell.date);
+    return serial === null ? '' : `<c r="${ref}" s="${STYLE_DATE}"><v>${serial}</v></c>`;
+  }
+  const style = currencyStyles.get(cell.currency) ?? 0;
+  return `<c r="${ref}" s="${style}"><v>${cell.amount}</v></c>`;
+}
+
+/**
+ * Render a worksheet with a frozen, filterable header row
+ */
+function renderSheet(sheet: XlsxSheet, currencyStyles: Map<string, number>): string {
+  const lastColumn = getColumnName(sheet.headers.length - 1);
+  const headerCells = sheet.headers
+    .map((header, i) => {
+      const ref = `${getColumnName(i)}1`;
+      return `<c r="${ref}" s="${STYLE_HEADER}" t="inlineStr"><is><t>${escapeXML(header)}</t></is></c>`;
+    })
+    .join('');
+
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const cells = row
+      .map((cell, i) => renderCell(cell, `${getColumnName(i)}${rowNumber}`, currencyStyles))
+      .join('');
+    return `<row r="${rowNumber}">${cells}</row>`;
+  });
+
+  const cols = sheet.widths
+    .map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`)
+    .join('');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    '<sheetViews><sheetView workbookViewId="0">',
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>',
+    '</sheetView></sheetViews>',
+    `<cols>${cols}</cols>`,
+    `<sheetData><row r="1">${headerCells}</row>${rows.join('')}</sheetData>`,
+    `<autoFilter ref="A1:${lastColumn}${sheet.rows.length + 1}"/>`,
+    '</worksheet>',
+  ].join('');
+}
+
+/**
+ * Number format with the decimal places of a currency, e.g. "#,##0" for JPY
+ */
+function getCurrencyNumberFormat(currency: string): string {
+  const decimals = getCurrencyDecimals(currency);
+  return decimals > 0 ? `#,##0.${'0'.repeat(decimals)}` : '#,##0';
+}
+
+/**
+ * Render the stylesheet with header, date and one currency format per currency
+ */
+function renderStyles(currencies: string[]): string {
+  const numFmts = currencies
+    .map(
+      (currency, i) =>
+        `<numFmt numFmtId="${FIRST_CUSTOM_NUMBER_FORMAT + 1 + i}" formatCode="${escapeXML(`${getCurrencyNumberFormat(currency)} "${currency}"`)}"/>`
+    )
+    .join('');
+  const currencyXfs = currencies
+    .map(
+      (_, i) =>
+        `<xf numFmtId="${FIRST_CUSTOM_NUMBER_FORMAT + 1 + i}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`
+    )
+    .join('');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    `<numFmts count="${currencies.length + 1}">`,
+    `<numFmt numFmtId="${FIRST_CUSTOM_NUMBER_FORMAT}" formatCode="yyyy-mm-dd"/>${numFmts}`,
+    '</numFmts>',
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>',
+    '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+    '<fills count="2"><fill><patternFill patternType="none"/></fill>',
+    '<fill><patternFill patternType="gray125"/></fill></fills>',
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+    `<cellXfs count="${FIRST_CURRENCY_STYLE + currencies.length}">`,
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>',
+    `<xf numFmtId="${FIRST_CUSTOM_NUMBER_FORMAT}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`,
+    currencyXfs,
+    '</cellXfs>',
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+    '</styleSheet>',
+  ].join('');
+}
+
+/**
+ * Build the Orders, Items, Promotions, Shipments, Payments and Refunds sheets, joined by
+ * order ID, and the Subscriptions and Subscription Charges sheets, joined by name
+ */
+function buildSheets(
+  orders: Order[],
+  subscriptions: Subscription[],
+  getHeader: (key: string) => string
+): XlsxSheet[] {
+  const money = (value: Money): XlsxCell => ({
+    amount: toDecimal(value),
+    currency: value.currency,
+  });
+
+  return [
+    {
+      name: getHeader('xlsxSheetOrders'),
+      headers: [
+        getHeader('csvHeaderOrderId'),
+        getHeader('csvHeaderOrderDate'),
+        getHeader('csvHeaderTotalAmount'),
+        getHeader('csvHeaderNetAmount'),
+        getHeader('csvHeaderRefundedAmount'),
+        getHeader('csvHeaderCurrency'),
+        getHeader('csvHeaderTotalSavings'),
+        ...COST_BREAKDOWN_FIELDS.map((field) => getHeader(COST_HEADERS[field])),
+        getHeader('csvHeaderTaxRate'),
+        getHeader('csvHeaderStatus'),
+        getHeader('csvHeaderOrderType'),
+        getHeader('csvHeaderDetailsUrl'),
+      ],
+      widths: [22, 12, 14, 14, 14, 10, 14, ...COST_BREAKDOWN_FIELDS.map(() => 14), 10, 30, 10, 50],
+      rows: orders.map((order) => [
+        order.orderId,
+        { date: order.orderDate },
+        money(order.totalAmount),
+        money(order.netAmount),
+        money(getRefundedAmount(order)),
+        order.totalAmount.currency,
+        money(order.totalSavings),
+        ...COST_BREAKDOWN_FIELDS.map((field) =>
+          order.costBreakdown ? money(order.costBreakdown[field]) : null
+        ),
+        order.costBreakdown?.taxRate ?? null,
+        order.orderStatus,
+        order.orderType,
+        order.detailsUrl,
+      ]),
+    },
+    {
+      name: getHeader('xlsxSheetItems'),
+      headers: [
+        getHeader('csvHeaderOrderId'),
+        getHeader('csvHeaderItemTitle'),
+        getHeader('csvHeaderItemAsin'),
+        getHeader('csvHeaderItemQuantity'),
+        getHeader('csvHeaderItemPrice'),
+        getHeader('csvHeaderItemLineTotal'),
+        getHeader('csvHeaderItemDiscount'),
+        getHeader('csvHeaderItemNetTotal'),
+        getHeader('csvHeaderCurrency'),
+        getHeader('csvHeaderItemUrl'),
+        getHeader('csvHeaderItemSeller'),
+        getHeader('csvHeaderItemFulfilledByAmazon'),
+        getHeader('csvHeaderItemBrand'),
+        getHeader('csvHeaderItemCategory'),
+        getHeader('csvHeaderItemIsbn'),
+        getHeader('csvHeaderItemEan'),
+        getHeader('csvHeaderItemImageUrl'),
+      ],
+      widths: [22, 60, 14, 10, 14, 14, 14, 14, 10, 40, 24, 10, 20, 40, 16, 16, 40],
+      rows: orders.flatMap((order) =>
+        order.items.map((item) => [
+          order.orderId,
+          item.title,
+          item.asin,
+          item.quantity,
+          money(item.unitPrice),
+          money(item.lineTotal),
+          money(item.allocatedDiscount),
+          money(item.netLineTotal),
+          item.unitPrice.currency,
+          item.itemUrl,
+          item.seller,
+          formatFulfilledByAmazon(item.fulfilledByAmazon),
+          item.product?.brand ?? '',
+          formatCategory(item.product?.category ?? []),
+          item.product?.isbn ?? '',
+          item.product?.ean ?? '',
+          item.imageUrl,
+        ])
+      ),
+    },
+    {
+      name: getHeader('xlsxSheetPromotions'),
+      headers: [
+        getHeader('csvHeaderOrderId'),
+        getHeader('csvHeaderPromotionDescription'),
+        getHeader('csvHeaderPromotionAmount'),
+        getHeader('csvHeaderCurrency'),
+        getHeader('csvHeaderPromotionKind'),
+        getHeader('csvHeaderItemAsin'),
+        getHeader('csvHeaderPromotionConfidence'),
+      ],
+      widths: [22, 60, 14, 10, 18, 14, 12],
+      rows: orders.flatMap((order) =>
+        order.promotions.map((promotion) => [
+          order.orderId,
+          promotion.description,
+          money(promotion.amount),
+          promotion.amount.currency,
+          promotion.kind,
+          promotion.asin,
+          promotion.confidence,
+        ])
+      ),
+    },
+    {
+      name: getHeader('xlsxSheetShipments'),
+      headers: [
+        getHeader('csvHeaderOrderId'),
+        getHeader('csvHeaderShipmentStatus'),
+        getHeader('csvHeaderStatus'),
+        getHeader('csvHeaderShippedDate'),
+        getHeader('csvHeaderDeliveredDate'),
+        getHeader('csvHeaderCarrier'),
+        getHeader('csvHeaderTrackingId'),
+        getHeader('csvHeaderShipmentItems'),
+      ],
+      widths: [22, 12, 30, 12, 12, 16, 24, 60],
+      rows: orders.flatMap((order) =>
+        order.shipments.map((shipment) => [
+          order.orderId,
+          shipment.status,
+          shipment.statusText,
+          { date: shipment.shippedDate },
+          { date: shipment.deliveredDate },
+          shipment.carrier,
+          shipment.trackingId,
+          formatItemList(shipment.items),
+        ])
+      ),
+    },
+    {
+      name: getHeader('xlsxSheetPayments'),
+      headers: [
+        getHeader('csvHeaderOrderId'),
+        getHeader('csvHeaderPaymentType'),
+        getHeader('csvHeaderPaymentMethod'),
+        getHeader('csvHeaderPaymentDate'),
+        getHeader('csvHeaderPaymentAmount'),
+        getHeader('csvHeaderCurrency'),
+      ],
+      widths: [22, 14, 24, 12, 14, 10],
+      rows: orders.flatMap((order) =>
+        getPaymentRows(order.payments).map((payment) => [
+          order.orderId,
+          payment.type,
+          payment.method,
+          { date: payment.date },
+          payment.amount ? money(payment.amount) : null,
+          payment.amount?.currency || order.totalAmount.currency,
+        ])
+      ),
+    },
+    {
+      name: getHeader('xlsxSheetRefunds'),
+      headers: [
+        getHeader('csvHeaderOrderId'),
+        getHeader('csvHeaderRefundDate'),
+        getHeader('csvHeaderRefundAmount'),
+        getHeader('csvHeaderCurrency'),
+        getHeader('csvHeaderRefundMethod'),
+        getHeader('csvHeaderRefundItems'),
+      ],
+      widths: [22, 12, 14, 10, 24, 60],
+      rows: orders.flatMap((order) =>
+        order.refunds.map((refund) => [
+          order.orderId,
+          { date: refund.date },
+          money(refund.amount),
+          refund.amount.currency,
+          refund.method,
+          formatItemList(refund.items),
+        ])
+      ),
+    },
+    {
+      name: getHeader('xlsxSheetSubscriptions'),
+      headers: [
+        getHeader('csvHeaderSubscriptionName'),
+        getHeader('csvHeaderSubscriptionKind'),
+        getHeader('csvHeaderItemAsin'),
+        getHeader('csvHeaderSubscriptionCadence'),
+        getHeader('csvHeaderSubscriptionPrice'),
+        getHeader('csvHeaderCurrency'),
+        getHeader('csvHeaderNextChargeDate'),
+        getHeader('csvHeaderSubscriptionUrl'),
+      ],
+      widths: [40, 18, 14, 12, 14, 10, 12, 50],
+      rows: subscriptions.map((subscription) => [
+        subscription.name,
+        subscription.kind,
+        subscription.asin,
+        formatCadence(subscription.cadence),
+        subscription.price ? money(subscription.price) : null,
+        subscription.price?.currency || '',
+        { date: subscription.nextChargeDate },
+        subscription.url,
+      ]),
+    },
+    {
+      name: getHeader('xlsxSheetSubscriptionCharges'),
+      headers: [
+        getHeader('csvHeaderSubscriptionName'),
+        getHeader('csvHeaderChargeDate'),
+        getHeader('csvHeaderChargeAmount'),
+        getHeader('csvHeaderCurrency'),
+        getHeader('csvHeaderOrderId'),
+      ],
+      widths: [40, 12, 14, 10, 22],
+      rows: subscriptions.flatMap((subscription) =>
+        subscription.charges.map((charge) => [
+          subscription.name,
+          { date: charge.date },
+          money(charge.amount),
+          charge.amount.currency,
+          charge.orderId,
+        ])
+      ),
+    },
+  ];
+}
+
+/**
+ * Make sheet names valid: at most 31 characters, no []:*?/\ and unique
+ */
+function sanitizeSheetNames(sheets: XlsxSheet[]): void {
+  const used = new Set<string>();
+  sheets.forEach((sheet, i) => {
+    let name =
+      sheet.name
+        .replace(/[[\]:*?/\\]/g, ' ')
+        .substring(0, 31)
+        .trim() || `Sheet${i + 1}`;
+    if (used.has(name.toLowerCase())) {
+      name = `${name.substring(0, 28)} ${i + 1}`;
+    }
+    used.add(name.toLowerCase());
+    sheet.name = name;
+  });
+}
+
+/**
+ * List the currencies of all amount cells, so that every amount gets its currency format
+ */
+function getSheetCurrencies(sheets: XlsxSheet[]): string[] {
+  const currencies = new Set<string>();
+  for (const sheet of sheets) {
+    for (const row of sheet.rows) {
+      for (const cell of row) {
+        if (cell !== null && typeof cell === 'object' && 'currency' in cell) {
+          currencies.add(cell.currency);
+        }
+      }
+    }
+  }
+  return [...currencies].sort();
+}
+
+/**
+ * Convert orders to an XLSX workbook with Orders, Items, Promotions, Shipments, Payments,
+ * Refunds, Subscriptions and Subscription Charges sheets
+ * Dates and amounts are stored as real cells with date and currency formats
+ * @param orders - Array of orders to convert
+ * @param getHeader - Function to get localized header and sheet names
+ * @param modified - Modification time stored in the archive
+ * @param subscriptions - Memberships and Subscribe & Save subscriptions
+ */
+export function convertOrdersToXLSX(
+  orders: Order[],
+  getHeader: (key: string) => string = (key) => key,
+  modified: Date = new Date(),
+  subscriptions: Subscription[] = []
+): Uint8Array {
+  const sheets = buildSheets(orders, subscriptions, getHeader);
+  sanitizeSheetNames(sheets);
+
+  const currencies = getSheetCurrencies(sheets);
+  const currencyStyles = new Map(
+    currencies.map((currency, i) => [currency, FIRST_CURRENCY_STYLE + i])
+  );
+
+  const sheetEntries = sheets.map((sheet, i) => ({
+    name: `xl/worksheets/sheet${i + 1}.xml`,
+    data: renderSheet(sheet, currencyStyles),
+  }));
+
+  const contentTypes = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+    ...sheets.map(
+      (_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ),
+    '</Types>',
+  ].join('');
+
+  const rootRels = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+    '</Relationships>',
+  ].join('');
+
+  const workbook = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    '<sheets>',
+    ...sheets.map(
+      (sheet, i) => `<sheet name="${escapeXML(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+    ),
+    '</sheets>',
+    '</workbook>',
+  ].join('');
+
+  const workbookRels = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    ...sheets.map(
+      (_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    ),
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+    '</Relationships>',
+  ].join('');
+
+  return createZip(
+    [
+      { name: '[Content_Types].xml', data: contentTypes },
+      { name: '_rels/.rels', data: rootRels },
+      { name: 'xl/workbook.xml', data: workbook },
+      { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+      { name: 'xl/styles.xml', data: renderStyles(currencies) },
+      ...sheetEntries,
+    ],
+    modified
+  );
+}
@@ -0,0 +1,282 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterOrders,
+  getOrderCurrencies,
+  getSavingsByKind,
+  getSpendByPeriod,
+  getStatusCounts,
+  getTopItems,
+  getTopSellers,
+  parseExportFile,
+  summarizeSpending,
+} from '../src/utils/analyticsUtils';
+import type { Order, OrderItem } from '../src/types';
+
+const usd = (amount: number): { amount: number; currency: string } => ({ amount, currency: 'USD' });
+
+const createItem = (overrides: Partial<OrderItem> = {}): OrderItem => ({
+  asin: 'B000000001',
+  title: 'USB Cable',
+  quantity: 1,
+  unitPrice: usd(1000),
+  lineTotal: usd(1000),
+  allocatedDiscount: usd(0),
+  netLineTotal: usd(1000),
+  itemUrl: '',
+  imageUrl: '',
+  seller: 'Anker',
+  fulfilledByAmazon: true,
+  product: null,
+  ...overrides,
+});
+
+const createOrder = (overrides: Partial<Order> = {}): Order =>
+  ({
+    orderId: '111-1234567-1234567',
+    orderDate: '2024-03-01',
+    orderStatus: 'Delivered',
+    totalAmount: usd(1000),
+    netAmount: usd(1000),
+    items: [createItem()],
+    promotions: [],
+    ...overrides,
+  }) as Order;
+
+describe('getOrderCurrencies', () => {
+  it('should list the most used currency first', () => {
+    expect(
+      getOrderCurrencies([
+        createOrder({ totalAmount: { amount: 100, currency: 'EUR' } }),
+        createOrder(),
+        createOrder(),
+      ])
+    ).toEqual(['USD', 'EUR']);
+  });
+});
+
+describe('filterOrders', () => {
+  const orders = [
+    createOrder({ orderId: '1', orderDate: '2024-01-15' }),
+    createOrder({ orderId: '2', orderDate: '2024-03-01' }),
+    createOrder({ orderId: '3', orderDate: '' }),
+    createOrder({ orderId: '4', totalAmount: { amount: 100, currency: 'EUR' } }),
+  ];
+  const ids = (filtered: Order[]): string[] => filtered.map((order) => order.orderId);
+
+  it('should keep the orders of the currency', () => {
+    expect(ids(filterOrders(orders, { startDate: null, endDate: null, currency: 'USD' }))).toEqual([
+      '1',
+      '2',
+      '3',
+    ]);
+  });
+
+  it('should keep orders within the date range, including its ends', () => {
+    expect(
+      ids(filterOrders(orders, { startDate: '2024-02-01', endDate: null, currency: 'USD' }))
+    ).toEqual(['2']);
+    expect(
+      ids(filterOrders(orders, { startDate: null, endDate: '2024-01-15', currency: 'USD' }))
+    ).toEqual(['1']);
+  });
+});
+
+describe('getSpendByPeriod', () => {
+  it('should sum net amounts per month and fill months without orders', () => {
+    const orders = [
+      createOrder({ orderDate: '2023-11-05', netAmount: usd(500) }),
+      createOrder({ orderDate: '2024-01-10', netAmount: usd(1000) }),
+      createOrder({ orderDate: '2024-01-20', netAmount: usd(250) }),
+      createOrder({ orderDate: '' }),
+    ];
+    expect(getSpendByPeriod(orders, 'USD', 'month')).toEqual([
+      { period: '2023-11', spend: usd(500), orderCount: 1 },
+      { period: '2023-12', spend: usd(0), orderCount: 0 },
+      { period: '2024-01', spend: usd(1250), orderCount: 2 },
+    ]);
+    expect(getSpendByPeriod(orders, 'USD', 'year')).toEqual([
+      { period: '2023', spend: usd(500), orderCount: 1 },
+      { period: '2024', spend: usd(1250), orderCount: 2 },
+    ]);
+  });
+
+  it('should return no periods without dated orders', () => {
+    expect(getSpendByPeriod([createOrder({ orderDate: '' })], 'USD', 'month')).toEqual([]);
+  });
+});
+
+describe('getTopItems', () => {
+  it('should rank products by spend over all orders', () => {
+    const orders = [
+      createOrder({ items: [createItem(), createItem({ asin: 'B2', title: 'Charger' })] }),
+      createOrder({ items: [createItem({ quantity: 2, netLineTotal: usd(1800) })] }),
+    ];
+    expect(getTopItems(orders, 'USD')).toEqual([
+      { asin: 'B000000001', title: 'USB Cable', quantity: 3, spend: usd(2800) },
+      { asin: 'B2', title: 'Charger', quantity: 1, spend: usd(1000) },
+    ]);
+    expect(getTopItems(orders, 'USD', 1)).toHaveLength(1);
+  });
+
+  it('should group items without ASIN by title', () => {
+    const orders = [createOrder({ items: [createItem({ asin: '' }), createItem({ asin: '' })] })];
+    expect(getTopItems(orders, 'USD')).toEqual([
+      { asin: '', title: 'USB Cable', quantity: 2, spend: usd(2000) },
+    ]);
+  });
+});
+
+describe('getTopSellers', () => {
+  it('should rank sellers by spend and skip unknown sellers', () => {
+    const orders = [
+      createOrder({
+        items: [
+          createItem(),
+          createItem({ seller: 'Amazon', netLineTotal: usd(3000) }),
+          createItem({ seller: '' }),
+        ],
+      }),
+    ];
+    expect(getTopSellers(orders, 'USD')).toEqual([
+      { seller: 'Amazon', itemCount: 1, spend: usd(3000) },
+      { seller: 'Anker', itemCount: 1, spend: usd(1000) },
+    ]);
+  });
+});
+
+describe('getStatusCounts', () => {
+  it('should count orders per status, the most frequent first', () => {
+    expect(
+      getStatusCounts([createOrder({ orderStatus: 'Returned' }), createOrder(), createOrder()])
+    ).toEqual([
+      { status: 'Delivered', orderCount: 2 },
+      { status: 'Returned', orderCount: 1 },
+    ]);
+  });
+});
+
+describe('getSavingsByKind', () => {
+  it('should sum promotions per kind', () => {
+    const promotion = { description: '', asin: '', confidence: 1 };
+    const orders = [
+      createOrder({
+        promotions: [
+          { ...promotion, kind: 'coupon', amount: usd(200) },
+          { ...promotion, kind: 'shipping', amount: usd(499) },
+        ],
+      }),
+      createOrder({ promotions: [{ ...promotion, kind: 'coupon', amount: usd(100) }] }),
+    ];
+    expect(getSavingsByKind(orders, 'USD')).toEqual([
+      { kind: 'shipping', savings: usd(499) },
+      { kind: 'coupon', savings: usd(300) },
+    ]);
+  });
+});
+
+describe('summarizeSpending', () => {
+  it('should compute totals and average order value of the filtered orders', () => {
+    const summary = summarizeSpending(
+      [
+        createOrder({ netAmount: usd(1000) }),
+        createOrder({ netAmount: usd(2001) }),
+        createOrder({ orderDate: '2022-01-01', netAmount: usd(5000) }),
+      ],
+      { startDate: '2024-01-01', endDate: null, currency: 'USD' }
+    );
+    expect(summary.orderCount).toBe(2);
+    expect(summary.totalSpend).toEqual(usd(3001));
+    expect(summary.averageOrderValue).toEqual(usd(1501));
+    expect(summary.spendByYear).toEqual([{ period: '2024', spend: usd(3001), orderCount: 2 }]);
+  });
+
+  it('should leave out imported orders whose net amount is in another currency', () => {
+    const { orders } = parseExportFile(
+      JSON.stringify({
+        schemaVersion: '3.0.0',
+        orders: [
+          { orderId: '1', orderDate: '2024-03-01', totalAmount: usd(1000), netAmount: usd(800) },
+          {
+            orderId: '2',
+            orderDate: '2024-03-02',
+            totalAmount: usd(2000),
+            netAmount: { amount: 1500, currency: 'EUR' },
+          },
+        ],
+      })
+    );
+    const summary = summarizeSpending(orders, { startDate: null, endDate: null, currency: 'USD' });
+    expect(summary.orderCount).toBe(1);
+    expect(summary.totalSpend).toEqual(usd(800));
+    expect(summary.spendByMonth).toEqual([{ period: '2024-03', spend: usd(800), orderCount: 1 }]);
+  });
+
+  it('should report zero for no orders', () => {
+    const summary = summarizeSpending([], { startDate: null, endDate: null, currency: 'EUR' });
+    expect(summary.orderCount).toBe(0);
+    expect(summary.averageOrderValue).toEqual({ amount: 0, currency: 'EUR' });
+    expect(summary.spendByMonth).toEqual([]);
+  });
+});
+
+describe('parseExportFile', () => {
+  it('should complete orders of older exports', () => {
+    const envelope = parseExportFile(
+      JSON.stringify({
+        schemaVersion: '2.0.0',
+        orders: [
+          {
+            orderId: '1',
+            orderDate: '2024-03-01',
+            totalAmount: usd(1000),
+            items: [{ asin: 'B1', title: 'Cable', quantity: 1, lineTotal: usd(1000) }],
+            promotions: [{ description: 'Coupon', amount: usd(100) }],
+          },
+          { orderId: '2' },
+        ],
+      })
+    );
+    expect(envelope.orders).toHaveLength(1);
+    expect(envelope.orders[0]?.netAmount).toEqual(usd(1000));
+    expect(envelope.orders[0]?.items[0]?.netLineTotal).toEqual(usd(1000));
+    expect(envelope.orders[0]?.items[0]?.seller).toBe('');
+    expect(envelope.orders[0]?.promotions[0]?.kind).toBe('other');
+    expect(envelope.subscriptions).toEqual([]);
+  });
+
+  it('should accept the bare order arrays of the first exports', () => {
+    const envelope = parseExportFile(
+      JSON.stringify([
+        {
+          orderId: '1',
+          orderDate: '2024-03-01',
+          totalAmount: 45.5,
+          currency: 'EUR',
+          items: [{ asin: 'B1', title: 'Cable', quantity: 2, price: 12.99, discount: 0 }],
+          orderStatus: 'Delivered',
+          promotions: [{ description: 'Coupon', amount: 2.5 }],
+          totalSavings: 2.5,
+        },
+      ])
+    );
+    const eur = (amount: number): { amount: number; currency: string } => ({
+      amount,
+      currency: 'EUR',
+    });
+    expect(envelope.orders).toHaveLength(1);
+    expect(envelope.orders[0]?.totalAmount).toEqual(eur(4550));
+    expect(envelope.orders[0]?.netAmount).toEqual(eur(4550));
+    expect(envelope.orders[0]?.items[0]?.lineTotal).toEqual(eur(2598));
+    expect(envelope.orders[0]?.items[0]?.netLineTotal).toEqual(eur(2598));
+    expect(envelope.orders[0]?.promotions[0]).toMatchObject({ amount: eur(250), kind: 'other' });
+    expect(envelope.marketplace).toBe('');
+    expect(parseExportFile('[]').orders).toEqual([]);
+  });
+
+  it('should reject files that are not exports', () => {
+    expect(() => parseExportFile('{}')).toThrow('Not an order export');
+    expect(() => parseExportFile('"orders"')).toThrow('Not an order export');
+    expect(() => parseExportFile('null')).toThrow('Not an order export');
+    expect(() => parseExportFile('not json')).toThrow();
+  });
+});
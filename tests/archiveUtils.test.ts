@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildArchiveIndex,
+  createOrderArchive,
+  getArchiveImagePath,
+  getImageExtension,
+} from '../src/utils/archiveUtils';
+import type { Order } from '../src/types';
+
+/**
+ * Read stored entries back from a ZIP archive via its local file headers
+ */
+const readZip = (zip: Uint8Array): Map<string, Uint8Array> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const dataStart = offset + 30 + nameLength;
+    entries.set(name, zip.subarray(dataStart, dataStart + size));
+    offset = dataStart + size;
+  }
+  return entries;
+};
+
+const createOrder = (overrides: Partial<Order> = {}): Order => ({
+  orderId: '302-1234567-1234567',
+  orderDate: '2024-03-15',
+  orderType: 'physical',
+  totalAmount: { amount: 2599, currency: 'EUR' },
+  netAmount: { amount: 2599, currency: 'EUR' },
+  items: [
+    {
+      title: 'USB Cable <2m>',
+      asin: 'B000000001',
+      quantity: 1,
+      unitPrice: { amount: 2599, currency: 'EUR' },
+      lineTotal: { amount: 2599, currency: 'EUR' },
+      allocatedDiscount: { amount: 0, currency: 'EUR' },
+      netLineTotal: { amount: 2599, currency: 'EUR' },
+      itemUrl: 'https://amazon.de/dp/B000000001',
+      imageUrl: 'https://m.media-amazon.com/images/I/71abc.jpg',
+      seller: 'Anker Direct',
+      fulfilledByAmazon: true,
+      product: null,
+    },
+  ],
+  orderStatus: 'Delivered',
+  detailsUrl: 'https://amazon.de/order-details/302',
+  promotions: [],
+  totalSavings: { amount: 0, currency: 'EUR' },
+  costBreakdown: null,
+  payments: null,
+  shipments: [],
+  refunds: [],
+  subscribeAndSave: false,
+  detailsStatus: 'enriched',
+  ...overrides,
+});
+
+describe('getImageExtension', () => {
+  it('should take the extension of the URL', () => {
+    expect(getImageExtension('https://m.media-amazon.com/images/I/71abc._SL160_.png')).toBe('png');
+    expect(getImageExtension('https://example.com/a.JPEG?size=2')).toBe('jpg');
+  });
+
+  it('should default to jpg', () => {
+    expect(getImageExtension('https://example.com/image')).toBe('jpg');
+  });
+});
+
+describe('getArchiveImagePath', () => {
+  it('should name images by ASIN', () => {
+    expect(getArchiveImagePath({ asin: 'B000000001', extension: 'png' })).toBe(
+      'images/B000000001.png'
+    );
+  });
+});
+
+describe('buildArchiveIndex', () => {
+  it('should list orders newest first with escaped texts', () => {
+    const html = buildArchiveIndex(
+      [createOrder({ orderId: '302-1', orderDate: '2023-01-02' }), createOrder()],
+      new Map()
+    );
+    expect(html.indexOf('302-1234567-1234567')).toBeLessThan(html.indexOf('302-1<'));
+    expect(html).toContain('USB Cable &lt;2m&gt;');
+    expect(html).not.toContain('<2m>');
+    expect(html).toContain('<p class="meta">2 orders</p>');
+  });
+
+  it('should show archived images and placeholders', () => {
+    const html = buildArchiveIndex(
+      [createOrder()],
+      new Map([['B000000001', 'images/B000000001.jpg']])
+    );
+    expect(html).toContain('<img src="images/B000000001.jpg"');
+    expect(buildArchiveIndex([createOrder()], new Map())).toContain('class="no-image"');
+  });
+
+  it('should show the net amount of refunded orders', () => {
+    const html = buildArchiveIndex(
+      [createOrder({ netAmount: { amount: 1000, currency: 'EUR' } })],
+      new Map()
+    );
+    expect(html).toContain('(€10.00 net)');
+  });
+
+  it('should make orders searchable by item title', () => {
+    const html = buildArchiveIndex([createOrder()], new Map());
+    expect(html).toContain(
+      'data-search="302-1234567-1234567 2024-03-15 delivered usb cable &lt;2m&gt;'
+    );
+  });
+});
+
+describe('createOrderArchive', () => {
+  it('should bundle the page, the export data and the images', () => {
+    const image = new Uint8Array([0xff, 0xd8, 0xff]);
+    const entries = readZip(
+      createOrderArchive([createOrder()], { json: '{"orders":[]}', csv: 'Order ID\n' }, [
+        { asin: 'B000000001', extension: 'jpg', data: image },
+      ])
+    );
+    const decoder = new TextDecoder();
+
+    expect([...entries.keys()]).toEqual([
+      'index.html',
+      'orders.json',
+      'orders.csv',
+      'images/B000000001.jpg',
+    ]);
+    expect(decoder.decode(entries.get('index.html'))).toContain('images/B000000001.jpg');
+    expect(decoder.decode(entries.get('orders.json'))).toBe('{"orders":[]}');
+    expect(entries.get('images/B000000001.jpg')).toEqual(image);
+  });
+});
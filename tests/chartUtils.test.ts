@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildBarChart, buildColumnChart } from '../src/utils/chartUtils';
+
+const bars = [
+  { label: '2024-01', value: 1000, valueLabel: '$10.00' },
+  { label: '2024-02', value: 0, valueLabel: '$0.00' },
+  { label: '2024-03', value: 500, valueLabel: '$5.00' },
+];
+
+describe('buildColumnChart', () => {
+  it('should build a standalone SVG with one column per bar', () => {
+    const svg = buildColumnChart('Spend per month', bars);
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg.endsWith('</svg>')).toBe(true);
+    expect(svg).toContain('>Spend per month</text>');
+    expect(svg.match(/<rect [^>]*fill="#ff9900"/g)).toHaveLength(3);
+    expect(svg).toContain('<title>2024-03: $5.00</title>');
+  });
+
+  it('should scale the highest column to the plot height', () => {
+    const svg = buildColumnChart('Spend', bars);
+    const heights = [...svg.matchAll(/height="([\d.]+)" fill="#ff9900"/g)].map((m) => Number(m[1]));
+    expect(heights[0]).toBeGreaterThan(0);
+    expect(heights[1]).toBe(0);
+    expect(heights[2]).toBeCloseTo((heights[0] || 0) / 2, 0);
+    expect(svg).toContain('>$10.00</text>');
+  });
+
+  it('should thin out labels of narrow columns', () => {
+    const many = Array.from({ length: 60 }, (_, index) => ({
+      label: `m${index}`,
+      value: index,
+      valueLabel: String(index),
+    }));
+    const labels = buildColumnChart('Spend', many).match(/>m\d+<\/text>/g) || [];
+    expect(labels.length).toBeGreaterThan(0);
+    expect(labels.length).toBeLessThan(60);
+  });
+});
+
+describe('buildBarChart', () => {
+  it('should list a label and value per bar', () => {
+    const svg = buildBarChart('Top sellers', [
+      { label: 'Anker', value: 3000, valueLabel: '$30.00' },
+      { label: 'Amazon', value: 1000, valueLabel: '$10.00' },
+    ]);
+    expect(svg).toContain('>Anker</text>');
+    expect(svg).toContain('>$30.00</text>');
+    expect(svg).toContain('height="108"');
+  });
+
+  it('should escape and shorten labels', () => {
+    const svg = buildBarChart('A & B', [
+      { label: `<b>${'x'.repeat(50)}`, value: 1, valueLabel: '1' },
+    ]);
+    expect(svg).toContain('>A &amp; B</text>');
+    expect(svg).not.toContain('<b>');
+    expect(svg).toContain('…</text>');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEmptyCostBreakdown,
+  extractTaxRate,
+  formatTaxSummary,
+  matchCostLabel,
+  parseCostBreakdown,
+} from '../src/utils/costBreakdownUtils';
+import { getSiteProfile } from '../src/utils/siteProfileUtils';
+
+describe('matchCostLabel', () => {
+  it('should match lines by their label', () => {
+    expect(matchCostLabel('Item(s) Subtotal: $45.00')).toBe('subtotal');
+    expect(matchCostLabel('Shipping & Handling: $5.99')).toBe('shipping');
+    expect(matchCostLabel('Grand Total: $51.00')).toBe('grandTotal');
+  });
+
+  it('should prefer the longest label', () => {
+    expect(matchCostLabel('Total before tax: $46.00')).toBe('totalBeforeTax');
+    expect(matchCostLabel('Summe ohne MwSt.: 40,34 €')).toBe('totalBeforeTax');
+    expect(matchCostLabel('Summe: 48,00 €')).toBe('grandTotal');
+  });
+
+  it('should only match labels at the start of the line', () => {
+    expect(matchCostLabel('Subtotal: $45.00')).toBe('subtotal');
+    expect(matchCostLabel('Payment method: Visa')).toBeNull();
+  });
+});
+
+describe('extractTaxRate', () => {
+  it('should extract percentages', () => {
+    expect(extractTaxRate('MwSt. (19%): 7,66 €')).toBe(19);
+    expect(extractTaxRate('TVA 5,5 %')).toBe(5.5);
+  });
+
+  it('should return null without percentage', () => {
+    expect(extractTaxRate('Estimated tax to be collected: $3.68')).toBeNull();
+  });
+});
+
+describe('parseCostBreakdown', () => {
+  it('should parse a US order summary', () => {
+    const breakdown = parseCostBreakdown(
+      [
+        'Item(s) Subtotal: $45.00',
+        'Shipping & Handling: $5.99',
+        'Free Shipping: -$5.99',
+        'Total before tax: $45.00',
+        'Estimated tax to be collected: $3.68',
+        'Grand Total: $48.68',
+      ],
+      'USD',
+      getSiteProfile('amazon.com')
+    );
+    expect(breakdown).toEqual({
+      ...createEmptyCostBreakdown('USD'),
+      subtotal: { amount: 4500, currency: 'USD' },
+      shipping: { amount: 599, currency: 'USD' },
+      promotions: { amount: 599, currency: 'USD' },
+      totalBeforeTax: { amount: 4500, currency: 'USD' },
+      tax: { amount: 368, currency: 'USD' },
+      grandTotal: { amount: 4868, currency: 'USD' },
+    });
+  });
+
+  it('should parse VAT with its rate', () => {
+    const breakdown = parseCostBreakdown(
+      [
+        'Zwischensumme: 45,00 €',
+        'Verpackung & Versand: 3,00 €',
+        'Summe ohne MwSt.: 40,34 €',
+        'MwSt. (19%): 7,66 €',
+        'Gesamtsumme: 48,00 €',
+      ],
+      'EUR',
+      getSiteProfile('amazon.de')
+    );
+    expect(breakdown?.tax).toEqual({ amount: 766, currency: 'EUR' });
+    expect(breakdown?.taxRate).toBe(19);
+    expect(breakdown?.grandTotal).toEqual({ amount: 4800, currency: 'EUR' });
+  });
+
+  it('should sum several tax and promotion lines', () => {
+    const breakdown = parseCostBreakdown(
+      [
+        'GST/HST: CDN$ 2.60',
+        'PST/RST/QST: CDN$ 1.40',
+        'Promotion Applied: -CDN$ 1.00',
+        'Coupon: -CDN$ 2.00',
+      ],
+      'CAD',
+      getSiteProfile('amazon.ca')
+    );
+    expect(breakdown?.tax).toEqual({ amount: 400, currency: 'CAD' });
+    expect(breakdown?.promotions).toEqual({ amount: 300, currency: 'CAD' });
+  });
+
+  it('should leave the tax rate empty for different rates', () => {
+    const breakdown = parseCostBreakdown(['MwSt. 7%: 1,00 €', 'MwSt. 19%: 2,00 €'], 'EUR');
+    expect(breakdown?.tax).toEqual({ amount: 300, currency: 'EUR' });
+    expect(breakdown?.taxRate).toBeNull();
+  });
+
+  it('should read each other charge only once', () => {
+    const breakdown = parseCostBreakdown(['Subtotal: $45.00', 'Subtotal: $45.00'], 'USD');
+    expect(breakdown?.subtotal).toEqual({ amount: 4500, currency: 'USD' });
+  });
+
+  it('should ignore lines in another currency', () => {
+    const breakdown = parseCostBreakdown(['Import Fees Deposit: £3.00', 'Total: €20.00'], 'EUR');
+    expect(breakdown?.importFees).toEqual({ amount: 0, currency: 'EUR' });
+    expect(breakdown?.grandTotal).toEqual({ amount: 2000, currency: 'EUR' });
+  });
+
+  it('should return null without recognized lines', () => {
+    expect(parseCostBreakdown(['Payment method: Visa'], 'EUR')).toBeNull();
+    expect(parseCostBreakdown([], 'EUR')).toBeNull();
+  });
+});
+
+describe('formatTaxSummary', () => {
+  it('should describe the tax with its rate', () => {
+    const breakdown = {
+      ...createEmptyCostBreakdown('EUR'),
+      tax: { amount: 766, currency: 'EUR' },
+      taxRate: 19,
+    };
+    expect(formatTaxSummary(breakdown)).toBe('Tax 7.66 EUR (19%)');
+    expect(formatTaxSummary({ ...breakdown, taxRate: null })).toBe('Tax 7.66 EUR');
+  });
+
+  it('should return an empty string without tax', () => {
+    expect(formatTaxSummary(createEmptyCostBreakdown('EUR'))).toBe('');
+    expect(formatTaxSummary(null)).toBe('');
+  });
+});
@@ -1,6 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { escapeCSVValue, formatPromotionsForCSV, convertOrdersToCSV } from '../src/utils/csvUtils';
-import type { Order } from '../src/types';
+import {
+  escapeCSVValue,
+  formatCSVNumber,
+  formatPromotionsForCSV,
+  convertOrdersToCSV,
+  normalizeCsvProfile,
+  moveCsvColumn,
+  DEFAULT_CSV_PROFILE,
+  CSV_COLUMNS,
+} from '../src/utils/csvUtils';
+import { createEmptyCostBreakdown } from '../src/utils/costBreakdownUtils';
+import type { CsvProfile, Order } from '../src/types';
 
 describe('escapeCSVValue', () => {
   it('should return simple values as-is', () => {
@@ -36,20 +46,110 @@ describe('escapeCSVValue', () => {
   it('should handle complex strings with multiple special characters', () => {
     expect(escapeCSVValue('Price: €10,99 "special"')).toBe('"Price: €10,99 ""special"""');
   });
+
+  it('should quote values containing a custom delimiter', () => {
+    expect(escapeCSVValue('a;b', ';')).toBe('"a;b"');
+    expect(escapeCSVValue('a,b', ';')).toBe('a,b');
+    expect(escapeCSVValue('a\tb', '\t')).toBe('"a\tb"');
+  });
+});
+
+describe('formatCSVNumber', () => {
+  it('should keep dot decimals by default', () => {
+    expect(formatCSVNumber(12.99)).toBe('12.99');
+  });
+
+  it('should use a comma decimal separator', () => {
+    expect(formatCSVNumber(1234.5, ',')).toBe('1234,5');
+    expect(formatCSVNumber(3, ',')).toBe('3');
+  });
+});
+
+describe('normalizeCsvProfile', () => {
+  it('should fill missing fields with defaults', () => {
+    const profile = normalizeCsvProfile({ id: 'x', name: 'X', delimiter: ';' });
+    expect(profile.delimiter).toBe(';');
+    expect(profile.decimalSeparator).toBe('.');
+    expect(profile.columns).toEqual(DEFAULT_CSV_PROFILE.columns);
+  });
+
+  it('should drop unknown and duplicate columns', () => {
+    const profile = normalizeCsvProfile({
+      columns: ['orderId', 'unknown', 'orderId', 'currency'] as CsvProfile['columns'],
+    });
+    expect(profile.columns).toEqual(['orderId', 'currency']);
+  });
+});
+
+describe('moveCsvColumn', () => {
+  it('should move a column up and down', () => {
+    expect(moveCsvColumn(['orderId', 'orderDate', 'currency'], 'currency', -1)).toEqual([
+      'orderId',
+      'currency',
+      'orderDate',
+    ]);
+    expect(moveCsvColumn(['orderId', 'orderDate'], 'orderId', 1)).toEqual(['orderDate', 'orderId']);
+  });
+
+  it('should not move past the ends', () => {
+    const columns: CsvProfile['columns'] = ['orderId', 'orderDate'];
+    expect(moveCsvColumn(columns, 'orderId', -1)).toBe(columns);
+    expect(moveCsvColumn(columns, 'orderDate', 1)).toBe(columns);
+  });
 });
 
 describe('formatPromotionsForCSV', () => {
   it('should format single promotion', () => {
-    const promotions = [{ description: 'Coupon discount', amount: 5.0 }];
-    expect(formatPromotionsForCSV(promotions)).toBe('Coupon discount: €5');
+    const promotions = [
+      {
+        description: 'Coupon discount',
+        amount: { amount: 500, currency: 'EUR' },
+        asin: '',
+        kind: 'coupon',
+        confidence: 1,
+      },
+    ];
+    expect(formatPromotionsForCSV(promotions)).toBe('Coupon discount: €5.00');
   });
 
   it('should format multiple promotions with semicolon separator', () => {
     const promotions = [
-      { description: 'Coupon', amount: 5.0 },
-      { description: 'Prime', amount: 3.5 },
+      {
+        description: 'Coupon',
+        amount: { amount: 500, currency: 'EUR' },
+        asin: '',
+        kind: 'coupon',
+        confidence: 1,
+      },
+      {
+        description: 'Prime',
+        amount: { amount: 350, currency: 'EUR' },
+        asin: '',
+        kind: 'prime',
+        confidence: 1,
+      },
     ];
-    expect(formatPromotionsForCSV(promotions)).toBe('Coupon: €5; Prime: €3.5');
+    expect(formatPromotionsForCSV(promotions)).toBe('Coupon: €5.00; Prime: €3.50');
+  });
+
+  it('should use the currency of each promotion', () => {
+    const promotions = [
+      {
+        description: 'Coupon',
+        amount: { amount: 500, currency: 'JPY' },
+        asin: '',
+        kind: 'coupon',
+        confidence: 1,
+      },
+      {
+        description: 'Savings',
+        amount: { amount: 250, currency: 'CAD' },
+        asin: '',
+        kind: 'other',
+        confidence: 1,
+      },
+    ];
+    expect(formatPromotionsForCSV(promotions)).toBe('Coupon: ¥500; Savings: CA$2.50');
   });
 
   it('should return empty string for no promotions', () => {
@@ -61,13 +161,20 @@ describe('convertOrdersToCSV', () => {
   const createOrder = (overrides: Partial<Order> = {}): Order => ({
     orderId: '123-4567890-1234567',
     orderDate: '2024-01-15',
-    totalAmount: 99.99,
-    currency: 'EUR',
+    orderType: 'physical',
+    totalAmount: { amount: 9999, currency: 'EUR' },
+    netAmount: { amount: 9999, currency: 'EUR' },
     items: [],
     orderStatus: 'Delivered',
     detailsUrl: 'https://amazon.de/order-details/123',
     promotions: [],
-    totalSavings: 0,
+    totalSavings: { amount: 0, currency: 'EUR' },
+    costBreakdown: null,
+    payments: null,
+    shipments: [],
+    refunds: [],
+    subscribeAndSave: false,
+    detailsStatus: 'enriched',
     ...overrides,
   });
 
@@ -78,6 +185,28 @@ describe('convertOrdersToCSV', () => {
     expect(lines[0]).toContain('csvHeaderOrderId');
   });
 
+  it('should write the original columns first, followed by the later ones', () => {
+    const headers = convertOrdersToCSV([]).split(',');
+    expect(headers.slice(0, 14)).toEqual([
+      'csvHeaderOrderId',
+      'csvHeaderOrderDate',
+      'csvHeaderTotalAmount',
+      'csvHeaderCurrency',
+      'csvHeaderTotalSavings',
+      'csvHeaderStatus',
+      'csvHeaderItemTitle',
+      'csvHeaderItemAsin',
+      'csvHeaderItemQuantity',
+      'csvHeaderItemPrice',
+      'csvHeaderItemDiscount',
+      'csvHeaderPromotions',
+      'csvHeaderItemUrl',
+      'csvHeaderDetailsUrl',
+    ]);
+    expect(headers).toHaveLength(Object.keys(CSV_COLUMNS).length);
+    expect(headers).toContain('csvHeaderItemImageUrl');
+  });
+
   it('should use custom header function', () => {
     const getHeader = (key: string) => key.replace('csvHeader', '');
     const csv = convertOrdersToCSV([], getHeader);
@@ -101,17 +230,29 @@ describe('convertOrdersToCSV', () => {
             title: 'Product 1',
             asin: 'B000000001',
             quantity: 1,
-            price: 29.99,
-            discount: 0,
+            unitPrice: { amount: 2999, currency: 'EUR' },
+            lineTotal: { amount: 2999, currency: 'EUR' },
+            allocatedDiscount: { amount: 0, currency: 'EUR' },
+            netLineTotal: { amount: 2999, currency: 'EUR' },
             itemUrl: 'https://amazon.de/dp/B000000001',
+            imageUrl: '',
+            seller: '',
+            fulfilledByAmazon: null,
+            product: null,
           },
           {
             title: 'Product 2',
             asin: 'B000000002',
             quantity: 2,
-            price: 15.0,
-            discount: 0,
+            unitPrice: { amount: 1500, currency: 'EUR' },
+            lineTotal: { amount: 3000, currency: 'EUR' },
+            allocatedDiscount: { amount: 0, currency: 'EUR' },
+            netLineTotal: { amount: 3000, currency: 'EUR' },
             itemUrl: 'https://amazon.de/dp/B000000002',
+            imageUrl: '',
+            seller: '',
+            fulfilledByAmazon: null,
+            product: null,
           },
         ],
       }),
@@ -126,23 +267,35 @@ describe('convertOrdersToCSV', () => {
   it('should only include savings on first item row', () => {
     const orders = [
       createOrder({
-        totalSavings: 10.0,
+        totalSavings: { amount: 1000, currency: 'EUR' },
         items: [
           {
             title: 'Product 1',
             asin: 'B000000001',
             quantity: 1,
-            price: 29.99,
-            discount: 0,
+            unitPrice: { amount: 2999, currency: 'EUR' },
+            lineTotal: { amount: 2999, currency: 'EUR' },
+            allocatedDiscount: { amount: 0, currency: 'EUR' },
+            netLineTotal: { amount: 2999, currency: 'EUR' },
             itemUrl: 'https://amazon.de/dp/B000000001',
+            imageUrl: '',
+            seller: '',
+            fulfilledByAmazon: null,
+            product: null,
           },
           {
             title: 'Product 2',
             asin: 'B000000002',
             quantity: 1,
-            price: 15.0,
-            discount: 0,
+            unitPrice: { amount: 1500, currency: 'EUR' },
+            lineTotal: { amount: 1500, currency: 'EUR' },
+            allocatedDiscount: { amount: 0, currency: 'EUR' },
+            netLineTotal: { amount: 1500, currency: 'EUR' },
             itemUrl: 'https://amazon.de/dp/B000000002',
+            imageUrl: '',
+            seller: '',
+            fulfilledByAmazon: null,
+            product: null,
           },
         ],
       }),
@@ -151,13 +304,42 @@ describe('convertOrdersToCSV', () => {
     const lines = csv.split('\n');
 
     // First item row should have savings
-    expect(lines[1]).toMatch(/,10,/);
+    expect(lines[1]).toMatch(/,10.00,/);
     // Second item row should have empty savings field
     const secondRowParts = lines[2]!.split(',');
     // totalSavings is the 5th column (index 4)
     expect(secondRowParts[4]).toBe('');
   });
 
+  it('should write the net and refunded amounts after the original columns', () => {
+    const orders = [
+      createOrder({
+        netAmount: { amount: 8700, currency: 'EUR' },
+        refunds: [
+          {
+            items: [],
+            amount: { amount: 1299, currency: 'EUR' },
+            date: '2024-01-20',
+            method: 'Visa ****1234',
+          },
+        ],
+      }),
+    ];
+    const lines = convertOrdersToCSV(orders).split('\n');
+    expect(lines[0]).toContain('csvHeaderDetailsUrl,csvHeaderNetAmount,csvHeaderRefundedAmount');
+    expect(lines[1]).toContain(',99.99,EUR,');
+    expect(lines[1]).toContain('/order-details/123,87.00,12.99,');
+  });
+
+  it('should write the order type', () => {
+    const orders = [createOrder({ orderId: 'D01-1234567-1234567', orderType: 'digital' })];
+    const [header, row] = convertOrdersToCSV(orders)
+      .split('\n')
+      .map((line) => line.split(','));
+    expect(row?.[header?.indexOf('csvHeaderStatus') ?? -1]).toBe('Delivered');
+    expect(row?.[header?.indexOf('csvHeaderOrderType') ?? -1]).toBe('digital');
+  });
+
   it('should escape product titles with special characters', () => {
     const orders = [
       createOrder({
@@ -166,9 +348,15 @@ describe('convertOrdersToCSV', () => {
             title: 'Product "with quotes", and commas',
             asin: 'B000000001',
             quantity: 1,
-            price: 29.99,
-            discount: 0,
+            unitPrice: { amount: 2999, currency: 'EUR' },
+            lineTotal: { amount: 2999, currency: 'EUR' },
+            allocatedDiscount: { amount: 0, currency: 'EUR' },
+            netLineTotal: { amount: 2999, currency: 'EUR' },
             itemUrl: 'https://amazon.de/dp/B000000001',
+            imageUrl: '',
+            seller: '',
+            fulfilledByAmazon: null,
+            product: null,
           },
         ],
       }),
@@ -176,4 +364,259 @@ describe('convertOrdersToCSV', () => {
     const csv = convertOrdersToCSV(orders);
     expect(csv).toContain('"Product ""with quotes"", and commas"');
   });
+
+  describe('with a profile', () => {
+    const orders = [
+      createOrder({
+        totalAmount: { amount: 4550, currency: 'EUR' },
+        netAmount: { amount: 4550, currency: 'EUR' },
+        totalSavings: { amount: 250, currency: 'EUR' },
+        items: [
+          {
+            title: 'Product 1',
+            asin: 'B000000001',
+            quantity: 2,
+            unitPrice: { amount: 1025, currency: 'EUR' },
+            lineTotal: { amount: 2050, currency: 'EUR' },
+            allocatedDiscount: { amount: 0, currency: 'EUR' },
+            netLineTotal: { amount: 2050, currency: 'EUR' },
+            itemUrl: 'https://amazon.de/dp/B000000001',
+            imageUrl: '',
+            seller: '',
+            fulfilledByAmazon: null,
+            product: null,
+          },
+          {
+            title: 'Product; 2',
+            asin: 'B000000002',
+            quantity: 1,
+            unitPrice: { amount: 2500, currency: 'EUR' },
+            lineTotal: { amount: 2500, currency: 'EUR' },
+            allocatedDiscount: { amount: 150, currency: 'EUR' },
+            netLineTotal: { amount: 2350, currency: 'EUR' },
+            itemUrl: 'https://amazon.de/dp/B000000002',
+            imageUrl: '',
+            seller: '',
+            fulfilledByAmazon: null,
+            product: null,
+          },
+        ],
+      }),
+    ];
+
+    const europeanProfile: CsvProfile = {
+      ...DEFAULT_CSV_PROFILE,
+      delimiter: ';',
+      decimalSeparator: ',',
+    };
+
+    it('should use the delimiter and decimal separator', () => {
+      const lines = convertOrdersToCSV(orders, undefined, europeanProfile).split('\n');
+      expect(lines[0]).toContain('csvHeaderOrderId;csvHeaderOrderDate');
+      expect(lines[1]).toContain(';45,50;EUR;2,50;');
+      expect(lines[2]).toContain('"Product; 2"');
+    });
+
+    it('should add a BOM and CRLF line endings', () => {
+      const csv = convertOrdersToCSV(orders, undefined, {
+        ...DEFAULT_CSV_PROFILE,
+        includeBom: true,
+        lineEnding: 'crlf',
+      });
+      expect(csv.charCodeAt(0)).toBe(0xfeff);
+      expect(csv.split('\r\n').length).toBe(3);
+    });
+
+    it('should write only the selected columns in order', () => {
+      const csv = convertOrdersToCSV(orders, undefined, {
+        ...DEFAULT_CSV_PROFILE,
+        columns: ['itemAsin', 'orderId'],
+      });
+      expect(csv.split('\n')).toEqual([
+        'csvHeaderItemAsin,csvHeaderOrderId',
+        'B000000001,123-4567890-1234567',
+        'B000000002,123-4567890-1234567',
+      ]);
+    });
+
+    it('should write one row per order and combine item fields', () => {
+      const csv = convertOrdersToCSV(orders, undefined, {
+        ...DEFAULT_CSV_PROFILE,
+        rowMode: 'order',
+        columns: ['orderId', 'itemTitle', 'itemQuantity', 'itemPrice', 'itemDiscount'],
+      });
+      expect(csv.split('\n')).toEqual([
+        'csvHeaderOrderId,csvHeaderItemTitle,csvHeaderItemQuantity,csvHeaderItemPrice,csvHeaderItemDiscount',
+        '123-4567890-1234567,Product 1; Product; 2,3,45.50,1.50',
+      ]);
+    });
+
+    it('should keep savings on every row in order mode', () => {
+      const csv = convertOrdersToCSV(orders, undefined, {
+        ...DEFAULT_CSV_PROFILE,
+        rowMode: 'order',
+        columns: ['totalSavings'],
+      });
+      expect(csv.split('\n')[1]).toBe('2.50');
+    });
+
+    it('should write the order summary on the first row of each order', () => {
+      const costBreakdown = {
+        ...createEmptyCostBreakdown('EUR'),
+        subtotal: { amount: 4800, currency: 'EUR' },
+        tax: { amount: 727, currency: 'EUR' },
+        taxRate: 19,
+        grandTotal: { amount: 4550, currency: 'EUR' },
+      };
+      const csv = convertOrdersToCSV([{ ...orders[0]!, costBreakdown }], undefined, {
+        ...DEFAULT_CSV_PROFILE,
+        columns: ['subtotal', 'tax', 'taxRate', 'grandTotal'],
+      });
+      expect(csv.split('\n')).toEqual([
+        'csvHeaderSubtotal,csvHeaderTax,csvHeaderTaxRate,csvHeaderGrandTotal',
+        '48.00,7.27,19,45.50',
+        ',,,',
+      ]);
+    });
+
+    it('should list the payment methods on the first row of each order', () => {
+      const payments = {
+        instruments: [
+          {
+            type: 'card' as const,
+            name: 'Visa',
+            lastDigits: '1234',
+            amount: { amount: 3550, currency: 'EUR' },
+          },
+          {
+            type: 'gift_card' as const,
+            name: 'Gift card',
+            lastDigits: '',
+            amount: { amount: 1000, currency: 'EUR' },
+          },
+        ],
+        transactions: [],
+      };
+      const csv = convertOrdersToCSV([{ ...orders[0]!, payments }], undefined, {
+        ...DEFAULT_CSV_PROFILE,
+        columns: ['paymentMethods'],
+      });
+      expect(csv.split('\n')).toEqual(['csvHeaderPaymentMethods', 'Visa ****1234; Gift card', '']);
+    });
+
+    it('should leave the order summary empty without details', () => {
+      const csv = convertOrdersToCSV(orders, undefined, {
+        ...DEFAULT_CSV_PROFILE,
+        rowMode: 'order',
+        columns: ['tax', 'taxRate'],
+      });
+      expect(csv.split('\n')[1]).toBe(',');
+    });
+
+    it('should sum item prices exactly in order mode', () => {
+      const item = orders[0]!.items[0]!;
+      const csv = convertOrdersToCSV(
+        [
+          createOrder({
+            items: [
+              { ...item, quantity: 1, lineTotal: { amount: 10, currency: 'EUR' } },
+              { ...item, quantity: 2, lineTotal: { amount: 20, currency: 'EUR' } },
+            ],
+          }),
+        ],
+        undefined,
+        { ...DEFAULT_CSV_PROFILE, rowMode: 'order', columns: ['itemPrice'] }
+      );
+      expect(csv.split('\n')[1]).toBe('0.30');
+    });
+
+    it('should sum only items in the order currency in order mode', () => {
+      const item = orders[0]!.items[0]!;
+      const usd = (amount: number): { amount: number; currency: string } => ({
+        amount,
+        currency: 'USD',
+      });
+      const csv = convertOrdersToCSV(
+        [
+          createOrder({
+            items: [
+              { ...item, lineTotal: { amount: 1000, currency: 'EUR' } },
+              {
+                ...item,
+                unitPrice: usd(2500),
+                lineTotal: usd(2500),
+                allocatedDiscount: usd(0),
+                netLineTotal: usd(2500),
+              },
+            ],
+          }),
+        ],
+        undefined,
+        { ...DEFAULT_CSV_PROFILE, rowMode: 'order', columns: ['itemPrice', 'itemLineTotal'] }
+      );
+      expect(csv.split('\n')[1]).toBe('10.00,10.00');
+    });
+
+    it('should write line totals, allocated discounts and net totals', () => {
+      const item = orders[0]!.items[0]!;
+      const csv = convertOrdersToCSV(
+        [
+          createOrder({
+            items: [
+              {
+                ...item,
+                quantity: 2,
+                unitPrice: { amount: 1000, currency: 'EUR' },
+                lineTotal: { amount: 2000, currency: 'EUR' },
+                allocatedDiscount: { amount: 150, currency: 'EUR' },
+                netLineTotal: { amount: 1850, currency: 'EUR' },
+              },
+            ],
+          }),
+        ],
+        undefined,
+        {
+          ...DEFAULT_CSV_PROFILE,
+          columns: ['itemPrice', 'itemLineTotal', 'itemDiscount', 'itemNetTotal'],
+        }
+      );
+      expect(csv.split('\n')[1]).toBe('10.00,20.00,1.50,18.50');
+    });
+
+    it('should write seller and product details', () => {
+      const item = orders[0]!.items[0]!;
+      const csv = convertOrdersToCSV(
+        [
+          createOrder({
+            items: [
+              {
+                ...item,
+                seller: 'Anker Direct',
+                fulfilledByAmazon: true,
+                product: {
+                  brand: 'Anker',
+                  category: ['Electronics', 'Cables'],
+                  isbn: '',
+                  ean: '0848061073270',
+                },
+              },
+            ],
+          }),
+        ],
+        undefined,
+        {
+          ...DEFAULT_CSV_PROFILE,
+          columns: [
+            'itemSeller',
+            'itemFulfilledByAmazon',
+            'itemBrand',
+            'itemCategory',
+            'itemIsbn',
+            'itemEan',
+          ],
+        }
+      );
+      expect(csv.split('\n')[1]).toBe('Anker Direct,yes,Anker,Electronics > Cables,,0848061073270');
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseDate, filterYearsByDateRange } from '../src/utils/dateUtils';
+import { parseDate, parseDateRelativeTo, filterYearsByDateRange } from '../src/utils/dateUtils';
 
 describe('parseDate', () => {
   describe('German date format', () => {
@@ -75,6 +75,31 @@ describe('parseDate', () => {
   });
 });
 
+describe('parseDateRelativeTo', () => {
+  it('should take the year from the reference date', () => {
+    expect(parseDateRelativeTo('Delivered 3 February', '2024-01-29')).toBe('2024-02-03');
+    expect(parseDateRelativeTo('Zugestellt am 3. Februar', '2024-01-29')).toBe('2024-02-03');
+    expect(parseDateRelativeTo('Delivered Feb 3', '2024-01-29')).toBe('2024-02-03');
+  });
+
+  it('should move dates before the reference date into the next year', () => {
+    expect(parseDateRelativeTo('Delivered January 3', '2023-12-28')).toBe('2024-01-03');
+  });
+
+  it('should keep dates with year', () => {
+    expect(parseDateRelativeTo('Delivered Feb 3, 2025', '2024-01-29')).toBe('2025-02-03');
+  });
+
+  it('should parse Japanese dates without year', () => {
+    expect(parseDateRelativeTo('1月17日', '2024-01-15')).toBe('2024-01-17');
+  });
+
+  it('should return null without date or reference date', () => {
+    expect(parseDateRelativeTo('Arriving Tuesday', '2024-01-29')).toBeNull();
+    expect(parseDateRelativeTo('Delivered 3 February', '')).toBeNull();
+  });
+});
+
 describe('filterYearsByDateRange', () => {
   const years = ['2025', '2024', '2023', '2022', '2021', '2020'];
 
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createExportRunId,
+  getCurrentExportRunKey,
+  getExportOrderChunkKeys,
+  getExportOrderIdsKey,
+  getExportOrdersKey,
+  getExportRunKey,
+  getExportRunKeys,
+  isExportRunStale,
+  pauseExportRun,
+  STALE_EXPORT_RUN_MS,
+} from '../src/utils/exportRunUtils';
+import type { ExportState } from '../src/types';
+
+const createMockState = (overrides: Partial<ExportState> = {}): ExportState => ({
+  runId: 'run-1',
+  inProgress: true,
+  paused: false,
+  updatedAt: '2025-01-15T10:00:00.000Z',
+  format: 'json',
+  startDate: null,
+  endDate: null,
+  exportAll: true,
+  yearsToProcess: ['2025', '2024'],
+  currentYearIndex: 0,
+  currentStartIndex: 0,
+  orderCount: 0,
+  orderChunkCount: 0,
+  baseUrl: 'https://www.amazon.de/your-orders/orders',
+  incremental: false,
+  marketplace: 'amazon.de',
+  ...overrides,
+});
+
+describe('createExportRunId', () => {
+  it('should create different IDs for runs started at the same time', () => {
+    const now = new Date('2025-01-15T10:00:00Z');
+    expect(createExportRunId(now)).not.toBe(createExportRunId(now));
+  });
+
+  it('should start with the timestamp', () => {
+    const now = new Date('2025-01-15T10:00:00Z');
+    expect(createExportRunId(now).startsWith(`${now.getTime().toString(36)}-`)).toBe(true);
+  });
+});
+
+describe('storage keys', () => {
+  it('should build the current run key per marketplace', () => {
+    expect(getCurrentExportRunKey('amazon.de')).toBe('currentExportRun:amazon.de');
+  });
+
+  it('should build run and order chunk keys', () => {
+    expect(getExportRunKey('run-1')).toBe('exportRun:run-1');
+    expect(getExportOrdersKey('run-1', 3)).toBe('exportRun:run-1:orders:3');
+    expect(getExportOrderIdsKey('run-1', 3)).toBe('exportRun:run-1:orderIds:3');
+  });
+
+  it('should list the state and all order chunk keys of a run', () => {
+    expect(getExportRunKeys(createMockState({ orderChunkCount: 2 }))).toEqual([
+      'exportRun:run-1',
+      'exportRun:run-1:orders:0',
+      'exportRun:run-1:orderIds:0',
+      'exportRun:run-1:orders:1',
+      'exportRun:run-1:orderIds:1',
+    ]);
+  });
+});
+
+describe('getExportOrderChunkKeys', () => {
+  it('should list the order chunk keys without the ID chunks', () => {
+    expect(getExportOrderChunkKeys('run-1', 2)).toEqual([
+      'exportRun:run-1:orders:0',
+      'exportRun:run-1:orders:1',
+    ]);
+    expect(getExportOrderChunkKeys('run-1', 0)).toEqual([]);
+  });
+});
+
+describe('isExportRunStale', () => {
+  const updatedAt = new Date('2025-01-15T10:00:00Z');
+
+  it('should not consider recently saved runs stale', () => {
+    const now = new Date(updatedAt.getTime() + 1000);
+    expect(isExportRunStale(createMockState(), now)).toBe(false);
+  });
+
+  it('should consider runs without recent saves stale', () => {
+    const now = new Date(updatedAt.getTime() + STALE_EXPORT_RUN_MS + 1);
+    expect(isExportRunStale(createMockState(), now)).toBe(true);
+  });
+
+  it('should never consider paused or finished runs stale', () => {
+    const now = new Date(updatedAt.getTime() + STALE_EXPORT_RUN_MS * 10);
+    expect(isExportRunStale(createMockState({ paused: true }), now)).toBe(false);
+    expect(isExportRunStale(createMockState({ inProgress: false }), now)).toBe(false);
+  });
+
+  it('should consider runs with an invalid timestamp stale', () => {
+    expect(isExportRunStale(createMockState({ updatedAt: '' }))).toBe(true);
+  });
+});
+
+describe('pauseExportRun', () => {
+  it('should pause the run and report it as resumable, not as failed', () => {
+    const state = createMockState();
+    expect(pauseExportRun(state, 40, 'Failed to load')).toEqual({
+      percent: 40,
+      message: 'Failed to load',
+      paused: true,
+    });
+    expect(state.paused).toBe(true);
+    expect(isExportRunStale(state)).toBe(false);
+  });
+});
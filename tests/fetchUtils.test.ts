@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createFetchScheduler,
+  getBackoffDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+} from '../src/utils/fetchUtils';
+
+/**
+ * Fetch stub answering with the given statuses in order (null = network error)
+ */
+const createFetchStub = (
+  statuses: (number | null)[],
+  headers: Record<string, string> = {}
+): { fetch: (url: string) => Promise<Response>; calls: string[] } => {
+  const calls: string[] = [];
+  let index = 0;
+  return {
+    calls,
+    fetch: async (url: string): Promise<Response> => {
+      calls.push(url);
+      const status = statuses[Math.min(index++, statuses.length - 1)];
+      if (status === null || status === undefined) throw new TypeError('Failed to fetch');
+      return new Response('ok', { status, headers });
+    },
+  };
+};
+
+/**
+ * Sleep stub recording requested delays without waiting
+ */
+const createSleepStub = (): { sleep: (ms: number) => Promise<void>; delays: number[] } => {
+  const delays: number[] = [];
+  return {
+    delays,
+    sleep: async (ms: number): Promise<void> => {
+      delays.push(ms);
+    },
+  };
+};
+
+describe('isRetryableStatus', () => {
+  it('should retry rate limiting and server errors', () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+  });
+
+  it('should not retry client errors', () => {
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('should parse HTTP dates relative to now', () => {
+    const now = new Date('2025-01-15T10:00:00Z');
+    expect(parseRetryAfter('Wed, 15 Jan 2025 10:00:05 GMT', now)).toBe(5000);
+  });
+
+  it('should return null for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('should double the delay for each attempt', () => {
+    expect(getBackoffDelay(0, 1000)).toBe(1000);
+    expect(getBackoffDelay(1, 1000)).toBe(2000);
+    expect(getBackoffDelay(3, 1000)).toBe(8000);
+  });
+});
+
+describe('createFetchScheduler', () => {
+  it('should return successful responses', async () => {
+    const stub = createFetchStub([200]);
+    const { sleep } = createSleepStub();
+    const scheduler = createFetchScheduler({}, { fetch: stub.fetch, sleep });
+
+    const response = await scheduler.fetch('https://amazon.de/a');
+    expect(response.status).toBe(200);
+    expect(stub.calls).toEqual(['https://amazon.de/a']);
+  });
+
+  it('should retry server errors with exponential backoff', async () => {
+    const stub = createFetchStub([503, 500, 200]);
+    const { sleep, delays } = createSleepStub();
+    const scheduler = createFetchScheduler(
+      { baseBackoffMs: 1000, minDelayMs: 0 },
+      { fetch: stub.fetch, sleep }
+    );
+
+    const response = await scheduler.fetch('https://amazon.de/a');
+    expect(response.status).toBe(200);
+    expect(stub.calls).toHaveLength(3);
+    expect(delays).toContain(1000);
+    expect(delays).toContain(2000);
+  });
+
+  it('should retry network errors', async () => {
+    const stub = createFetchStub([null, 200]);
+    const { sleep } = createSleepStub();
+    const scheduler = createFetchScheduler({}, { fetch: stub.fetch, sleep });
+
+    const response = await scheduler.fetch('https://amazon.de/a');
+    expect(response.status).toBe(200);
+    expect(stub.calls).toHaveLength(2);
+  });
+
+  it('should honor Retry-After when it is longer than the backoff', async () => {
+    const stub = createFetchStub([429, 200], { 'Retry-After': '10' });
+    const { sleep, delays } = createSleepStub();
+    const scheduler = createFetchScheduler({ baseBackoffMs: 1000 }, { fetch: stub.fetch, sleep });
+
+    await scheduler.fetch('https://amazon.de/a');
+    expect(delays).toContain(10000);
+  });
+
+  it('should give up after the maximum number of retries', async () => {
+    const stub = createFetchStub([500]);
+    const { sleep } = createSleepStub();
+    const scheduler = createFetchScheduler({ maxRetries: 2 }, { fetch: stub.fetch, sleep });
+
+    await expect(scheduler.fetch('https://amazon.de/a')).rejects.toThrow('HTTP 500');
+    expect(stub.calls).toHaveLength(3);
+  });
+
+  it('should not start or retry aborted requests', async () => {
+    const stub = createFetchStub([null]);
+    const { sleep } = createSleepStub();
+    const scheduler = createFetchScheduler({}, { fetch: stub.fetch, sleep });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      scheduler.fetch('https://amazon.de/a', { signal: controller.signal })
+    ).rejects.toThrow('Request aborted');
+    expect(stub.calls).toHaveLength(0);
+  });
+
+  it('should not retry client errors', async () => {
+    const stub = createFetchStub([404]);
+    const { sleep } = createSleepStub();
+    const scheduler = createFetchScheduler({}, { fetch: stub.fetch, sleep });
+
+    await expect(scheduler.fetch('https://amazon.de/a')).rejects.toThrow('HTTP 404');
+    expect(stub.calls).toHaveLength(1);
+  });
+
+  it('should slow down when throttled and speed up again on success', async () => {
+    const stub = createFetchStub([429, 200, 200, 200]);
+    const { sleep } = createSleepStub();
+    const scheduler = createFetchScheduler(
+      { minDelayMs: 100, maxDelayMs: 5000 },
+      { fetch: stub.fetch, sleep }
+    );
+
+    await scheduler.fetch('https://amazon.de/a');
+    const throttledDelay = scheduler.getDelay();
+    expect(throttledDelay).toBeGreaterThan(100);
+
+    await scheduler.fetch('https://amazon.de/b');
+    await scheduler.fetch('https://amazon.de/c');
+    expect(scheduler.getDelay()).toBeLessThan(throttledDelay);
+    expect(scheduler.getDelay()).toBeGreaterThanOrEqual(100);
+  });
+
+  it('should not exceed the maximum delay', async () => {
+    const stub = createFetchStub([429, 429, 429, 429]);
+    const { sleep } = createSleepStub();
+    const scheduler = createFetchScheduler(
+      { minDelayMs: 100, maxDelayMs: 300, maxRetries: 3 },
+      { fetch: stub.fetch, sleep }
+    );
+
+    await expect(scheduler.fetch('https://amazon.de/a')).rejects.toThrow('HTTP 429');
+    expect(scheduler.getDelay()).toBe(300);
+  });
+
+  it('should limit the number of concurrent requests', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const release: Array<() => void> = [];
+    const fetchFn = async (): Promise<Response> => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise<void>((resolve) => release.push(resolve));
+      active--;
+      return new Response('ok', { status: 200 });
+    };
+    const { sleep } = createSleepStub();
+    const scheduler = createFetchScheduler({ concurrency: 2 }, { fetch: fetchFn, sleep });
+
+    let done = 0;
+    const requests = ['a', 'b', 'c', 'd', 'e'].map((path) =>
+      scheduler.fetch(`https://amazon.de/${path}`).then(() => done++)
+    );
+
+    // Release pending requests one by one until all are done
+    while (done < requests.length) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      release.shift()?.();
+    }
+    await Promise.all(requests);
+
+    expect(maxActive).toBe(2);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getExportHistoryKey,
+  createOrderSnapshot,
+  isOrderNewOrChanged,
+  mergeExportHistory,
+} from '../src/utils/incrementalUtils';
+import type { ExportHistory, Order } from '../src/types';
+
+const createMockOrder = (overrides: Partial<Order> = {}): Order => ({
+  orderId: '123-4567890-1234567',
+  orderDate: '2024-01-15',
+  orderType: 'physical',
+  totalAmount: { amount: 9999, currency: 'EUR' },
+  netAmount: { amount: 9999, currency: 'EUR' },
+  items: [],
+  orderStatus: 'Delivered',
+  detailsUrl: 'https://amazon.de/order-details/123',
+  promotions: [],
+  totalSavings: { amount: 0, currency: 'EUR' },
+  costBreakdown: null,
+  payments: null,
+  shipments: [],
+  refunds: [],
+  subscribeAndSave: false,
+  detailsStatus: 'enriched',
+  ...overrides,
+});
+
+describe('getExportHistoryKey', () => {
+  it('should build a key per marketplace', () => {
+    expect(getExportHistoryKey('amazon.de')).toBe('exportHistory:amazon.de');
+    expect(getExportHistoryKey('amazon.com')).not.toBe(getExportHistoryKey('amazon.de'));
+  });
+});
+
+describe('createOrderSnapshot', () => {
+  it('should keep status and total amount', () => {
+    const order = createMockOrder({
+      orderStatus: 'Shipped',
+      totalAmount: { amount: 1250, currency: 'EUR' },
+    });
+    expect(createOrderSnapshot(order)).toEqual({
+      orderStatus: 'Shipped',
+      totalAmount: { amount: 1250, currency: 'EUR' },
+    });
+  });
+});
+
+describe('isOrderNewOrChanged', () => {
+  const history: ExportHistory = {
+    '123-4567890-1234567': {
+      orderStatus: 'Delivered',
+      totalAmount: { amount: 9999, currency: 'EUR' },
+    },
+  };
+
+  it('should return true for unknown orders', () => {
+    const order = createMockOrder({ orderId: '999-9999999-9999999' });
+    expect(isOrderNewOrChanged(order, history)).toBe(true);
+  });
+
+  it('should return false for unchanged known orders', () => {
+    expect(isOrderNewOrChanged(createMockOrder(), history)).toBe(false);
+  });
+
+  it('should return true when the status changed', () => {
+    const order = createMockOrder({ orderStatus: 'Refunded' });
+    expect(isOrderNewOrChanged(order, history)).toBe(true);
+  });
+
+  it('should return true when the total changed', () => {
+    const order = createMockOrder({ totalAmount: { amount: 8999, currency: 'EUR' } });
+    expect(isOrderNewOrChanged(order, history)).toBe(true);
+  });
+
+  it('should return true for every order with an empty history', () => {
+    expect(isOrderNewOrChanged(createMockOrder(), {})).toBe(true);
+  });
+});
+
+describe('mergeExportHistory', () => {
+  it('should add new orders and update existing ones', () => {
+    const history: ExportHistory = {
+      '123-4567890-1234567': {
+        orderStatus: 'Shipped',
+        totalAmount: { amount: 9999, currency: 'EUR' },
+      },
+      '111-1111111-1111111': {
+        orderStatus: 'Delivered',
+        totalAmount: { amount: 500, currency: 'EUR' },
+      },
+    };
+    const merged = mergeExportHistory(history, [
+      createMockOrder(),
+      createMockOrder({
+        orderId: '222-2222222-2222222',
+        totalAmount: { amount: 2000, currency: 'EUR' },
+      }),
+    ]);
+
+    expect(merged['123-4567890-1234567']).toEqual({
+      orderStatus: 'Delivered',
+      totalAmount: { amount: 9999, currency: 'EUR' },
+    });
+    expect(merged['111-1111111-1111111']).toEqual({
+      orderStatus: 'Delivered',
+      totalAmount: { amount: 500, currency: 'EUR' },
+    });
+    expect(merged['222-2222222-2222222']).toEqual({
+      orderStatus: 'Delivered',
+      totalAmount: { amount: 2000, currency: 'EUR' },
+    });
+  });
+
+  it('should not modify the original history', () => {
+    const history: ExportHistory = {};
+    mergeExportHistory(history, [createMockOrder()]);
+    expect(history).toEqual({});
+  });
+
+  it('should skip orders without an ID', () => {
+    expect(mergeExportHistory({}, [createMockOrder({ orderId: '' })])).toEqual({});
+  });
+});
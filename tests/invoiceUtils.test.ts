@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildInvoiceFileName,
+  classifyInvoiceUrl,
+  extractPopoverUrl,
+  getInvoiceFileExtension,
+  groupInvoiceUrls,
+  summarizeOrderIds,
+} from '../src/utils/invoiceUtils';
+
+describe('classifyInvoiceUrl', () => {
+  it('should recognize invoice documents', () => {
+    expect(classifyInvoiceUrl('/documents/download/a1b2c3/invoice.pdf')).toBe('document');
+    expect(classifyInvoiceUrl('https://www.amazon.de/files/Rechnung.PDF')).toBe('document');
+  });
+
+  it('should recognize invoice popovers', () => {
+    expect(
+      classifyInvoiceUrl('/gp/shared-cs/ajax/invoice/invoice.html?orderId=302-1234567-1234567')
+    ).toBe('popover');
+    expect(classifyInvoiceUrl('/your-orders/invoice/popover?orderId=302')).toBe('popover');
+  });
+
+  it('should recognize printable order summaries', () => {
+    expect(classifyInvoiceUrl('/gp/css/summary/print.html?orderID=112-1234567-1234567')).toBe(
+      'summary'
+    );
+    expect(classifyInvoiceUrl('/your-orders/invoice?orderID=112-1234567-1234567')).toBe('summary');
+  });
+
+  it('should ignore other links', () => {
+    expect(classifyInvoiceUrl('/gp/your-account/order-details?orderID=302')).toBeNull();
+    expect(classifyInvoiceUrl('/gp/help/customer/display.html?nodeId=invoice')).toBeNull();
+  });
+});
+
+describe('extractPopoverUrl', () => {
+  it('should read the URL of popover options', () => {
+    expect(extractPopoverUrl('{"url":"/gp/shared-cs/ajax/invoice/invoice.html?orderId=1"}')).toBe(
+      '/gp/shared-cs/ajax/invoice/invoice.html?orderId=1'
+    );
+  });
+
+  it('should return an empty string for other options', () => {
+    expect(extractPopoverUrl('{"name":"invoice"}')).toBe('');
+    expect(extractPopoverUrl('not json')).toBe('');
+  });
+});
+
+describe('groupInvoiceUrls', () => {
+  it('should resolve and group invoice links without duplicates', () => {
+    const groups = groupInvoiceUrls(
+      [
+        '/documents/download/a1/invoice.pdf',
+        '/documents/download/a1/invoice.pdf',
+        '/gp/css/summary/print.html?orderID=302',
+        '/dp/B000000001',
+        '',
+      ],
+      'https://www.amazon.de/gp/your-account/order-details?orderID=302'
+    );
+    expect(groups).toEqual({
+      document: ['https://www.amazon.de/documents/download/a1/invoice.pdf'],
+      popover: [],
+      summary: ['https://www.amazon.de/gp/css/summary/print.html?orderID=302'],
+    });
+  });
+});
+
+describe('getInvoiceFileExtension', () => {
+  it('should use the extension of the document', () => {
+    expect(getInvoiceFileExtension('/documents/download/a1/invoice.pdf')).toBe('pdf');
+    expect(getInvoiceFileExtension('/documents/download/a1/')).toBe('pdf');
+  });
+
+  it('should save order summaries as HTML', () => {
+    expect(getInvoiceFileExtension('/gp/css/summary/print.html?orderID=302')).toBe('html');
+  });
+});
+
+describe('buildInvoiceFileName', () => {
+  const order = { orderId: '302-1234567-1234567', orderDate: '2024-03-15' };
+
+  it('should sort invoices into folders by year', () => {
+    expect(buildInvoiceFileName(order)).toBe('invoices/2024/2024-03-15_302-1234567-1234567.pdf');
+  });
+
+  it('should number further invoices of an order', () => {
+    expect(buildInvoiceFileName(order, 1)).toBe(
+      'invoices/2024/2024-03-15_302-1234567-1234567_2.pdf'
+    );
+    expect(buildInvoiceFileName(order, 0, 'html')).toBe(
+      'invoices/2024/2024-03-15_302-1234567-1234567.html'
+    );
+  });
+
+  it('should handle orders without date and unusual IDs', () => {
+    expect(buildInvoiceFileName({ orderId: 'D01/123', orderDate: '' })).toBe(
+      'invoices/D01_123.pdf'
+    );
+  });
+});
+
+describe('summarizeOrderIds', () => {
+  it('should list all IDs up to the limit', () => {
+    expect(summarizeOrderIds(['a', 'b'])).toBe('a, b');
+    expect(summarizeOrderIds([])).toBe('');
+  });
+
+  it('should shorten long lists', () => {
+    expect(summarizeOrderIds(['a', 'b', 'c'], 2)).toBe('a, b, …');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allocateItemTotals,
+  createItemTotals,
+  resolveUnitPrice,
+} from '../src/utils/itemTotalsUtils';
+import type { Money, OrderItem, Promotion } from '../src/types';
+
+const eur = (amount: number): Money => ({ amount, currency: 'EUR' });
+
+const createItem = (asin: string, unitPrice: number, quantity: number = 1): OrderItem => ({
+  title: asin,
+  asin,
+  quantity,
+  ...createItemTotals(eur(unitPrice), quantity),
+  itemUrl: '',
+  imageUrl: '',
+  seller: '',
+  fulfilledByAmazon: null,
+  product: null,
+});
+
+const createPromotion = (amount: number, asin: string = ''): Promotion => ({
+  description: 'Coupon',
+  amount: eur(amount),
+  asin,
+});
+
+describe('createItemTotals', () => {
+  it('should derive the line total from the unit price', () => {
+    expect(createItemTotals(eur(1250), 3)).toEqual({
+      unitPrice: eur(1250),
+      lineTotal: eur(3750),
+      allocatedDiscount: eur(0),
+      netLineTotal: eur(3750),
+    });
+  });
+});
+
+describe('resolveUnitPrice', () => {
+  it('should take the first price by default', () => {
+    expect(resolveUnitPrice([eur(1000), eur(500)], 1)).toEqual(eur(1000));
+    expect(resolveUnitPrice([], 1)).toBeUndefined();
+  });
+
+  it('should tell the unit price from the line total', () => {
+    expect(resolveUnitPrice([eur(2000), eur(1000)], 2)).toEqual(eur(1000));
+  });
+});
+
+describe('allocateItemTotals', () => {
+  it('should assign item coupons to their item', () => {
+    const items = allocateItemTotals({
+      items: [createItem('B000000001', 2000), createItem('B000000002', 1000)],
+      promotions: [createPromotion(500, 'B000000002')],
+      totalAmount: eur(2500),
+    });
+    expect(items.map((item) => item.allocatedDiscount)).toEqual([eur(0), eur(500)]);
+    expect(items.map((item) => item.netLineTotal)).toEqual([eur(2000), eur(500)]);
+  });
+
+  it('should spread order-wide promotions in proportion to the line totals', () => {
+    const items = allocateItemTotals({
+      items: [createItem('B000000001', 1000, 2), createItem('B000000002', 1000)],
+      promotions: [createPromotion(300)],
+      totalAmount: eur(2700),
+    });
+    expect(items.map((item) => item.lineTotal)).toEqual([eur(2000), eur(1000)]);
+    expect(items.map((item) => item.allocatedDiscount)).toEqual([eur(200), eur(100)]);
+    expect(items.map((item) => item.netLineTotal)).toEqual([eur(1800), eur(900)]);
+  });
+
+  it('should spread shipping and tax so net totals add up to the order total', () => {
+    const items = allocateItemTotals({
+      items: [
+        createItem('B000000001', 999),
+        createItem('B000000002', 999),
+        createItem('B000000003', 999),
+      ],
+      promotions: [createPromotion(100)],
+      totalAmount: eur(3500),
+    });
+    const net = items.map((item) => item.netLineTotal.amount);
+    expect(net.reduce((a, b) => a + b, 0)).toBe(3500);
+    expect(items.map((item) => item.allocatedDiscount.amount)).toEqual([34, 33, 33]);
+  });
+
+  it('should spread the total evenly without item prices', () => {
+    const items = allocateItemTotals({
+      items: [createItem('B000000001', 0), createItem('B000000002', 0)],
+      promotions: [],
+      totalAmount: eur(1001),
+    });
+    expect(items.map((item) => item.netLineTotal)).toEqual([eur(501), eur(500)]);
+  });
+
+  it('should leave items and promotions in other currencies out', () => {
+    const items = allocateItemTotals({
+      items: [
+        createItem('B000000001', 1000),
+        {
+          ...createItem('B000000002', 0),
+          ...createItemTotals({ amount: 500, currency: 'USD' }, 1),
+        },
+      ],
+      promotions: [{ ...createPromotion(0), amount: { amount: 100, currency: 'USD' } }],
+      totalAmount: eur(1200),
+    });
+    expect(items[0]?.netLineTotal).toEqual(eur(1200));
+    expect(items[1]?.netLineTotal).toEqual({ amount: 500, currency: 'USD' });
+    expect(items[1]?.allocatedDiscount).toEqual({ amount: 0, currency: 'USD' });
+  });
+});
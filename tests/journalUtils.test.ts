@@ -0,0 +1,350 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_JOURNAL_OPTIONS,
+  parseAccountRules,
+  formatAccountRules,
+  resolveItemAccount,
+  formatAccountName,
+  convertOrdersToJournal,
+} from '../src/utils/journalUtils';
+import { createEmptyCostBreakdown } from '../src/utils/costBreakdownUtils';
+import type { JournalOptions, Order } from '../src/types';
+
+const createOrder = (overrides: Partial<Order> = {}): Order => ({
+  orderId: '302-1234567-1234567',
+  orderDate: '2024-03-15',
+  orderType: 'physical',
+  totalAmount: { amount: 3750, currency: 'EUR' },
+  netAmount: { amount: 3750, currency: 'EUR' },
+  items: [
+    {
+      title: 'USB Cable',
+      asin: 'B000000001',
+      quantity: 2,
+      unitPrice: { amount: 625, currency: 'EUR' },
+      lineTotal: { amount: 1250, currency: 'EUR' },
+      allocatedDiscount: { amount: 0, currency: 'EUR' },
+      netLineTotal: { amount: 1250, currency: 'EUR' },
+      itemUrl: 'https://amazon.de/dp/B000000001',
+      imageUrl: '',
+      seller: '',
+      fulfilledByAmazon: null,
+      product: null,
+    },
+    {
+      title: 'Cookbook "Pasta"',
+      asin: 'B000000002',
+      quantity: 1,
+      unitPrice: { amount: 3000, currency: 'EUR' },
+      lineTotal: { amount: 3000, currency: 'EUR' },
+      allocatedDiscount: { amount: 0, currency: 'EUR' },
+      netLineTotal: { amount: 3000, currency: 'EUR' },
+      itemUrl: 'https://amazon.de/dp/B000000002',
+      imageUrl: '',
+      seller: '',
+      fulfilledByAmazon: null,
+      product: null,
+    },
+  ],
+  orderStatus: 'Delivered',
+  detailsUrl: 'https://amazon.de/order-details/302',
+  promotions: [
+    {
+      description: 'Coupon',
+      amount: { amount: 500, currency: 'EUR' },
+      asin: '',
+      kind: 'coupon',
+      confidence: 1,
+    },
+  ],
+  totalSavings: { amount: 500, currency: 'EUR' },
+  costBreakdown: null,
+  payments: null,
+  shipments: [],
+  refunds: [],
+  subscribeAndSave: false,
+  detailsStatus: 'enriched',
+  ...overrides,
+});
+
+const options: JournalOptions = {
+  ...DEFAULT_JOURNAL_OPTIONS,
+  accountRules: [
+    { pattern: 'cable', account: 'Expenses:Electronics' },
+    { pattern: 'book', account: 'Expenses:Books' },
+  ],
+};
+
+/**
+ * Sum posting amounts per transaction, which must balance to zero
+ */
+const sumPostings = (journal: string): number[] =>
+  journal
+    .split('\n\n')
+    .filter((block) => / \* /.test(block))
+    .map((block) =>
+      block
+        .split('\n')
+        .map((line) => line.match(/ {2}(-?\d+\.\d{2}) EUR/))
+        .reduce((sum, match) => sum + (match?.[1] ? parseFloat(match[1]) : 0), 0)
+    );
+
+describe('parseAccountRules', () => {
+  it('should parse one rule per line', () => {
+    expect(parseAccountRules('cable = Expenses:Electronics\nbook=Expenses:Books')).toEqual([
+      { pattern: 'cable', account: 'Expenses:Electronics' },
+      { pattern: 'book', account: 'Expenses:Books' },
+    ]);
+  });
+
+  it('should ignore comments, empty and invalid lines', () => {
+    expect(parseAccountRules('# comment\n\nno separator\n= Expenses:Empty')).toEqual([]);
+  });
+
+  it('should split on the last equals sign', () => {
+    expect(parseAccountRules('a=b = Expenses:Misc')).toEqual([
+      { pattern: 'a=b', account: 'Expenses:Misc' },
+    ]);
+  });
+
+  it('should round-trip with formatAccountRules', () => {
+    const rules = [{ pattern: 'cable', account: 'Expenses:Electronics' }];
+    expect(parseAccountRules(formatAccountRules(rules))).toEqual(rules);
+  });
+});
+
+describe('resolveItemAccount', () => {
+  it('should use the first matching rule', () => {
+    expect(resolveItemAccount('Braided USB CABLE', options)).toBe('Expenses:Electronics');
+    expect(resolveItemAccount('Cable book', options)).toBe('Expenses:Electronics');
+  });
+
+  it('should fall back to the default expense account', () => {
+    expect(resolveItemAccount('Garden hose', options)).toBe(
+      DEFAULT_JOURNAL_OPTIONS.defaultExpenseAccount
+    );
+  });
+
+  it('should match the category of enriched items', () => {
+    const rules = { ...options, accountRules: [{ pattern: '^Books', account: 'Expenses:Books' }] };
+    expect(resolveItemAccount('Pasta', rules, 'Books > Cooking')).toBe('Expenses:Books');
+    expect(resolveItemAccount('Pasta', rules)).toBe(DEFAULT_JOURNAL_OPTIONS.defaultExpenseAccount);
+  });
+
+  it('should match invalid regular expressions as plain text', () => {
+    const rules = { ...options, accountRules: [{ pattern: 'C++ (', account: 'Expenses:Books' }] };
+    expect(resolveItemAccount('Learning C++ (3rd edition)', rules)).toBe('Expenses:Books');
+  });
+});
+
+describe('formatAccountName', () => {
+  it('should make Beancount account components valid', () => {
+    expect(formatAccountName('Expenses:home & garden:tools', options)).toBe(
+      'Expenses:Home-garden:Tools'
+    );
+  });
+
+  it('should prefix Beancount accounts without a known root', () => {
+    expect(formatAccountName('Shopping', options)).toBe('Expenses:Shopping');
+  });
+
+  it('should keep Ledger account names readable', () => {
+    const ledger: JournalOptions = { ...options, dialect: 'ledger' };
+    expect(formatAccountName('Expenses:Home & Garden', ledger)).toBe('Expenses:Home & Garden');
+  });
+});
+
+describe('convertOrdersToJournal', () => {
+  describe('Beancount', () => {
+    it('should open all used accounts before the first transaction', () => {
+      const journal = convertOrdersToJournal([createOrder()], options);
+      expect(journal).toContain('2024-03-15 open Expenses:Electronics');
+      expect(journal).toContain('2024-03-15 open Income:Discounts:Amazon');
+      expect(journal).toContain('2024-03-15 open Liabilities:CreditCard:Amazon');
+    });
+
+    it('should write a transaction with one posting per item', () => {
+      const journal = convertOrdersToJournal([createOrder()], options);
+      expect(journal).toContain('2024-03-15 * "Amazon" "Order 302-1234567-1234567"');
+      expect(journal).toContain('  order_id: "302-1234567-1234567"');
+      expect(journal).toContain('  Expenses:Electronics  12.50 EUR');
+      expect(journal).toContain('  Expenses:Books  30.00 EUR');
+      expect(journal).toContain('    description: "Cookbook \\"Pasta\\""');
+    });
+
+    it('should write seller and product details as posting metadata', () => {
+      const order = createOrder();
+      order.items[1] = {
+        ...order.items[1]!,
+        seller: 'Buchhandlung',
+        product: { brand: '', category: ['Books', 'Cooking'], isbn: '9783833812345', ean: '' },
+      };
+      const journal = convertOrdersToJournal([order], options);
+      expect(journal).toContain(
+        [
+          '  Expenses:Books  30.00 EUR',
+          '    description: "Cookbook \\"Pasta\\""',
+          '    seller: "Buchhandlung"',
+          '    category: "Books > Cooking"',
+          '    isbn: "9783833812345"',
+        ].join('\n')
+      );
+    });
+
+    it('should write promotions as discount postings', () => {
+      const journal = convertOrdersToJournal([createOrder()], options);
+      expect(journal).toContain('  Income:Discounts:Amazon  -5.00 EUR');
+      expect(journal).toContain('  Liabilities:CreditCard:Amazon  -37.50 EUR');
+    });
+
+    it('should write the order summary as metadata', () => {
+      const costBreakdown = {
+        ...createEmptyCostBreakdown('EUR'),
+        subtotal: { amount: 4250, currency: 'EUR' },
+        totalBeforeTax: { amount: 3151, currency: 'EUR' },
+        tax: { amount: 599, currency: 'EUR' },
+        taxRate: 19,
+      };
+      const journal = convertOrdersToJournal([createOrder({ costBreakdown })], options);
+      expect(journal).toContain('  subtotal: 42.50 EUR');
+      expect(journal).toContain('  total_before_tax: 31.51 EUR');
+      expect(journal).toContain('  tax: 5.99 EUR\n  tax_rate: 19');
+      expect(journal).not.toContain('shipping:');
+    });
+
+    it('should balance every transaction', () => {
+      const journal = convertOrdersToJournal(
+        [
+          createOrder(),
+          createOrder({
+            orderId: '111-1111111-1111111',
+            totalAmount: { amount: 5000, currency: 'EUR' },
+          }),
+        ],
+        options
+      );
+      sumPostings(journal).forEach((sum) => expect(sum).toBeCloseTo(0, 2));
+    });
+  });
+
+  describe('Ledger', () => {
+    const ledger: JournalOptions = { ...options, dialect: 'ledger' };
+
+    it('should write a transaction with code and metadata', () => {
+      const journal = convertOrdersToJournal([createOrder()], ledger);
+      expect(journal).toContain('2024-03-15 * (302-1234567-1234567) Amazon');
+      expect(journal).toContain('    ; order_id: 302-1234567-1234567');
+      expect(journal).toContain('    Expenses:Electronics  12.50 EUR  ; 2x USB Cable');
+    });
+
+    it('should write product details as posting comments', () => {
+      const order = createOrder();
+      order.items[0] = { ...order.items[0]!, seller: 'Anker Direct' };
+      const journal = convertOrdersToJournal([order], ledger);
+      expect(journal).toContain(
+        '    Expenses:Electronics  12.50 EUR  ; 2x USB Cable\n      ; seller: Anker Direct'
+      );
+    });
+
+    it('should write the order summary as metadata comments', () => {
+      const costBreakdown = {
+        ...createEmptyCostBreakdown('EUR'),
+        tax: { amount: 599, currency: 'EUR' },
+      };
+      const journal = convertOrdersToJournal([createOrder({ costBreakdown })], ledger);
+      expect(journal).toContain('    ; tax: 5.99 EUR');
+      expect(journal).not.toContain('tax_rate');
+    });
+
+    it('should not write open directives', () => {
+      expect(convertOrdersToJournal([createOrder()], ledger)).not.toContain(' open ');
+    });
+
+    it('should balance every transaction', () => {
+      sumPostings(convertOrdersToJournal([createOrder()], ledger)).forEach((sum) =>
+        expect(sum).toBeCloseTo(0, 2)
+      );
+    });
+  });
+
+  describe('refunds', () => {
+    const order = createOrder({
+      refunds: [
+        {
+          items: [{ asin: 'B000000002', title: 'Cookbook "Pasta"', quantity: 1 }],
+          amount: { amount: 3000, currency: 'EUR' },
+          date: '2024-03-20',
+          method: 'Visa ****1234',
+        },
+      ],
+    });
+
+    it('should write a Beancount transaction crediting the payment account', () => {
+      const journal = convertOrdersToJournal([order], options);
+      expect(journal).toContain('2024-03-20 * "Amazon" "Refund 302-1234567-1234567"');
+      expect(journal).toContain('  Expenses:Books  -30.00 EUR');
+      expect(journal).toContain('  Liabilities:CreditCard:Amazon  30.00 EUR');
+      sumPostings(journal).forEach((sum) => expect(sum).toBeCloseTo(0, 2));
+    });
+
+    it('should write a Ledger transaction with the refunded items', () => {
+      const journal = convertOrdersToJournal([order], { ...options, dialect: 'ledger' });
+      expect(journal).toContain('2024-03-20 * (302-1234567-1234567) Amazon refund');
+      expect(journal).toContain('    Expenses:Books  -30.00 EUR  ; Refund: Cookbook "Pasta"');
+    });
+
+    it('should book refunds without date on the order date', () => {
+      const undated = createOrder({
+        refunds: [{ items: [], amount: { amount: 500, currency: 'EUR' }, date: '', method: '' }],
+      });
+      const journal = convertOrdersToJournal([undated], options);
+      expect(journal).toContain('2024-03-15 * "Amazon" "Refund 302-1234567-1234567"');
+      expect(journal).toContain('  Expenses:Shopping:Amazon  -5.00 EUR');
+    });
+  });
+
+  it('should book unexplained differences to the adjustment account', () => {
+    const order = createOrder({ promotions: [], totalAmount: { amount: 4000, currency: 'EUR' } });
+    const journal = convertOrdersToJournal([order], options);
+    expect(journal).toContain('  Expenses:Shopping:Amazon:Adjustments  -2.50 EUR');
+  });
+
+  it('should leave items and promotions in other currencies to the adjustment account', () => {
+    const order = createOrder();
+    const [cable, cookbook] = order.items;
+    const usd = { amount: 3000, currency: 'USD' };
+    const journal = convertOrdersToJournal(
+      [
+        {
+          ...order,
+          items: [cable!, { ...cookbook!, unitPrice: usd, lineTotal: usd, netLineTotal: usd }],
+          promotions: [{ ...order.promotions[0]!, amount: { amount: 500, currency: 'USD' } }],
+        },
+      ],
+      options
+    );
+    expect(journal).toContain('  Expenses:Electronics  12.50 EUR');
+    expect(journal).toContain('  Expenses:Shopping:Amazon:Adjustments  25.00 EUR');
+    expect(journal).toContain('  Liabilities:CreditCard:Amazon  -37.50 EUR');
+    expect(journal).not.toContain('USD');
+  });
+
+  it('should sort transactions by date and skip undated orders', () => {
+    const journal = convertOrdersToJournal(
+      [
+        createOrder({ orderId: '222-2222222-2222222', orderDate: '2024-05-01' }),
+        createOrder({ orderId: '111-1111111-1111111', orderDate: '2024-01-01' }),
+        createOrder({ orderId: '333-3333333-3333333', orderDate: '' }),
+      ],
+      options
+    );
+    expect(journal.indexOf('111-1111111-1111111')).toBeLessThan(
+      journal.indexOf('222-2222222-2222222')
+    );
+    expect(journal).not.toContain('333-3333333-3333333');
+  });
+
+  it('should return an empty journal for no orders', () => {
+    expect(convertOrdersToJournal([], options)).toBe('\n');
+  });
+});
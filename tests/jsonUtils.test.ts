@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import Ajv from 'ajv';
+import { createGenerator } from 'ts-json-schema-generator';
+import {
+  EXPORT_SCHEMA_VERSION,
+  buildExportEnvelope,
+  convertOrdersToJSON,
+  type ExportMetadata,
+} from '../src/utils/jsonUtils';
+import type { Order } from '../src/types';
+
+const schemaPath = 'src/schema/export.schema.json';
+const schema = JSON.parse(readFileSync(schemaPath, 'utf8'));
+
+const createOrder = (overrides: Partial<Order> = {}): Order => ({
+  orderId: '302-1234567-1234567',
+  orderDate: '2024-03-15',
+  orderType: 'physical',
+  totalAmount: { amount: 4250, currency: 'EUR' },
+  netAmount: { amount: 4250, currency: 'EUR' },
+  items: [
+    {
+      title: 'USB Cable',
+      asin: 'B000000001',
+      quantity: 1,
+      unitPrice: { amount: 4250, currency: 'EUR' },
+      lineTotal: { amount: 4250, currency: 'EUR' },
+      allocatedDiscount: { amount: 0, currency: 'EUR' },
+      netLineTotal: { amount: 4250, currency: 'EUR' },
+      itemUrl: 'https://amazon.de/dp/B000000001',
+      imageUrl: '',
+      seller: '',
+      fulfilledByAmazon: null,
+      product: null,
+    },
+  ],
+  orderStatus: 'Delivered',
+  detailsUrl: 'https://amazon.de/order-details/302',
+  promotions: [
+    {
+      description: 'Coupon',
+      amount: { amount: 500, currency: 'EUR' },
+      asin: '',
+      kind: 'coupon',
+      confidence: 1,
+    },
+  ],
+  totalSavings: { amount: 500, currency: 'EUR' },
+  costBreakdown: {
+    subtotal: { amount: 4750, currency: 'EUR' },
+    shipping: { amount: 0, currency: 'EUR' },
+    promotions: { amount: 500, currency: 'EUR' },
+    totalBeforeTax: { amount: 3571, currency: 'EUR' },
+    tax: { amount: 679, currency: 'EUR' },
+    taxRate: 19,
+    giftWrap: { amount: 0, currency: 'EUR' },
+    importFees: { amount: 0, currency: 'EUR' },
+    grandTotal: { amount: 4250, currency: 'EUR' },
+  },
+  shipments: [
+    {
+      items: [{ asin: 'B000000001', title: 'USB Cable', quantity: 1 }],
+      status: 'delivered',
+      statusText: 'Delivered 18 March',
+      shippedDate: '2024-03-16',
+      deliveredDate: '2024-03-18',
+      carrier: 'DHL',
+      trackingId: '00340434161234567890',
+    },
+  ],
+  refunds: [],
+  subscribeAndSave: false,
+  payments: {
+    instruments: [
+      { type: 'card', name: 'Visa', lastDigits: '1234', amount: { amount: 3250, currency: 'EUR' } },
+      {
+        type: 'gift_card',
+        name: 'Gift card',
+        lastDigits: '',
+        amount: { amount: 1000, currency: 'EUR' },
+      },
+    ],
+    transactions: [
+      {
+        date: '2024-03-16',
+        name: 'Visa',
+        lastDigits: '1234',
+        amount: { amount: 3250, currency: 'EUR' },
+      },
+    ],
+  },
+  detailsStatus: 'enriched',
+  ...overrides,
+});
+
+const metadata: ExportMetadata = {
+  generator: { name: 'order-history-exporter-for-amazon', version: '1.0.0' },
+  exportedAt: '2024-04-01T10:00:00.000Z',
+  marketplace: 'amazon.de',
+  range: { startDate: '2024-01-01', endDate: '2024-03-31', exportAll: false },
+  formatOptions: { format: 'json', incremental: false },
+};
+
+describe('buildExportEnvelope', () => {
+  it('should wrap orders with metadata and schema version', () => {
+    const orders = [createOrder()];
+    const envelope = buildExportEnvelope(orders, metadata);
+    expect(envelope.schemaVersion).toBe(EXPORT_SCHEMA_VERSION);
+    expect(envelope.marketplace).toBe('amazon.de');
+    expect(envelope.range.startDate).toBe('2024-01-01');
+    expect(envelope.orders).toBe(orders);
+    expect(envelope.subscriptions).toEqual([]);
+  });
+});
+
+describe('convertOrdersToJSON', () => {
+  const validate = new Ajv({ allErrors: true }).compile(schema);
+
+  it('should produce output that validates against the schema', () => {
+    const json = JSON.parse(convertOrdersToJSON([createOrder(), createOrder()], metadata));
+    expect(validate(json), JSON.stringify(validate.errors)).toBe(true);
+  });
+
+  it('should validate an export with subscriptions', () => {
+    const json = JSON.parse(
+      convertOrdersToJSON([createOrder({ subscribeAndSave: true })], metadata, [
+        {
+          name: 'Prime',
+          kind: 'membership',
+          asin: '',
+          cadence: { count: 1, unit: 'month' },
+          price: { amount: 899, currency: 'EUR' },
+          nextChargeDate: '2024-05-03',
+          charges: [{ date: '2024-04-03', amount: { amount: 899, currency: 'EUR' }, orderId: '' }],
+          url: 'https://www.amazon.de/gp/primecentral',
+        },
+      ])
+    );
+    expect(validate(json), JSON.stringify(validate.errors)).toBe(true);
+    expect(json.subscriptions[0].name).toBe('Prime');
+  });
+
+  it('should validate an export without orders', () => {
+    const json = JSON.parse(convertOrdersToJSON([], metadata));
+    expect(validate(json), JSON.stringify(validate.errors)).toBe(true);
+  });
+
+  it('should reject output with a malformed order', () => {
+    const json = JSON.parse(convertOrdersToJSON([createOrder()], metadata));
+    delete json.orders[0].orderId;
+    expect(validate(json)).toBe(false);
+  });
+});
+
+describe('export schema', () => {
+  it('should be up to date with the types (run npm run schema)', () => {
+    const generated = createGenerator({
+      path: 'src/types/index.ts',
+      type: 'ExportEnvelope',
+      skipTypeCheck: true,
+    }).createSchema('ExportEnvelope');
+    expect(JSON.parse(JSON.stringify(generated))).toEqual(schema);
+  }, 30000);
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addMoney,
+  allocateMoney,
+  formatMoney,
+  formatMoneyAmount,
+  getCurrencyDecimals,
+  moneyEquals,
+  moneyFromDecimal,
+  multiplyMoney,
+  negateMoney,
+  subtractMoney,
+  sumMoney,
+  toDecimal,
+  toMinorUnits,
+  zeroMoney,
+} from '../src/utils/moneyUtils';
+
+const eur = (amount: number): { amount: number; currency: string } => ({ amount, currency: 'EUR' });
+
+describe('getCurrencyDecimals', () => {
+  it('should know currencies with 0, 2 and 3 decimal places', () => {
+    expect(getCurrencyDecimals('JPY')).toBe(0);
+    expect(getCurrencyDecimals('EUR')).toBe(2);
+    expect(getCurrencyDecimals('KWD')).toBe(3);
+  });
+
+  it('should default to 2 decimal places for unknown currencies', () => {
+    expect(getCurrencyDecimals('XYZ')).toBe(2);
+  });
+});
+
+describe('toMinorUnits', () => {
+  it('should convert decimal amounts without floating point errors', () => {
+    expect(toMinorUnits('12.99', 'EUR')).toBe(1299);
+    expect(toMinorUnits(0.29, 'EUR')).toBe(29);
+    expect(toMinorUnits(1.005, 'EUR')).toBe(101);
+    expect(toMinorUnits('1234', 'JPY')).toBe(1234);
+    expect(toMinorUnits('1.25', 'KWD')).toBe(1250);
+  });
+
+  it('should return 0 for invalid input', () => {
+    expect(toMinorUnits('abc', 'EUR')).toBe(0);
+  });
+});
+
+describe('moneyFromDecimal and toDecimal', () => {
+  it('should convert between decimal amounts and money', () => {
+    expect(moneyFromDecimal('19.90', 'EUR')).toEqual(eur(1990));
+    expect(toDecimal(eur(1990))).toBe(19.9);
+    expect(toDecimal({ amount: 1250, currency: 'KWD' })).toBe(1.25);
+  });
+});
+
+describe('arithmetic', () => {
+  it('should add and subtract exactly', () => {
+    // 0.1 + 0.2 is not 0.3 in floating point, but 10 + 20 cents is 30 cents
+    expect(addMoney(eur(10), eur(20))).toEqual(eur(30));
+    expect(subtractMoney(eur(4550), eur(4551))).toEqual(eur(-1));
+  });
+
+  it('should multiply by quantities and negate', () => {
+    expect(multiplyMoney(eur(625), 3)).toEqual(eur(1875));
+    expect(negateMoney(eur(500))).toEqual(eur(-500));
+    expect(negateMoney(eur(0))).toEqual(eur(0));
+  });
+
+  it('should sum amounts, with zero for an empty list', () => {
+    expect(sumMoney([eur(1), eur(2), eur(3)], 'EUR')).toEqual(eur(6));
+    expect(sumMoney([], 'JPY')).toEqual(zeroMoney('JPY'));
+  });
+
+  it('should compare amounts with their currency', () => {
+    expect(moneyEquals(eur(500), eur(500))).toBe(true);
+    expect(moneyEquals(eur(500), eur(501))).toBe(false);
+    expect(moneyEquals(eur(500), { amount: 500, currency: 'USD' })).toBe(false);
+  });
+
+  it('should refuse to combine different currencies', () => {
+    expect(() => addMoney(eur(1), { amount: 1, currency: 'USD' })).toThrow(
+      'Cannot combine EUR and USD amounts'
+    );
+  });
+});
+
+describe('allocateMoney', () => {
+  const eur = (amount: number) => ({ amount, currency: 'EUR' });
+
+  it('should split in proportion to the weights', () => {
+    expect(allocateMoney(eur(1000), [3000, 1000])).toEqual([eur(750), eur(250)]);
+  });
+
+  it('should give leftover units to the largest remainders', () => {
+    expect(allocateMoney(eur(100), [1, 1, 1])).toEqual([eur(34), eur(33), eur(33)]);
+    expect(allocateMoney(eur(10), [1, 2])).toEqual([eur(3), eur(7)]);
+  });
+
+  it('should split negative amounts the same way', () => {
+    expect(allocateMoney(eur(-100), [1, 1, 1])).toEqual([eur(-34), eur(-33), eur(-33)]);
+  });
+
+  it('should split evenly without positive weights', () => {
+    expect(allocateMoney(eur(5), [0, -1])).toEqual([eur(3), eur(2)]);
+    expect(allocateMoney(eur(5), [])).toEqual([]);
+  });
+});
+
+describe('formatMoneyAmount', () => {
+  it('should format with the decimal places of the currency', () => {
+    expect(formatMoneyAmount(eur(1250))).toBe('12.50');
+    expect(formatMoneyAmount(eur(5))).toBe('0.05');
+    expect(formatMoneyAmount(eur(-4250))).toBe('-42.50');
+    expect(formatMoneyAmount({ amount: 1234, currency: 'JPY' })).toBe('1234');
+    expect(formatMoneyAmount({ amount: 1250, currency: 'KWD' })).toBe('1.250');
+  });
+
+  it('should use the given decimal separator', () => {
+    expect(formatMoneyAmount(eur(1250), ',')).toBe('12,50');
+  });
+});
+
+describe('formatMoney', () => {
+  it('should prefix the currency symbol', () => {
+    expect(formatMoney(eur(500))).toBe('€5.00');
+    expect(formatMoney({ amount: 1234, currency: 'JPY' })).toBe('¥1234');
+    expect(formatMoney({ amount: 350, currency: 'XYZ' })).toBe('XYZ 3.50');
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { escapeOFXValue, formatOFXDate, convertOrdersToOFX } from '../src/utils/ofxUtils';
+import type { Order } from '../src/types';
+
+const createOrder = (overrides: Partial<Order> = {}): Order => ({
+  orderId: '302-1234567-1234567',
+  orderDate: '2024-03-15',
+  orderType: 'physical',
+  totalAmount: { amount: 4250, currency: 'EUR' },
+  netAmount: { amount: 4250, currency: 'EUR' },
+  items: [
+    {
+      title: 'USB Cable',
+      asin: 'B000000001',
+      quantity: 1,
+      unitPrice: { amount: 1250, currency: 'EUR' },
+      lineTotal: { amount: 1250, currency: 'EUR' },
+      allocatedDiscount: { amount: 0, currency: 'EUR' },
+      netLineTotal: { amount: 1250, currency: 'EUR' },
+      itemUrl: 'https://amazon.de/dp/B000000001',
+      imageUrl: '',
+      seller: '',
+      fulfilledByAmazon: null,
+      product: null,
+    },
+    {
+      title: 'Desk Lamp',
+      asin: 'B000000002',
+      quantity: 1,
+      unitPrice: { amount: 3000, currency: 'EUR' },
+      lineTotal: { amount: 3000, currency: 'EUR' },
+      allocatedDiscount: { amount: 0, currency: 'EUR' },
+      netLineTotal: { amount: 3000, currency: 'EUR' },
+      itemUrl: 'https://amazon.de/dp/B000000002',
+      imageUrl: '',
+      seller: '',
+      fulfilledByAmazon: null,
+      product: null,
+    },
+  ],
+  orderStatus: 'Delivered',
+  detailsUrl: 'https://amazon.de/order-details/302',
+  promotions: [],
+  totalSavings: { amount: 0, currency: 'EUR' },
+  costBreakdown: null,
+  payments: null,
+  shipments: [],
+  refunds: [],
+  subscribeAndSave: false,
+  detailsStatus: 'enriched',
+  ...overrides,
+});
+
+const now = new Date('2024-04-01T10:20:30Z');
+
+describe('escapeOFXValue', () => {
+  it('should escape markup characters', () => {
+    expect(escapeOFXValue('Salt & Pepper <2>')).toBe('Salt &amp; Pepper &lt;2&gt;');
+  });
+
+  it('should return plain values as-is', () => {
+    expect(escapeOFXValue('Desk Lamp')).toBe('Desk Lamp');
+  });
+});
+
+describe('formatOFXDate', () => {
+  it('should format ISO dates without separators', () => {
+    expect(formatOFXDate('2024-03-15')).toBe('20240315');
+  });
+});
+
+describe('convertOrdersToOFX', () => {
+  describe('OFX 1.x (SGML)', () => {
+    it('should start with the SGML header', () => {
+      const ofx = convertOrdersToOFX([createOrder()], 1, now);
+      expect(ofx.startsWith('OFXHEADER:100\nDATA:OFXSGML\nVERSION:102')).toBe(true);
+    });
+
+    it('should not close leaf elements', () => {
+      const ofx = convertOrdersToOFX([createOrder()], 1, now);
+      expect(ofx).toContain('<FITID>302-1234567-1234567\n');
+      expect(ofx).not.toContain('</FITID>');
+      expect(ofx).toContain('</STMTTRN>');
+    });
+  });
+
+  describe('OFX 2.x (XML)', () => {
+    it('should start with the XML header', () => {
+      const ofx = convertOrdersToOFX([createOrder()], 2, now);
+      expect(ofx.startsWith('<?xml version="1.0"')).toBe(true);
+      expect(ofx).toContain('<?OFX OFXHEADER="200" VERSION="220"');
+    });
+
+    it('should close leaf elements', () => {
+      const ofx = convertOrdersToOFX([createOrder()], 2, now);
+      expect(ofx).toContain('<FITID>302-1234567-1234567</FITID>');
+    });
+  });
+
+  it('should map order fields to the transaction', () => {
+    const ofx = convertOrdersToOFX([createOrder()], 2, now);
+    expect(ofx).toContain('<TRNTYPE>DEBIT</TRNTYPE>');
+    expect(ofx).toContain('<DTPOSTED>20240315</DTPOSTED>');
+    expect(ofx).toContain('<TRNAMT>-42.50</TRNAMT>');
+    expect(ofx).toContain('<MEMO>USB Cable; Desk Lamp</MEMO>');
+    expect(ofx).toContain('<DTSERVER>20240401102030</DTSERVER>');
+  });
+
+  it('should create one statement per currency', () => {
+    const ofx = convertOrdersToOFX(
+      [
+        createOrder(),
+        createOrder({
+          orderId: '111-1111111-1111111',
+          totalAmount: { amount: 4250, currency: 'USD' },
+        }),
+      ],
+      2,
+      now
+    );
+    expect(ofx.match(/<CCSTMTRS>/g)?.length).toBe(2);
+    expect(ofx).toContain('<CURDEF>EUR</CURDEF>');
+    expect(ofx).toContain('<CURDEF>USD</CURDEF>');
+  });
+
+  it('should set the statement range and balance', () => {
+    const ofx = convertOrdersToOFX(
+      [
+        createOrder(),
+        createOrder({
+          orderId: '111-1111111-1111111',
+          orderDate: '2024-01-02',
+          totalAmount: { amount: 750, currency: 'EUR' },
+          netAmount: { amount: 750, currency: 'EUR' },
+        }),
+      ],
+      2,
+      now
+    );
+    expect(ofx).toContain('<DTSTART>20240102</DTSTART>');
+    expect(ofx).toContain('<DTEND>20240315</DTEND>');
+    expect(ofx).toContain('<BALAMT>-50.00</BALAMT>');
+  });
+
+  it('should add a credit transaction per refund', () => {
+    const order = createOrder({
+      netAmount: { amount: 2951, currency: 'EUR' },
+      refunds: [
+        { items: [], amount: { amount: 1299, currency: 'EUR' }, date: '2024-04-02', method: '' },
+      ],
+    });
+    const ofx = convertOrdersToOFX([order], 2, now);
+    expect(ofx).toContain('<TRNTYPE>CREDIT</TRNTYPE>');
+    expect(ofx).toContain('<DTPOSTED>20240402</DTPOSTED>');
+    expect(ofx).toContain('<TRNAMT>12.99</TRNAMT>');
+    expect(ofx).toContain('<FITID>302-1234567-1234567-R1</FITID>');
+    expect(ofx).toContain('<MEMO>Refund</MEMO>');
+    expect(ofx).toContain('<DTEND>20240402</DTEND>');
+    expect(ofx).toContain('<BALAMT>-29.51</BALAMT>');
+  });
+
+  it('should skip orders without a date', () => {
+    const ofx = convertOrdersToOFX([createOrder({ orderDate: '' })], 2, now);
+    expect(ofx).not.toContain('<STMTTRN>');
+  });
+
+  it('should omit the memo for orders without items', () => {
+    const ofx = convertOrdersToOFX([createOrder({ items: [] })], 2, now);
+    expect(ofx).not.toContain('<MEMO>');
+  });
+});
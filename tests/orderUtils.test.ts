@@ -2,20 +2,32 @@ import { describe, it, expect } from 'vitest';
 import {
   isAdvertisementOrder,
   extractOrderId,
+  extractOrderIds,
   extractOrderIdFromUrl,
+  isDigitalOrderId,
+  summarizeOrderItems,
+  buildOrderMemo,
 } from '../src/utils/orderUtils';
+import { createEmptyCostBreakdown } from '../src/utils/costBreakdownUtils';
 import type { Order, OrderItem } from '../src/types';
 
 const createMockOrder = (overrides: Partial<Order> = {}): Order => ({
   orderId: '123-4567890-1234567',
   orderDate: '2024-01-15',
-  totalAmount: 99.99,
-  currency: 'EUR',
+  orderType: 'physical',
+  totalAmount: { amount: 9999, currency: 'EUR' },
+  netAmount: { amount: 9999, currency: 'EUR' },
   items: [],
   orderStatus: 'Delivered',
   detailsUrl: 'https://amazon.de/order-details/123',
   promotions: [],
-  totalSavings: 0,
+  totalSavings: { amount: 0, currency: 'EUR' },
+  costBreakdown: null,
+  payments: null,
+  shipments: [],
+  refunds: [],
+  subscribeAndSave: false,
+  detailsStatus: 'enriched',
   ...overrides,
 });
 
@@ -23,9 +35,15 @@ const createMockItem = (overrides: Partial<OrderItem> = {}): OrderItem => ({
   title: 'Test Product',
   asin: 'B0123456789',
   quantity: 1,
-  price: 29.99,
-  discount: 0,
+  unitPrice: { amount: 2999, currency: 'EUR' },
+  lineTotal: { amount: 2999, currency: 'EUR' },
+  allocatedDiscount: { amount: 0, currency: 'EUR' },
+  netLineTotal: { amount: 2999, currency: 'EUR' },
   itemUrl: 'https://amazon.de/dp/B0123456789',
+  imageUrl: '',
+  seller: '',
+  fulfilledByAmazon: null,
+  product: null,
   ...overrides,
 });
 
@@ -62,7 +80,9 @@ describe('isAdvertisementOrder', () => {
   it('should return true for order with many zero-price items, no date, no status, no URL', () => {
     const items = Array(6)
       .fill(null)
-      .map((_, i) => createMockItem({ title: `Product ${i}`, price: 0 }));
+      .map((_, i) =>
+        createMockItem({ title: `Product ${i}`, unitPrice: { amount: 0, currency: 'EUR' } })
+      );
     const order = createMockOrder({
       orderDate: '',
       orderStatus: '',
@@ -75,7 +95,9 @@ describe('isAdvertisementOrder', () => {
   it('should return false for order with zero-price items but has date', () => {
     const items = Array(6)
       .fill(null)
-      .map((_, i) => createMockItem({ title: `Product ${i}`, price: 0 }));
+      .map((_, i) =>
+        createMockItem({ title: `Product ${i}`, unitPrice: { amount: 0, currency: 'EUR' } })
+      );
     const order = createMockOrder({
       orderDate: '2024-01-15',
       items,
@@ -87,12 +109,63 @@ describe('isAdvertisementOrder', () => {
     const order = createMockOrder({
       orderDate: '',
       orderStatus: 'Delivered',
-      items: [createMockItem({ price: 0 })],
+      items: [createMockItem({ unitPrice: { amount: 0, currency: 'EUR' } })],
     });
     expect(isAdvertisementOrder(order)).toBe(false);
   });
 });
 
+describe('summarizeOrderItems', () => {
+  it('should join item titles', () => {
+    const order = createMockOrder({
+      items: [createMockItem({ title: 'First' }), createMockItem({ title: 'Second' })],
+    });
+    expect(summarizeOrderItems(order)).toBe('First; Second');
+  });
+
+  it('should skip empty titles', () => {
+    const order = createMockOrder({
+      items: [createMockItem({ title: '' }), createMockItem({ title: 'Second' })],
+    });
+    expect(summarizeOrderItems(order)).toBe('Second');
+  });
+
+  it('should truncate long summaries', () => {
+    const order = createMockOrder({ items: [createMockItem({ title: 'x'.repeat(300) })] });
+    const summary = summarizeOrderItems(order, 20);
+    expect(summary.length).toBe(20);
+    expect(summary.endsWith('...')).toBe(true);
+  });
+});
+
+describe('buildOrderMemo', () => {
+  const costBreakdown = {
+    ...createEmptyCostBreakdown('EUR'),
+    tax: { amount: 766, currency: 'EUR' },
+    taxRate: 19,
+  };
+
+  it('should append the tax to the item titles', () => {
+    const order = createMockOrder({ items: [createMockItem()], costBreakdown });
+    expect(buildOrderMemo(order)).toBe('Test Product | Tax 7.66 EUR (19%)');
+  });
+
+  it('should keep the tax when truncating long titles', () => {
+    const order = createMockOrder({
+      items: [createMockItem({ title: 'x'.repeat(300) })],
+      costBreakdown,
+    });
+    const memo = buildOrderMemo(order, 60);
+    expect(memo.length).toBe(60);
+    expect(memo.endsWith('... | Tax 7.66 EUR (19%)')).toBe(true);
+  });
+
+  it('should only list the items without tax', () => {
+    const order = createMockOrder({ items: [createMockItem()] });
+    expect(buildOrderMemo(order)).toBe('Test Product');
+  });
+});
+
 describe('extractOrderId', () => {
   it('should extract order ID from text', () => {
     expect(extractOrderId('Order #123-4567890-1234567')).toBe('123-4567890-1234567');
@@ -112,6 +185,10 @@ describe('extractOrderId', () => {
     expect(extractOrderId('Order #123-456')).toBeNull();
   });
 
+  it('should extract digital order IDs', () => {
+    expect(extractOrderId('Order # D01-1234567-1234567')).toBe('D01-1234567-1234567');
+  });
+
   it('should extract first order ID if multiple present', () => {
     expect(extractOrderId('Orders: 123-4567890-1234567 and 987-6543210-9876543')).toBe(
       '123-4567890-1234567'
@@ -119,6 +196,18 @@ describe('extractOrderId', () => {
   });
 });
 
+describe('extractOrderIds', () => {
+  it('should extract all distinct order IDs', () => {
+    expect(
+      extractOrderIds('Order 123-4567890-1234567, 302-1234567-1234567 and 123-4567890-1234567')
+    ).toEqual(['123-4567890-1234567', '302-1234567-1234567']);
+  });
+
+  it('should return an empty array without order IDs', () => {
+    expect(extractOrderIds('No orders')).toEqual([]);
+  });
+});
+
 describe('extractOrderIdFromUrl', () => {
   it('should extract from orderID parameter (lowercase D)', () => {
     expect(
@@ -132,7 +221,22 @@ describe('extractOrderIdFromUrl', () => {
     ).toBe('123-4567890-1234567');
   });
 
+  it('should extract digital order IDs', () => {
+    expect(
+      extractOrderIdFromUrl(
+        'https://amazon.de/gp/digital/your-account/order-summary.html?orderID=D01-1234567-1234567'
+      )
+    ).toBe('D01-1234567-1234567');
+  });
+
   it('should return null when no order ID in URL', () => {
     expect(extractOrderIdFromUrl('https://amazon.de/your-orders')).toBeNull();
   });
 });
+
+describe('isDigitalOrderId', () => {
+  it('should recognize digital order IDs', () => {
+    expect(isDigitalOrderId('D01-1234567-1234567')).toBe(true);
+    expect(isDigitalOrderId('302-1234567-1234567')).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findCards,
+  findOtherPaymentMethods,
+  formatPaymentMethod,
+  parsePaymentTransaction,
+  parsePayments,
+} from '../src/utils/paymentUtils';
+import { getSiteProfile } from '../src/utils/siteProfileUtils';
+
+describe('findCards', () => {
+  it('should find brand and last four digits', () => {
+    expect(findCards('Visa ending in 1234')).toEqual([{ name: 'Visa', lastDigits: '1234' }]);
+    expect(findCards('MasterCard ****5678')).toEqual([{ name: 'Mastercard', lastDigits: '5678' }]);
+    expect(findCards('Amex endet mit 0005')).toEqual([
+      { name: 'American Express', lastDigits: '0005' },
+    ]);
+  });
+
+  it('should find several cards', () => {
+    expect(findCards('Visa ending in 1234 and Mastercard ending in 5678')).toHaveLength(2);
+  });
+
+  it('should skip brands without digits', () => {
+    expect(findCards('Discover more products')).toEqual([]);
+    expect(findCards('Pay with Visa')).toEqual([]);
+  });
+
+  it('should only match whole words', () => {
+    expect(findCards('Elopement 1234')).toEqual([]);
+  });
+});
+
+describe('findOtherPaymentMethods', () => {
+  it('should find payment methods by their alias', () => {
+    expect(findOtherPaymentMethods('PayPal')).toEqual(['PayPal']);
+    expect(findOtherPaymentMethods('Bezahlt per Lastschrift')).toEqual(['Direct debit']);
+    expect(findOtherPaymentMethods('Visa ending in 1234')).toEqual([]);
+  });
+});
+
+describe('parsePaymentTransaction', () => {
+  it('should parse date, card and amount of a charge', () => {
+    expect(
+      parsePaymentTransaction(
+        'November 3, 2024 - Visa ending in 1234: $45.67',
+        getSiteProfile('amazon.com')
+      )
+    ).toEqual({
+      date: '2024-11-03',
+      name: 'Visa',
+      lastDigits: '1234',
+      amount: { amount: 4567, currency: 'USD' },
+    });
+  });
+
+  it('should parse German charges', () => {
+    const transaction = parsePaymentTransaction(
+      '3. November 2024 - Mastercard endet mit 5678: 12,99 €',
+      getSiteProfile('amazon.de')
+    );
+    expect(transaction?.date).toBe('2024-11-03');
+    expect(transaction?.amount).toEqual({ amount: 1299, currency: 'EUR' });
+  });
+
+  it('should return null without date, card or amount', () => {
+    expect(parsePaymentTransaction('Visa ending in 1234: $45.67')).toBeNull();
+    expect(parsePaymentTransaction('November 3, 2024 - Visa ending in 1234')).toBeNull();
+    expect(parsePaymentTransaction('November 3, 2024: $45.67')).toBeNull();
+  });
+});
+
+describe('parsePayments', () => {
+  const profile = getSiteProfile('amazon.com');
+  const total = { amount: 4868, currency: 'USD' };
+
+  it('should assign the total to a single card', () => {
+    expect(parsePayments(['Payment method', 'Visa ending in 1234'], total, profile)).toEqual({
+      instruments: [{ type: 'card', name: 'Visa', lastDigits: '1234', amount: total }],
+      transactions: [],
+    });
+  });
+
+  it('should sum card amounts from the charges', () => {
+    const payments = parsePayments(
+      [
+        'Visa ending in 1234',
+        'November 3, 2024 - Visa ending in 1234: $30.00',
+        'November 5, 2024 - Visa ending in 1234: $18.68',
+        'November 5, 2024 - Visa ending in 1234: $18.68',
+      ],
+      total,
+      profile
+    );
+    expect(payments?.transactions).toHaveLength(2);
+    expect(payments?.instruments).toEqual([
+      { type: 'card', name: 'Visa', lastDigits: '1234', amount: total },
+    ]);
+  });
+
+  it('should add gift cards and reward points', () => {
+    const payments = parsePayments(
+      ['Visa ending in 1234', 'Gift Card Amount: -$10.00', 'Reward Points: -$5.00'],
+      total,
+      profile
+    );
+    expect(payments?.instruments).toEqual([
+      { type: 'card', name: 'Visa', lastDigits: '1234', amount: null },
+      {
+        type: 'gift_card',
+        name: 'Gift card',
+        lastDigits: '',
+        amount: { amount: 1000, currency: 'USD' },
+      },
+      {
+        type: 'reward_points',
+        name: 'Reward points',
+        lastDigits: '',
+        amount: { amount: 500, currency: 'USD' },
+      },
+    ]);
+  });
+
+  it('should find other payment methods', () => {
+    const payments = parsePayments(['Paid with PayPal'], { amount: 1000, currency: 'EUR' });
+    expect(payments?.instruments).toEqual([
+      { type: 'other', name: 'PayPal', lastDigits: '', amount: { amount: 1000, currency: 'EUR' } },
+    ]);
+  });
+
+  it('should skip refund lines', () => {
+    const payments = parsePayments(
+      ['Visa ending in 1234', 'Refund issued on November 8, 2024 - Visa ending in 1234: $12.99'],
+      total,
+      profile
+    );
+    expect(payments?.transactions).toEqual([]);
+    expect(payments?.instruments).toEqual([
+      { type: 'card', name: 'Visa', lastDigits: '1234', amount: total },
+    ]);
+  });
+
+  it('should return null without payment information', () => {
+    expect(parsePayments(['Grand Total: $48.68'], total, profile)).toBeNull();
+    expect(parsePayments([], total, profile)).toBeNull();
+  });
+});
+
+describe('formatPaymentMethod', () => {
+  it('should mask all but the last digits', () => {
+    expect(formatPaymentMethod({ name: 'Visa', lastDigits: '1234' })).toBe('Visa ****1234');
+    expect(formatPaymentMethod({ name: 'Gift card', lastDigits: '' })).toBe('Gift card');
+  });
+});
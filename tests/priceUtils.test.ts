@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { parsePrice, detectCurrency, extractPriceFromText } from '../src/utils/priceUtils';
+import {
+  parsePrice,
+  detectCurrency,
+  extractPriceFromText,
+  findPrices,
+  parseMoney,
+} from '../src/utils/priceUtils';
+import { getSiteProfile } from '../src/utils/siteProfileUtils';
 
 describe('parsePrice', () => {
   describe('European format', () => {
@@ -38,6 +45,20 @@ describe('parsePrice', () => {
     });
   });
 
+  describe('known decimal separator', () => {
+    it('should treat a lone comma as thousands separator when the decimal is a period', () => {
+      expect(parsePrice('1,234', '.')).toBe(1234);
+    });
+
+    it('should treat a lone period as thousands separator when the decimal is a comma', () => {
+      expect(parsePrice('1.234', ',')).toBe(1234);
+    });
+
+    it('should ignore space thousands separators', () => {
+      expect(parsePrice('1\u202f234,56', ',')).toBe(1234.56);
+    });
+  });
+
   describe('edge cases', () => {
     it('should return 0 for empty string', () => {
       expect(parsePrice('')).toBe(0);
@@ -57,6 +78,24 @@ describe('parsePrice', () => {
   });
 });
 
+describe('parseMoney', () => {
+  it('should parse prices to exact minor units', () => {
+    expect(parseMoney('1.234,56', 'EUR')).toEqual({ amount: 123456, currency: 'EUR' });
+    expect(parseMoney('0,29', 'EUR', ',')).toEqual({ amount: 29, currency: 'EUR' });
+    expect(parseMoney('1.005', 'USD', '.')).toEqual({ amount: 101, currency: 'USD' });
+  });
+
+  it('should use the decimal places of the currency', () => {
+    expect(parseMoney('1,234', 'JPY', '.')).toEqual({ amount: 1234, currency: 'JPY' });
+    expect(parseMoney('1.250', 'KWD', '.')).toEqual({ amount: 1250, currency: 'KWD' });
+  });
+
+  it('should return zero for empty or invalid input', () => {
+    expect(parseMoney('', 'EUR')).toEqual({ amount: 0, currency: 'EUR' });
+    expect(parseMoney('abc', 'EUR')).toEqual({ amount: 0, currency: 'EUR' });
+  });
+});
+
 describe('detectCurrency', () => {
   it('should detect EUR from € symbol', () => {
     expect(detectCurrency('€12.99')).toBe('EUR');
@@ -86,6 +125,26 @@ describe('detectCurrency', () => {
     expect(detectCurrency('Total: 12.99')).toBe('EUR');
   });
 
+  it('should detect the other supported currencies', () => {
+    expect(detectCurrency('￥1,234')).toBe('JPY');
+    expect(detectCurrency('₹499.00')).toBe('INR');
+    expect(detectCurrency('CDN$ 12.99')).toBe('CAD');
+    expect(detectCurrency('A$12.99')).toBe('AUD');
+    expect(detectCurrency('R$ 12,99')).toBe('BRL');
+    expect(detectCurrency('MX$12.99')).toBe('MXN');
+    expect(detectCurrency('CHF 12.90')).toBe('CHF');
+  });
+
+  it('should read a bare dollar sign as the dollar currency of the marketplace', () => {
+    expect(detectCurrency('$12.99', getSiteProfile('amazon.ca'))).toBe('CAD');
+    expect(detectCurrency('$12.99', getSiteProfile('amazon.com.mx'))).toBe('MXN');
+    expect(detectCurrency('$12.99', getSiteProfile('amazon.de'))).toBe('USD');
+  });
+
+  it('should default to the marketplace currency', () => {
+    expect(detectCurrency('Total: 1234', getSiteProfile('amazon.co.jp'))).toBe('JPY');
+  });
+
   it('should prioritize EUR when multiple currencies present', () => {
     expect(detectCurrency('€12.99 ($15.00)')).toBe('EUR');
   });
@@ -95,34 +154,34 @@ describe('extractPriceFromText', () => {
   describe('German/European patterns', () => {
     it('should extract from "Summe: EUR 12,99"', () => {
       const result = extractPriceFromText('Summe: EUR 12,99');
-      expect(result).toEqual({ amount: 12.99, currency: 'EUR' });
+      expect(result).toEqual({ amount: 1299, currency: 'EUR' });
     });
 
     it('should extract from "Gesamtsumme: €99,00"', () => {
       const result = extractPriceFromText('Gesamtsumme: €99,00');
-      expect(result).toEqual({ amount: 99, currency: 'EUR' });
+      expect(result).toEqual({ amount: 9900, currency: 'EUR' });
     });
 
     it('should extract from "Total EUR 1.234,56"', () => {
       const result = extractPriceFromText('Total EUR 1.234,56');
-      expect(result).toEqual({ amount: 1234.56, currency: 'EUR' });
+      expect(result).toEqual({ amount: 123456, currency: 'EUR' });
     });
   });
 
   describe('simple currency patterns', () => {
     it('should extract from "€ 45.99"', () => {
       const result = extractPriceFromText('Price: € 45.99');
-      expect(result).toEqual({ amount: 45.99, currency: 'EUR' });
+      expect(result).toEqual({ amount: 4599, currency: 'EUR' });
     });
 
     it('should extract from "$ 29.99"', () => {
       const result = extractPriceFromText('Price: $ 29.99');
-      expect(result).toEqual({ amount: 29.99, currency: 'USD' });
+      expect(result).toEqual({ amount: 2999, currency: 'USD' });
     });
 
     it('should extract from "£ 19.99"', () => {
       const result = extractPriceFromText('Price: £ 19.99');
-      expect(result).toEqual({ amount: 19.99, currency: 'GBP' });
+      expect(result).toEqual({ amount: 1999, currency: 'GBP' });
     });
   });
 
@@ -140,3 +199,17 @@ describe('extractPriceFromText', () => {
     });
   });
 });
+
+describe('findPrices', () => {
+  it('should find all amounts with a currency symbol in order', () => {
+    const profile = getSiteProfile('amazon.de');
+    expect(findPrices('Artikel 12,99 € Versand 3,99 € Menge 2', profile)).toEqual([
+      { amount: 1299, currency: 'EUR' },
+      { amount: 399, currency: 'EUR' },
+    ]);
+  });
+
+  it('should ignore numbers without currency symbol', () => {
+    expect(findPrices('Menge: 2, Artikel 123')).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getProductCacheKey,
+  parseSeller,
+  isFulfilledByAmazon,
+  parseBrand,
+  parseProductCodes,
+  parseProductInfo,
+  formatFulfilledByAmazon,
+  formatCategory,
+  getCommonCategory,
+} from '../src/utils/productUtils';
+import { getSiteProfile } from '../src/utils/siteProfileUtils';
+import type { ProductInfo } from '../src/types';
+
+const createProduct = (category: string[]): ProductInfo => ({
+  brand: '',
+  category,
+  isbn: '',
+  ean: '',
+});
+
+describe('getProductCacheKey', () => {
+  it('should include the marketplace', () => {
+    expect(getProductCacheKey('amazon.de')).toBe('productCache:amazon.de');
+  });
+});
+
+describe('parseSeller', () => {
+  it('should parse the seller after the label', () => {
+    expect(parseSeller(['USB Cable', 'Sold by: Anker Direct', '$12.99'])).toBe('Anker Direct');
+    expect(parseSeller(['Verkauf durch: Rossmann'], getSiteProfile('amazon.de'))).toBe('Rossmann');
+    expect(parseSeller(['販売: Amazon.co.jp'], getSiteProfile('amazon.co.jp'))).toBe(
+      'Amazon.co.jp'
+    );
+  });
+
+  it('should take the value from the next line after a label alone', () => {
+    expect(parseSeller(['Sold by', 'Anker Direct'])).toBe('Anker Direct');
+  });
+
+  it('should cut off the fulfilment', () => {
+    expect(parseSeller(['Sold by: Anker Direct and Fulfilled by Amazon'])).toBe('Anker Direct');
+  });
+
+  it('should keep names ending in a conjunction letter', () => {
+    expect(parseSeller(['Sold by: Coffee'])).toBe('Coffee');
+  });
+
+  it('should return an empty string without seller', () => {
+    expect(parseSeller(['USB Cable', 'Return window closed'])).toBe('');
+  });
+});
+
+describe('isFulfilledByAmazon', () => {
+  it('should recognize the fulfilment phrase', () => {
+    expect(isFulfilledByAmazon(['Sold by: Anker', 'Fulfilled by Amazon'], 'Anker')).toBe(true);
+    expect(isFulfilledByAmazon(['Versand durch: Amazon'], '', getSiteProfile('amazon.de'))).toBe(
+      true
+    );
+  });
+
+  it('should take items sold by Amazon as shipped by Amazon', () => {
+    expect(isFulfilledByAmazon([], 'Amazon.com Services LLC')).toBe(true);
+  });
+
+  it('should tell other sellers apart from unknown fulfilment', () => {
+    expect(isFulfilledByAmazon(['Sold by: Anker'], 'Anker')).toBe(false);
+    expect(isFulfilledByAmazon(['USB Cable'], '')).toBeNull();
+  });
+});
+
+describe('parseBrand', () => {
+  it('should parse brand store links', () => {
+    expect(parseBrand('Visit the Anker Store', [])).toBe('Anker');
+    expect(parseBrand('Besuche den Anker-Store', [], getSiteProfile('amazon.de'))).toBe('Anker');
+    expect(parseBrand('Ankerのストアを表示', [], getSiteProfile('amazon.co.jp'))).toBe('Anker');
+  });
+
+  it('should parse brand labels in the byline and the details', () => {
+    expect(parseBrand('Brand: Anker', [])).toBe('Anker');
+    expect(parseBrand('', ['Item weight: 50 g', 'Brand: Anker'])).toBe('Anker');
+  });
+
+  it('should prefer the brand over the manufacturer', () => {
+    expect(parseBrand('', ['Manufacturer: Anker Innovations', 'Brand: Anker'])).toBe('Anker');
+  });
+
+  it('should not take author bylines as brand', () => {
+    expect(parseBrand('J. K. Rowling (Author)', [])).toBe('');
+  });
+});
+
+describe('parseProductCodes', () => {
+  it('should prefer ISBN-13 over ISBN-10', () => {
+    expect(
+      parseProductCodes([
+        'Publisher \u200f : \u200e Carlsen',
+        'ISBN-10 \u200f : \u200e 3551551677',
+        'ISBN-13 \u200f : \u200e 978-3551551672',
+      ])
+    ).toEqual({ isbn: '9783551551672', ean: '' });
+  });
+
+  it('should fall back to ISBN-10', () => {
+    expect(parseProductCodes(['ISBN-10: 080442957X']).isbn).toBe('080442957X');
+  });
+
+  it('should take the first barcode number', () => {
+    expect(parseProductCodes(['EAN: 0848061073270, 0848061073287']).ean).toBe('0848061073270');
+    expect(parseProductCodes(['JAN : 4560000000000']).ean).toBe('4560000000000');
+  });
+
+  it('should ignore numbers of the wrong length', () => {
+    expect(parseProductCodes(['ISBN-13: 978-35515'])).toEqual({ isbn: '', ean: '' });
+  });
+});
+
+describe('parseProductInfo', () => {
+  it('should combine brand, category and codes', () => {
+    expect(
+      parseProductInfo(
+        'Visit the Anker Store',
+        ['Electronics', '›', ' Cables '],
+        ['EAN: 0848061073270']
+      )
+    ).toEqual({
+      brand: 'Anker',
+      category: ['Electronics', 'Cables'],
+      isbn: '',
+      ean: '0848061073270',
+    });
+  });
+});
+
+describe('formatFulfilledByAmazon', () => {
+  it('should describe known and unknown fulfilment', () => {
+    expect(formatFulfilledByAmazon(true)).toBe('yes');
+    expect(formatFulfilledByAmazon(false)).toBe('no');
+    expect(formatFulfilledByAmazon(null)).toBe('');
+  });
+});
+
+describe('formatCategory', () => {
+  it('should join the breadcrumb', () => {
+    expect(formatCategory(['Books', 'Cooking'])).toBe('Books > Cooking');
+    expect(formatCategory(['Books', 'Cooking'], ':')).toBe('Books:Cooking');
+  });
+});
+
+describe('getCommonCategory', () => {
+  it('should return the longest shared breadcrumb', () => {
+    expect(
+      getCommonCategory([
+        { product: createProduct(['Books', 'Cooking', 'Italian']) },
+        { product: createProduct(['Books', 'Cooking', 'Baking']) },
+        { product: null },
+      ])
+    ).toEqual(['Books', 'Cooking']);
+  });
+
+  it('should return an empty breadcrumb without common top level', () => {
+    expect(
+      getCommonCategory([
+        { product: createProduct(['Books']) },
+        { product: createProduct(['Electronics']) },
+      ])
+    ).toEqual([]);
+    expect(getCommonCategory([{ product: null }])).toEqual([]);
+  });
+});
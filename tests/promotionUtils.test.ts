@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MIN_PROMOTION_CONFIDENCE,
+  classifyPromotion,
+  isLikelyPromotion,
+  scorePromotion,
+} from '../src/utils/promotionUtils';
+import { getSiteProfile } from '../src/utils/siteProfileUtils';
+
+describe('classifyPromotion', () => {
+  const us = getSiteProfile('amazon.com');
+
+  it('should recognize each kind of promotion', () => {
+    expect(classifyPromotion('Your Coupon Savings: -$5.00', us)).toBe('coupon');
+    expect(classifyPromotion('Subscribe & Save: -$1.50', us)).toBe('subscribe_and_save');
+    expect(classifyPromotion('Reward Points: -$3.00', us)).toBe('reward_points');
+    expect(classifyPromotion('Gift Card Amount: -$10.00', us)).toBe('gift_card');
+    expect(classifyPromotion('Prime Savings -$2.00', us)).toBe('prime');
+    expect(classifyPromotion('Buy more, save more: -$4.00', us)).toBe('bundle');
+    expect(classifyPromotion('Free Shipping: -$5.99', us)).toBe('shipping');
+    expect(classifyPromotion('Lightning Deal -$8.00', us)).toBe('lightning_deal');
+    expect(classifyPromotion('Promotion Applied: -$1.00', us)).toBe('other');
+  });
+
+  it('should use the phrases of the marketplace', () => {
+    const de = getSiteProfile('amazon.de');
+    expect(classifyPromotion('Geschenkgutschein(e): -10,00 €', de)).toBe('gift_card');
+    expect(classifyPromotion('Gutschein eingelöst: -5,00 €', de)).toBe('coupon');
+    expect(classifyPromotion('Spar-Abo Rabatt: -1,20 €', de)).toBe('subscribe_and_save');
+    expect(classifyPromotion('Blitzangebot -8,00 €', de)).toBe('lightning_deal');
+    expect(classifyPromotion('定期おトク便 割引: -￥120', getSiteProfile('amazon.co.jp'))).toBe(
+      'subscribe_and_save'
+    );
+  });
+
+  it('should take the earliest phrase', () => {
+    expect(classifyPromotion('Coupon for Prime members -$3.00')).toBe('coupon');
+  });
+});
+
+describe('scorePromotion', () => {
+  const total = { amount: 5000, currency: 'USD' };
+  const amount = { amount: 500, currency: 'USD' };
+
+  it('should trust promotion lines of the order summary', () => {
+    expect(scorePromotion('Your Coupon Savings: -$5.00', amount, 'coupon', true, total)).toBe(1);
+  });
+
+  it('should keep negative amounts without promotion phrase', () => {
+    expect(scorePromotion('-$5.00', amount, 'other', false, total)).toBe(MIN_PROMOTION_CONFIDENCE);
+  });
+
+  it('should distrust price fragments', () => {
+    const text = 'Sold by Example Store $5.00 $12.99 $49.99 Return window closed on March 3, 2024';
+    expect(scorePromotion(text, amount, 'other', false, total)).toBeLessThan(
+      MIN_PROMOTION_CONFIDENCE
+    );
+  });
+
+  it('should distrust savings as high as the order total, except gift cards', () => {
+    expect(scorePromotion('-$50.00', total, 'other', false, total)).toBeLessThan(
+      MIN_PROMOTION_CONFIDENCE
+    );
+    expect(scorePromotion('Gift Card Amount: -$50.00', total, 'gift_card', true, total)).toBe(1);
+  });
+});
+
+describe('isLikelyPromotion', () => {
+  it('should keep promotions from the minimum confidence on', () => {
+    expect(isLikelyPromotion({ confidence: MIN_PROMOTION_CONFIDENCE })).toBe(true);
+    expect(isLikelyPromotion({ confidence: 0.3 })).toBe(false);
+  });
+});
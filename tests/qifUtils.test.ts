@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { formatQIFDate, convertOrdersToQIF } from '../src/utils/qifUtils';
+import { createEmptyCostBreakdown } from '../src/utils/costBreakdownUtils';
+import type { Order } from '../src/types';
+
+const createOrder = (overrides: Partial<Order> = {}): Order => ({
+  orderId: '302-1234567-1234567',
+  orderDate: '2024-03-15',
+  orderType: 'physical',
+  totalAmount: { amount: 4250, currency: 'EUR' },
+  netAmount: { amount: 4250, currency: 'EUR' },
+  items: [
+    {
+      title: 'USB Cable',
+      asin: 'B000000001',
+      quantity: 1,
+      unitPrice: { amount: 4250, currency: 'EUR' },
+      lineTotal: { amount: 4250, currency: 'EUR' },
+      allocatedDiscount: { amount: 0, currency: 'EUR' },
+      netLineTotal: { amount: 4250, currency: 'EUR' },
+      itemUrl: 'https://amazon.de/dp/B000000001',
+      imageUrl: '',
+      seller: '',
+      fulfilledByAmazon: null,
+      product: null,
+    },
+  ],
+  orderStatus: 'Delivered',
+  detailsUrl: 'https://amazon.de/order-details/302',
+  promotions: [],
+  totalSavings: { amount: 0, currency: 'EUR' },
+  costBreakdown: null,
+  payments: null,
+  shipments: [],
+  refunds: [],
+  subscribeAndSave: false,
+  detailsStatus: 'enriched',
+  ...overrides,
+});
+
+describe('formatQIFDate', () => {
+  it('should format ISO dates as MM/DD/YYYY', () => {
+    expect(formatQIFDate('2024-03-15')).toBe('03/15/2024');
+  });
+});
+
+describe('convertOrdersToQIF', () => {
+  it('should start with the credit card type header', () => {
+    expect(convertOrdersToQIF([])).toBe('!Type:CCard');
+  });
+
+  it('should write one record per order', () => {
+    const qif = convertOrdersToQIF([createOrder()]);
+    expect(qif.split('\n')).toEqual([
+      '!Type:CCard',
+      'D03/15/2024',
+      'T-42.50',
+      'N302-1234567-1234567',
+      'PAmazon',
+      'MUSB Cable',
+      '^',
+    ]);
+  });
+
+  it('should add the tax to the memo', () => {
+    const costBreakdown = {
+      ...createEmptyCostBreakdown('EUR'),
+      tax: { amount: 679, currency: 'EUR' },
+      taxRate: 19,
+    };
+    const qif = convertOrdersToQIF([createOrder({ costBreakdown })]);
+    expect(qif).toContain('MUSB Cable | Tax 6.79 EUR (19%)');
+  });
+
+  it('should set the category shared by the enriched items', () => {
+    const order = createOrder();
+    order.items[0]!.product = {
+      brand: 'Anker',
+      category: ['Electronics', 'Cables'],
+      isbn: '',
+      ean: '',
+    };
+    const qif = convertOrdersToQIF([order]);
+    expect(qif).toContain('PAmazon\nLElectronics:Cables\nMUSB Cable | Electronics > Cables');
+  });
+
+  it('should write a credit record per refund', () => {
+    const refund = {
+      items: [{ asin: 'B000000001', title: 'USB Cable', quantity: 1 }],
+      amount: { amount: 1299, currency: 'EUR' },
+      date: '2024-03-20',
+      method: 'Visa ****1234',
+    };
+    const qif = convertOrdersToQIF([createOrder({ refunds: [refund] })]);
+    expect(qif.split('\n').slice(7)).toEqual([
+      'D03/20/2024',
+      'T12.99',
+      'N302-1234567-1234567',
+      'PAmazon',
+      'MRefund: USB Cable',
+      '^',
+    ]);
+  });
+
+  it('should skip orders without a date', () => {
+    expect(convertOrdersToQIF([createOrder({ orderDate: '' })])).toBe('!Type:CCard');
+  });
+
+  it('should keep memos on a single line', () => {
+    const order = createOrder();
+    order.items[0]!.title = 'Line 1\nLine 2';
+    expect(convertOrdersToQIF([order])).toContain('MLine 1 Line 2');
+  });
+});
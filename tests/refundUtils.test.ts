@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRefundMemo,
+  getNetAmount,
+  getRefundedAmount,
+  mergeRefunds,
+  parseRefundText,
+} from '../src/utils/refundUtils';
+import { getSiteProfile } from '../src/utils/siteProfileUtils';
+import type { Refund } from '../src/types';
+
+const createRefund = (overrides: Partial<Refund> = {}): Refund => ({
+  items: [],
+  amount: { amount: 1299, currency: 'EUR' },
+  date: '',
+  method: '',
+  ...overrides,
+});
+
+describe('parseRefundText', () => {
+  it('should parse amount, date and card of a refund', () => {
+    expect(
+      parseRefundText(
+        'Refund issued on March 20, 2024: $12.99 to Visa ending in 1234',
+        '2024-03-15',
+        'USD',
+        getSiteProfile('amazon.com')
+      )
+    ).toEqual({
+      amount: { amount: 1299, currency: 'USD' },
+      date: '2024-03-20',
+      method: 'Visa ****1234',
+    });
+  });
+
+  it('should take an amount preceding the label', () => {
+    const refund = parseRefundText(
+      '12,99 € erstattet am 20. März',
+      '2024-03-15',
+      'EUR',
+      getSiteProfile('amazon.de')
+    );
+    expect(refund?.amount).toEqual({ amount: 1299, currency: 'EUR' });
+    expect(refund?.date).toBe('2024-03-20');
+  });
+
+  it('should recognize refunds to gift cards', () => {
+    const refund = parseRefundText(
+      'Refund: $5.00 to your Gift Card balance',
+      '2024-03-15',
+      'USD',
+      getSiteProfile('amazon.com')
+    );
+    expect(refund).toEqual({
+      amount: { amount: 500, currency: 'USD' },
+      date: '',
+      method: 'Gift card',
+    });
+  });
+
+  it('should return null without label or amount in the order currency', () => {
+    expect(parseRefundText('Delivered March 20: $12.99', '2024-03-15', 'USD')).toBeNull();
+    expect(parseRefundText('Refund issued', '2024-03-15', 'USD')).toBeNull();
+    expect(parseRefundText('Refund: 12,99 €', '2024-03-15', 'USD')).toBeNull();
+  });
+});
+
+describe('mergeRefunds', () => {
+  it('should complete known refunds of the same amount', () => {
+    const items = [{ asin: 'B000000001', title: 'USB Cable', quantity: 1 }];
+    const merged = mergeRefunds(
+      [createRefund({ date: '2024-03-20' })],
+      [createRefund({ items, method: 'Visa ****1234' })]
+    );
+    expect(merged).toEqual([createRefund({ items, date: '2024-03-20', method: 'Visa ****1234' })]);
+  });
+
+  it('should add refunds with other amounts or dates', () => {
+    const merged = mergeRefunds(
+      [createRefund({ date: '2024-03-20' })],
+      [
+        createRefund({ date: '2024-04-02' }),
+        createRefund({ amount: { amount: 500, currency: 'EUR' } }),
+      ]
+    );
+    expect(merged).toHaveLength(3);
+  });
+
+  it('should not change the given refunds', () => {
+    const refunds = [createRefund()];
+    mergeRefunds(refunds, [createRefund({ method: 'PayPal' })]);
+    expect(refunds[0]?.method).toBe('');
+  });
+});
+
+describe('getRefundedAmount', () => {
+  it('should sum the refunds in the order currency', () => {
+    const order = {
+      totalAmount: { amount: 4250, currency: 'EUR' },
+      refunds: [
+        createRefund(),
+        createRefund({ amount: { amount: 500, currency: 'EUR' } }),
+        createRefund({ amount: { amount: 700, currency: 'USD' } }),
+      ],
+    };
+    expect(getRefundedAmount(order)).toEqual({ amount: 1799, currency: 'EUR' });
+    expect(getNetAmount(order)).toEqual({ amount: 2451, currency: 'EUR' });
+  });
+
+  it('should return the total without refunds', () => {
+    const order = { totalAmount: { amount: 4250, currency: 'EUR' }, refunds: [] };
+    expect(getRefundedAmount(order)).toEqual({ amount: 0, currency: 'EUR' });
+    expect(getNetAmount(order)).toEqual({ amount: 4250, currency: 'EUR' });
+  });
+});
+
+describe('buildRefundMemo', () => {
+  it('should list the refunded items', () => {
+    const items = [
+      { asin: 'B000000001', title: 'USB Cable', quantity: 1 },
+      { asin: 'B000000002', title: 'Desk Lamp', quantity: 1 },
+    ];
+    expect(buildRefundMemo(createRefund({ items }))).toBe('Refund: USB Cable; Desk Lamp');
+    expect(buildRefundMemo(createRefund())).toBe('Refund');
+  });
+
+  it('should truncate long memos', () => {
+    const items = [{ asin: 'B000000001', title: 'A'.repeat(40), quantity: 1 }];
+    expect(buildRefundMemo(createRefund({ items }), 20)).toBe(`Refund: ${'A'.repeat(9)}...`);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectShipmentStatus,
+  extractTrackingId,
+  extractTrackingIdFromUrl,
+  findCarrier,
+  parseShipmentText,
+} from '../src/utils/shipmentUtils';
+import { getSiteProfile } from '../src/utils/siteProfileUtils';
+
+describe('findCarrier', () => {
+  it('should find known carriers', () => {
+    expect(findCarrier('Shipped with UPS')).toBe('UPS');
+    expect(findCarrier('Versand durch Deutsche Post')).toBe('Deutsche Post');
+    expect(findCarrier('Carrier: Amazon Logistics')).toBe('Amazon Logistics');
+    expect(findCarrier('ヤマト運輸でお届け')).toBe('ヤマト運輸');
+  });
+
+  it('should only match whole words', () => {
+    expect(findCarrier('Groups of two')).toBe('');
+    expect(findCarrier('Ups and downs')).toBe('');
+  });
+
+  it('should return an empty string for unknown carriers', () => {
+    expect(findCarrier('Delivered')).toBe('');
+    expect(findCarrier('')).toBe('');
+  });
+});
+
+describe('extractTrackingId', () => {
+  it('should extract the ID after a tracking label', () => {
+    expect(extractTrackingId('Tracking ID: 1Z999AA10123456784')).toBe('1Z999AA10123456784');
+    expect(extractTrackingId('Sendungsnummer 00340434161234567890')).toBe('00340434161234567890');
+  });
+
+  it('should skip words without digits', () => {
+    expect(extractTrackingId('Trackingnummer anzeigen')).toBe('');
+  });
+
+  it('should return an empty string without label', () => {
+    expect(extractTrackingId('1Z999AA10123456784')).toBe('');
+  });
+});
+
+describe('extractTrackingIdFromUrl', () => {
+  it('should read the tracking ID from tracking links', () => {
+    expect(
+      extractTrackingIdFromUrl('/gp/your-account/ship-track?itemId=abc&trackingId=TBA123456789')
+    ).toBe('TBA123456789');
+    expect(extractTrackingIdFromUrl('https://amazon.de/progress-tracker?trackingNumber=JD01')).toBe(
+      'JD01'
+    );
+  });
+
+  it('should return an empty string without tracking parameter', () => {
+    expect(extractTrackingIdFromUrl('/gp/your-account/ship-track?itemId=abc')).toBe('');
+  });
+});
+
+describe('detectShipmentStatus', () => {
+  it('should detect delivery states', () => {
+    expect(detectShipmentStatus('Delivered Feb 3')).toBe('delivered');
+    expect(detectShipmentStatus('Arriving Tuesday')).toBe('in_transit');
+    expect(detectShipmentStatus('Out for delivery')).toBe('in_transit');
+    expect(detectShipmentStatus('Shipped')).toBe('shipped');
+    expect(detectShipmentStatus('Cancelled')).toBe('cancelled');
+    expect(detectShipmentStatus('Return complete')).toBe('returned');
+  });
+
+  it('should prefer the status headline over later phrases', () => {
+    expect(detectShipmentStatus('Delivered Feb 3. Shipped with UPS')).toBe('delivered');
+  });
+
+  it('should return unknown without status phrase', () => {
+    expect(detectShipmentStatus('Buy it again')).toBe('unknown');
+  });
+});
+
+describe('parseShipmentText', () => {
+  it('should parse a delivered shipment', () => {
+    expect(
+      parseShipmentText(
+        'Delivered February 3 · Shipped January 31 with UPS · Tracking ID: 1Z999AA10123456784',
+        '2024-01-29'
+      )
+    ).toEqual({
+      status: 'delivered',
+      statusText: 'Delivered February 3',
+      shippedDate: '2024-01-31',
+      deliveredDate: '2024-02-03',
+      carrier: 'UPS',
+      trackingId: '1Z999AA10123456784',
+    });
+  });
+
+  it('should resolve dates after the turn of the year', () => {
+    const shipment = parseShipmentText('Delivered January 3', '2023-12-28');
+    expect(shipment.deliveredDate).toBe('2024-01-03');
+  });
+
+  it('should leave the delivered date empty for shipments in transit', () => {
+    const shipment = parseShipmentText('Arriving Tuesday Shipped February 1', '2024-01-30');
+    expect(shipment.status).toBe('in_transit');
+    expect(shipment.shippedDate).toBe('2024-02-01');
+    expect(shipment.deliveredDate).toBe('');
+  });
+
+  it('should read dates before Japanese status phrases', () => {
+    const shipment = parseShipmentText(
+      '2月3日に配達しました',
+      '2024-01-29',
+      getSiteProfile('amazon.co.jp')
+    );
+    expect(shipment.status).toBe('delivered');
+    expect(shipment.deliveredDate).toBe('2024-02-03');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAlternation,
+  getSiteProfile,
+  normalizeText,
+  GENERIC_SITE_PROFILE,
+  SITE_PROFILES,
+} from '../src/utils/siteProfileUtils';
+import { AMAZON_DOMAINS } from '../src/utils/urlUtils';
+
+describe('getSiteProfile', () => {
+  it('should have a profile for every supported marketplace', () => {
+    for (const domain of AMAZON_DOMAINS) {
+      expect(SITE_PROFILES[domain]?.domain).toBe(domain);
+    }
+  });
+
+  it('should return the profile of a marketplace', () => {
+    expect(getSiteProfile('amazon.co.jp').currency).toBe('JPY');
+  });
+
+  it('should fall back to the generic profile for unknown domains', () => {
+    expect(getSiteProfile('example.com')).toBe(GENERIC_SITE_PROFILE);
+    expect(getSiteProfile('')).toBe(GENERIC_SITE_PROFILE);
+  });
+
+  it('should accept the texts of all marketplaces in the generic profile', () => {
+    expect(GENERIC_SITE_PROFILE.months['januar']).toBe(1);
+    expect(GENERIC_SITE_PROFILE.months['diciembre']).toBe(12);
+    expect(GENERIC_SITE_PROFILE.statusPhrases).toContain('Zugestellt');
+    expect(GENERIC_SITE_PROFILE.statusPhrases).toContain('Delivered');
+    expect(GENERIC_SITE_PROFILE.decimalSeparator).toBeUndefined();
+  });
+});
+
+describe('normalizeText', () => {
+  it('should lowercase and strip diacritics', () => {
+    expect(normalizeText('März')).toBe('marz');
+    expect(normalizeText('Février')).toBe('fevrier');
+  });
+});
+
+describe('buildAlternation', () => {
+  it('should escape phrases and put longer ones first', () => {
+    expect(buildAlternation(['Total', 'Order total', 'Rs.'])).toBe('Order total|Total|Rs\\.');
+  });
+});
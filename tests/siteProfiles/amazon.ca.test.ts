@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.ca');
+const orderText = 'Order placed January 15, 2024 Total CDN$ 1,234.56 Ship to Alex';
+
+describe('amazon.ca (English, CAD)', () => {
+  it('should use the amazon.ca profile', () => {
+    expect(profile.domain).toBe('amazon.ca');
+    expect(profile.currency).toBe('CAD');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-01-15');
+  });
+
+  it('should parse March 1, 2023', () => {
+    expect(parseDate('March 1, 2023', profile)).toBe('2023-03-01');
+  });
+
+  it('should parse December 31, 2022', () => {
+    expect(parseDate('December 31, 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 123456,
+      currency: 'CAD',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('CAD');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Shipped', profile)).toBe('Shipped');
+    expect(extractOrderStatus('Cancelled', profile)).toBe('Cancelled');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Qty: 2', profile)).toBe(2);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Coupon Savings: -$5.00', profile)).toBe(true);
+    expect(extractPromotionAmount('Coupon Savings: -$5.00', profile)).toEqual({
+      amount: 500,
+      currency: 'CAD',
+    });
+    expect(extractPromotionAmount('-CDN$ 3.00', profile)).toEqual({ amount: 300, currency: 'CAD' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Shipping & Handling: $4.99', profile)).toBe(false);
+    expect(extractPromotionAmount('Shipping & Handling: $4.99', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText(
+        'Delivered March 5 · Canada Post · Tracking ID: 7023210039414604',
+        '2024-03-01',
+        profile
+      )
+    ).toMatchObject({
+      status: 'delivered',
+      shippedDate: '',
+      deliveredDate: '2024-03-05',
+      carrier: 'Canada Post',
+      trackingId: '7023210039414604',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = [
+      'Item(s) Subtotal: CDN$ 20.00',
+      'Total before tax: CDN$ 20.00',
+      'GST/HST: CDN$ 2.60',
+      'Grand Total: CDN$ 22.60',
+    ];
+    expect(parseCostBreakdown(lines, 'CAD', profile)).toMatchObject({
+      subtotal: { amount: 2000, currency: 'CAD' },
+      totalBeforeTax: { amount: 2000, currency: 'CAD' },
+      tax: { amount: 260, currency: 'CAD' },
+      grandTotal: { amount: 2260, currency: 'CAD' },
+      taxRate: null,
+    });
+  });
+});
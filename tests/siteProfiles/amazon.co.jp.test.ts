@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.co.jp');
+const orderText = '注文日 2024年1月15日 合計 ￥12,345 お届け先 山田';
+
+describe('amazon.co.jp (Japanese, JPY)', () => {
+  it('should use the amazon.co.jp profile', () => {
+    expect(profile.domain).toBe('amazon.co.jp');
+    expect(profile.currency).toBe('JPY');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-01-15');
+  });
+
+  it('should parse 2023年3月1日', () => {
+    expect(parseDate('2023年3月1日', profile)).toBe('2023-03-01');
+  });
+
+  it('should parse 2022/12/31', () => {
+    expect(parseDate('2022/12/31', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 12345,
+      currency: 'JPY',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('JPY');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('配達しました 1月17日', profile)).toBe('配達しました 1月17日');
+    expect(extractOrderStatus('キャンセル済み', profile)).toBe('キャンセル済み');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('数量：2', profile)).toBe(2);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('クーポン割引: -￥500', profile)).toBe(true);
+    expect(extractPromotionAmount('クーポン割引: -￥500', profile)).toEqual({
+      amount: 500,
+      currency: 'JPY',
+    });
+    expect(extractPromotionAmount('-￥1,000', profile)).toEqual({ amount: 1000, currency: 'JPY' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('配送料: ￥410', profile)).toBe(false);
+    expect(extractPromotionAmount('配送料: ￥410', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText(
+        '1月17日に配達しました · ヤマト運輸 · お問い合わせ伝票番号: 123456789012',
+        '2024-01-15',
+        profile
+      )
+    ).toMatchObject({
+      status: 'delivered',
+      shippedDate: '',
+      deliveredDate: '2024-01-17',
+      carrier: 'ヤマト運輸',
+      trackingId: '123456789012',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = ['商品の小計： ￥3,000', '配送料・手数料： ￥0', 'ご請求額： ￥3,000'];
+    expect(parseCostBreakdown(lines, 'JPY', profile)).toMatchObject({
+      subtotal: { amount: 3000, currency: 'JPY' },
+      grandTotal: { amount: 3000, currency: 'JPY' },
+      taxRate: null,
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.co.uk');
+const orderText = 'Order placed 15 January 2024 Total £1,234.56 Dispatch to Jane';
+
+describe('amazon.co.uk (English, GBP)', () => {
+  it('should use the amazon.co.uk profile', () => {
+    expect(profile.domain).toBe('amazon.co.uk');
+    expect(profile.currency).toBe('GBP');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-01-15');
+  });
+
+  it('should parse 3 March 2023', () => {
+    expect(parseDate('3 March 2023', profile)).toBe('2023-03-03');
+  });
+
+  it('should parse 31 December 2022', () => {
+    expect(parseDate('31 December 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 123456,
+      currency: 'GBP',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('GBP');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Dispatched', profile)).toBe('Dispatched');
+    expect(extractOrderStatus('Arriving Tuesday', profile)).toBe('Arriving Tuesday');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Quantity: 2', profile)).toBe(2);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Promotion Applied: -£3.50', profile)).toBe(true);
+    expect(extractPromotionAmount('Promotion Applied: -£3.50', profile)).toEqual({
+      amount: 350,
+      currency: 'GBP',
+    });
+    expect(extractPromotionAmount('-£0.99', profile)).toEqual({ amount: 99, currency: 'GBP' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Postage & Packing: £2.99', profile)).toBe(false);
+    expect(extractPromotionAmount('Postage & Packing: £2.99', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText(
+        'Dispatched 2 March · Royal Mail · Tracking number: JD000123456GB',
+        '2024-02-29',
+        profile
+      )
+    ).toMatchObject({
+      status: 'shipped',
+      shippedDate: '2024-03-02',
+      deliveredDate: '',
+      carrier: 'Royal Mail',
+      trackingId: 'JD000123456GB',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = [
+      'Item(s) Subtotal: £20.00',
+      'Postage & Packing: £2.99',
+      'Total Before VAT: £19.16',
+      'VAT: £3.83',
+      'Grand Total: £22.99',
+    ];
+    expect(parseCostBreakdown(lines, 'GBP', profile)).toMatchObject({
+      subtotal: { amount: 2000, currency: 'GBP' },
+      shipping: { amount: 299, currency: 'GBP' },
+      totalBeforeTax: { amount: 1916, currency: 'GBP' },
+      tax: { amount: 383, currency: 'GBP' },
+      grandTotal: { amount: 2299, currency: 'GBP' },
+      taxRate: null,
+    });
+  });
+});
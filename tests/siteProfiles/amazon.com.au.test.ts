@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.com.au');
+const orderText = 'Order placed 15 January 2024 Total A$1,234.56 Ship to Sam';
+
+describe('amazon.com.au (English, AUD)', () => {
+  it('should use the amazon.com.au profile', () => {
+    expect(profile.domain).toBe('amazon.com.au');
+    expect(profile.currency).toBe('AUD');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-01-15');
+  });
+
+  it('should parse 3 March 2023', () => {
+    expect(parseDate('3 March 2023', profile)).toBe('2023-03-03');
+  });
+
+  it('should parse 31 December 2022', () => {
+    expect(parseDate('31 December 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 123456,
+      currency: 'AUD',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('AUD');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Arriving Friday', profile)).toBe('Arriving Friday');
+    expect(extractOrderStatus('Returned', profile)).toBe('Returned');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Quantity: 2', profile)).toBe(2);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Discount: -$4.00', profile)).toBe(true);
+    expect(extractPromotionAmount('Discount: -$4.00', profile)).toEqual({
+      amount: 400,
+      currency: 'AUD',
+    });
+    expect(extractPromotionAmount('-A$2.50', profile)).toEqual({ amount: 250, currency: 'AUD' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Postage: $9.99', profile)).toBe(false);
+    expect(extractPromotionAmount('Postage: $9.99', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText('Arriving Friday · Australia Post', '2024-03-01', profile)
+    ).toMatchObject({
+      status: 'in_transit',
+      shippedDate: '',
+      deliveredDate: '',
+      carrier: 'Australia Post',
+      trackingId: '',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = [
+      'Item(s) Subtotal: $30.00',
+      'Postage & Packing: $5.00',
+      'GST: $3.18',
+      'Grand Total: $35.00',
+    ];
+    expect(parseCostBreakdown(lines, 'AUD', profile)).toMatchObject({
+      subtotal: { amount: 3000, currency: 'AUD' },
+      shipping: { amount: 500, currency: 'AUD' },
+      tax: { amount: 318, currency: 'AUD' },
+      grandTotal: { amount: 3500, currency: 'AUD' },
+      taxRate: null,
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.com.be');
+const orderText = 'Commande effectuée le 3 mars 2024 Total 89,90 € Livrer à Lucas';
+
+describe('amazon.com.be (French, EUR)', () => {
+  it('should use the amazon.com.be profile', () => {
+    expect(profile.domain).toBe('amazon.com.be');
+    expect(profile.currency).toBe('EUR');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-03-03');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({ amount: 8990, currency: 'EUR' });
+    expect(detectCurrency(orderText, profile)).toBe('EUR');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Livré le 5 mars', profile)).toBe('Livré le 5 mars');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Quantité : 2', profile)).toBe(2);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Réduction : -5,00 €', profile)).toBe(true);
+    expect(extractPromotionAmount('Réduction : -5,00 €', profile)).toEqual({
+      amount: 500,
+      currency: 'EUR',
+    });
+  });
+});
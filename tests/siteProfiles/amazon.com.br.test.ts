@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.com.br');
+const orderText = 'Pedido feito em 15 de janeiro de 2024 Total R$ 1.234,56 Enviar para João';
+
+describe('amazon.com.br (Portuguese, BRL)', () => {
+  it('should use the amazon.com.br profile', () => {
+    expect(profile.domain).toBe('amazon.com.br');
+    expect(profile.currency).toBe('BRL');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-01-15');
+  });
+
+  it('should parse 3 de março de 2023', () => {
+    expect(parseDate('3 de março de 2023', profile)).toBe('2023-03-03');
+  });
+
+  it('should parse 31 de dezembro de 2022', () => {
+    expect(parseDate('31 de dezembro de 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 123456,
+      currency: 'BRL',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('BRL');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Entregue em 20 de janeiro', profile)).toBe(
+      'Entregue em 20 de janeiro'
+    );
+    expect(extractOrderStatus('Pedido cancelado', profile)).toBe('cancelado');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Quantidade: 2', profile)).toBe(2);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Desconto: -R$ 10,00', profile)).toBe(true);
+    expect(extractPromotionAmount('Desconto: -R$ 10,00', profile)).toEqual({
+      amount: 1000,
+      currency: 'BRL',
+    });
+    expect(extractPromotionAmount('-R$ 5,50', profile)).toEqual({ amount: 550, currency: 'BRL' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Frete: R$ 9,90', profile)).toBe(false);
+    expect(extractPromotionAmount('Frete: R$ 9,90', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText(
+        'Entregue em 20 de janeiro · Correios · Código de rastreio: QB123456789BR',
+        '2024-01-15',
+        profile
+      )
+    ).toMatchObject({
+      status: 'delivered',
+      shippedDate: '',
+      deliveredDate: '2024-01-20',
+      carrier: 'Correios',
+      trackingId: 'QB123456789BR',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = [
+      'Subtotal dos itens: R$ 100,00',
+      'Frete: R$ 10,00',
+      'Total do pedido: R$ 110,00',
+    ];
+    expect(parseCostBreakdown(lines, 'BRL', profile)).toMatchObject({
+      subtotal: { amount: 10000, currency: 'BRL' },
+      shipping: { amount: 1000, currency: 'BRL' },
+      grandTotal: { amount: 11000, currency: 'BRL' },
+      taxRate: null,
+    });
+  });
+});
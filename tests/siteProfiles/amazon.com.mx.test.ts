@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.com.mx');
+const orderText = 'Pedido realizado el 15 de enero de 2024 Total $1,234.56 Enviar a Sofía';
+
+describe('amazon.com.mx (Spanish, MXN)', () => {
+  it('should use the amazon.com.mx profile', () => {
+    expect(profile.domain).toBe('amazon.com.mx');
+    expect(profile.currency).toBe('MXN');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-01-15');
+  });
+
+  it('should parse 3 de marzo de 2023', () => {
+    expect(parseDate('3 de marzo de 2023', profile)).toBe('2023-03-03');
+  });
+
+  it('should parse 31 de diciembre de 2022', () => {
+    expect(parseDate('31 de diciembre de 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 123456,
+      currency: 'MXN',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('MXN');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Entregado el 18 de enero', profile)).toBe(
+      'Entregado el 18 de enero'
+    );
+    expect(extractOrderStatus('Devuelto', profile)).toBe('Devuelto');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Cantidad: 2', profile)).toBe(2);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Cupón: -$50.00', profile)).toBe(true);
+    expect(extractPromotionAmount('Cupón: -$50.00', profile)).toEqual({
+      amount: 5000,
+      currency: 'MXN',
+    });
+    expect(extractPromotionAmount('-$25.00', profile)).toEqual({ amount: 2500, currency: 'MXN' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Envío: $99.00', profile)).toBe(false);
+    expect(extractPromotionAmount('Envío: $99.00', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(parseShipmentText('Llega el viernes · Estafeta', '2024-01-14', profile)).toMatchObject({
+      status: 'in_transit',
+      shippedDate: '',
+      deliveredDate: '',
+      carrier: 'Estafeta',
+      trackingId: '',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = [
+      'Subtotal: $500.00',
+      'Envío: $99.00',
+      'Total antes de impuestos: $516.38',
+      'Impuestos: $82.62',
+      'Importe total: $599.00',
+    ];
+    expect(parseCostBreakdown(lines, 'MXN', profile)).toMatchObject({
+      subtotal: { amount: 50000, currency: 'MXN' },
+      shipping: { amount: 9900, currency: 'MXN' },
+      totalBeforeTax: { amount: 51638, currency: 'MXN' },
+      tax: { amount: 8262, currency: 'MXN' },
+      grandTotal: { amount: 59900, currency: 'MXN' },
+      taxRate: null,
+    });
+  });
+});
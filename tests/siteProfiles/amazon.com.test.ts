@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.com');
+const orderText =
+  'Order placed January 15, 2024 Total $1,234.56 Ship to Jane Order # 123-1234567-1234567';
+
+describe('amazon.com (English, USD)', () => {
+  it('should use the amazon.com profile', () => {
+    expect(profile.domain).toBe('amazon.com');
+    expect(profile.currency).toBe('USD');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-01-15');
+  });
+
+  it('should parse March 1 2023', () => {
+    expect(parseDate('March 1 2023', profile)).toBe('2023-03-01');
+  });
+
+  it('should parse Dec. 31, 2022', () => {
+    expect(parseDate('Dec. 31, 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 123456,
+      currency: 'USD',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('USD');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Delivered Feb 3, 2024 Your package was delivered.', profile)).toBe(
+      'Delivered Feb 3, 2024 Your package was delivered.'
+    );
+    expect(extractOrderStatus('Return complete. Refunded', profile)).toBe('Refunded');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Qty: 3', profile)).toBe(3);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Your Coupon Savings: -$5.00', profile)).toBe(true);
+    expect(extractPromotionAmount('Your Coupon Savings: -$5.00', profile)).toEqual({
+      amount: 500,
+      currency: 'USD',
+    });
+    expect(extractPromotionAmount('-$12.50', profile)).toEqual({ amount: 1250, currency: 'USD' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Item(s) Subtotal: $29.99', profile)).toBe(false);
+    expect(extractPromotionAmount('Item(s) Subtotal: $29.99', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText(
+        'Delivered Feb 3 · Shipped with UPS · Tracking ID: 1Z999AA10123456784',
+        '2024-01-29',
+        profile
+      )
+    ).toMatchObject({
+      status: 'delivered',
+      shippedDate: '',
+      deliveredDate: '2024-02-03',
+      carrier: 'UPS',
+      trackingId: '1Z999AA10123456784',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = [
+      'Item(s) Subtotal: $45.00',
+      'Shipping & Handling: $5.99',
+      'Free Shipping: -$5.99',
+      'Total before tax: $45.00',
+      'Estimated tax to be collected: $3.68',
+      'Grand Total: $48.68',
+    ];
+    expect(parseCostBreakdown(lines, 'USD', profile)).toMatchObject({
+      subtotal: { amount: 4500, currency: 'USD' },
+      shipping: { amount: 599, currency: 'USD' },
+      promotions: { amount: 599, currency: 'USD' },
+      tax: { amount: 368, currency: 'USD' },
+      grandTotal: { amount: 4868, currency: 'USD' },
+      taxRate: null,
+    });
+  });
+});
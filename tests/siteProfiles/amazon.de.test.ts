@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.de');
+const orderText =
+  'Bestellung aufgegeben 15. März 2024 Summe 1.234,56 € Bestellnr. 123-1234567-1234567';
+
+describe('amazon.de (German, EUR)', () => {
+  it('should use the amazon.de profile', () => {
+    expect(profile.domain).toBe('amazon.de');
+    expect(profile.currency).toBe('EUR');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-03-15');
+  });
+
+  it('should parse 1. Februar 2023', () => {
+    expect(parseDate('1. Februar 2023', profile)).toBe('2023-02-01');
+  });
+
+  it('should parse 31. Dezember 2022', () => {
+    expect(parseDate('31. Dezember 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 123456,
+      currency: 'EUR',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('EUR');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Zugestellt am 3. April 2024', profile)).toBe(
+      'Zugestellt am 3. April 2024'
+    );
+    expect(extractOrderStatus('Bestellung storniert', profile)).toBe('storniert');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Menge: 2', profile)).toBe(2);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Rabatt: -5,00 €', profile)).toBe(true);
+    expect(extractPromotionAmount('Rabatt: -5,00 €', profile)).toEqual({
+      amount: 500,
+      currency: 'EUR',
+    });
+    expect(extractPromotionAmount('-12,50 €', profile)).toEqual({ amount: 1250, currency: 'EUR' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Verpackung & Versand: 3,99 €', profile)).toBe(false);
+    expect(extractPromotionAmount('Verpackung & Versand: 3,99 €', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText(
+        'Zugestellt am 3. April · DHL · Sendungsnummer: 00340434161234567890',
+        '2024-03-28',
+        profile
+      )
+    ).toMatchObject({
+      status: 'delivered',
+      shippedDate: '',
+      deliveredDate: '2024-04-03',
+      carrier: 'DHL',
+      trackingId: '00340434161234567890',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = [
+      'Zwischensumme: 45,00 €',
+      'Verpackung & Versand: 3,00 €',
+      'Summe ohne MwSt.: 40,34 €',
+      'MwSt. (19%): 7,66 €',
+      'Gesamtsumme: 48,00 €',
+    ];
+    expect(parseCostBreakdown(lines, 'EUR', profile)).toMatchObject({
+      subtotal: { amount: 4500, currency: 'EUR' },
+      shipping: { amount: 300, currency: 'EUR' },
+      totalBeforeTax: { amount: 4034, currency: 'EUR' },
+      tax: { amount: 766, currency: 'EUR' },
+      grandTotal: { amount: 4800, currency: 'EUR' },
+      taxRate: 19,
+    });
+  });
+});
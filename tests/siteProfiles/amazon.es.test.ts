@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.es');
+const orderText = 'Pedido realizado el 15 de enero de 2024 Total 1.234,56 € Enviar a Lucía';
+
+describe('amazon.es (Spanish, EUR)', () => {
+  it('should use the amazon.es profile', () => {
+    expect(profile.domain).toBe('amazon.es');
+    expect(profile.currency).toBe('EUR');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-01-15');
+  });
+
+  it('should parse 3 de marzo de 2023', () => {
+    expect(parseDate('3 de marzo de 2023', profile)).toBe('2023-03-03');
+  });
+
+  it('should parse 31 de diciembre de 2022', () => {
+    expect(parseDate('31 de diciembre de 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 123456,
+      currency: 'EUR',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('EUR');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Entregado el 18 de enero', profile)).toBe(
+      'Entregado el 18 de enero'
+    );
+    expect(extractOrderStatus('Pedido cancelado', profile)).toBe('cancelado');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Cantidad: 3', profile)).toBe(3);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Descuento: -6,00 €', profile)).toBe(true);
+    expect(extractPromotionAmount('Descuento: -6,00 €', profile)).toEqual({
+      amount: 600,
+      currency: 'EUR',
+    });
+    expect(extractPromotionAmount('-0,50 €', profile)).toEqual({ amount: 50, currency: 'EUR' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Envío: 3,99 €', profile)).toBe(false);
+    expect(extractPromotionAmount('Envío: 3,99 €', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText(
+        'Entregado el 18 de enero · SEUR · Número de seguimiento: 12345678',
+        '2024-01-14',
+        profile
+      )
+    ).toMatchObject({
+      status: 'delivered',
+      shippedDate: '',
+      deliveredDate: '2024-01-18',
+      carrier: 'SEUR',
+      trackingId: '12345678',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = [
+      'Importe de los productos: 45,00 €',
+      'Envío: 0,00 €',
+      'Total sin IVA: 37,19 €',
+      'IVA: 7,81 €',
+      'Importe total: 45,00 €',
+    ];
+    expect(parseCostBreakdown(lines, 'EUR', profile)).toMatchObject({
+      subtotal: { amount: 4500, currency: 'EUR' },
+      totalBeforeTax: { amount: 3719, currency: 'EUR' },
+      tax: { amount: 781, currency: 'EUR' },
+      grandTotal: { amount: 4500, currency: 'EUR' },
+      taxRate: null,
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.fr');
+const orderText = 'Commande effectuée le 1er février 2024 Total 1 234,56 € Livrer à Marie';
+
+describe('amazon.fr (French, EUR)', () => {
+  it('should use the amazon.fr profile', () => {
+    expect(profile.domain).toBe('amazon.fr');
+    expect(profile.currency).toBe('EUR');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-02-01');
+  });
+
+  it('should parse 15 août 2023', () => {
+    expect(parseDate('15 août 2023', profile)).toBe('2023-08-15');
+  });
+
+  it('should parse 31 décembre 2022', () => {
+    expect(parseDate('31 décembre 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 123456,
+      currency: 'EUR',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('EUR');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Livré le 5 février', profile)).toBe('Livré le 5 février');
+    expect(extractOrderStatus('Commande annulée', profile)).toBe('annulée');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Quantité : 4', profile)).toBe(4);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Réduction : -7,50 €', profile)).toBe(true);
+    expect(extractPromotionAmount('Réduction : -7,50 €', profile)).toEqual({
+      amount: 750,
+      currency: 'EUR',
+    });
+    expect(extractPromotionAmount('-2,00 €', profile)).toEqual({ amount: 200, currency: 'EUR' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Livraison : 2,99 €', profile)).toBe(false);
+    expect(extractPromotionAmount('Livraison : 2,99 €', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText(
+        'Livré le 5 février · Colissimo · Numéro de suivi : 6A12345678901',
+        '2024-01-30',
+        profile
+      )
+    ).toMatchObject({
+      status: 'delivered',
+      shippedDate: '',
+      deliveredDate: '2024-02-05',
+      carrier: 'Colissimo',
+      trackingId: '6A12345678901',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = [
+      'Sous-total : 45,00 €',
+      'Livraison : 0,00 €',
+      'Total avant TVA : 37,50 €',
+      'TVA (20 %) : 7,50 €',
+      'Montant total : 45,00 €',
+    ];
+    expect(parseCostBreakdown(lines, 'EUR', profile)).toMatchObject({
+      subtotal: { amount: 4500, currency: 'EUR' },
+      totalBeforeTax: { amount: 3750, currency: 'EUR' },
+      tax: { amount: 750, currency: 'EUR' },
+      grandTotal: { amount: 4500, currency: 'EUR' },
+      taxRate: 20,
+    });
+  });
+});
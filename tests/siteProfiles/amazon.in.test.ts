@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.in');
+const orderText = 'Order placed 15 January 2024 Total ₹1,23,456.78 Ship to Priya';
+
+describe('amazon.in (English, INR)', () => {
+  it('should use the amazon.in profile', () => {
+    expect(profile.domain).toBe('amazon.in');
+    expect(profile.currency).toBe('INR');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-01-15');
+  });
+
+  it('should parse 3 March 2023', () => {
+    expect(parseDate('3 March 2023', profile)).toBe('2023-03-03');
+  });
+
+  it('should parse 31 December 2022', () => {
+    expect(parseDate('31 December 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 12345678,
+      currency: 'INR',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('INR');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Delivered 18-Jan-2024', profile)).toBe('Delivered 18');
+    expect(extractOrderStatus('Refunded', profile)).toBe('Refunded');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Qty: 5', profile)).toBe(5);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Promotion Applied: -₹150.00', profile)).toBe(true);
+    expect(extractPromotionAmount('Promotion Applied: -₹150.00', profile)).toEqual({
+      amount: 15000,
+      currency: 'INR',
+    });
+    expect(extractPromotionAmount('-₹20.00', profile)).toEqual({ amount: 2000, currency: 'INR' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Delivery: ₹40.00', profile)).toBe(false);
+    expect(extractPromotionAmount('Delivery: ₹40.00', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText(
+        'Delivered 18 January · Delhivery · Tracking ID: 1234567890123',
+        '2024-01-14',
+        profile
+      )
+    ).toMatchObject({
+      status: 'delivered',
+      shippedDate: '',
+      deliveredDate: '2024-01-18',
+      carrier: 'Delhivery',
+      trackingId: '1234567890123',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = ['Item(s) Subtotal: ₹1,200.00', 'Shipping: ₹40.00', 'Grand Total: ₹1,240.00'];
+    expect(parseCostBreakdown(lines, 'INR', profile)).toMatchObject({
+      subtotal: { amount: 120000, currency: 'INR' },
+      shipping: { amount: 4000, currency: 'INR' },
+      grandTotal: { amount: 124000, currency: 'INR' },
+      taxRate: null,
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { parseDate, extractOrderDate } from '../../src/utils/dateUtils';
+import {
+  detectCurrency,
+  extractPriceFromText,
+  extractPromotionAmount,
+  hasPromotionKeyword,
+} from '../../src/utils/priceUtils';
+import { extractOrderStatus, extractQuantity } from '../../src/utils/orderUtils';
+import { parseCostBreakdown } from '../../src/utils/costBreakdownUtils';
+import { parseShipmentText } from '../../src/utils/shipmentUtils';
+import { getSiteProfile } from '../../src/utils/siteProfileUtils';
+
+const profile = getSiteProfile('amazon.it');
+const orderText = 'Ordine effettuato il 15 gennaio 2024 Totale 1.234,56 € Spedizione a Luca';
+
+describe('amazon.it (Italian, EUR)', () => {
+  it('should use the amazon.it profile', () => {
+    expect(profile.domain).toBe('amazon.it');
+    expect(profile.currency).toBe('EUR');
+  });
+
+  it('should extract the order date', () => {
+    expect(extractOrderDate(orderText, profile)).toBe('2024-01-15');
+  });
+
+  it('should parse 3 marzo 2023', () => {
+    expect(parseDate('3 marzo 2023', profile)).toBe('2023-03-03');
+  });
+
+  it('should parse 31 dicembre 2022', () => {
+    expect(parseDate('31 dicembre 2022', profile)).toBe('2022-12-31');
+  });
+
+  it('should extract the order total in minor units', () => {
+    expect(extractPriceFromText(orderText, profile)).toEqual({
+      amount: 123456,
+      currency: 'EUR',
+    });
+    expect(detectCurrency(orderText, profile)).toBe('EUR');
+  });
+
+  it('should extract the order status', () => {
+    expect(extractOrderStatus('Consegnato il 20 gennaio', profile)).toBe(
+      'Consegnato il 20 gennaio'
+    );
+    expect(extractOrderStatus('In arrivo domani', profile)).toBe('In arrivo domani');
+  });
+
+  it('should extract item quantities', () => {
+    expect(extractQuantity('Quantità: 2', profile)).toBe(2);
+  });
+
+  it('should extract promotion amounts', () => {
+    expect(hasPromotionKeyword('Sconto: -4,00 €', profile)).toBe(true);
+    expect(extractPromotionAmount('Sconto: -4,00 €', profile)).toEqual({
+      amount: 400,
+      currency: 'EUR',
+    });
+    expect(extractPromotionAmount('-1,50 €', profile)).toEqual({ amount: 150, currency: 'EUR' });
+  });
+
+  it('should not treat other charges as promotions', () => {
+    expect(hasPromotionKeyword('Spedizione: 2,99 €', profile)).toBe(false);
+    expect(extractPromotionAmount('Spedizione: 2,99 €', profile)).toBeNull();
+  });
+
+  it('should parse shipments', () => {
+    expect(
+      parseShipmentText(
+        'Consegnato il 20 gennaio · BRT · Numero di tracking: 123456789012',
+        '2024-01-15',
+        profile
+      )
+    ).toMatchObject({
+      status: 'delivered',
+      shippedDate: '',
+      deliveredDate: '2024-01-20',
+      carrier: 'BRT',
+      trackingId: '123456789012',
+    });
+  });
+
+  it('should parse the order summary', () => {
+    const lines = [
+      'Subtotale: 45,00 €',
+      'Spedizione: 0,00 €',
+      'Totale senza IVA: 36,89 €',
+      'IVA (22%): 8,11 €',
+      'Totale complessivo: 45,00 €',
+    ];
+    expect(parseCostBreakdown(lines, 'EUR', profile)).toMatchObject({
+      subtotal: { amount: 4500, currency: 'EUR' },
+      totalBeforeTax: { amount: 3689, currency: 'EUR' },
+      tax: { amount: 811, currency: 'EUR' },
+      grandTotal: { amount: 4500, currency: 'EUR' },
+      taxRate: 22,
+    });
+  });
+});
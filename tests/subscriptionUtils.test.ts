@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatCadence,
+  hasSubscribeAndSaveLabel,
+  linkSubscribeAndSaveOrders,
+  parseCadence,
+  parseSubscriptionCharges,
+  parseSubscriptionText,
+} from '../src/utils/subscriptionUtils';
+import { getSiteProfile } from '../src/utils/siteProfileUtils';
+import type { Order, Subscription } from '../src/types';
+
+const createSubscription = (overrides: Partial<Subscription> = {}): Subscription => ({
+  name: 'Coffee Beans',
+  kind: 'subscribe_and_save',
+  asin: 'B000000001',
+  cadence: { count: 1, unit: 'month' },
+  price: { amount: 1499, currency: 'USD' },
+  nextChargeDate: '',
+  charges: [],
+  url: '',
+  ...overrides,
+});
+
+const createOrder = (overrides: Partial<Order> = {}): Order =>
+  ({
+    orderId: '111-1234567-1234567',
+    orderDate: '2024-03-01',
+    subscribeAndSave: true,
+    items: [
+      {
+        asin: 'B000000001',
+        title: 'Coffee Beans',
+        quantity: 2,
+        unitPrice: { amount: 1299, currency: 'USD' },
+        lineTotal: { amount: 2598, currency: 'USD' },
+        allocatedDiscount: { amount: 0, currency: 'USD' },
+        netLineTotal: { amount: 2598, currency: 'USD' },
+        itemUrl: '',
+        imageUrl: '',
+        seller: '',
+        fulfilledByAmazon: null,
+        product: null,
+      },
+    ],
+    ...overrides,
+  }) as Order;
+
+describe('parseCadence', () => {
+  it('should parse intervals with a count', () => {
+    expect(parseCadence('Every 2 months')).toEqual({ count: 2, unit: 'month' });
+    expect(parseCadence('alle 4 Wochen', getSiteProfile('amazon.de'))).toEqual({
+      count: 4,
+      unit: 'week',
+    });
+    expect(parseCadence('2か月ごと', getSiteProfile('amazon.co.jp'))).toEqual({
+      count: 2,
+      unit: 'month',
+    });
+  });
+
+  it('should default to a count of one', () => {
+    expect(parseCadence('$14.99/month')).toEqual({ count: 1, unit: 'month' });
+    expect(parseCadence('Billed yearly')).toEqual({ count: 1, unit: 'year' });
+  });
+
+  it('should take the first unit of the text', () => {
+    expect(parseCadence('Every 3 weeks, renews in 2 days')).toEqual({ count: 3, unit: 'week' });
+  });
+
+  it('should not match units inside words', () => {
+    expect(parseCadence('Monday delivery')).toBeNull();
+    expect(parseCadence('Kindle Unlimited')).toBeNull();
+  });
+});
+
+describe('formatCadence', () => {
+  it('should describe the interval', () => {
+    expect(formatCadence({ count: 1, unit: 'month' })).toBe('1 month');
+    expect(formatCadence({ count: 2, unit: 'week' })).toBe('2 weeks');
+    expect(formatCadence(null)).toBe('');
+  });
+});
+
+describe('parseSubscriptionText', () => {
+  it('should parse cadence, price and next charge date', () => {
+    expect(
+      parseSubscriptionText(
+        'Amazon Prime $14.99/month Next payment: June 3',
+        '2024-04-10',
+        getSiteProfile('amazon.com')
+      )
+    ).toEqual({
+      cadence: { count: 1, unit: 'month' },
+      price: { amount: 1499, currency: 'USD' },
+      nextChargeDate: '2024-06-03',
+    });
+  });
+
+  it('should take dates before today to be next year', () => {
+    const result = parseSubscriptionText(
+      'Prime 89,90 € jährlich Verlängert sich am 2. Februar',
+      '2024-11-20',
+      getSiteProfile('amazon.de')
+    );
+    expect(result.cadence).toEqual({ count: 1, unit: 'year' });
+    expect(result.price).toEqual({ amount: 8990, currency: 'EUR' });
+    expect(result.nextChargeDate).toBe('2025-02-02');
+  });
+
+  it('should leave missing values empty', () => {
+    expect(parseSubscriptionText('Audible', '2024-04-10')).toEqual({
+      cadence: null,
+      price: null,
+      nextChargeDate: '',
+    });
+  });
+});
+
+describe('parseSubscriptionCharges', () => {
+  it('should parse one charge per line with date and amount', () => {
+    expect(
+      parseSubscriptionCharges(
+        [
+          'March 3, 2024 - Visa ending in 1234: $14.99',
+          'February 3, 2024 - Visa ending in 1234: $14.99',
+          'March 3, 2024 - Visa ending in 1234: $14.99',
+          'Payment history',
+        ],
+        getSiteProfile('amazon.com')
+      )
+    ).toEqual([
+      { date: '2024-03-03', amount: { amount: 1499, currency: 'USD' }, orderId: '' },
+      { date: '2024-02-03', amount: { amount: 1499, currency: 'USD' }, orderId: '' },
+    ]);
+  });
+});
+
+describe('hasSubscribeAndSaveLabel', () => {
+  it('should recognize the program on each marketplace', () => {
+    expect(hasSubscribeAndSaveLabel('Subscribe & Save delivery')).toBe(true);
+    expect(hasSubscribeAndSaveLabel('Spar-Abo Lieferung', getSiteProfile('amazon.de'))).toBe(true);
+    expect(hasSubscribeAndSaveLabel('Delivered March 3')).toBe(false);
+  });
+});
+
+describe('linkSubscribeAndSaveOrders', () => {
+  it('should add Subscribe & Save orders of the product as charges', () => {
+    const [subscription] = linkSubscribeAndSaveOrders(
+      [createSubscription()],
+      [
+        createOrder({ orderId: '111-2', orderDate: '2024-04-01' }),
+        createOrder({ orderId: '111-1', orderDate: '2024-03-01' }),
+        createOrder({ orderId: '111-3', subscribeAndSave: false }),
+      ]
+    );
+    expect(subscription?.charges).toEqual([
+      { date: '2024-03-01', amount: { amount: 2598, currency: 'USD' }, orderId: '111-1' },
+      { date: '2024-04-01', amount: { amount: 2598, currency: 'USD' }, orderId: '111-2' },
+    ]);
+  });
+
+  it('should leave memberships and known charges unchanged', () => {
+    const membership = createSubscription({ kind: 'membership', asin: '' });
+    const charge = {
+      date: '2024-03-01',
+      amount: { amount: 2598, currency: 'USD' },
+      orderId: '111-1',
+    };
+    const [linkedMembership, linked] = linkSubscribeAndSaveOrders(
+      [membership, createSubscription({ charges: [charge] })],
+      [createOrder({ orderId: '111-1' })]
+    );
+    expect(linkedMembership).toBe(membership);
+    expect(linked?.charges).toEqual([charge]);
+  });
+});
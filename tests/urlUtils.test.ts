@@ -1,9 +1,18 @@
 import { describe, it, expect } from 'vitest';
 import {
   buildOrderPageUrl,
+  buildDigitalOrderPageUrl,
   isAmazonOrderHistoryPage,
   getOrderHistoryBaseUrl,
+  getDigitalOrderHistoryBaseUrl,
+  getReturnsCenterUrl,
+  getMembershipsUrl,
+  getSubscribeAndSaveUrl,
   extractAsinFromUrl,
+  buildProductUrl,
+  resolveImageUrl,
+  getThumbnailUrl,
+  getMarketplaceFromUrl,
   AMAZON_DOMAINS,
   ORDER_PATHS,
 } from '../src/utils/urlUtils';
@@ -32,6 +41,22 @@ describe('buildOrderPageUrl', () => {
   });
 });
 
+describe('buildDigitalOrderPageUrl', () => {
+  const baseUrl = 'https://www.amazon.de/gp/your-account/order-history';
+
+  it('should build the digital orders URL for a year', () => {
+    expect(buildDigitalOrderPageUrl(baseUrl, '2024')).toBe(
+      `${baseUrl}?digitalOrders=1&unifiedOrders=0&orderFilter=year-2024`
+    );
+  });
+
+  it('should include the start index for later pages', () => {
+    expect(buildDigitalOrderPageUrl(baseUrl, '2024', 10)).toBe(
+      `${baseUrl}?digitalOrders=1&unifiedOrders=0&orderFilter=year-2024&startIndex=10`
+    );
+  });
+});
+
 describe('isAmazonOrderHistoryPage', () => {
   describe('valid Amazon order pages', () => {
     it('should return true for amazon.com order history', () => {
@@ -59,6 +84,14 @@ describe('isAmazonOrderHistoryPage', () => {
     it('should return true for amazon.co.jp order history', () => {
       expect(isAmazonOrderHistoryPage('https://www.amazon.co.jp/your-orders')).toBe(true);
     });
+
+    it('should return true for digital order pages', () => {
+      expect(
+        isAmazonOrderHistoryPage(
+          'https://www.amazon.com/gp/digital/your-account/order-summary.html?orderID=D01-1234567-1234567'
+        )
+      ).toBe(true);
+    });
   });
 
   describe('invalid pages', () => {
@@ -105,6 +138,97 @@ describe('getOrderHistoryBaseUrl', () => {
   });
 });
 
+describe('getDigitalOrderHistoryBaseUrl', () => {
+  it('should use the marketplace of the page', () => {
+    expect(getDigitalOrderHistoryBaseUrl('https://www.amazon.co.jp/your-orders/orders')).toBe(
+      'https://www.amazon.co.jp/gp/your-account/order-history'
+    );
+  });
+
+  it('should return empty string for invalid URL', () => {
+    expect(getDigitalOrderHistoryBaseUrl('not-a-url')).toBe('');
+  });
+});
+
+describe('getReturnsCenterUrl', () => {
+  it('should use the marketplace of the page', () => {
+    expect(getReturnsCenterUrl('https://www.amazon.co.uk/your-orders/orders')).toBe(
+      'https://www.amazon.co.uk/spr/returns/history'
+    );
+  });
+
+  it('should return empty string for invalid URL', () => {
+    expect(getReturnsCenterUrl('not-a-url')).toBe('');
+  });
+});
+
+describe('getMembershipsUrl', () => {
+  it('should use the marketplace of the page', () => {
+    expect(getMembershipsUrl('https://www.amazon.de/your-orders/orders')).toBe(
+      'https://www.amazon.de/mc/yourmembershipsandsubscriptions'
+    );
+  });
+
+  it('should return empty string for invalid URL', () => {
+    expect(getMembershipsUrl('not-a-url')).toBe('');
+  });
+});
+
+describe('getSubscribeAndSaveUrl', () => {
+  it('should use the marketplace of the page', () => {
+    expect(getSubscribeAndSaveUrl('https://www.amazon.com/gp/css/order-history')).toBe(
+      'https://www.amazon.com/auto-deliveries/subscriptionList'
+    );
+  });
+
+  it('should return empty string for invalid URL', () => {
+    expect(getSubscribeAndSaveUrl('not-a-url')).toBe('');
+  });
+});
+
+describe('buildProductUrl', () => {
+  it('should build the product URL on the given marketplace', () => {
+    expect(buildProductUrl('https://www.amazon.co.jp', 'B08N5WRWNW')).toBe(
+      'https://www.amazon.co.jp/dp/B08N5WRWNW'
+    );
+  });
+});
+
+describe('resolveImageUrl', () => {
+  it('should resolve image sources against the page', () => {
+    expect(
+      resolveImageUrl(
+        'https://m.media-amazon.com/images/I/71abc+L._AC_SX300_.jpg',
+        'https://www.amazon.de/your-orders/orders'
+      )
+    ).toBe('https://m.media-amazon.com/images/I/71abc+L._AC_SX300_.jpg');
+    expect(
+      resolveImageUrl('//m.media-amazon.com/images/I/71abc.jpg', 'https://www.amazon.de/')
+    ).toBe('https://m.media-amazon.com/images/I/71abc.jpg');
+  });
+
+  it('should skip placeholders and empty sources', () => {
+    expect(resolveImageUrl('data:image/gif;base64,R0lGOD', 'https://www.amazon.de/')).toBe('');
+    expect(resolveImageUrl(' ', 'https://www.amazon.de/')).toBe('');
+    expect(resolveImageUrl('javascript:void(0)', 'https://www.amazon.de/')).toBe('');
+  });
+});
+
+describe('getThumbnailUrl', () => {
+  it('should replace the size modifiers', () => {
+    expect(getThumbnailUrl('https://m.media-amazon.com/images/I/71abc+L._AC_SX300_.jpg')).toBe(
+      'https://m.media-amazon.com/images/I/71abc+L._SL160_.jpg'
+    );
+    expect(getThumbnailUrl('https://m.media-amazon.com/images/I/71abc.png', 100)).toBe(
+      'https://m.media-amazon.com/images/I/71abc._SL100_.png'
+    );
+  });
+
+  it('should keep other URLs', () => {
+    expect(getThumbnailUrl('https://example.com/image.jpg')).toBe('https://example.com/image.jpg');
+  });
+});
+
 describe('extractAsinFromUrl', () => {
   it('should extract ASIN from /dp/ URL', () => {
     expect(extractAsinFromUrl('https://www.amazon.de/dp/B08N5WRWNW')).toBe('B08N5WRWNW');
@@ -133,6 +257,24 @@ describe('extractAsinFromUrl', () => {
   });
 });
 
+describe('getMarketplaceFromUrl', () => {
+  it('should return the marketplace domain', () => {
+    expect(getMarketplaceFromUrl('https://www.amazon.de/your-orders/orders')).toBe('amazon.de');
+    expect(getMarketplaceFromUrl('https://www.amazon.co.uk/your-orders')).toBe('amazon.co.uk');
+  });
+
+  it('should prefer the longest matching domain', () => {
+    expect(getMarketplaceFromUrl('https://www.amazon.com.au/your-orders')).toBe('amazon.com.au');
+    expect(getMarketplaceFromUrl('https://www.amazon.com.be/your-orders')).toBe('amazon.com.be');
+    expect(getMarketplaceFromUrl('https://www.amazon.com/your-orders')).toBe('amazon.com');
+  });
+
+  it('should return empty string for non-Amazon or invalid URLs', () => {
+    expect(getMarketplaceFromUrl('https://www.ebay.com/your-orders')).toBe('');
+    expect(getMarketplaceFromUrl('not-a-url')).toBe('');
+  });
+});
+
 describe('constants', () => {
   it('should have supported Amazon domains', () => {
     expect(AMAZON_DOMAINS).toContain('amazon.com');
@@ -144,5 +286,6 @@ describe('constants', () => {
   it('should have order paths', () => {
     expect(ORDER_PATHS).toContain('/your-orders');
     expect(ORDER_PATHS).toContain('/gp/your-account/order-history');
+    expect(ORDER_PATHS).toContain('/gp/digital/your-account');
   });
 });
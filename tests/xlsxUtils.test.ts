@@ -0,0 +1,394 @@
+import { describe, it, expect } from 'vitest';
+import { escapeXML, getColumnName, toExcelDate, convertOrdersToXLSX } from '../src/utils/xlsxUtils';
+import { createEmptyCostBreakdown } from '../src/utils/costBreakdownUtils';
+import type { Order, Subscription } from '../src/types';
+
+/**
+ * Read stored entries back from a ZIP archive via its local file headers
+ */
+const readZip = (zip: Uint8Array): Map<string, string> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const dataStart = offset + 30 + nameLength;
+    entries.set(name, decoder.decode(zip.subarray(dataStart, dataStart + size)));
+    offset = dataStart + size;
+  }
+  return entries;
+};
+
+const createOrder = (overrides: Partial<Order> = {}): Order => ({
+  orderId: '302-1234567-1234567',
+  orderDate: '2024-03-15',
+  orderType: 'physical',
+  totalAmount: { amount: 4250, currency: 'EUR' },
+  netAmount: { amount: 4250, currency: 'EUR' },
+  items: [
+    {
+      title: 'USB Cable',
+      asin: 'B000000001',
+      quantity: 2,
+      unitPrice: { amount: 625, currency: 'EUR' },
+      lineTotal: { amount: 1250, currency: 'EUR' },
+      allocatedDiscount: { amount: 0, currency: 'EUR' },
+      netLineTotal: { amount: 1250, currency: 'EUR' },
+      itemUrl: 'https://amazon.de/dp/B000000001',
+      imageUrl: '',
+      seller: '',
+      fulfilledByAmazon: null,
+      product: null,
+    },
+    {
+      title: 'Desk Lamp & Bulb',
+      asin: 'B000000002',
+      quantity: 1,
+      unitPrice: { amount: 3500, currency: 'EUR' },
+      lineTotal: { amount: 3500, currency: 'EUR' },
+      allocatedDiscount: { amount: 0, currency: 'EUR' },
+      netLineTotal: { amount: 3500, currency: 'EUR' },
+      itemUrl: 'https://amazon.de/dp/B000000002',
+      imageUrl: '',
+      seller: '',
+      fulfilledByAmazon: null,
+      product: null,
+    },
+  ],
+  orderStatus: 'Delivered',
+  detailsUrl: 'https://amazon.de/order-details/302',
+  promotions: [
+    {
+      description: 'Coupon',
+      amount: { amount: 500, currency: 'EUR' },
+      asin: '',
+      kind: 'coupon',
+      confidence: 1,
+    },
+  ],
+  totalSavings: { amount: 500, currency: 'EUR' },
+  costBreakdown: null,
+  payments: null,
+  shipments: [
+    {
+      items: [
+        { asin: 'B000000001', title: 'USB Cable', quantity: 2 },
+        { asin: 'B000000002', title: 'Desk Lamp & Bulb', quantity: 1 },
+      ],
+      status: 'delivered',
+      statusText: 'Delivered 18 March',
+      shippedDate: '2024-03-16',
+      deliveredDate: '2024-03-18',
+      carrier: 'DHL',
+      trackingId: '00340434161234567890',
+    },
+  ],
+  refunds: [],
+  subscribeAndSave: false,
+  detailsStatus: 'enriched',
+  ...overrides,
+});
+
+describe('escapeXML', () => {
+  it('should escape markup and quotes', () => {
+    expect(escapeXML('<a href="x">&</a>')).toBe('&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;');
+  });
+
+  it('should remove control characters', () => {
+    expect(escapeXML('a\u0001b')).toBe('ab');
+  });
+});
+
+describe('getColumnName', () => {
+  it('should convert indexes to column names', () => {
+    expect(getColumnName(0)).toBe('A');
+    expect(getColumnName(25)).toBe('Z');
+    expect(getColumnName(26)).toBe('AA');
+    expect(getColumnName(701)).toBe('ZZ');
+    expect(getColumnName(702)).toBe('AAA');
+  });
+});
+
+describe('toExcelDate', () => {
+  it('should convert ISO dates to serial numbers', () => {
+    expect(toExcelDate('1900-03-01')).toBe(61);
+    expect(toExcelDate('2024-01-15')).toBe(45306);
+  });
+
+  it('should return null for invalid dates', () => {
+    expect(toExcelDate('')).toBeNull();
+    expect(toExcelDate('15.01.2024')).toBeNull();
+  });
+});
+
+describe('convertOrdersToXLSX', () => {
+  const modified = new Date(2024, 3, 1);
+
+  it('should contain the workbook parts', () => {
+    const entries = readZip(convertOrdersToXLSX([createOrder()], undefined, modified));
+    expect([...entries.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+      'xl/worksheets/sheet3.xml',
+      'xl/worksheets/sheet4.xml',
+      'xl/worksheets/sheet5.xml',
+      'xl/worksheets/sheet6.xml',
+      'xl/worksheets/sheet7.xml',
+      'xl/worksheets/sheet8.xml',
+    ]);
+  });
+
+  it('should name sheets using the header function', () => {
+    const getHeader = (key: string) => key.replace('xlsxSheet', '');
+    const entries = readZip(convertOrdersToXLSX([createOrder()], getHeader, modified));
+    const workbook = entries.get('xl/workbook.xml');
+    expect(workbook).toContain('<sheet name="Orders" sheetId="1" r:id="rId1"/>');
+    expect(workbook).toContain('<sheet name="Items" sheetId="2" r:id="rId2"/>');
+    expect(workbook).toContain('<sheet name="Promotions" sheetId="3" r:id="rId3"/>');
+    expect(workbook).toContain('<sheet name="Shipments" sheetId="4" r:id="rId4"/>');
+    expect(workbook).toContain('<sheet name="Payments" sheetId="5" r:id="rId5"/>');
+    expect(workbook).toContain('<sheet name="Refunds" sheetId="6" r:id="rId6"/>');
+    expect(workbook).toContain('<sheet name="Subscriptions" sheetId="7" r:id="rId7"/>');
+    expect(workbook).toContain('<sheet name="SubscriptionCharges" sheetId="8" r:id="rId8"/>');
+  });
+
+  it('should reuse the CSV header keys', () => {
+    const entries = readZip(convertOrdersToXLSX([createOrder()], undefined, modified));
+    expect(entries.get('xl/worksheets/sheet1.xml')).toContain('<t>csvHeaderOrderId</t>');
+    expect(entries.get('xl/worksheets/sheet2.xml')).toContain('<t>csvHeaderItemTitle</t>');
+  });
+
+  it('should freeze the header row', () => {
+    const entries = readZip(convertOrdersToXLSX([createOrder()], undefined, modified));
+    expect(entries.get('xl/worksheets/sheet1.xml')).toContain(
+      '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>'
+    );
+  });
+
+  it('should store dates and amounts as formatted numbers', () => {
+    const entries = readZip(convertOrdersToXLSX([createOrder()], undefined, modified));
+    const orders = entries.get('xl/worksheets/sheet1.xml');
+    expect(orders).toContain('<c r="B2" s="2"><v>45366</v></c>');
+    expect(orders).toContain('<c r="C2" s="3"><v>42.5</v></c>');
+    expect(entries.get('xl/styles.xml')).toContain('formatCode="#,##0.00 &quot;EUR&quot;"');
+  });
+
+  it('should write one item row per item and one row per promotion', () => {
+    const entries = readZip(convertOrdersToXLSX([createOrder()], undefined, modified));
+    const items = entries.get('xl/worksheets/sheet2.xml') || '';
+    expect(items.match(/<row /g)?.length).toBe(3);
+    expect(items).toContain('Desk Lamp &amp; Bulb');
+    expect(items).toContain('<c r="E2" s="3"><v>6.25</v></c>');
+    expect(items).toContain('<c r="F2" s="3"><v>12.5</v></c>');
+    expect(items).toContain('<c r="H2" s="3"><v>12.5</v></c>');
+    const promotions = entries.get('xl/worksheets/sheet3.xml') || '';
+    expect(promotions.match(/<row /g)?.length).toBe(2);
+    expect(promotions).toContain('<c r="C2" s="3"><v>5</v></c>');
+    expect(promotions).toContain('<t xml:space="preserve">coupon</t>');
+    expect(promotions).toContain('<c r="G2"><v>1</v></c>');
+  });
+
+  it('should write one shipment row per package with dates and items', () => {
+    const entries = readZip(convertOrdersToXLSX([createOrder()], undefined, modified));
+    const shipments = entries.get('xl/worksheets/sheet4.xml') || '';
+    expect(shipments.match(/<row /g)?.length).toBe(2);
+    expect(shipments).toContain('<t xml:space="preserve">delivered</t>');
+    expect(shipments).toContain('<c r="E2" s="2"><v>45369</v></c>');
+    expect(shipments).toContain('00340434161234567890');
+    expect(shipments).toContain('2 x USB Cable; Desk Lamp &amp; Bulb');
+  });
+
+  it('should leave missing shipment dates empty', () => {
+    const order = createOrder();
+    order.shipments = [{ ...order.shipments[0]!, status: 'in_transit', deliveredDate: '' }];
+    const entries = readZip(convertOrdersToXLSX([order], undefined, modified));
+    expect(entries.get('xl/worksheets/sheet4.xml')).not.toContain('r="E2"');
+  });
+
+  it('should write one payment row per charge and per instrument without charges', () => {
+    const payments = {
+      instruments: [
+        {
+          type: 'card' as const,
+          name: 'Visa',
+          lastDigits: '1234',
+          amount: { amount: 3550, currency: 'EUR' },
+        },
+        {
+          type: 'gift_card' as const,
+          name: 'Gift card',
+          lastDigits: '',
+          amount: { amount: 1000, currency: 'EUR' },
+        },
+      ],
+      transactions: [
+        {
+          date: '2024-03-16',
+          name: 'Visa',
+          lastDigits: '1234',
+          amount: { amount: 3550, currency: 'EUR' },
+        },
+      ],
+    };
+    const entries = readZip(convertOrdersToXLSX([createOrder({ payments })], undefined, modified));
+    const rows = entries.get('xl/worksheets/sheet5.xml') || '';
+    expect(rows.match(/<row /g)?.length).toBe(3);
+    expect(rows).toContain('Visa ****1234');
+    expect(rows).toContain('<c r="D2" s="2"><v>45367</v></c>');
+    expect(rows).toContain('<t xml:space="preserve">gift_card</t>');
+    expect(rows).not.toContain('r="D3"');
+    expect(rows).toContain('<c r="E3" s="3"><v>10</v></c>');
+  });
+
+  it('should write net and refunded amounts after the total', () => {
+    const order = createOrder({
+      netAmount: { amount: 2951, currency: 'EUR' },
+      refunds: [
+        {
+          items: [],
+          amount: { amount: 1299, currency: 'EUR' },
+          date: '2024-03-20',
+          method: 'Visa ****1234',
+        },
+      ],
+    });
+    const orders = readZip(convertOrdersToXLSX([order], undefined, modified)).get(
+      'xl/worksheets/sheet1.xml'
+    );
+    expect(orders).toContain('<c r="D2" s="3"><v>29.51</v></c>');
+    expect(orders).toContain('<c r="E2" s="3"><v>12.99</v></c>');
+  });
+
+  it('should list refunds with their items', () => {
+    const order = createOrder({
+      refunds: [
+        {
+          items: [{ asin: 'B000000001', title: 'USB Cable', quantity: 2 }],
+          amount: { amount: 1299, currency: 'EUR' },
+          date: '2024-03-20',
+          method: 'Visa ****1234',
+        },
+      ],
+    });
+    const rows = readZip(convertOrdersToXLSX([order], undefined, modified)).get(
+      'xl/worksheets/sheet6.xml'
+    );
+    expect(rows?.match(/<row /g)?.length).toBe(2);
+    expect(rows).toContain('<c r="B2" s="2"><v>45371</v></c>');
+    expect(rows).toContain('<c r="C2" s="3"><v>12.99</v></c>');
+    expect(rows).toContain('Visa ****1234');
+    expect(rows).toContain('2 x USB Cable');
+  });
+
+  it('should list subscriptions and their charges', () => {
+    const subscription: Subscription = {
+      name: 'Coffee Beans',
+      kind: 'subscribe_and_save',
+      asin: 'B000000003',
+      cadence: { count: 2, unit: 'month' },
+      price: { amount: 1499, currency: 'USD' },
+      nextChargeDate: '2024-05-01',
+      charges: [
+        { date: '2024-03-01', amount: { amount: 1499, currency: 'USD' }, orderId: '111-1' },
+      ],
+      url: 'https://www.amazon.com/dp/B000000003',
+    };
+    const entries = readZip(
+      convertOrdersToXLSX([createOrder()], undefined, modified, [subscription])
+    );
+    const subscriptions = entries.get('xl/worksheets/sheet7.xml');
+    expect(subscriptions).toContain('Coffee Beans');
+    expect(subscriptions).toContain('2 months');
+    expect(subscriptions).toContain('<c r="E2" s="4"><v>14.99</v></c>');
+    expect(subscriptions).toContain('<c r="G2" s="2"><v>45413</v></c>');
+    const charges = entries.get('xl/worksheets/sheet8.xml');
+    expect(charges?.match(/<row /g)?.length).toBe(2);
+    expect(charges).toContain('<c r="B2" s="2"><v>45352</v></c>');
+    expect(charges).toContain('<c r="C2" s="4"><v>14.99</v></c>');
+    expect(charges).toContain('111-1');
+  });
+
+  it('should write the order summary after the savings', () => {
+    const costBreakdown = {
+      ...createEmptyCostBreakdown('EUR'),
+      tax: { amount: 679, currency: 'EUR' },
+      taxRate: 19,
+    };
+    const entries = readZip(
+      convertOrdersToXLSX([createOrder({ costBreakdown })], undefined, modified)
+    );
+    const orders = entries.get('xl/worksheets/sheet1.xml') || '';
+    expect(orders).toContain('<t>csvHeaderTax</t>');
+    expect(orders).toContain('<c r="H2" s="3"><v>0</v></c>');
+    expect(orders).toContain('<c r="L2" s="3"><v>6.79</v></c>');
+    expect(orders).toContain('<c r="P2"><v>19</v></c>');
+  });
+
+  it('should leave the order summary empty without details', () => {
+    const entries = readZip(convertOrdersToXLSX([createOrder()], undefined, modified));
+    expect(entries.get('xl/worksheets/sheet1.xml')).not.toContain('r="H2"');
+  });
+
+  it('should use one currency format per currency', () => {
+    const entries = readZip(
+      convertOrdersToXLSX(
+        [
+          createOrder(),
+          createOrder({
+            orderId: '111-1111111-1111111',
+            totalAmount: { amount: 4250, currency: 'USD' },
+          }),
+        ],
+        undefined,
+        modified
+      )
+    );
+    const styles = entries.get('xl/styles.xml');
+    expect(styles).toContain('&quot;EUR&quot;');
+    expect(styles).toContain('&quot;USD&quot;');
+    expect(entries.get('xl/worksheets/sheet1.xml')).toContain('<c r="C3" s="4"><v>42.5</v></c>');
+  });
+
+  it('should add formats for currencies only used by refunds and payments', () => {
+    const order = createOrder({
+      refunds: [
+        {
+          items: [],
+          amount: { amount: 1299, currency: 'USD' },
+          date: '2024-03-20',
+          method: 'Visa ****1234',
+        },
+      ],
+      payments: {
+        instruments: [],
+        transactions: [
+          {
+            date: '2024-03-16',
+            name: 'Visa',
+            lastDigits: '1234',
+            amount: { amount: 4000, currency: 'GBP' },
+          },
+        ],
+      },
+    });
+    const entries = readZip(convertOrdersToXLSX([order], undefined, modified));
+    const styles = entries.get('xl/styles.xml');
+    expect(styles).toContain('&quot;GBP&quot;');
+    expect(styles).toContain('&quot;USD&quot;');
+    expect(entries.get('xl/worksheets/sheet5.xml')).toContain('<c r="E2" s="4"><v>40</v></c>');
+    expect(entries.get('xl/worksheets/sheet6.xml')).toContain('<c r="C2" s="5"><v>12.99</v></c>');
+  });
+
+  it('should create empty sheets with headers for no orders', () => {
+    const entries = readZip(convertOrdersToXLSX([], undefined, modified));
+    expect(entries.get('xl/worksheets/sheet1.xml')).toContain('<autoFilter ref="A1:S1"/>');
+  });
+});
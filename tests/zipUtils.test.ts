@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, encodeBase64 } from '../src/utils/zipUtils';
+
+/**
+ * Read stored entries back from a ZIP archive via its local file headers
+ */
+const readZip = (zip: Uint8Array): Map<string, string> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const dataStart = offset + 30 + nameLength;
+    entries.set(name, decoder.decode(zip.subarray(dataStart, dataStart + size)));
+    offset = dataStart + size;
+  }
+  return entries;
+};
+
+describe('crc32', () => {
+  it('should calculate the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should return 0 for empty data', () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('should store string and binary entries', () => {
+    const zip = createZip([
+      { name: 'hello.txt', data: 'Hello, Wörld' },
+      { name: 'dir/data.bin', data: new Uint8Array([65, 66, 67]) },
+    ]);
+    const entries = readZip(zip);
+    expect(entries.get('hello.txt')).toBe('Hello, Wörld');
+    expect(entries.get('dir/data.bin')).toBe('ABC');
+  });
+
+  it('should end with a central directory listing all entries', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: 'a' },
+      { name: 'b.txt', data: 'b' },
+    ]);
+    const view = new DataView(zip.buffer);
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  });
+
+  it('should store the checksum of each entry', () => {
+    const zip = createZip([{ name: 'check.txt', data: '123456789' }]);
+    expect(new DataView(zip.buffer).getUint32(14, true)).toBe(0xcbf43926);
+  });
+
+  it('should create a valid empty archive', () => {
+    const zip = createZip([]);
+    expect(zip.length).toBe(22);
+    expect(new DataView(zip.buffer).getUint32(0, true)).toBe(0x06054b50);
+  });
+});
+
+describe('encodeBase64', () => {
+  it('should encode bytes as base64', () => {
+    expect(encodeBase64(new Uint8Array([72, 105, 33]))).toBe('SGkh');
+  });
+
+  it('should encode large data', () => {
+    const data = new Uint8Array(100000).fill(255);
+    const encoded = encodeBase64(data);
+    expect(Buffer.from(encoded, 'base64').length).toBe(100000);
+  });
+});